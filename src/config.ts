@@ -1,13 +1,15 @@
 /**
  * Open-Mem Configuration Loader
  *
- * Loads settings from ~/.open-mem/settings.json, applies environment variable
- * overrides, validates values, and returns a frozen WorkerConfig.
+ * Loads settings.json from the data directory (C_MEM_DATA_DIR, default
+ * ~/.open-mem — the directory holding the database and backups), applies
+ * environment variable overrides, validates values, and returns a frozen
+ * WorkerConfig.
  *
  * Security requirements applied:
  * - Default host is always 127.0.0.1 (never 0.0.0.0)
  * - Port must be in range 1024–65535
- * - Model must be a valid Anthropic model name
+ * - Model must be one the provider lists (Anthropic ids by default)
  *
  * @module config
  */
@@ -15,13 +17,29 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync, chmodSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
-import type { WorkerConfig } from "./types.js";
+import type {
+  BackupPolicy,
+  BatchingPolicy,
+  CompressionCachePolicy,
+  LlmBudget,
+  LlmPrice,
+  UsagePolicy,
+  LlmPolicy,
+  LlmProviderSettings,
+  RankingOverride,
+  RankingPolicy,
+  RetentionPolicy,
+  SummarizationPolicy,
+  WorkerConfig,
+} from "./types.js";
+import { DEFAULT_RANKING } from "./storage/ranking.js";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-/** All valid Anthropic model identifiers (update as new models ship) */
-const VALID_MODELS = new Set([
+/** Anthropic model identifiers — the built-in "anthropic" provider's model list (update as new models ship) */
+const ANTHROPIC_MODELS = [
   "claude-haiku-3-5",
+  "claude-haiku-4-5",
   "claude-3-5-haiku-20241022",
   "claude-sonnet-4-5",
   "claude-sonnet-4-6",
@@ -29,7 +47,22 @@ const VALID_MODELS = new Set([
   "claude-opus-4-5",
   "claude-3-opus-20240229",
   "claude-3-haiku-20240307",
-]);
+];
+
+const LLM_PROVIDER_TYPES = new Set(["anthropic", "openai", "none"]);
+
+/** Anthropic list prices, USD per million tokens */
+const ANTHROPIC_PRICES: Record<string, LlmPrice> = {
+  "claude-haiku-3-5": { input: 0.8, output: 4 },
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-sonnet-4-6": { input: 3, output: 15 },
+  "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+  "claude-opus-4-5": { input: 5, output: 25 },
+  "claude-3-opus-20240229": { input: 15, output: 75 },
+  "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+};
 
 /** The default settings written on first run */
 const DEFAULTS: WorkerConfig = {
@@ -41,8 +74,61 @@ const DEFAULTS: WorkerConfig = {
   maxSessionsPerContext: 10,
   maxRetries: 3,
   stuckThresholdMs: 300_000, // 5 minutes
+  retention: {
+    enabled: true,
+    intervalMs: 6 * 60 * 60 * 1000, // 6 hours
+    observationMaxAgeDays: {}, // keep observations forever unless configured
+    maxObservationsPerProject: null,
+    summaryMaxAgeDays: null,
+    processedQueueMaxAgeDays: 7,
+    failedQueueMaxAgeDays: 30,
+  },
+  backup: {
+    enabled: true,
+    intervalMs: 24 * 60 * 60 * 1000, // daily
+    keep: 7,
+  },
+  ranking: DEFAULT_RANKING,
+  llm: {
+    provider: "anthropic",
+    providers: {
+      anthropic: {
+        type: "anthropic",
+        model: null,
+        models: ANTHROPIC_MODELS,
+        timeoutMs: 30_000,
+        budgetModel: "claude-3-haiku-20240307",
+      },
+      none: { type: "none", model: null, models: [], timeoutMs: 30_000 },
+    },
+    projects: {},
+  },
+  batching: {
+    enabled: false,
+    maxItems: 10,
+    windowMs: 1_500,
+  },
+  compressionCache: {
+    enabled: true,
+    ttlDays: 7,
+    maxEntries: 5_000,
+  },
+  usage: {
+    prices: ANTHROPIC_PRICES,
+    budget: { dailyUsd: null, monthlyUsd: null },
+    projects: {},
+    onExceeded: "downgrade",
+  },
+  summarization: {
+    chunkTokens: 6_000,
+    checkpointEvery: 20,
+    checkpointMinutes: 15,
+  },
 };
 
+/** Timeout for providers defined in settings.json without one (local servers can be slow) */
+const DEFAULT_PROVIDER_TIMEOUT_MS = 60_000;
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 /**
@@ -59,15 +145,15 @@ function validatePort(port: number, source: string): number {
 }
 
 /**
- * Validate that a model name is a known Anthropic model.
- * Accepts both short aliases and full API identifiers.
+ * Validate that a model name is in a provider's model list (an empty list
+ * accepts any model). Anthropic accepts both short aliases and full API identifiers.
  * @throws Error if model is not recognized
  */
-function validateModel(model: string, source: string): string {
-  if (!VALID_MODELS.has(model)) {
+function validateModel(model: string, source: string, models: string[]): string {
+  if (models.length > 0 && !models.includes(model)) {
     throw new Error(
       `Unknown model "${model}" from ${source}. ` +
-        `Valid models: ${[...VALID_MODELS].join(", ")}`
+        `Valid models: ${models.join(", ")}`
     );
   }
   return model;
@@ -88,6 +174,467 @@ function validateHost(host: string, source: string): string {
   return host;
 }
 
+/** Longest timer delay; setInterval clamps anything above it to 1 ms */
+const MAX_INTERVAL_MS = 2_147_483_647;
+
+/**
+ * Validate a retention limit: null disables the rule, otherwise a positive number.
+ * @throws Error if the value is neither null nor a positive finite number
+ */
+function validateLimit(value: unknown, field: string): number | null {
+  if (value === null) return null;
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new Error(
+      `Invalid retention.${field} ${JSON.stringify(value)} from settings.json. ` +
+        `Must be a positive number or null.`
+    );
+  }
+  return value;
+}
+
+/**
+ * Validate retention.intervalMs: a positive number a timer can wait for.
+ * @throws Error if the value is not a positive number up to MAX_INTERVAL_MS
+ */
+function validateRetentionInterval(value: unknown): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0 || value > MAX_INTERVAL_MS) {
+    throw new Error(
+      `Invalid retention.intervalMs ${JSON.stringify(value)} from settings.json. ` +
+        `Must be a positive number of at most ${MAX_INTERVAL_MS} (about 24.8 days).`
+    );
+  }
+  return value;
+}
+
+/**
+ * Merge the "retention" block from settings.json over the defaults.
+ * Missing keys fall back to defaults; present keys are validated.
+ * @throws Error on malformed values
+ */
+function validateRetention(raw: Partial<RetentionPolicy> | undefined): RetentionPolicy {
+  const defaults = DEFAULTS.retention;
+  if (raw === undefined) return { ...defaults, observationMaxAgeDays: {} };
+
+  if ("enabled" in raw && typeof raw.enabled !== "boolean") {
+    throw new Error(
+      `Invalid retention.enabled ${JSON.stringify(raw.enabled)} from settings.json. Must be a boolean.`
+    );
+  }
+
+  const pick = (field: keyof RetentionPolicy & string, fallback: number | null) =>
+    field in raw ? validateLimit(raw[field], field) : fallback;
+
+  const observationMaxAgeDays: Record<string, number> = {};
+  for (const [type, days] of Object.entries(raw.observationMaxAgeDays ?? {})) {
+    const limit = validateLimit(days, `observationMaxAgeDays.${type}`);
+    if (limit !== null) observationMaxAgeDays[type] = limit;
+  }
+
+  const intervalMs =
+    raw.intervalMs == null ? defaults.intervalMs : validateRetentionInterval(raw.intervalMs);
+
+  return {
+    enabled: raw.enabled ?? defaults.enabled,
+    intervalMs,
+    observationMaxAgeDays,
+    maxObservationsPerProject: pick(
+      "maxObservationsPerProject",
+      defaults.maxObservationsPerProject
+    ),
+    summaryMaxAgeDays: pick("summaryMaxAgeDays", defaults.summaryMaxAgeDays),
+    processedQueueMaxAgeDays: pick(
+      "processedQueueMaxAgeDays",
+      defaults.processedQueueMaxAgeDays
+    ),
+    failedQueueMaxAgeDays: pick("failedQueueMaxAgeDays", defaults.failedQueueMaxAgeDays),
+  };
+}
+
+/**
+ * Merge the "backup" block from settings.json over the defaults.
+ * @throws Error on malformed values
+ */
+function validateBackup(raw: Partial<BackupPolicy> | undefined): BackupPolicy {
+  const defaults = DEFAULTS.backup;
+  if (raw === undefined) return { ...defaults };
+
+  if ("enabled" in raw && typeof raw.enabled !== "boolean") {
+    throw new Error(
+      `Invalid backup.enabled ${JSON.stringify(raw.enabled)} from settings.json. Must be a boolean.`
+    );
+  }
+  const intervalMs = raw.intervalMs ?? defaults.intervalMs;
+  if (
+    typeof intervalMs !== "number" ||
+    !Number.isFinite(intervalMs) ||
+    intervalMs <= 0 ||
+    intervalMs > MAX_INTERVAL_MS
+  ) {
+    throw new Error(
+      `Invalid backup.intervalMs ${JSON.stringify(intervalMs)} from settings.json. ` +
+        `Must be a positive number of at most ${MAX_INTERVAL_MS} (about 24.8 days).`
+    );
+  }
+  const keep = raw.keep ?? defaults.keep;
+  if (!Number.isInteger(keep) || keep < 1) {
+    throw new Error(
+      `Invalid backup.keep ${JSON.stringify(keep)} from settings.json. ` +
+        `Must be an integer of at least 1.`
+    );
+  }
+
+  return { enabled: raw.enabled ?? defaults.enabled, intervalMs, keep };
+}
+
+/** Upper bound for batching.maxItems — keeps one prompt within a model's context */
+const MAX_BATCH_ITEMS = 50;
+
+/**
+ * Merge the "batching" block from settings.json over the defaults.
+ * @throws Error on malformed values
+ */
+function validateBatching(raw: Partial<BatchingPolicy> | undefined): BatchingPolicy {
+  const defaults = DEFAULTS.batching;
+  if (raw === undefined) return { ...defaults };
+
+  if ("enabled" in raw && typeof raw.enabled !== "boolean") {
+    throw new Error(
+      `Invalid batching.enabled ${JSON.stringify(raw.enabled)} from settings.json. Must be a boolean.`
+    );
+  }
+  const maxItems = raw.maxItems ?? defaults.maxItems;
+  if (!Number.isInteger(maxItems) || maxItems < 1 || maxItems > MAX_BATCH_ITEMS) {
+    throw new Error(
+      `Invalid batching.maxItems ${JSON.stringify(maxItems)} from settings.json. ` +
+        `Must be an integer between 1 and ${MAX_BATCH_ITEMS}.`
+    );
+  }
+  const windowMs = raw.windowMs ?? defaults.windowMs;
+  if (typeof windowMs !== "number" || !Number.isFinite(windowMs) || windowMs < 0) {
+    throw new Error(
+      `Invalid batching.windowMs ${JSON.stringify(windowMs)} from settings.json. ` +
+        `Must be a non-negative number.`
+    );
+  }
+
+  return { enabled: raw.enabled ?? defaults.enabled, maxItems, windowMs };
+}
+
+/**
+ * Merge the "compressionCache" block from settings.json over the defaults.
+ * @throws Error on malformed values
+ */
+function validateCompressionCache(
+  raw: Partial<CompressionCachePolicy> | undefined
+): CompressionCachePolicy {
+  const defaults = DEFAULTS.compressionCache;
+  if (raw === undefined) return { ...defaults };
+
+  if ("enabled" in raw && typeof raw.enabled !== "boolean") {
+    throw new Error(
+      `Invalid compressionCache.enabled ${JSON.stringify(raw.enabled)} from settings.json. Must be a boolean.`
+    );
+  }
+  const ttlDays = raw.ttlDays ?? defaults.ttlDays;
+  if (typeof ttlDays !== "number" || !Number.isFinite(ttlDays) || ttlDays <= 0) {
+    throw new Error(
+      `Invalid compressionCache.ttlDays ${JSON.stringify(ttlDays)} from settings.json. ` +
+        `Must be a positive number.`
+    );
+  }
+  const maxEntries = raw.maxEntries ?? defaults.maxEntries;
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new Error(
+      `Invalid compressionCache.maxEntries ${JSON.stringify(maxEntries)} from settings.json. ` +
+        `Must be an integer of at least 1.`
+    );
+  }
+
+  return { enabled: raw.enabled ?? defaults.enabled, ttlDays, maxEntries };
+}
+
+/** Bounds for summarization.chunkTokens — big enough for a few observations, small enough for any model */
+const MIN_CHUNK_TOKENS = 500;
+const MAX_CHUNK_TOKENS = 100_000;
+/** Upper bound for summarization.checkpointMinutes (one day) */
+const MAX_CHECKPOINT_MINUTES = 1_440;
+
+/**
+ * Merge the "summarization" block from settings.json over the defaults.
+ * @throws Error on malformed values
+ */
+function validateSummarization(raw: Partial<SummarizationPolicy> | undefined): SummarizationPolicy {
+  const defaults = DEFAULTS.summarization;
+  if (raw === undefined) return { ...defaults };
+
+  const chunkTokens = raw.chunkTokens ?? defaults.chunkTokens;
+  if (!Number.isInteger(chunkTokens) || chunkTokens < MIN_CHUNK_TOKENS || chunkTokens > MAX_CHUNK_TOKENS) {
+    throw new Error(
+      `Invalid summarization.chunkTokens ${JSON.stringify(chunkTokens)} from settings.json. ` +
+        `Must be an integer between ${MIN_CHUNK_TOKENS} and ${MAX_CHUNK_TOKENS}.`
+    );
+  }
+
+  const checkpointEvery =
+    raw.checkpointEvery === undefined ? defaults.checkpointEvery : raw.checkpointEvery;
+  if (checkpointEvery !== null && (!Number.isInteger(checkpointEvery) || checkpointEvery < 1)) {
+    throw new Error(
+      `Invalid summarization.checkpointEvery ${JSON.stringify(checkpointEvery)} from settings.json. ` +
+        `Must be a positive integer or null.`
+    );
+  }
+
+  const checkpointMinutes =
+    raw.checkpointMinutes === undefined ? defaults.checkpointMinutes : raw.checkpointMinutes;
+  if (
+    checkpointMinutes !== null &&
+    (!Number.isInteger(checkpointMinutes) || checkpointMinutes < 1 || checkpointMinutes > MAX_CHECKPOINT_MINUTES)
+  ) {
+    throw new Error(
+      `Invalid summarization.checkpointMinutes ${JSON.stringify(checkpointMinutes)} from settings.json. ` +
+        `Must be an integer between 1 and ${MAX_CHECKPOINT_MINUTES}, or null.`
+    );
+  }
+
+  return { chunkTokens, checkpointEvery, checkpointMinutes };
+}
+
+/**
+ * Validate one "ranking" block (top level or a per-project override).
+ * Only keys that are present are returned.
+ * @throws Error on malformed values
+ */
+function validateRankingOverride(raw: RankingOverride, source: string): RankingOverride {
+  const positive = (value: unknown, field: string, allowZero: boolean): number => {
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      value < 0 ||
+      (!allowZero && value === 0)
+    ) {
+      throw new Error(
+        `Invalid ${source}.${field} ${JSON.stringify(value)} from settings.json. ` +
+          `Must be a ${allowZero ? "non-negative" : "positive"} number.`
+      );
+    }
+    return value;
+  };
+
+  const out: RankingOverride = {};
+  if (raw.weights !== undefined) {
+    out.weights = {};
+    for (const key of ["bm25", "semantic", "type", "recency"] as const) {
+      if (key in raw.weights) out.weights[key] = positive(raw.weights[key], `weights.${key}`, true);
+    }
+  }
+  if ("halfLifeDays" in raw) out.halfLifeDays = positive(raw.halfLifeDays, "halfLifeDays", false);
+  if ("rrfK" in raw) out.rrfK = positive(raw.rrfK, "rrfK", false);
+  return out;
+}
+
+/**
+ * Merge the "ranking" block from settings.json over the defaults.
+ * Per-project overrides are validated but stay partial — they are merged
+ * at query time by resolveRanking() in storage/ranking.ts.
+ * @throws Error on malformed values
+ */
+function validateRanking(raw: Partial<RankingPolicy> | undefined): RankingPolicy {
+  const defaults = DEFAULTS.ranking;
+  if (raw === undefined) return { ...defaults, weights: { ...defaults.weights }, projects: {} };
+
+  const top = validateRankingOverride(raw, "ranking");
+  const projects: Record<string, RankingOverride> = {};
+  for (const [project, override] of Object.entries(raw.projects ?? {})) {
+    projects[project] = validateRankingOverride(override, `ranking.projects.${project}`);
+  }
+
+  return {
+    weights: { ...defaults.weights, ...top.weights },
+    halfLifeDays: top.halfLifeDays ?? defaults.halfLifeDays,
+    rrfK: top.rrfK ?? defaults.rrfK,
+    projects,
+  };
+}
+
+/**
+ * Validate one provider definition. Entries named like a built-in provider
+ * ("anthropic", "none") are merged over it; others must give a type.
+ * @throws Error on malformed values
+ */
+function validateProvider(
+  name: string,
+  raw: Partial<LlmProviderSettings>,
+  builtin: LlmProviderSettings | undefined
+): LlmProviderSettings {
+  const source = `llm.providers.${name}`;
+  const fail = (field: string, value: unknown, expected: string): never => {
+    throw new Error(
+      `Invalid ${source}.${field} ${JSON.stringify(value)} from settings.json. ${expected}`
+    );
+  };
+
+  const type = raw.type ?? builtin?.type;
+  if (typeof type !== "string" || !LLM_PROVIDER_TYPES.has(type)) {
+    fail("type", type, `Must be one of: ${[...LLM_PROVIDER_TYPES].join(", ")}.`);
+  }
+
+  const models = raw.models ?? builtin?.models ?? [];
+  if (!Array.isArray(models) || models.some((m) => typeof m !== "string" || m === "")) {
+    fail("models", models, "Must be an array of model ids.");
+  }
+
+  const timeoutMs = raw.timeoutMs ?? builtin?.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS;
+  if (typeof timeoutMs !== "number" || !Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    fail("timeoutMs", timeoutMs, "Must be a positive number.");
+  }
+
+  const model = raw.model ?? builtin?.model ?? null;
+  if (model !== null) {
+    if (typeof model !== "string" || model === "") fail("model", model, "Must be a model id or null.");
+    validateModel(model, `settings.json (${source}.model)`, models);
+  }
+
+  const out: LlmProviderSettings = { type: type as LlmProviderSettings["type"], model, models, timeoutMs };
+
+  // A built-in budgetModel is dropped when a custom model list excludes it
+  const inherited = builtin?.budgetModel;
+  const budgetModel = raw.budgetModel ??
+    (inherited && (models.length === 0 || models.includes(inherited)) ? inherited : undefined);
+  if (budgetModel !== undefined) {
+    if (typeof budgetModel !== "string" || budgetModel === "") {
+      fail("budgetModel", budgetModel, "Must be a model id.");
+    }
+    validateModel(budgetModel, `settings.json (${source}.budgetModel)`, models);
+    out.budgetModel = budgetModel;
+  }
+
+  if (type === "openai") {
+    let url: URL | null = null;
+    try {
+      url = new URL(String(raw.baseUrl));
+    } catch {
+      // reported below
+    }
+    if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+      fail("baseUrl", raw.baseUrl, "Must be an http(s) URL, e.g. http://127.0.0.1:11434/v1.");
+    }
+    if (model === null) fail("model", model, "OpenAI-compatible providers need a model.");
+    out.baseUrl = String(raw.baseUrl).replace(/\/+$/, "");
+    if (raw.structuredOutput !== undefined) {
+      if (typeof raw.structuredOutput !== "boolean") {
+        fail("structuredOutput", raw.structuredOutput, "Must be a boolean.");
+      }
+      out.structuredOutput = raw.structuredOutput;
+    }
+    if (raw.apiKeyEnv !== undefined) {
+      if (typeof raw.apiKeyEnv !== "string" || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(raw.apiKeyEnv)) {
+        fail("apiKeyEnv", raw.apiKeyEnv, "Must be an environment variable name.");
+      }
+      out.apiKeyEnv = raw.apiKeyEnv;
+    }
+  }
+  return out;
+}
+
+/**
+ * Merge the "llm" block from settings.json over the built-in providers and
+ * check that the default and every per-project selection name a provider.
+ * @throws Error on malformed values or unknown provider names
+ */
+export function validateLlm(raw: Partial<LlmPolicy> | undefined): LlmPolicy {
+  const defaults = DEFAULTS.llm;
+  const providers: Record<string, LlmProviderSettings> = {};
+  for (const [name, builtin] of Object.entries(defaults.providers)) {
+    providers[name] = { ...builtin, models: [...builtin.models] };
+  }
+  if (raw === undefined) return { ...defaults, providers, projects: {} };
+
+  for (const [name, def] of Object.entries(raw.providers ?? {})) {
+    providers[name] = validateProvider(name, def, defaults.providers[name]);
+  }
+
+  const known = (value: unknown, field: string): string => {
+    if (typeof value !== "string" || !(value in providers)) {
+      throw new Error(
+        `Invalid llm.${field} ${JSON.stringify(value)} from settings.json. ` +
+          `Must name a provider: ${Object.keys(providers).join(", ")}.`
+      );
+    }
+    return value;
+  };
+
+  const projects: Record<string, string> = {};
+  for (const [project, name] of Object.entries(raw.projects ?? {})) {
+    projects[project] = known(name, `projects.${project}`);
+  }
+
+  return {
+    provider: raw.provider === undefined ? defaults.provider : known(raw.provider, "provider"),
+    providers,
+    projects,
+  };
+}
+
+/**
+ * Validate one budget (the default or a per-project one). Missing limits
+ * are taken from `defaults`.
+ * @throws Error on malformed values
+ */
+function validateBudget(raw: Partial<LlmBudget>, source: string, defaults: LlmBudget): LlmBudget {
+  const limit = (field: "dailyUsd" | "monthlyUsd"): number | null => {
+    const value = raw[field] === undefined ? defaults[field] : raw[field];
+    if (value !== null && (typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+      throw new Error(
+        `Invalid ${source}.${field} ${JSON.stringify(value)} from settings.json. ` +
+          `Must be a non-negative number or null.`
+      );
+    }
+    return value;
+  };
+  return { dailyUsd: limit("dailyUsd"), monthlyUsd: limit("monthlyUsd") };
+}
+
+/**
+ * Merge the "usage" block from settings.json over the defaults. Prices are
+ * merged over the built-in Anthropic prices; per-project budgets inherit
+ * the limits they do not set.
+ * @throws Error on malformed values
+ */
+export function validateUsage(raw: Partial<UsagePolicy> | undefined): UsagePolicy {
+  const defaults = DEFAULTS.usage;
+  if (raw === undefined) {
+    return { ...defaults, prices: { ...defaults.prices }, budget: { ...defaults.budget }, projects: {} };
+  }
+
+  const prices: Record<string, LlmPrice> = { ...defaults.prices };
+  for (const [model, price] of Object.entries(raw.prices ?? {})) {
+    const valid = (v: unknown) => typeof v === "number" && Number.isFinite(v) && v >= 0;
+    if (!price || !valid(price.input) || !valid(price.output)) {
+      throw new Error(
+        `Invalid usage.prices.${model} ${JSON.stringify(price)} from settings.json. ` +
+          `Must be { "input": number, "output": number } in USD per million tokens.`
+      );
+    }
+    prices[model] = { input: price.input, output: price.output };
+  }
+
+  const budget = validateBudget(raw.budget ?? {}, "usage.budget", defaults.budget);
+  const projects: Record<string, LlmBudget> = {};
+  for (const [project, limits] of Object.entries(raw.projects ?? {})) {
+    projects[project] = validateBudget(limits ?? {}, `usage.projects.${project}`, budget);
+  }
+
+  const onExceeded = raw.onExceeded ?? defaults.onExceeded;
+  if (onExceeded !== "downgrade" && onExceeded !== "stop") {
+    throw new Error(
+      `Invalid usage.onExceeded ${JSON.stringify(onExceeded)} from settings.json. ` +
+        `Must be "downgrade" or "stop".`
+    );
+  }
+
+  return { prices, budget, projects, onExceeded };
+}
+
 // ─── Settings File ────────────────────────────────────────────────────────────
 
 /**
@@ -102,14 +649,22 @@ type SettingsFile = Partial<{
   maxSessionsPerContext: number;
   maxRetries: number;
   stuckThresholdMs: number;
+  retention: Partial<RetentionPolicy>;
+  backup: Partial<BackupPolicy>;
+  ranking: Partial<RankingPolicy>;
+  llm: Partial<LlmPolicy>;
+  batching: Partial<BatchingPolicy>;
+  compressionCache: Partial<CompressionCachePolicy>;
+  usage: Partial<UsagePolicy>;
+  summarization: Partial<SummarizationPolicy>;
 }>;
 
 /**
- * Ensure the ~/.open-mem directory exists with secure permissions (0700),
- * then read or create settings.json.
+ * Ensure the data directory (C_MEM_DATA_DIR, default ~/.open-mem) exists with
+ * secure permissions (0700), then read or create settings.json there.
  */
 function loadSettingsFile(): SettingsFile {
-  const configDir = join(homedir(), ".open-mem");
+  const configDir = process.env.C_MEM_DATA_DIR ?? join(homedir(), ".open-mem");
 
   // Create directory with restricted permissions
   if (!existsSync(configDir)) {
@@ -151,7 +706,7 @@ function loadSettingsFile(): SettingsFile {
  *
  * Priority order (highest wins):
  * 1. Environment variables (C_MEM_PORT, C_MEM_MODEL, C_MEM_DB_PATH, C_MEM_HOST)
- * 2. ~/.open-mem/settings.json
+ * 2. settings.json in the data directory (C_MEM_DATA_DIR, default ~/.open-mem)
  * 3. Built-in defaults
  *
  * @returns Frozen WorkerConfig — all fields are validated
@@ -169,6 +724,8 @@ export function loadConfig(): Readonly<WorkerConfig> {
     fileSettings.maxSessionsPerContext ?? DEFAULTS.maxSessionsPerContext;
   let maxRetries = fileSettings.maxRetries ?? DEFAULTS.maxRetries;
   let stuckThresholdMs = fileSettings.stuckThresholdMs ?? DEFAULTS.stuckThresholdMs;
+  const llm = validateLlm(fileSettings.llm);
+  const anthropicModels = llm.providers.anthropic.models;
 
   // Environment variable overrides
   if (process.env.C_MEM_PORT) {
@@ -186,9 +743,9 @@ export function loadConfig(): Readonly<WorkerConfig> {
   }
 
   if (process.env.C_MEM_MODEL) {
-    model = validateModel(process.env.C_MEM_MODEL, "C_MEM_MODEL env var");
+    model = validateModel(process.env.C_MEM_MODEL, "C_MEM_MODEL env var", anthropicModels);
   } else if (fileSettings.model !== undefined) {
-    model = validateModel(fileSettings.model, "settings.json");
+    model = validateModel(fileSettings.model, "settings.json", anthropicModels);
   }
 
   return Object.freeze({
@@ -200,6 +757,14 @@ export function loadConfig(): Readonly<WorkerConfig> {
     maxSessionsPerContext,
     maxRetries,
     stuckThresholdMs,
+    retention: validateRetention(fileSettings.retention),
+    backup: validateBackup(fileSettings.backup),
+    ranking: validateRanking(fileSettings.ranking),
+    llm,
+    batching: validateBatching(fileSettings.batching),
+    compressionCache: validateCompressionCache(fileSettings.compressionCache),
+    usage: validateUsage(fileSettings.usage),
+    summarization: validateSummarization(fileSettings.summarization),
   });
 }
 
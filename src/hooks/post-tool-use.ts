@@ -25,6 +25,7 @@ import {
   detectSensitiveOutput,
   findSensitivePathInValue,
 } from "./privacy.js";
+import { FAILURE_RE } from "../sdk/rule-compressor.js";
 import type { HookInput, HookOutput } from "../types.js";
 
 const AUTH_TOKEN = readAuthToken();
@@ -60,7 +61,6 @@ const WEB_FETCH_TOOLS = new Set(["web_fetch", "fetch", "curl"]);
 const CONTINUE_OUTPUT: HookOutput = { continue: true, suppressOutput: true };
 const TRIVIAL_RESPONSE_RE = /^(?:ok|done|success|true|\{\}|\[\]|null|undefined)?$/i;
 const HIGH_SIGNAL_EXEC_RE = /\b(?:test|tests|lint|build|compile|deploy|migration|migrate|benchmark|typecheck|check|pytest|jest|vitest|cargo\s+test|cargo\s+build|npm\s+(?:run\s+)?(?:test|lint|build)|pnpm\s+(?:run\s+)?(?:test|lint|build)|yarn\s+(?:test|lint|build)|bun\s+(?:test|run\s+(?:test|lint|build))|tsc\b|eslint\b|ruff\b|mypy\b|gradle\b|mvn\b|make\b)/i;
-const FAILURE_RE = /\b(?:error|failed|failure|exception|traceback|panic|cannot|unable to|forbidden|unauthorized|not found)\b/i;
 const FETCH_NOISE_RE = /\b(?:403|404|401|access denied|forbidden|cloudflare|just a moment|enable javascript|captcha|rate limited)\b/i;
 
 function postObservation(
@@ -119,7 +119,36 @@ function commandText(input: unknown): string {
   return "";
 }
 
-function summarizeInput(toolName: string, input: unknown): unknown {
+/**
+ * Where an exec command ran and how it ended, when the tool reports it.
+ * The worker stores these in its command history (commands table).
+ */
+function execOutcome(input: unknown, hook: HookInput): Record<string, unknown> {
+  const obj = asObject(input);
+  const response = asObject(hook.tool_response);
+  const outcome: Record<string, unknown> = {};
+
+  const cwd = [obj.cwd, obj.workdir, hook.cwd].find((v) => typeof v === "string" && v.trim());
+  if (cwd) outcome.cwd = cwd;
+
+  const exitCode = [response.exit_code, response.exitCode, response.returnCode, obj.exit_code]
+    .find((v) => typeof v === "number" && Number.isInteger(v));
+  if (exitCode !== undefined) outcome.exit_code = exitCode;
+
+  if (typeof response.signal === "string" && response.signal) {
+    outcome.signal = response.signal;
+  } else if (response.interrupted === true) {
+    outcome.signal = "interrupted";
+  }
+
+  const duration = [response.duration_ms, response.durationMs]
+    .find((v) => typeof v === "number" && Number.isFinite(v) && v >= 0);
+  if (typeof duration === "number") outcome.duration_ms = Math.round(duration);
+
+  return outcome;
+}
+
+function summarizeInput(toolName: string, input: unknown, hook: HookInput): unknown {
   const lower = normalizeToolName(toolName);
   const obj = asObject(input);
   const path = primaryPath(input);
@@ -140,7 +169,7 @@ function summarizeInput(toolName: string, input: unknown): unknown {
 
   if (EXEC_TOOLS.has(lower)) {
     const command = commandText(input);
-    return command ? { command } : obj;
+    return command ? { command, ...execOutcome(input, hook) } : obj;
   }
 
   if (WEB_FETCH_TOOLS.has(lower)) {
@@ -253,7 +282,7 @@ async function main(): Promise<void> {
     return;
   }
 
-  const safeInput = summarizeInput(toolName, input.tool_input ?? {});
+  const safeInput = summarizeInput(toolName, input.tool_input ?? {}, input);
   const inputText = stripPrivacyTags(scrubSecrets(scrubValue(safeInput)));
 
   const rawResponse = stripPrivacyTags(scrubSecrets(String(input.tool_response ?? "")));
@@ -2,20 +2,33 @@
  * Open-Mem SDK Observation Compressor
  *
  * Takes a raw tool execution record and compresses it into a structured
- * Observation using the Anthropic API (claude-haiku-3-5 by default for cost).
+ * Observation using the project's LLM provider (Anthropic haiku by default
+ * for cost; see sdk/providers.ts).
  *
  * Features:
- * - Builds original <c-mem-compress> XML prompts
- * - Parses <memory> XML response into typed Observation
- * - Falls back to raw/type=other if LLM parse fails
+ * - Builds original <c-mem-compress> prompts
+ * - Structured output (tool use / JSON schema) where the provider supports
+ *   it, checked by the validator in sdk/structured-output.ts
+ * - Otherwise parses the <memory> XML response into typed Observation
+ * - Throws once the LLM or its XML fails every retry, so callers can fall
+ *   back to the rule-based compressor and record that they did
+ * - Response cache: identical tool executions reuse an earlier compression
+ * - Batch mode: several observations of one session in a single call
  * - Exponential backoff: 1s, 2s, 4s on failure
  *
  * @module sdk/compressor
  */
 
-import Anthropic from "@anthropic-ai/sdk";
-import { buildCompressionPrompt } from "./prompts.js";
-import { loadOpenClawConfig } from "./openclaw-config.js";
+import { buildBatchCompressionPrompt, buildCompressionPrompt } from "./prompts.js";
+import type { CompletionOptions, LlmProvider } from "./providers.js";
+import {
+  MEMORY_OUTPUT,
+  OBSERVATION_TYPES,
+  StructuredOutputError,
+  batchMemoryOutput,
+  structuredOutput,
+  validateMemoryOutput,
+} from "./structured-output.js";
 import type { CompressedObservation, ObservationType, RawObservation } from "../types.js";
 
 // ─── XML Parser ───────────────────────────────────────────────────────────────
@@ -46,11 +59,7 @@ function extractAll(xml: string, tag: string): string[] {
 }
 
 /** Validate that a string is one of the known ObservationType values */
-const VALID_TYPES = new Set<string>([
-  "bugfix", "feature", "refactor", "config",
-  "research", "error", "decision", "other",
-  "discovery", "change",  // also valid per anomaly filter
-]);
+const VALID_TYPES = new Set<string>(OBSERVATION_TYPES);
 
 function parseObservationType(raw: string): ObservationType {
   const normalized = raw.toLowerCase().trim() as ObservationType;
@@ -80,6 +89,48 @@ function parseCompressionResponse(xml: string): CompressedObservation | null {
   return { type, title, narrative, tags, facts, files_read, files_modified };
 }
 
+/** One usable memory of a batch reply */
+interface BatchReply {
+  id: number;
+  memory: CompressedObservation;
+}
+
+/** The well-formed <memory id="…"> elements of an XML batch reply */
+function xmlBatchReplies(text: string): BatchReply[] {
+  const replies: BatchReply[] = [];
+  const regex = /<memory\s+id="(\d+)"[^>]*>([\s\S]*?)<\/memory>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const memory = parseCompressionResponse(`<memory>${match[2]}</memory>`);
+    if (memory) replies.push({ id: Number(match[1]), memory });
+  }
+  return replies;
+}
+
+/** The entries of a structured batch reply that pass validation; the rest are logged */
+function structuredBatchReplies(reply: unknown): BatchReply[] {
+  const memories = (reply as { memories?: unknown } | null)?.memories;
+  if (!Array.isArray(memories)) {
+    throw new StructuredOutputError("record_memories", [{ field: "memories", message: "must be an array" }]);
+  }
+
+  const replies: BatchReply[] = [];
+  memories.forEach((entry: unknown, i) => {
+    const id = (entry as { id?: unknown } | null)?.id;
+    const result = validateMemoryOutput(entry, `memories[${i}]`);
+    if (typeof id !== "number" || !Number.isInteger(id)) {
+      process.stderr.write(`[c-mem/compressor] Batch entry memories[${i}] has no integer id\n`);
+    } else if (!result.ok) {
+      process.stderr.write(
+        `[c-mem/compressor] ${new StructuredOutputError("record_memories", result.errors).message}\n`
+      );
+    } else {
+      replies.push({ id, memory: result.value });
+    }
+  });
+  return replies;
+}
+
 // ─── Retry / Backoff ──────────────────────────────────────────────────────────
 
 /** Wait for a given number of milliseconds */
@@ -90,67 +141,54 @@ function sleep(ms: number): Promise<void> {
 /** Exponential backoff delays: 1s, 2s, 4s */
 const BACKOFF_DELAYS = [1_000, 2_000, 4_000];
 
+/** Response budget per observation, and for a whole batch */
+const MAX_TOKENS_PER_OBSERVATION = 1024;
+const MAX_BATCH_TOKENS = 8192;
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+/**
+ * Store of earlier LLM compressions, consulted before any provider call
+ * (implemented by CompressionCacheService in storage/compression-cache.ts).
+ * Only parsed LLM results are stored — never rule-based fallbacks.
+ */
+export interface CompressionCache {
+  get(raw: RawObservation): CompressedObservation | null;
+  set(raw: RawObservation, compressed: CompressedObservation): void;
+}
+
 // ─── Compressor ───────────────────────────────────────────────────────────────
 
 /**
  * Compress a raw tool observation into a structured Observation using the LLM.
  *
- * - Uses claude-haiku-3-5 by default for cost efficiency (configurable)
+ * - Returns the cached compression of an identical execution if there is one
+ * - Uses the project's configured provider (see sdk/providers.ts), with
+ *   structured output if it supports it and the XML prompt otherwise
+ * - A structured reply failing validation counts as a failed attempt
  * - Retries up to 3 times with exponential backoff (1s, 2s, 4s)
- * - If all retries fail or XML parse fails, returns a best-effort raw record
- *   with type="other"
+ * - If all retries fail or XML parse fails, throws: callers compress by rule
+ *   (see sdk/rule-compressor.ts) and stamp the result as rule-based
  *
- * @param raw    - The raw observation data (tool name, input, response)
- * @param apiKey - Anthropic API key (reads ANTHROPIC_API_KEY env var if omitted)
- * @param model  - Anthropic model to use (default: claude-haiku-3-5)
- * @returns CompressedObservation — never throws
+ * @param raw      - The raw observation data (tool name, input, response)
+ * @param provider - LLM backend; must be available (callers check isAvailable())
+ * @param cache    - Optional response cache; parsed LLM results are added to it
+ * @returns CompressedObservation
+ * @throws Error if the provider is not available or every attempt failed
  */
 export async function compressObservation(
   raw: RawObservation,
-  apiKey?: string,
-  model?: string
+  provider: LlmProvider,
+  cache?: CompressionCache
 ): Promise<CompressedObservation> {
-  // Model resolution: explicit arg → OpenClaw config → hardcoded fallback
-  const oclawConfig = loadOpenClawConfig();
-  const resolvedModel =
-    model ?? oclawConfig?.haikuModelId ?? "claude-haiku-4-5";
-
-  // Key resolution: explicit arg → env vars → OpenClaw config
-  // oat01 OAuth tokens → authToken (Authorization: Bearer)
-  // Standard sk-ant-api* keys → apiKey (x-api-key)
-  const isOauthToken = (k: string) => k.includes("oat");
-
-  // OAuth tokens need `anthropic-beta: oauth-2025-04-20,claude-code-20250219`
-  // on every request — discovered from OpenClaw source (PI_AI_OAUTH_ANTHROPIC_BETAS).
-  // Regular API keys (sk-ant-api*) do not need this header.
-  const OAUTH_BETA_HEADER = "oauth-2025-04-20,claude-code-20250219";
-
-  let clientOpts: ConstructorParameters<typeof Anthropic>[0];
-  // NOTE: Always pass apiKey: null when using authToken — otherwise the SDK
-  // constructor picks up ANTHROPIC_API_KEY from env and apiKeyAuth wins over bearerAuth.
-  if (apiKey) {
-    clientOpts = isOauthToken(apiKey)
-      ? { authToken: apiKey, apiKey: null, defaultHeaders: { "anthropic-beta": OAUTH_BETA_HEADER } }
-      : { apiKey };
-  } else if (process.env.ANTHROPIC_AUTH_TOKEN) {
-    clientOpts = { authToken: process.env.ANTHROPIC_AUTH_TOKEN, apiKey: null, defaultHeaders: { "anthropic-beta": OAUTH_BETA_HEADER } };
-  } else if (process.env.ANTHROPIC_API_KEY) {
-    const envKey = process.env.ANTHROPIC_API_KEY;
-    clientOpts = isOauthToken(envKey)
-      ? { authToken: envKey, apiKey: null, defaultHeaders: { "anthropic-beta": OAUTH_BETA_HEADER } }
-      : { apiKey: envKey };
-  } else if (oclawConfig?.authToken) {
-    clientOpts = { authToken: oclawConfig.authToken, apiKey: null, defaultHeaders: { "anthropic-beta": OAUTH_BETA_HEADER } };
-  } else if (oclawConfig?.apiKey) {
-    clientOpts = { apiKey: oclawConfig.apiKey };
-  } else {
-    throw new Error(
-      "No Anthropic credentials available (checked arg, ANTHROPIC_AUTH_TOKEN/API_KEY env, and ~/.openclaw/openclaw.json)"
-    );
+  if (!provider.isAvailable()) {
+    throw new Error(`LLM provider "${provider.name}" is not available`);
   }
 
-  const client = new Anthropic(clientOpts);
+  const cached = cache?.get(raw);
+  if (cached) return cached;
 
+  const structured = provider.supportsStructuredOutput();
   const prompt = buildCompressionPrompt(
     raw.tool_name,
     raw.tool_input,
@@ -159,8 +197,10 @@ export async function compressObservation(
       project: raw.project,
       promptNumber: raw.prompt_number,
       userGoal: raw.user_goal,
-    }
+    },
+    structured ? "json" : "xml"
   );
+  const options: CompletionOptions = { maxTokens: MAX_TOKENS_PER_OBSERVATION, purpose: "compress" };
 
   let lastError: Error | undefined;
 
@@ -170,17 +210,21 @@ export async function compressObservation(
     }
 
     try {
-      const response = await client.messages.create({
-        model: resolvedModel,
-        max_tokens: 1024,
-        messages: [{ role: "user", content: prompt }],
-      });
-
-      const text =
-        response.content[0]?.type === "text" ? response.content[0].text : "";
+      if (structured) {
+        const reply = await provider.completeStructured(prompt, structuredOutput(MEMORY_OUTPUT), options);
+        const result = validateMemoryOutput(reply);
+        if (!result.ok) throw new StructuredOutputError(MEMORY_OUTPUT.name, result.errors);
+        cache?.set(raw, result.value);
+        return result.value;
+      }
+
+      const text = await provider.complete(prompt, options);
       const parsed = parseCompressionResponse(text);
 
-      if (parsed) return parsed;
+      if (parsed) {
+        cache?.set(raw, parsed);
+        return parsed;
+      }
 
       // LLM returned something but parse failed — log and retry
       process.stderr.write(
@@ -191,24 +235,90 @@ export async function compressObservation(
     } catch (err) {
       lastError = err instanceof Error ? err : new Error(String(err));
       process.stderr.write(
-        `[c-mem/compressor] API error on attempt ${attempt + 1}: ${lastError.message}\n`
+        `[c-mem/compressor] ${provider.name} error on attempt ${attempt + 1}: ${lastError.message}\n`
       );
     }
   }
 
-  // All retries exhausted — return a degraded raw record
-  process.stderr.write(
-    `[c-mem/compressor] Falling back to raw observation after 3 failed attempts. ` +
-      `Tool: ${raw.tool_name}. Error: ${lastError?.message}\n`
+  // All retries exhausted — the caller decides whether rules stand in
+  throw new Error(
+    `Compression failed after 3 attempts (tool: ${raw.tool_name}): ${lastError?.message ?? "unknown error"}`
   );
+}
+
+/**
+ * Compress several raw observations (same session) in one LLM call.
+ *
+ * One attempt only: the reply's memories (structured `memories[]` entries or
+ * <memory id="…"> elements) are mapped back to the given ids, and anything
+ * missing, malformed or failing validation is simply left out of the
+ * result — callers compress those one by one with compressObservation().
+ * Cache hits are returned without being sent.
+ *
+ * @param items    - Raw observations keyed by caller id (the queue id), oldest first
+ * @param provider - LLM backend; must be available (callers check isAvailable())
+ * @param cache    - Optional response cache; parsed LLM results are added to it
+ * @returns id → CompressedObservation for every item the cache or reply covered
+ */
+export async function compressObservationBatch(
+  items: Array<{ id: number; raw: RawObservation }>,
+  provider: LlmProvider,
+  cache?: CompressionCache
+): Promise<Map<number, CompressedObservation>> {
+  const results = new Map<number, CompressedObservation>();
+  if (items.length === 0 || !provider.isAvailable()) return results;
+  const structured = provider.supportsStructuredOutput();
 
-  return {
-    type: "other",
-    title: `${raw.tool_name} — session prompt #${raw.prompt_number}`,
-    narrative: `Raw observation from ${raw.tool_name}. Compression failed after 3 attempts.`,
-    tags: [],
-    facts: [],
-    files_read: [],
-    files_modified: [],
+  const pending = items.filter(({ id, raw }) => {
+    const cached = cache?.get(raw);
+    if (cached) results.set(id, cached);
+    return !cached;
+  });
+  if (pending.length === 0) return results;
+
+  const latest = pending[pending.length - 1].raw;
+  const prompt = buildBatchCompressionPrompt(
+    pending.map(({ id, raw }) => ({
+      id,
+      tool_name: raw.tool_name,
+      tool_input: raw.tool_input,
+      tool_response: raw.tool_response,
+      promptNumber: raw.prompt_number,
+    })),
+    { project: latest.project, promptNumber: latest.prompt_number, userGoal: latest.user_goal },
+    structured ? "json" : "xml"
+  );
+  const options: CompletionOptions = {
+    maxTokens: Math.min(MAX_BATCH_TOKENS, MAX_TOKENS_PER_OBSERVATION * pending.length),
+    purpose: "compress",
   };
+
+  let replies: BatchReply[];
+  try {
+    replies = structured
+      ? structuredBatchReplies(await provider.completeStructured(prompt, batchMemoryOutput(), options))
+      : xmlBatchReplies(await provider.complete(prompt, options));
+  } catch (err) {
+    process.stderr.write(
+      `[c-mem/compressor] ${provider.name} batch error (${pending.length} items): ` +
+        `${err instanceof Error ? err.message : String(err)}\n`
+    );
+    return results;
+  }
+
+  const wanted = new Map(pending.map((item) => [item.id, item.raw]));
+  for (const { id, memory } of replies) {
+    const raw = wanted.get(id);
+    if (!raw || results.has(id)) continue;
+    results.set(id, memory);
+    cache?.set(raw, memory);
+  }
+
+  if (results.size < items.length) {
+    process.stderr.write(
+      `[c-mem/compressor] Batch reply covered ${results.size}/${items.length} items; ` +
+        `the rest fall back to single-item compression\n`
+    );
+  }
+  return results;
 }
@@ -10,10 +10,18 @@
  * @module sdk/prompts
  */
 
+import { MEMORY_OUTPUT, SUMMARY_OUTPUT } from "./structured-output.js";
+import type { OutputSpec, SummaryFields } from "./structured-output.js";
 import type { Observation, Session } from "../types.js";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+/**
+ * How the reply is requested: "xml" elements in the text, or "json" — a
+ * structured object (tool call or json_schema format) the provider enforces.
+ */
+export type PromptFormat = "xml" | "json";
+
 /** Context passed alongside a raw tool execution for compression */
 export interface SessionContext {
   project: string;
@@ -48,8 +56,57 @@ function truncate(str: string, maxChars: number): string {
   return str.slice(0, maxChars) + "\n[...truncated for compression]";
 }
 
+/** Closing instruction of a structured-output prompt */
+function jsonReplyInstruction(spec: OutputSpec): string {
+  return `Reply only through ${spec.name}: one JSON object with the fields ${Object.keys(spec.fields).join(", ")}.`;
+}
+
 // ─── Observation Compression ──────────────────────────────────────────────────
 
+/**
+ * Version of the compression prompts and the memory schema they ask for.
+ * Bump it whenever either changes: it is part of the compression cache key,
+ * so cached compressions made with an older prompt are no longer served.
+ */
+export const COMPRESSION_PROMPT_VERSION = "2";
+
+/** Version of the session summary prompt, stored with each LLM summary */
+export const SUMMARY_PROMPT_VERSION = "1";
+
+/** Rules shared by the single-item and batch compression prompts */
+const COMPRESSION_RULES = `    Rules:
+    - Title must be a single scannable line (≤ 80 chars), no punctuation at end
+    - Narrative must be 2–3 sentences maximum
+    - Facts are discrete, atomic statements (each ≤ 50 words)
+    - Tags come from this fixed vocabulary: problem-solution, gotcha, pattern,
+      trade-off, discovery, config-change, api-usage, data-model, dependency,
+      performance, security, test, refactor
+    - Type must be exactly one of: bugfix, feature, refactor, config, research,
+      error, decision, discovery, change, other
+    - If the tool output is trivial (e.g. a simple file read with no changes),
+      set type to "other" and keep narrative brief
+    - If no files were read or modified, leave those elements empty`;
+
+/** Body of one <memory> element in the expected response */
+const MEMORY_SCHEMA = `  <type>bugfix|feature|refactor|config|research|error|decision|discovery|change|other</type>
+  <title>One-line scannable title here</title>
+  <narrative>2-3 sentence explanation of what happened and why it matters.</narrative>
+  <tags>
+    <tag>tag-name</tag>
+  </tags>
+  <facts>
+    <fact>Atomic factual statement.</fact>
+  </facts>
+  <files>
+    <read>/path/to/file</read>
+    <modified>/path/to/file</modified>
+  </files>`;
+
+/** Tool output budget for a whole compression prompt */
+const MAX_PROMPT_OUTPUT_CHARS = 8_000;
+/** Floor per item so a large batch still shows each output's head */
+const MIN_BATCH_ITEM_OUTPUT_CHARS = 1_500;
+
 /**
  * Build the XML prompt that instructs the LLM to compress a raw tool
  * observation into a structured Open-Mem memory record.
@@ -61,15 +118,25 @@ function truncate(str: string, maxChars: number): string {
  * @param tool_input - Tool parameters (will be JSON-serialized and escaped)
  * @param tool_response - Raw tool output (truncated to 8K chars, escaped)
  * @param sessionCtx - Session context for the LLM to understand intent
+ * @param format     - "json" asks for a record_memory object instead of XML
  * @returns Formatted prompt string ready for the Anthropic API
  */
 export function buildCompressionPrompt(
   tool_name: string,
   tool_input: unknown,
   tool_response: string,
-  sessionCtx: SessionContext
+  sessionCtx: SessionContext,
+  format: PromptFormat = "xml"
 ): string {
-  const truncatedResponse = truncate(tool_response, 8_000);
+  const truncatedResponse = truncate(tool_response, MAX_PROMPT_OUTPUT_CHARS);
+  const reply =
+    format === "json"
+      ? jsonReplyInstruction(MEMORY_OUTPUT)
+      : `Respond with ONLY this XML structure — no explanation, no markdown fences:
+
+<memory>
+${MEMORY_SCHEMA}
+</memory>`;
 
   return `You are a memory compression agent for a software development assistant.
 
@@ -79,18 +146,7 @@ export function buildCompressionPrompt(
     structured memory record. Focus on what changed, why it matters, and what
     would be useful to recall in a future coding session.
 
-    Rules:
-    - Title must be a single scannable line (≤ 80 chars), no punctuation at end
-    - Narrative must be 2–3 sentences maximum
-    - Facts are discrete, atomic statements (each ≤ 50 words)
-    - Tags come from this fixed vocabulary: problem-solution, gotcha, pattern,
-      trade-off, discovery, config-change, api-usage, data-model, dependency,
-      performance, security, test, refactor
-    - Type must be exactly one of: bugfix, feature, refactor, config, research,
-      error, decision, discovery, change, other
-    - If the tool output is trivial (e.g. a simple file read with no changes),
-      set type to "other" and keep narrative brief
-    - If no files were read or modified, leave those elements empty
+${COMPRESSION_RULES}
   </instruction>
 
   <tool_execution>
@@ -106,32 +162,113 @@ export function buildCompressionPrompt(
   </session>
 </c-mem-compress>
 
-Respond with ONLY this XML structure — no explanation, no markdown fences:
+${reply}`;
+}
 
-<memory>
-  <type>bugfix|feature|refactor|config|research|error|decision|discovery|change|other</type>
-  <title>One-line scannable title here</title>
-  <narrative>2-3 sentence explanation of what happened and why it matters.</narrative>
-  <tags>
-    <tag>tag-name</tag>
-  </tags>
-  <facts>
-    <fact>Atomic factual statement.</fact>
-  </facts>
-  <files>
-    <read>/path/to/file</read>
-    <modified>/path/to/file</modified>
-  </files>
+/** One queued tool execution in a batch compression prompt */
+export interface BatchCompressionItem {
+  /** Echoed back as <memory id="…"> so replies map to queue entries */
+  id: number;
+  tool_name: string;
+  tool_input: unknown;
+  tool_response: string;
+  promptNumber: number;
+}
+
+/**
+ * Build one <c-mem-compress> prompt for several tool executions from the same
+ * session. The LLM answers with one <memory id="…"> element per execution;
+ * the output budget is split between the items.
+ *
+ * @param items      - Tool executions, oldest first
+ * @param sessionCtx - Session context (promptNumber is the latest item's)
+ * @param format     - "json" asks for { memories: [...] } instead of XML
+ * @returns Formatted prompt string ready for the LLM provider
+ */
+export function buildBatchCompressionPrompt(
+  items: BatchCompressionItem[],
+  sessionCtx: SessionContext,
+  format: PromptFormat = "xml"
+): string {
+  const perItem = Math.max(
+    MIN_BATCH_ITEM_OUTPUT_CHARS,
+    Math.floor(MAX_PROMPT_OUTPUT_CHARS / Math.max(1, items.length))
+  );
+  const executions = items
+    .map(
+      (item) => `  <tool_execution id="${item.id}">
+    <tool>${xmlEscape(item.tool_name)}</tool>
+    <prompt_number>${item.promptNumber}</prompt_number>
+    <input>${xmlEscape(item.tool_input)}</input>
+    <output>${xmlEscape(truncate(item.tool_response, perItem))}</output>
+  </tool_execution>`
+    )
+    .join("\n");
+  const reply =
+    format === "json"
+      ? `Reply only through record_memories: one JSON object whose "memories" array holds one
+object per execution, in order, each with the execution's id and the fields
+${Object.keys(MEMORY_OUTPUT.fields).join(", ")}.`
+      : `Respond with ONLY one element of this XML structure per execution, in order —
+no explanation, no markdown fences:
+
+<memory id="tool execution id">
+${MEMORY_SCHEMA}
 </memory>`;
+
+  return `You are a memory compression agent for a software development assistant.
+
+<c-mem-compress>
+  <instruction>
+    Analyze each of the ${items.length} tool executions below independently and
+    extract the essential information of each as its own structured memory
+    record. Focus on what changed, why it matters, and what would be useful to
+    recall in a future coding session.
+
+${COMPRESSION_RULES}
+    - Answer every execution exactly once, copying its id${format === "json" ? "" : " attribute onto <memory>"}
+  </instruction>
+
+${executions}
+
+  <session>
+    <project>${xmlEscape(sessionCtx.project)}</project>
+    <prompt_number>${sessionCtx.promptNumber}</prompt_number>
+    <user_goal>${xmlEscape(sessionCtx.userGoal)}</user_goal>
+  </session>
+</c-mem-compress>
+
+${reply}`;
 }
 
 // ─── Session Summarization ────────────────────────────────────────────────────
 
+/** Observations one summary prompt lists; longer sessions are summarized in chunks */
+export const SUMMARY_MAX_OBSERVATIONS = 30;
+
+/** Reply instruction shared by the summary, chunk and reduce prompts */
+function summaryReply(format: PromptFormat): string {
+  return format === "json"
+    ? jsonReplyInstruction(SUMMARY_OUTPUT)
+    : `Respond with ONLY this XML structure — no explanation, no markdown fences:
+
+<session_summary>
+  <request>What the user originally asked for.</request>
+  <investigated>What was explored and examined.</investigated>
+  <learned>Key discoveries from this session.</learned>
+  <completed>Work that was definitively finished.</completed>
+  <next_steps>Concrete remaining tasks.</next_steps>
+</session_summary>`;
+}
+
 /**
  * Format a subset of observations as compact XML for the summary prompt.
  * Takes the most recent N observations to keep tokens reasonable.
  */
-function formatObservationsForSummary(observations: Observation[], maxItems = 30): string {
+function formatObservationsForSummary(
+  observations: Observation[],
+  maxItems = SUMMARY_MAX_OBSERVATIONS
+): string {
   const recent = observations.slice(-maxItems);
   if (recent.length === 0) return "  <obs>No observations recorded.</obs>";
 
@@ -154,18 +291,21 @@ function formatObservationsForSummary(observations: Observation[], maxItems = 30
  * @param observations  - All compressed observations for this session
  * @param lastUser      - Last user message in the conversation
  * @param lastAssistant - Last assistant response in the conversation
+ * @param format        - "json" asks for a record_session_summary object instead of XML
  * @returns Formatted prompt string ready for the Anthropic API
  */
 export function buildSummaryPrompt(
   session: Pick<Session, "claude_session_id" | "project" | "prompt_counter">,
   observations: Observation[],
   lastUser?: string,
-  lastAssistant?: string
+  lastAssistant?: string,
+  format: PromptFormat = "xml"
 ): string {
   const truncatedUser = lastUser ? truncate(lastUser, 2_000) : "Not available";
   const truncatedAssistant = lastAssistant
     ? truncate(lastAssistant, 3_000)
     : "Not available";
+  const reply = summaryReply(format);
 
   return `You are a session summarization agent for a software development assistant.
 
@@ -201,13 +341,190 @@ ${formatObservationsForSummary(observations)}
   </conversation>
 </c-mem-summarize>
 
-Respond with ONLY this XML structure — no explanation, no markdown fences:
+${reply}`;
+}
 
-<session_summary>
-  <request>What the user originally asked for.</request>
-  <investigated>What was explored and examined.</investigated>
-  <learned>Key discoveries from this session.</learned>
-  <completed>Work that was definitively finished.</completed>
-  <next_steps>Concrete remaining tasks.</next_steps>
-</session_summary>`;
+/**
+ * One observation as a chunk prompt line, with its narrative. Also what
+ * summarizer chunking measures, so chunk sizes match what is sent.
+ */
+export function formatChunkObservation(o: Observation): string {
+  return `  <obs id="${o.id}" prompt="${o.prompt_number}" type="${xmlEscape(o.type)}" title="${xmlEscape(o.title)}">${xmlEscape(truncate(o.narrative ?? "", 600))}</obs>`;
+}
+
+/**
+ * Map step of a long session: summarize one chunk of consecutive
+ * observations. The reply uses the session summary schema, scoped to the
+ * chunk.
+ *
+ * @param session      - The session record (for project name / prompt count)
+ * @param observations - The chunk, oldest first
+ * @param index        - Position of the chunk (0-based)
+ * @param count        - Number of chunks in the session
+ * @param format       - "json" asks for a record_session_summary object instead of XML
+ */
+export function buildChunkSummaryPrompt(
+  session: Pick<Session, "claude_session_id" | "project" | "prompt_counter">,
+  observations: Observation[],
+  index: number,
+  count: number,
+  format: PromptFormat = "xml"
+): string {
+  const prompts = observations.map((o) => o.prompt_number);
+
+  return `You are a session summarization agent for a software development assistant.
+
+<c-mem-summarize>
+  <instruction>
+    This is part ${index + 1} of ${count} of a long coding session. Summarize
+    only this part; the parts are combined into one session summary later.
+
+    Rules:
+    - request: What the user asked for during this part (1–2 sentences)
+    - investigated: What files, systems, or concepts were explored
+    - learned: Key discoveries — bugs found, patterns identified, gotchas
+    - completed: Work that was definitively finished in this part (be specific)
+    - next_steps: What was still open at the end of this part
+    - Keep each field to 2–4 sentences maximum
+    - If a field has nothing to report, write "None"
+  </instruction>
+
+  <session>
+    <project>${xmlEscape(session.project)}</project>
+    <session_id>${xmlEscape(session.claude_session_id)}</session_id>
+    <part>${index + 1}</part>
+    <parts>${count}</parts>
+    <prompts>${Math.min(...prompts)}–${Math.max(...prompts)}</prompts>
+    <observation_count>${observations.length}</observation_count>
+  </session>
+
+  <observations>
+${observations.map(formatChunkObservation).join("\n")}
+  </observations>
+</c-mem-summarize>
+
+${summaryReply(format)}`;
+}
+
+/**
+ * Reduce step of a long session: merge the chunk summaries, oldest first,
+ * and the final conversation turn into one session summary.
+ *
+ * @param session       - The session record (for project name / prompt count)
+ * @param parts         - Chunk summaries (or summaries of groups of them), oldest first
+ * @param lastUser      - Last user message in the conversation
+ * @param lastAssistant - Last assistant response in the conversation
+ * @param format        - "json" asks for a record_session_summary object instead of XML
+ */
+export function buildReduceSummaryPrompt(
+  session: Pick<Session, "claude_session_id" | "project" | "prompt_counter">,
+  parts: SummaryFields[],
+  lastUser?: string,
+  lastAssistant?: string,
+  format: PromptFormat = "xml"
+): string {
+  const truncatedUser = lastUser ? truncate(lastUser, 2_000) : "Not available";
+  const truncatedAssistant = lastAssistant
+    ? truncate(lastAssistant, 3_000)
+    : "Not available";
+
+  return `You are a session summarization agent for a software development assistant.
+
+<c-mem-summarize>
+  <instruction>
+    Combine the summaries of consecutive parts of one coding session into a
+    single structured summary that will be injected as context at the start
+    of future sessions. Later parts supersede earlier ones: work completed
+    later is no longer a next step.
+
+    Rules:
+    - request: What the user asked for overall (1–2 sentences)
+    - investigated: What files, systems, or concepts were explored
+    - learned: Key discoveries — bugs found, patterns identified, gotchas
+    - completed: Work that was definitively finished (be specific)
+    - next_steps: Concrete tasks that remain (use imperative: "Fix X", "Add Y")
+    - Keep each field to 3–5 sentences maximum
+    - If a field has nothing to report, write "None"
+  </instruction>
+
+  <session>
+    <project>${xmlEscape(session.project)}</project>
+    <session_id>${xmlEscape(session.claude_session_id)}</session_id>
+    <total_prompts>${session.prompt_counter}</total_prompts>
+  </session>
+
+  <parts>
+${parts.map(formatSummaryPart).join("\n")}
+  </parts>
+
+  <conversation>
+    <last_user>${xmlEscape(truncatedUser)}</last_user>
+    <last_assistant>${xmlEscape(truncatedAssistant)}</last_assistant>
+  </conversation>
+</c-mem-summarize>
+
+${summaryReply(format)}`;
+}
+
+/** One chunk summary inside the reduce prompt */
+export function formatSummaryPart(part: SummaryFields, index: number): string {
+  return `  <part n="${index + 1}">
+    <request>${xmlEscape(part.request)}</request>
+    <investigated>${xmlEscape(part.investigated)}</investigated>
+    <learned>${xmlEscape(part.learned)}</learned>
+    <completed>${xmlEscape(part.completed)}</completed>
+    <next_steps>${xmlEscape(part.next_steps)}</next_steps>
+  </part>`;
+}
+
+/**
+ * Rolling checkpoint of a session in progress: extend the previous
+ * checkpoint with the observations recorded since, rather than summarizing
+ * the whole session again.
+ *
+ * @param session      - The session record (for project name / prompt count)
+ * @param previous     - The checkpoint being extended
+ * @param observations - Observations newer than `previous`, oldest first
+ * @param format       - "json" asks for a record_session_summary object instead of XML
+ */
+export function buildCheckpointPrompt(
+  session: Pick<Session, "claude_session_id" | "project" | "prompt_counter">,
+  previous: SummaryFields,
+  observations: Observation[],
+  format: PromptFormat = "xml"
+): string {
+  return `You are a session summarization agent for a software development assistant.
+
+<c-mem-summarize>
+  <instruction>
+    This coding session is still in progress. Update its summary so far with
+    the observations recorded since. Keep what still holds, add what is new,
+    and move next steps that have since been done to completed.
+
+    Rules:
+    - request: What the user asked for overall (1–2 sentences)
+    - investigated: What files, systems, or concepts were explored
+    - learned: Key discoveries — bugs found, patterns identified, gotchas
+    - completed: Work that was definitively finished (be specific)
+    - next_steps: Concrete tasks that remain (use imperative: "Fix X", "Add Y")
+    - Keep each field to 3–5 sentences maximum
+    - If a field has nothing to report, write "None"
+  </instruction>
+
+  <session>
+    <project>${xmlEscape(session.project)}</project>
+    <session_id>${xmlEscape(session.claude_session_id)}</session_id>
+    <total_prompts>${session.prompt_counter}</total_prompts>
+  </session>
+
+  <summary_so_far>
+${formatSummaryPart(previous, 0)}
+  </summary_so_far>
+
+  <new_observations>
+${observations.map(formatChunkObservation).join("\n")}
+  </new_observations>
+</c-mem-summarize>
+
+${summaryReply(format)}`;
 }
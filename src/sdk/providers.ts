@@ -0,0 +1,463 @@
+/**
+ * Open-Mem LLM Providers
+ *
+ * The backends behind compressObservation() and summarizeSession(). Each
+ * provider sends one prompt and returns the completion text — or, if it
+ * supports structured output, the JSON object matching a schema (Anthropic
+ * tool use, OpenAI json_schema response format). Retries, backoff, parsing
+ * and validation stay with the callers.
+ *
+ *   anthropic  Anthropic Messages API (API key, OAuth token or OpenClaw config)
+ *   openai     Any OpenAI-compatible /chat/completions server (llama.cpp, Ollama, vLLM, …)
+ *   none       No LLM — callers store their deterministic fallback instead
+ *
+ * Providers are named and configured in settings.json → "llm" and selected
+ * per project (see resolveProvider()). MeteredProvider wraps any of them to
+ * report tokens, latency and outcome of every call (the llm_usage table).
+ *
+ * @module sdk/providers
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { loadOpenClawConfig } from "./openclaw-config.js";
+import type { LlmPolicy, LlmProviderSettings, LlmProviderType } from "../types.js";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Used when neither settings.json nor OpenClaw names an Anthropic model */
+const DEFAULT_ANTHROPIC_MODEL = "claude-haiku-4-5";
+
+// OAuth tokens need `anthropic-beta: oauth-2025-04-20,claude-code-20250219`
+// on every request — discovered from OpenClaw source (PI_AI_OAUTH_ANTHROPIC_BETAS).
+// Regular API keys (sk-ant-api*) do not need this header.
+const OAUTH_BETA_HEADER = "oauth-2025-04-20,claude-code-20250219";
+
+/** Longest error body quoted in an HTTP provider error */
+const MAX_ERROR_BODY_CHARS = 200;
+
+/** Rough chars-per-token ratio for servers that do not report usage */
+const CHARS_PER_TOKEN = 4;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** What a call was made for — recorded with its usage */
+export type LlmPurpose = "compress" | "summarize";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionOptions {
+  maxTokens: number;
+  purpose?: LlmPurpose;
+  /** Called with the token counts of a successful call */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/** A JSON Schema the reply must match, and the tool / format name it goes by */
+export interface StructuredOutput {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+/** One call as seen by MeteredProvider */
+export interface LlmCall extends TokenUsage {
+  provider: string;
+  model: string | null;
+  purpose: LlmPurpose | null;
+  latencyMs: number;
+  ok: boolean;
+}
+
+export interface LlmProvider {
+  /** Name from settings.json (e.g. "anthropic", "local") */
+  readonly name: string;
+  readonly type: LlmProviderType;
+  /** Model the next request will use; null when the provider has none */
+  readonly model: string | null;
+  /**
+   * Whether requests can be made at all (credentials found, not "none").
+   * Callers skip the LLM and use their fallback when this is false.
+   */
+  isAvailable(): boolean;
+  /**
+   * Send one single-turn prompt and return the text of the reply.
+   * @throws Error on transport errors, non-2xx responses and timeouts
+   */
+  complete(prompt: string, options: CompletionOptions): Promise<string>;
+  /** Whether completeStructured() can be used; callers use XML prompts otherwise */
+  supportsStructuredOutput(): boolean;
+  /**
+   * Send one prompt and return the reply as an object shaped by `output`.
+   * The object is NOT validated — see sdk/structured-output.ts.
+   * @throws Error on transport errors, non-2xx responses, timeouts and
+   *         replies without the requested object
+   */
+  completeStructured(prompt: string, output: StructuredOutput, options: CompletionOptions): Promise<unknown>;
+}
+
+// ─── Anthropic ────────────────────────────────────────────────────────────────
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name: string;
+  readonly type = "anthropic" as const;
+  private readonly _settings: LlmProviderSettings;
+  private readonly _apiKey: string | undefined;
+  private _client: Anthropic | null = null;
+
+  /**
+   * @param apiKey - Overrides the credential lookup (ANTHROPIC_AUTH_TOKEN /
+   *                 ANTHROPIC_API_KEY env vars, then ~/.openclaw/openclaw.json)
+   */
+  constructor(name: string, settings: LlmProviderSettings, apiKey?: string) {
+    this.name = name;
+    this._settings = settings;
+    this._apiKey = apiKey;
+  }
+
+  /** Model resolution: settings.json → OpenClaw config → hardcoded fallback */
+  get model(): string {
+    return this._settings.model ?? loadOpenClawConfig()?.haikuModelId ?? DEFAULT_ANTHROPIC_MODEL;
+  }
+
+  isAvailable(): boolean {
+    return this._clientOptions() !== null;
+  }
+
+  async complete(prompt: string, options: CompletionOptions): Promise<string> {
+    const response = await this._getClient().messages.create(
+      {
+        model: this.model,
+        max_tokens: options.maxTokens,
+        messages: [{ role: "user", content: prompt }],
+      },
+      { timeout: this._settings.timeoutMs }
+    );
+    options.onUsage?.({
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    });
+    return response.content[0]?.type === "text" ? response.content[0].text : "";
+  }
+
+  supportsStructuredOutput(): boolean {
+    return true;
+  }
+
+  /** Tool use: the model is made to call a tool whose input schema is `output` */
+  async completeStructured(
+    prompt: string,
+    output: StructuredOutput,
+    options: CompletionOptions
+  ): Promise<unknown> {
+    const response = await this._getClient().messages.create(
+      {
+        model: this.model,
+        max_tokens: options.maxTokens,
+        messages: [{ role: "user", content: prompt }],
+        tools: [
+          {
+            name: output.name,
+            description: output.description,
+            input_schema: output.schema as Anthropic.Tool.InputSchema,
+          },
+        ],
+        tool_choice: { type: "tool", name: output.name },
+      },
+      { timeout: this._settings.timeoutMs }
+    );
+    options.onUsage?.({
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    });
+    const call = response.content.find((block) => block.type === "tool_use" && block.name === output.name);
+    if (!call || call.type !== "tool_use") {
+      throw new Error(`LLM provider "${this.name}" did not call the ${output.name} tool`);
+    }
+    return call.input;
+  }
+
+  private _getClient(): Anthropic {
+    if (this._client) return this._client;
+    const opts = this._clientOptions();
+    if (!opts) {
+      throw new Error(
+        "No Anthropic credentials available (checked arg, ANTHROPIC_AUTH_TOKEN/API_KEY env, and ~/.openclaw/openclaw.json)"
+      );
+    }
+    this._client = new Anthropic(opts);
+    return this._client;
+  }
+
+  /**
+   * Key resolution: explicit arg → env vars → OpenClaw config.
+   * oat01 OAuth tokens → authToken (Authorization: Bearer);
+   * standard sk-ant-api* keys → apiKey (x-api-key).
+   */
+  private _clientOptions(): ConstructorParameters<typeof Anthropic>[0] | null {
+    const isOauthToken = (k: string) => k.includes("oat");
+    // NOTE: Always pass apiKey: null when using authToken — otherwise the SDK
+    // constructor picks up ANTHROPIC_API_KEY from env and apiKeyAuth wins over bearerAuth.
+    const oauth = (token: string) => ({
+      authToken: token,
+      apiKey: null,
+      defaultHeaders: { "anthropic-beta": OAUTH_BETA_HEADER },
+    });
+
+    if (this._apiKey) {
+      return isOauthToken(this._apiKey) ? oauth(this._apiKey) : { apiKey: this._apiKey };
+    }
+    if (process.env.ANTHROPIC_AUTH_TOKEN) return oauth(process.env.ANTHROPIC_AUTH_TOKEN);
+    if (process.env.ANTHROPIC_API_KEY) {
+      const envKey = process.env.ANTHROPIC_API_KEY;
+      return isOauthToken(envKey) ? oauth(envKey) : { apiKey: envKey };
+    }
+    const oclawConfig = loadOpenClawConfig();
+    if (oclawConfig?.authToken) return oauth(oclawConfig.authToken);
+    if (oclawConfig?.apiKey) return { apiKey: oclawConfig.apiKey };
+    return null;
+  }
+}
+
+// ─── OpenAI-Compatible HTTP ───────────────────────────────────────────────────
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name: string;
+  readonly type = "openai" as const;
+  private readonly _settings: LlmProviderSettings;
+
+  constructor(name: string, settings: LlmProviderSettings) {
+    this.name = name;
+    this._settings = settings;
+  }
+
+  get model(): string | null {
+    return this._settings.model;
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this._settings.baseUrl && this._settings.model);
+  }
+
+  async complete(prompt: string, options: CompletionOptions): Promise<string> {
+    return this._chat(prompt, options, {});
+  }
+
+  /** Opt-in per provider (settings "structuredOutput"), since not every server supports it */
+  supportsStructuredOutput(): boolean {
+    return this._settings.structuredOutput === true;
+  }
+
+  /** json_schema response format; the reply content is the JSON object */
+  async completeStructured(
+    prompt: string,
+    output: StructuredOutput,
+    options: CompletionOptions
+  ): Promise<unknown> {
+    const content = await this._chat(prompt, options, {
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: output.name, description: output.description, schema: output.schema },
+      },
+    });
+    try {
+      return JSON.parse(content);
+    } catch {
+      throw new Error(
+        `LLM provider "${this.name}" returned invalid JSON for ${output.name}: ${content.slice(0, MAX_ERROR_BODY_CHARS)}`
+      );
+    }
+  }
+
+  private async _chat(
+    prompt: string,
+    options: CompletionOptions,
+    extraBody: Record<string, unknown>
+  ): Promise<string> {
+    const { baseUrl, model, apiKeyEnv, timeoutMs } = this._settings;
+    if (!baseUrl || !model) {
+      throw new Error(`LLM provider "${this.name}" needs a baseUrl and a model`);
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+
+    let res: Response;
+    try {
+      res = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model,
+          max_tokens: options.maxTokens,
+          messages: [{ role: "user", content: prompt }],
+          ...extraBody,
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (err) {
+      if (err instanceof Error && err.name === "TimeoutError") {
+        throw new Error(`LLM provider "${this.name}" timed out after ${timeoutMs}ms`);
+      }
+      throw err;
+    }
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => "");
+      throw new Error(
+        `LLM provider "${this.name}" returned HTTP ${res.status}: ${body.slice(0, MAX_ERROR_BODY_CHARS)}`
+      );
+    }
+
+    const data = (await res.json()) as {
+      choices?: Array<{ message?: { content?: unknown } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error(`LLM provider "${this.name}" returned no message content`);
+    }
+    // Servers without a usage block get a character-based estimate
+    options.onUsage?.({
+      inputTokens: data.usage?.prompt_tokens ?? Math.ceil(prompt.length / CHARS_PER_TOKEN),
+      outputTokens: data.usage?.completion_tokens ?? Math.ceil(content.length / CHARS_PER_TOKEN),
+    });
+    return content;
+  }
+}
+
+// ─── None ─────────────────────────────────────────────────────────────────────
+
+export class NoneProvider implements LlmProvider {
+  readonly name: string;
+  readonly type = "none" as const;
+  readonly model = null;
+
+  constructor(name = "none") {
+    this.name = name;
+  }
+
+  isAvailable(): boolean {
+    return false;
+  }
+
+  async complete(): Promise<string> {
+    throw new Error(`LLM provider "${this.name}" is disabled`);
+  }
+
+  supportsStructuredOutput(): boolean {
+    return false;
+  }
+
+  async completeStructured(): Promise<unknown> {
+    throw new Error(`LLM provider "${this.name}" is disabled`);
+  }
+}
+
+// ─── Metering ─────────────────────────────────────────────────────────────────
+
+/**
+ * Reports every call of the wrapped provider to `onCall` — successful or not,
+ * with latency. Failed calls count no tokens.
+ */
+export class MeteredProvider implements LlmProvider {
+  private readonly _inner: LlmProvider;
+  private readonly _onCall: (call: LlmCall) => void;
+
+  constructor(inner: LlmProvider, onCall: (call: LlmCall) => void) {
+    this._inner = inner;
+    this._onCall = onCall;
+  }
+
+  get name(): string {
+    return this._inner.name;
+  }
+
+  get type(): LlmProviderType {
+    return this._inner.type;
+  }
+
+  get model(): string | null {
+    return this._inner.model;
+  }
+
+  isAvailable(): boolean {
+    return this._inner.isAvailable();
+  }
+
+  complete(prompt: string, options: CompletionOptions): Promise<string> {
+    return this._meter(options, (opts) => this._inner.complete(prompt, opts));
+  }
+
+  supportsStructuredOutput(): boolean {
+    return this._inner.supportsStructuredOutput();
+  }
+
+  completeStructured(prompt: string, output: StructuredOutput, options: CompletionOptions): Promise<unknown> {
+    return this._meter(options, (opts) => this._inner.completeStructured(prompt, output, opts));
+  }
+
+  private async _meter<T>(
+    options: CompletionOptions,
+    call: (options: CompletionOptions) => Promise<T>
+  ): Promise<T> {
+    const started = Date.now();
+    let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let ok = false;
+    try {
+      const result = await call({
+        ...options,
+        onUsage: (u) => {
+          usage = u;
+          options.onUsage?.(u);
+        },
+      });
+      ok = true;
+      return result;
+    } finally {
+      this._onCall({
+        provider: this.name,
+        model: this.model,
+        purpose: options.purpose ?? null,
+        ...usage,
+        latencyMs: Date.now() - started,
+        ok,
+      });
+    }
+  }
+}
+
+// ─── Selection ────────────────────────────────────────────────────────────────
+
+/** Build the provider for one settings.json definition. */
+export function createProvider(name: string, settings: LlmProviderSettings): LlmProvider {
+  switch (settings.type) {
+    case "anthropic":
+      return new AnthropicProvider(name, settings);
+    case "openai":
+      return new OpenAICompatibleProvider(name, settings);
+    case "none":
+      return new NoneProvider(name);
+  }
+}
+
+/**
+ * The provider `project` is configured to use: its entry in `projects`,
+ * else the default. A name without a definition (only possible when the
+ * policy was not built by loadConfig()) resolves to "none".
+ *
+ * @param downgrade - Use the provider's budgetModel instead of its model (the
+ *                    project is over budget); without one, resolves to "none"
+ */
+export function resolveProvider(policy: LlmPolicy, project?: string, downgrade = false): LlmProvider {
+  const name = (project ? policy.projects[project] : undefined) ?? policy.provider;
+  const settings = policy.providers[name];
+  if (!settings) return new NoneProvider(name);
+  if (!downgrade) return createProvider(name, settings);
+  return settings.budgetModel
+    ? createProvider(name, { ...settings, model: settings.budgetModel })
+    : new NoneProvider(name);
+}
@@ -0,0 +1,345 @@
+/**
+ * Open-Mem SDK Rule-Based Compressor
+ *
+ * Builds a CompressedObservation from a raw tool record with no model call,
+ * for projects whose provider is "none", machines without credentials, and
+ * LLM compressions that failed every retry.
+ *
+ * Rules, in order:
+ * - exec tools: classify the command (test / build / typecheck / lint /
+ *   install / git), decide pass or fail from the exit code, runner counts or
+ *   FAILURE_RE, and pull out pass/fail counts, error lines and file references
+ * - edit / write tools: a "change" naming the files touched
+ * - read tools: a "discovery" (or "error" when the read failed)
+ * - fetch / search tools: "research" with the URL or query
+ * - anything else: first line of the output, "error" when it matches FAILURE_RE
+ *
+ * Output is deterministic: the same record always compresses the same way.
+ *
+ * @module sdk/rule-compressor
+ */
+
+import type { CompressedObservation, RawObservation } from "../types.js";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Model recorded for observations and summaries built without an LLM */
+export const RULES_MODEL = "rules";
+
+/** Output that reads like a failure (shared with the post-tool-use hook's capture policy) */
+export const FAILURE_RE = /\b(?:error|failed|failure|exception|traceback|panic|cannot|unable to|forbidden|unauthorized|not found)\b/i;
+
+const MUTATION_TOOLS = new Set(["edit", "multiedit", "multi_edit", "write", "apply_patch", "notebookedit"]);
+const EXEC_TOOLS = new Set(["bash", "exec", "shell"]);
+const READ_TOOLS = new Set(["read", "view", "notebookread"]);
+const RESEARCH_TOOLS = new Set(["web_fetch", "webfetch", "fetch", "curl", "web_search", "websearch", "grep", "glob", "search"]);
+
+type CommandKind = "test" | "typecheck" | "lint" | "build" | "install" | "git" | "command";
+
+/** First match wins — typecheck before build so `tsc --noEmit` is not a build */
+const COMMAND_KINDS: Array<[CommandKind, RegExp]> = [
+  ["test", /\b(?:pytest|jest|vitest|mocha|rspec|phpunit|(?:bun|deno|go|cargo|dotnet|mix|swift) test|(?:npm|pnpm|yarn)(?: run)? test|test:\w+|unittest)\b/i],
+  ["typecheck", /\b(?:tsc|mypy|pyright|typecheck|type-check|flow check)\b/i],
+  ["lint", /\b(?:eslint|ruff|flake8|pylint|clippy|golangci-lint|rubocop|stylelint|biome|lint|prettier --check)\b/i],
+  ["build", /\b(?:build|compile|make|gradle|mvn|webpack|vite build|esbuild|rollup|cargo check)\b/i],
+  ["install", /\b(?:(?:npm|pnpm|yarn|bun) (?:install|add|i)|pip3? install|poetry (?:install|add)|cargo add|go get|brew install|apt(?:-get)? install)\b/i],
+  ["git", /^\s*git\s/i],
+];
+
+const KIND_LABELS: Record<CommandKind, string> = {
+  test: "Tests",
+  typecheck: "Type check",
+  lint: "Lint",
+  build: "Build",
+  install: "Install",
+  git: "git",
+  command: "Command",
+};
+
+/** "12 passed", "3 failing", "1 test failed", "2 skipped" — the last one of each wins */
+const COUNT_RE = /\b(\d+)\s+(?:tests?\s+)?(pass(?:ed|ing|es)?|fail(?:ed|ing|ures?|s)?|skip(?:ped)?|todo)\b/gi;
+/** "Found 3 errors", "5 problems (3 errors, 2 warnings)" */
+const ERROR_COUNT_RE = /\b(\d+)\s+errors?\b/gi;
+const WARNING_COUNT_RE = /\b(\d+)\s+warnings?\b/gi;
+
+/** A line that states a problem, not a "0 failed" summary */
+const ERROR_LINE_RE = /\b(?:error|exception|panic|traceback|failed|failure|assertion)\b|^\s*(?:FAIL|\(fail\)|✗|✖|×|E\s)/i;
+const ZERO_COUNT_RE = /\b0\s+(?:tests?\s+)?(?:fail|errors?)/i;
+
+/** path/to/file.ext followed by :line or (line,col), as compilers and test runners print them */
+const FILE_REF_RE = /(?:^|[\s("'`])((?:\.{0,2}\/)?[\w@.-]+(?:\/[\w@.-]+)*\.[A-Za-z][A-Za-z0-9]{0,5})(?::\d+|\(\d+,\d+\))/gm;
+/** apply_patch / unified diff headers */
+const PATCH_FILE_RE = /^(?:\*\*\* (?:Add|Update|Delete) File:|\+\+\+ b\/)\s*(.+)$/gm;
+
+const MAX_TITLE_CHARS = 100;
+const MAX_LINE_CHARS = 200;
+const MAX_ERROR_LINES = 3;
+const MAX_FILE_REFS = 10;
+const MAX_NARRATIVE_OUTPUT_CHARS = 500;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface TestCounts {
+  passed: number | null;
+  failed: number | null;
+  skipped: number | null;
+  errors: number | null;
+  warnings: number | null;
+}
+
+// ─── Compressor ───────────────────────────────────────────────────────────────
+
+/**
+ * Compress a raw tool observation by rule. Never throws and never calls out.
+ */
+export function compressWithRules(raw: RawObservation): CompressedObservation {
+  const tool = raw.tool_name.trim().toLowerCase();
+  const input = asObject(raw.tool_input);
+  const output = raw.tool_response.trim();
+
+  if (EXEC_TOOLS.has(tool)) return compressExec(raw.tool_name, raw.tool_input, output);
+  if (MUTATION_TOOLS.has(tool)) return compressEdit(raw.tool_name, input, output);
+  if (READ_TOOLS.has(tool)) return compressRead(raw.tool_name, input, output);
+  if (RESEARCH_TOOLS.has(tool)) return compressResearch(raw.tool_name, input, output);
+
+  const failed = FAILURE_RE.test(output);
+  const errors = failed ? errorLines(output) : [];
+  const firstLine = firstNonEmptyLine(output);
+  return {
+    type: failed ? "error" : "other",
+    title: clip(`${raw.tool_name}${failed ? " failed" : ""}${firstLine ? `: ${firstLine}` : ""}`, MAX_TITLE_CHARS),
+    narrative: output
+      ? `${raw.tool_name} returned: ${clip(output, MAX_NARRATIVE_OUTPUT_CHARS)}`
+      : `${raw.tool_name} returned no output.`,
+    tags: uniq([tool, failed ? "failed" : ""]),
+    facts: errors,
+    files_read: uniq([...inputPaths(input), ...fileRefs(output)]).slice(0, MAX_FILE_REFS),
+    files_modified: [],
+  };
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+function compressExec(toolName: string, rawInput: unknown, output: string): CompressedObservation {
+  const input = asObject(rawInput);
+  const command = (typeof rawInput === "string" ? rawInput : commandText(input)).trim();
+  const kind = COMMAND_KINDS.find(([, re]) => re.test(command))?.[0] ?? "command";
+  const exitCode = typeof input.exit_code === "number" ? input.exit_code : null;
+  const signal = typeof input.signal === "string" && input.signal ? input.signal : null;
+  const counts = parseCounts(output);
+
+  // Exit status beats counts, counts beat wording ("0 failed" is not a failure)
+  const failed =
+    exitCode !== null || signal !== null
+      ? exitCode !== 0 || signal !== null
+      : counts.failed !== null || counts.errors !== null
+        ? (counts.failed ?? 0) + (counts.errors ?? 0) > 0
+        : FAILURE_RE.test(output);
+
+  const label = KIND_LABELS[kind];
+  const shortCommand = clip(firstNonEmptyLine(command), 60);
+  const countText = describeCounts(counts);
+  const outcome = failed ? "failed" : kind === "command" || kind === "git" ? "ran" : "passed";
+  const title = kind === "command" || kind === "git"
+    ? `${failed ? "Failed" : "Ran"}: ${shortCommand}`
+    : `${label} ${outcome}${countText ? ` (${countText})` : ""}: ${shortCommand}`;
+
+  const errors = failed ? errorLines(output) : [];
+  const facts: string[] = [];
+  if (countText) facts.push(countText);
+  if (exitCode !== null) facts.push(`exit code ${exitCode}`);
+  if (signal) facts.push(`stopped by ${signal}`);
+  if (typeof input.duration_ms === "number") facts.push(`took ${formatDuration(input.duration_ms)}`);
+  facts.push(...errors);
+
+  const narrative = [
+    `Ran \`${clip(command, MAX_LINE_CHARS)}\`${typeof input.cwd === "string" ? ` in ${input.cwd}` : ""}${outcome === "ran" ? "" : `: ${outcome}`}.`,
+    errors.length > 0 ? `Errors: ${errors.join(" | ")}` : "",
+    !failed && !countText && output ? `Output: ${clip(output, MAX_NARRATIVE_OUTPUT_CHARS)}` : "",
+  ].filter(Boolean).join(" ");
+
+  return {
+    type: failed ? "error" : kind === "install" ? "config" : kind === "command" || kind === "git" ? "other" : "discovery",
+    title: clip(title, MAX_TITLE_CHARS),
+    narrative,
+    tags: uniq([toolName.toLowerCase(), kind, failed ? "failed" : outcome === "passed" ? "passed" : ""]),
+    facts,
+    files_read: failed ? fileRefs(output).slice(0, MAX_FILE_REFS) : [],
+    files_modified: [],
+  };
+}
+
+function compressEdit(
+  toolName: string,
+  input: Record<string, unknown>,
+  output: string
+): CompressedObservation {
+  const patch = typeof input.patch === "string" ? input.patch : typeof input.input === "string" ? input.input : "";
+  const files = uniq([...inputPaths(input), ...matchAll(patch, PATCH_FILE_RE).map((f) => f.trim())]);
+  const failed = FAILURE_RE.test(output) && !/\bsuccess(?:fully)?\b/i.test(output);
+  const target = files.length === 0 ? "a file" : files.length === 1 ? files[0] : `${files.length} files`;
+  const verb = toolName.toLowerCase() === "write" ? "Wrote" : "Edited";
+
+  const facts: string[] = [];
+  if (typeof input.edit_count === "number") facts.push(`${input.edit_count} edits`);
+  if (typeof input.old_bytes === "number" && typeof input.new_bytes === "number") {
+    facts.push(`replaced ${input.old_bytes} bytes with ${input.new_bytes}`);
+  }
+  if (typeof input.content_bytes === "number") facts.push(`${input.content_bytes} bytes written`);
+  if (failed) facts.push(...errorLines(output));
+
+  return {
+    type: failed ? "error" : "change",
+    title: clip(failed ? `${toolName} failed: ${target}` : `${verb} ${target}`, MAX_TITLE_CHARS),
+    narrative: failed
+      ? `${toolName} on ${target} failed: ${clip(output, MAX_NARRATIVE_OUTPUT_CHARS)}`
+      : `${verb} ${files.length > 1 ? files.join(", ") : target} via ${toolName}.`,
+    tags: uniq([toolName.toLowerCase(), failed ? "failed" : "edit"]),
+    facts,
+    files_read: [],
+    files_modified: failed ? [] : files,
+  };
+}
+
+function compressRead(
+  toolName: string,
+  input: Record<string, unknown>,
+  output: string
+): CompressedObservation {
+  const files = inputPaths(input);
+  const target = files[0] ?? "a file";
+  const failed = FAILURE_RE.test(firstNonEmptyLine(output));
+  return {
+    type: failed ? "error" : "discovery",
+    title: clip(failed ? `Read failed: ${target}` : `Read ${target}`, MAX_TITLE_CHARS),
+    narrative: failed
+      ? `Reading ${target} failed: ${clip(firstNonEmptyLine(output), MAX_LINE_CHARS)}`
+      : `Read ${target}.`,
+    tags: uniq([toolName.toLowerCase(), failed ? "failed" : "read"]),
+    facts: failed ? [clip(firstNonEmptyLine(output), MAX_LINE_CHARS)] : [],
+    files_read: files,
+    files_modified: [],
+  };
+}
+
+function compressResearch(
+  toolName: string,
+  input: Record<string, unknown>,
+  output: string
+): CompressedObservation {
+  const subject = [input.url, input.query, input.pattern, input.q]
+    .find((v): v is string => typeof v === "string" && v.trim() !== "") ?? "";
+  const failed = output === "" || FAILURE_RE.test(firstNonEmptyLine(output));
+  return {
+    type: failed ? "error" : "research",
+    title: clip(`${toolName}${failed ? " failed" : ""}${subject ? `: ${subject}` : ""}`, MAX_TITLE_CHARS),
+    narrative: output
+      ? `${toolName}${subject ? ` for ${subject}` : ""} returned: ${clip(output, MAX_NARRATIVE_OUTPUT_CHARS)}`
+      : `${toolName}${subject ? ` for ${subject}` : ""} returned nothing.`,
+    tags: uniq([toolName.toLowerCase(), "research"]),
+    facts: [],
+    files_read: uniq([...inputPaths(input), ...fileRefs(output)]).slice(0, MAX_FILE_REFS),
+    files_modified: [],
+  };
+}
+
+// ─── Output Parsing ───────────────────────────────────────────────────────────
+
+/** Pass/fail/skip and error/warning counts from test runner, compiler and linter summaries. */
+function parseCounts(output: string): TestCounts {
+  const counts: TestCounts = { passed: null, failed: null, skipped: null, errors: null, warnings: null };
+  for (const m of output.matchAll(COUNT_RE)) {
+    const n = Number(m[1]);
+    const word = m[2].toLowerCase();
+    if (word.startsWith("pass")) counts.passed = n;
+    else if (word.startsWith("fail")) counts.failed = n;
+    else counts.skipped = n;
+  }
+  const lastNumber = (re: RegExp) => {
+    const all = [...output.matchAll(re)];
+    return all.length > 0 ? Number(all[all.length - 1][1]) : null;
+  };
+  counts.errors = lastNumber(ERROR_COUNT_RE);
+  counts.warnings = lastNumber(WARNING_COUNT_RE);
+  return counts;
+}
+
+function describeCounts(counts: TestCounts): string {
+  const parts: string[] = [];
+  if (counts.passed !== null) parts.push(`${counts.passed} passed`);
+  if (counts.failed !== null) parts.push(`${counts.failed} failed`);
+  if (counts.skipped) parts.push(`${counts.skipped} skipped`);
+  if (counts.errors !== null && counts.failed === null) parts.push(plural(counts.errors, "error"));
+  if (counts.warnings) parts.push(plural(counts.warnings, "warning"));
+  return parts.join(", ");
+}
+
+/** The first few distinct lines that state a problem. */
+function errorLines(output: string): string[] {
+  const lines: string[] = [];
+  for (const line of output.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || !ERROR_LINE_RE.test(trimmed) || ZERO_COUNT_RE.test(trimmed)) continue;
+    const clipped = clip(trimmed, MAX_LINE_CHARS);
+    if (!lines.includes(clipped)) lines.push(clipped);
+    if (lines.length === MAX_ERROR_LINES) break;
+  }
+  return lines;
+}
+
+/** Source files referenced as path:line or path(line,col). */
+function fileRefs(text: string): string[] {
+  return uniq(matchAll(text, FILE_REF_RE).filter((f) => !/^\d+(?:\.\d+)+$/.test(f)));
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function commandText(input: Record<string, unknown>): string {
+  if (typeof input.command === "string") return input.command;
+  if (Array.isArray(input.command)) return input.command.map(String).join(" ");
+  return typeof input.cmd === "string" ? input.cmd : "";
+}
+
+/** File paths named in a tool input (raw or as summarized by the post-tool-use hook). */
+function inputPaths(input: Record<string, unknown>): string[] {
+  const paths: string[] = [];
+  for (const key of ["file_path", "filePath", "path", "notebook_path", "target"]) {
+    const value = input[key];
+    if (typeof value === "string" && value.trim()) paths.push(value.trim());
+  }
+  if (Array.isArray(input.paths)) {
+    paths.push(...input.paths.filter((p): p is string => typeof p === "string" && p.trim() !== ""));
+  }
+  return uniq(paths);
+}
+
+function matchAll(text: string, re: RegExp): string[] {
+  return [...text.matchAll(re)].map((m) => m[1]);
+}
+
+function firstNonEmptyLine(text: string): string {
+  return text.split("\n").map((l) => l.trim()).find(Boolean) ?? "";
+}
+
+function clip(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1_000 ? `${ms}ms` : `${(ms / 1_000).toFixed(1)}s`;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function uniq(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
@@ -0,0 +1,288 @@
+/**
+ * Open-Mem SDK Structured Output
+ *
+ * Output specs for compression and summarization, used two ways:
+ *   - as JSON Schema for providers with structured output (Anthropic tool
+ *     use, OpenAI-compatible json_schema response format)
+ *   - by validateOutput(), which checks what the model actually returned:
+ *     types, ObservationType enum values, required fields and length caps,
+ *     and reports every field that failed
+ *
+ * Schema and validator are derived from the same spec so they cannot drift.
+ * Providers without structured output keep using the XML prompts.
+ *
+ * @module sdk/structured-output
+ */
+
+import type { StructuredOutput } from "./providers.js";
+import type { CompressedObservation, Summary } from "../types.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+type FieldSpec =
+  | {
+      type: "string";
+      description: string;
+      /** Must be present and non-blank */
+      required?: boolean;
+      maxLength: number;
+      enum?: readonly string[];
+    }
+  | {
+      type: "string[]";
+      description: string;
+      maxItems: number;
+      /** Cap per item */
+      maxLength: number;
+    };
+
+/** One tool / response format: name, description and fields */
+export interface OutputSpec {
+  name: string;
+  description: string;
+  fields: Record<string, FieldSpec>;
+}
+
+export interface FieldError {
+  /** Field path, e.g. "title" or "memories[2].type" */
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+export type SummaryFields = Pick<
+  Summary,
+  "request" | "investigated" | "learned" | "completed" | "next_steps"
+>;
+
+/** Thrown when structured output fails validation; lists every failing field */
+export class StructuredOutputError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(spec: string, errors: FieldError[]) {
+    super(
+      `${spec} output failed validation: ` +
+        errors.map((e) => `${e.field}: ${e.message}`).join("; ")
+    );
+    this.name = "StructuredOutputError";
+    this.errors = errors;
+  }
+}
+
+// ─── Specs ────────────────────────────────────────────────────────────────────
+
+/** ObservationType values plus "discovery" and "change" (accepted by the anomaly filter) */
+export const OBSERVATION_TYPES: readonly string[] = [
+  "bugfix", "feature", "refactor", "config",
+  "research", "error", "decision", "other",
+  "discovery", "change",
+];
+
+const PATH_LIST = (description: string): FieldSpec => ({
+  type: "string[]",
+  description,
+  maxItems: 100,
+  maxLength: 500,
+});
+
+export const MEMORY_OUTPUT: OutputSpec = {
+  name: "record_memory",
+  description: "Record the structured memory extracted from one tool execution.",
+  fields: {
+    type: { type: "string", description: "Kind of work", required: true, maxLength: 20, enum: OBSERVATION_TYPES },
+    title: { type: "string", description: "One scannable line, ≤ 80 chars", required: true, maxLength: 120 },
+    narrative: { type: "string", description: "2–3 sentences: what happened and why it matters", required: true, maxLength: 1_500 },
+    tags: { type: "string[]", description: "Tags from the fixed vocabulary", maxItems: 12, maxLength: 40 },
+    facts: { type: "string[]", description: "Atomic factual statements", maxItems: 20, maxLength: 400 },
+    files_read: PATH_LIST("Paths of files read"),
+    files_modified: PATH_LIST("Paths of files modified"),
+  },
+};
+
+const SUMMARY_FIELD = (description: string): FieldSpec => ({
+  type: "string",
+  description: `${description} ("None" if nothing to report)`,
+  maxLength: 2_000,
+});
+
+export const SUMMARY_OUTPUT: OutputSpec = {
+  name: "record_session_summary",
+  description: "Record the structured summary of one coding session.",
+  fields: {
+    request: { type: "string", description: "What the user asked for (1–2 sentences)", required: true, maxLength: 1_000 },
+    investigated: SUMMARY_FIELD("Files, systems or concepts explored"),
+    learned: SUMMARY_FIELD("Key discoveries: bugs, patterns, gotchas"),
+    completed: SUMMARY_FIELD("Work definitively finished"),
+    next_steps: SUMMARY_FIELD("Concrete remaining tasks, imperative"),
+  },
+};
+
+// ─── JSON Schema ──────────────────────────────────────────────────────────────
+
+/**
+ * JSON Schema for a spec. Every field is listed as required (strict
+ * providers insist); empty strings and arrays stand in for "nothing".
+ */
+export function toJsonSchema(spec: OutputSpec): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(spec.fields)) {
+    properties[name] =
+      field.type === "string"
+        ? {
+            type: "string",
+            description: field.description,
+            maxLength: field.maxLength,
+            ...(field.enum ? { enum: [...field.enum] } : {}),
+          }
+        : {
+            type: "array",
+            description: field.description,
+            maxItems: field.maxItems,
+            items: { type: "string", maxLength: field.maxLength },
+          };
+  }
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(spec.fields),
+    additionalProperties: false,
+  };
+}
+
+/** What a provider needs to request output matching `spec` */
+export function structuredOutput(spec: OutputSpec): StructuredOutput {
+  return { name: spec.name, description: spec.description, schema: toJsonSchema(spec) };
+}
+
+/** Batch compression reply: { memories: [{ id, ...record_memory fields }] } */
+export function batchMemoryOutput(): StructuredOutput {
+  const memory = toJsonSchema(MEMORY_OUTPUT) as {
+    properties: Record<string, unknown>;
+    required: string[];
+  };
+  return {
+    name: "record_memories",
+    description: "Record one structured memory per tool execution, each with the execution's id.",
+    schema: {
+      type: "object",
+      properties: {
+        memories: {
+          type: "array",
+          items: {
+            ...memory,
+            properties: { id: { type: "integer", description: "The tool execution id" }, ...memory.properties },
+            required: ["id", ...memory.required],
+          },
+        },
+      },
+      required: ["memories"],
+      additionalProperties: false,
+    },
+  };
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Check a structured reply against a spec. Strings are trimmed, blank list
+ * items dropped and unknown fields ignored; anything else that does not
+ * match is reported, one error per field.
+ */
+export function validateOutput(
+  spec: OutputSpec,
+  value: unknown,
+  path = ""
+): ValidationResult<Record<string, string | string[]>> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, errors: [{ field: path || spec.name, message: "must be an object" }] };
+  }
+  const input = value as Record<string, unknown>;
+  const out: Record<string, string | string[]> = {};
+  const errors: FieldError[] = [];
+
+  for (const [name, field] of Object.entries(spec.fields)) {
+    const at = path ? `${path}.${name}` : name;
+    const raw = input[name];
+
+    if (field.type === "string") {
+      if (raw === undefined || raw === null) {
+        if (field.required) errors.push({ field: at, message: "is required" });
+        else out[name] = "";
+        continue;
+      }
+      if (typeof raw !== "string") {
+        errors.push({ field: at, message: `must be a string, got ${typeOf(raw)}` });
+        continue;
+      }
+      const text = raw.trim();
+      if (field.required && text === "") {
+        errors.push({ field: at, message: "must not be empty" });
+      } else if (field.enum && !field.enum.includes(text.toLowerCase())) {
+        errors.push({ field: at, message: `must be one of ${field.enum.join(", ")}, got ${JSON.stringify(text)}` });
+      } else if (text.length > field.maxLength) {
+        errors.push({ field: at, message: `exceeds ${field.maxLength} characters (${text.length})` });
+      } else {
+        out[name] = field.enum ? text.toLowerCase() : text;
+      }
+      continue;
+    }
+
+    if (raw === undefined || raw === null) {
+      out[name] = [];
+      continue;
+    }
+    if (!Array.isArray(raw)) {
+      errors.push({ field: at, message: `must be an array of strings, got ${typeOf(raw)}` });
+      continue;
+    }
+    const badItem = raw.findIndex((item) => typeof item !== "string");
+    if (badItem !== -1) {
+      errors.push({ field: `${at}[${badItem}]`, message: `must be a string, got ${typeOf(raw[badItem])}` });
+      continue;
+    }
+    const items = (raw as string[]).map((item) => item.trim()).filter(Boolean);
+    const tooLong = items.findIndex((item) => item.length > field.maxLength);
+    if (items.length > field.maxItems) {
+      errors.push({ field: at, message: `has ${items.length} items, at most ${field.maxItems} allowed` });
+    } else if (tooLong !== -1) {
+      errors.push({ field: `${at}[${tooLong}]`, message: `exceeds ${field.maxLength} characters` });
+    } else {
+      out[name] = items;
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: out };
+}
+
+/** Validate a record_memory reply. */
+export function validateMemoryOutput(value: unknown, path = ""): ValidationResult<CompressedObservation> {
+  const result = validateOutput(MEMORY_OUTPUT, value, path);
+  if (!result.ok) return result;
+  return { ok: true, value: result.value as unknown as CompressedObservation };
+}
+
+/** Validate a record_session_summary reply; empty optional fields become "None". */
+export function validateSummaryOutput(value: unknown): ValidationResult<SummaryFields> {
+  const result = validateOutput(SUMMARY_OUTPUT, value);
+  if (!result.ok) return result;
+  const v = result.value as Record<string, string>;
+  return {
+    ok: true,
+    value: {
+      request: v.request,
+      investigated: v.investigated || "None",
+      learned: v.learned || "None",
+      completed: v.completed || "None",
+      next_steps: v.next_steps || "None",
+    },
+  };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function typeOf(value: unknown): string {
+  return Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+}
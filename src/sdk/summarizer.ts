@@ -2,15 +2,66 @@
  * Open-Mem SDK Session Summarizer
  *
  * Generates a structured session summary from accumulated observations
- * and the final conversation turn. Uses the Anthropic API with the
- * <c-mem-summarize> XML prompt schema.
+ * and the final conversation turn. Uses the project's LLM provider (see
+ * sdk/providers.ts) with the <c-mem-summarize> prompt: structured output
+ * (validated by sdk/structured-output.ts) where the provider supports it,
+ * the XML reply schema otherwise.
+ *
+ * Sessions too long for one prompt are summarized map-reduce: observations
+ * are split into chunks along prompt boundaries, each chunk is summarized,
+ * and the chunk summaries are merged (in rounds, if they are long too).
+ * Chunk summaries can be kept in a SummaryChunkStore so that re-summarizing
+ * a grown session only sends the chunks that changed.
+ *
+ * extendSummary() builds rolling checkpoints of active sessions: the
+ * previous checkpoint plus only the observations recorded since.
  *
  * @module sdk/summarizer
  */
 
-import Anthropic from "@anthropic-ai/sdk";
-import { buildSummaryPrompt } from "./prompts.js";
-import type { Session, Summary, SummarizeInput } from "../types.js";
+import {
+  SUMMARY_MAX_OBSERVATIONS,
+  SUMMARY_PROMPT_VERSION,
+  buildCheckpointPrompt,
+  buildChunkSummaryPrompt,
+  buildReduceSummaryPrompt,
+  buildSummaryPrompt,
+  formatChunkObservation,
+  formatSummaryPart,
+} from "./prompts.js";
+import type { CompletionOptions, LlmProvider } from "./providers.js";
+import {
+  SUMMARY_OUTPUT,
+  StructuredOutputError,
+  structuredOutput,
+  validateSummaryOutput,
+  type SummaryFields,
+} from "./structured-output.js";
+import { RULES_MODEL } from "./rule-compressor.js";
+import type { Observation, Session, Summary, SummarizeInput } from "../types.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Where chunk summaries are kept between runs. Implementations key a chunk
+ * by its observations' content, so an edited observation misses the cache.
+ */
+export interface SummaryChunkStore {
+  get(sessionDbId: number, observations: Observation[]): SummaryFields | null;
+  set(sessionDbId: number, observations: Observation[], fields: SummaryFields, model: string | null): void;
+  /** Drop the session's stored chunks that are not among `chunks` */
+  retain(sessionDbId: number, chunks: Observation[][]): void;
+}
+
+export interface SummarizeOptions {
+  /** Token budget of one chunk (estimated at 4 characters per token); default 6000 */
+  chunkTokens?: number;
+  /** Reuse and keep chunk summaries; without one every chunk is summarized */
+  chunkStore?: SummaryChunkStore;
+}
+
+const DEFAULT_CHUNK_TOKENS = 6_000;
+const CHARS_PER_TOKEN = 4;
 
 // ─── XML Parser ───────────────────────────────────────────────────────────────
 
@@ -24,13 +75,10 @@ function extractElement(xml: string, tag: string): string {
 }
 
 /**
- * Parse the LLM's <session_summary> XML response into a partial Summary.
+ * Parse the LLM's <session_summary> XML response into summary fields.
  * Returns null if the required elements are missing.
  */
-function parseSummaryResponse(
-  xml: string,
-  sessionDbId: number
-): Omit<Summary, "id" | "created_at"> | null {
+function parseSummaryResponse(xml: string): SummaryFields | null {
   const summaryBlock = extractElement(xml, "session_summary");
   if (!summaryBlock) return null;
 
@@ -44,7 +92,6 @@ function parseSummaryResponse(
   if (!request) return null;
 
   return {
-    session_id: sessionDbId,
     request,
     investigated: investigated || "None",
     learned: learned || "None",
@@ -59,65 +106,98 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) => {
-      setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
-    }),
-  ]);
+const BACKOFF_DELAYS = [1_000, 2_000, 4_000];
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
 }
 
-const BACKOFF_DELAYS = [1_000, 2_000, 4_000];
-const REQUEST_TIMEOUT_MS = 15_000;
+/** Oldest first; ties broken by id */
+function chronological(observations: Observation[]): Observation[] {
+  return [...observations].sort(
+    (a, b) => a.created_at_epoch - b.created_at_epoch || a.id - b.id
+  );
+}
 
-// ─── Summarizer ───────────────────────────────────────────────────────────────
+// ─── Chunking ─────────────────────────────────────────────────────────────────
 
 /**
- * Generate a structured session summary from observations and conversation.
- *
- * - Uses the configured Anthropic model (caller passes model to allow
- *   cost-optimized or higher-quality summarization per configuration)
- * - Retries up to 3 times with exponential backoff
- * - Returns a best-effort fallback if all retries fail
+ * Split a session's observations into chunks for map-reduce summarization.
  *
- * @param input   - Session data including observations and last messages
- * @param sessionDbId - Database primary key of the session (for foreign key)
- * @param apiKey  - Anthropic API key (falls back to ANTHROPIC_API_KEY env var)
- * @param model   - Anthropic model to use for summarization
- * @returns Partial Summary object (caller adds id + created_at before DB insert)
+ * Observations are ordered oldest first and grouped by prompt, so a chunk
+ * boundary falls between prompts wherever possible. Whole prompts are
+ * packed into a chunk while it stays within `maxTokens` and
+ * SUMMARY_MAX_OBSERVATIONS; a prompt too large for one chunk is split on
+ * its own.
  */
-export async function summarizeSession(
-  input: SummarizeInput,
-  sessionDbId: number,
-  apiKey?: string,
-  model = "claude-haiku-4-5"
-): Promise<Omit<Summary, "id" | "created_at">> {
-  const isOauthToken = (k: string) => k.includes("oat");
-  const rawKey = apiKey ?? process.env.ANTHROPIC_API_KEY ?? "";
-  const OAUTH_BETA_HEADER = "oauth-2025-04-20,claude-code-20250219";
-  // Pass apiKey: null when using authToken + add required OAuth beta header
-  const client = new Anthropic(
-    rawKey && isOauthToken(rawKey)
-      ? { authToken: rawKey, apiKey: null, defaultHeaders: { "anthropic-beta": OAUTH_BETA_HEADER } }
-      : { apiKey: rawKey || undefined }
-  );
+export function chunkObservations(
+  observations: Observation[],
+  maxTokens = DEFAULT_CHUNK_TOKENS
+): Observation[][] {
+  const groups: Observation[][] = [];
+  for (const obs of chronological(observations)) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].prompt_number === obs.prompt_number) last.push(obs);
+    else groups.push([obs]);
+  }
 
-  // Build a minimal Session shape for the prompt builder
-  const sessionShape: Pick<Session, "claude_session_id" | "project" | "prompt_counter"> =
-    {
-      claude_session_id: input.session_id,
-      project: input.project,
-      prompt_counter: input.prompt_number ?? input.observations.length,
-    };
+  const chunks: Observation[][] = [];
+  let current: Observation[] = [];
+  let currentTokens = 0;
+  const flush = () => {
+    if (current.length > 0) chunks.push(current);
+    current = [];
+    currentTokens = 0;
+  };
 
-  const prompt = buildSummaryPrompt(
-    sessionShape,
-    input.observations,
-    input.last_user_message,
-    input.last_assistant_message
-  );
+  for (const group of groups) {
+    const sizes = group.map((o) => estimateTokens(formatChunkObservation(o)));
+    const groupTokens = sizes.reduce((sum, n) => sum + n, 0);
+
+    if (groupTokens <= maxTokens && group.length <= SUMMARY_MAX_OBSERVATIONS) {
+      if (
+        currentTokens + groupTokens > maxTokens ||
+        current.length + group.length > SUMMARY_MAX_OBSERVATIONS
+      ) {
+        flush();
+      }
+      current.push(...group);
+      currentTokens += groupTokens;
+      continue;
+    }
 
+    // Oversized prompt: its own chunks, split by observation
+    flush();
+    group.forEach((obs, i) => {
+      if (
+        current.length > 0 &&
+        (currentTokens + sizes[i] > maxTokens || current.length >= SUMMARY_MAX_OBSERVATIONS)
+      ) {
+        flush();
+      }
+      current.push(obs);
+      currentTokens += sizes[i];
+    });
+    flush();
+  }
+  flush();
+
+  return chunks;
+}
+
+// ─── Model Calls ──────────────────────────────────────────────────────────────
+
+/**
+ * One summary request with retries: up to 3 attempts with exponential
+ * backoff. A reply failing validation or XML parsing counts as a failed
+ * attempt. Throws the last error once all attempts failed.
+ */
+async function requestSummary(
+  provider: LlmProvider,
+  prompt: string,
+  structured: boolean
+): Promise<SummaryFields> {
+  const options: CompletionOptions = { maxTokens: 1024, purpose: "summarize" };
   let lastError: Error | undefined;
 
   for (let attempt = 0; attempt < 3; attempt++) {
@@ -126,19 +206,15 @@ export async function summarizeSession(
     }
 
     try {
-      const response = await withTimeout(
-        client.messages.create({
-          model,
-          max_tokens: 1024,
-          messages: [{ role: "user", content: prompt }],
-        }),
-        REQUEST_TIMEOUT_MS,
-        "Anthropic summarizer request"
-      );
+      if (structured) {
+        const reply = await provider.completeStructured(prompt, structuredOutput(SUMMARY_OUTPUT), options);
+        const result = validateSummaryOutput(reply);
+        if (!result.ok) throw new StructuredOutputError(SUMMARY_OUTPUT.name, result.errors);
+        return result.value;
+      }
 
-      const text =
-        response.content[0]?.type === "text" ? response.content[0].text : "";
-      const parsed = parseSummaryResponse(text, sessionDbId);
+      const text = await provider.complete(prompt, options);
+      const parsed = parseSummaryResponse(text);
 
       if (parsed) return parsed;
 
@@ -150,9 +226,170 @@ export async function summarizeSession(
     } catch (err) {
       lastError = err instanceof Error ? err : new Error(String(err));
       process.stderr.write(
-        `[c-mem/summarizer] API error on attempt ${attempt + 1}: ${lastError.message}\n`
+        `[c-mem/summarizer] ${provider.name} error on attempt ${attempt + 1}: ${lastError.message}\n`
+      );
+    }
+  }
+
+  throw lastError ?? new Error("Summary request failed");
+}
+
+/**
+ * Map-reduce over chunks: summarize each chunk (or reuse its stored
+ * summary), then merge the chunk summaries. When the merged input would
+ * exceed the chunk budget, consecutive summaries are merged in groups
+ * first, round by round, until one prompt holds them all.
+ */
+async function summarizeChunks(
+  input: SummarizeInput,
+  sessionDbId: number,
+  provider: LlmProvider,
+  session: Pick<Session, "claude_session_id" | "project" | "prompt_counter">,
+  chunks: Observation[][],
+  maxTokens: number,
+  store: SummaryChunkStore | undefined
+): Promise<SummaryFields> {
+  const structured = provider.supportsStructuredOutput();
+  const format = structured ? "json" : "xml";
+  const model = provider.model ?? provider.name;
+
+  let parts: SummaryFields[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    const stored = store?.get(sessionDbId, chunk) ?? null;
+    if (stored) {
+      parts.push(stored);
+      continue;
+    }
+    const fields = await requestSummary(
+      provider,
+      buildChunkSummaryPrompt(session, chunk, index, chunks.length, format),
+      structured
+    );
+    store?.set(sessionDbId, chunk, fields, model);
+    parts.push(fields);
+  }
+  store?.retain(sessionDbId, chunks);
+
+  const partTokens = (part: SummaryFields, i: number) => estimateTokens(formatSummaryPart(part, i));
+
+  while (parts.reduce((sum, part, i) => sum + partTokens(part, i), 0) > maxTokens) {
+    const groups: SummaryFields[][] = [];
+    let group: SummaryFields[] = [];
+    let groupTokens = 0;
+    for (const part of parts) {
+      const tokens = partTokens(part, group.length);
+      // At least two parts per group, so every round shrinks the list
+      if (group.length >= 2 && groupTokens + tokens > maxTokens) {
+        groups.push(group);
+        group = [];
+        groupTokens = 0;
+      }
+      group.push(part);
+      groupTokens += tokens;
+    }
+    groups.push(group);
+    if (groups.length === parts.length) break;
+
+    const merged: SummaryFields[] = [];
+    for (const g of groups) {
+      merged.push(
+        g.length === 1
+          ? g[0]
+          : await requestSummary(
+              provider,
+              buildReduceSummaryPrompt(session, g, undefined, undefined, format),
+              structured
+            )
+      );
+    }
+    parts = merged;
+  }
+
+  return requestSummary(
+    provider,
+    buildReduceSummaryPrompt(
+      session,
+      parts,
+      input.last_user_message,
+      input.last_assistant_message,
+      format
+    ),
+    structured
+  );
+}
+
+// ─── Summarizer ───────────────────────────────────────────────────────────────
+
+/**
+ * Generate a structured session summary from observations and conversation.
+ *
+ * - Uses the project's configured provider, model and request timeout
+ * - Structured output if the provider supports it; a reply failing
+ *   validation counts as a failed attempt
+ * - Sessions larger than one chunk are summarized map-reduce (see
+ *   chunkObservations()); stored chunk summaries are reused
+ * - Retries each request up to 3 times with exponential backoff
+ * - Returns a best-effort fallback if a request still fails
+ *
+ * @param input   - Session data including observations and last messages
+ * @param sessionDbId - Database primary key of the session (for foreign key)
+ * @param provider - LLM backend; must be available (callers check isAvailable())
+ * @param options - Chunk budget and chunk summary store
+ * @returns Partial Summary object (caller adds id + created_at before DB insert),
+ *          stamped with the prompt version and model that produced it
+ * @throws Error if the provider is not available
+ */
+export async function summarizeSession(
+  input: SummarizeInput,
+  sessionDbId: number,
+  provider: LlmProvider,
+  options: SummarizeOptions = {}
+): Promise<Omit<Summary, "id" | "created_at">> {
+  if (!provider.isAvailable()) {
+    throw new Error(`LLM provider "${provider.name}" is not available`);
+  }
+
+  // Build a minimal Session shape for the prompt builder
+  const sessionShape: Pick<Session, "claude_session_id" | "project" | "prompt_counter"> =
+    {
+      claude_session_id: input.session_id,
+      project: input.project,
+      prompt_counter: input.prompt_number ?? input.observations.length,
+    };
+
+  const maxTokens = options.chunkTokens ?? DEFAULT_CHUNK_TOKENS;
+  const chunks = chunkObservations(input.observations, maxTokens);
+  const stamp = { prompt_version: SUMMARY_PROMPT_VERSION, model: provider.model ?? provider.name };
+
+  try {
+    let fields: SummaryFields;
+    if (chunks.length <= 1) {
+      const structured = provider.supportsStructuredOutput();
+      fields = await requestSummary(
+        provider,
+        buildSummaryPrompt(
+          sessionShape,
+          chunks[0] ?? [],
+          input.last_user_message,
+          input.last_assistant_message,
+          structured ? "json" : "xml"
+        ),
+        structured
+      );
+    } else {
+      fields = await summarizeChunks(
+        input,
+        sessionDbId,
+        provider,
+        sessionShape,
+        chunks,
+        maxTokens,
+        options.chunkStore
       );
     }
+    return { session_id: sessionDbId, ...fields, ...stamp };
+  } catch {
+    // Errors were logged per attempt
   }
 
   // Graceful fallback summary
@@ -168,5 +405,61 @@ export async function summarizeSession(
     learned: "None",
     completed: `${input.observations.length} observations captured`,
     next_steps: "None",
+    prompt_version: null,
+    model: RULES_MODEL,
+  };
+}
+
+// ─── Checkpoints ──────────────────────────────────────────────────────────────
+
+/**
+ * Extend a checkpoint summary with the observations recorded since it.
+ * New observations are chunked as in summarizeSession(); each chunk is
+ * folded into the running summary in turn.
+ *
+ * Unlike summarizeSession() there is no fallback: a failed request throws,
+ * so a broken reply never replaces a good checkpoint.
+ *
+ * @param previous - The checkpoint being extended
+ * @param input    - Session data; `observations` holds only the new ones
+ * @param sessionDbId - Database primary key of the session (for foreign key)
+ * @param provider - LLM backend; must be available (callers check isAvailable())
+ * @param options  - Chunk budget (the chunk store is not used)
+ * @returns Partial Summary object, stamped with prompt version and model
+ * @throws Error if the provider is not available or a request fails every retry
+ */
+export async function extendSummary(
+  previous: SummaryFields,
+  input: SummarizeInput,
+  sessionDbId: number,
+  provider: LlmProvider,
+  options: SummarizeOptions = {}
+): Promise<Omit<Summary, "id" | "created_at">> {
+  if (!provider.isAvailable()) {
+    throw new Error(`LLM provider "${provider.name}" is not available`);
+  }
+
+  const sessionShape: Pick<Session, "claude_session_id" | "project" | "prompt_counter"> =
+    {
+      claude_session_id: input.session_id,
+      project: input.project,
+      prompt_counter: input.prompt_number ?? input.observations.length,
+    };
+  const structured = provider.supportsStructuredOutput();
+
+  let fields = previous;
+  for (const chunk of chunkObservations(input.observations, options.chunkTokens ?? DEFAULT_CHUNK_TOKENS)) {
+    fields = await requestSummary(
+      provider,
+      buildCheckpointPrompt(sessionShape, fields, chunk, structured ? "json" : "xml"),
+      structured
+    );
+  }
+
+  return {
+    session_id: sessionDbId,
+    ...fields,
+    prompt_version: SUMMARY_PROMPT_VERSION,
+    model: provider.model ?? provider.name,
   };
 }
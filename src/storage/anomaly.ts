@@ -55,6 +55,11 @@ const VALID_OBS_TYPES = new Set([
   'discovery', 'change',
 ]);
 
+/** True if `type` is an obs_type the anomaly filter accepts. */
+export function isKnownObsType(type: string): boolean {
+  return VALID_OBS_TYPES.has(type);
+}
+
 // ─── Size Thresholds ─────────────────────────────────────────────────────────
 
 /** Narrative+compressed total above this → size-anomaly warn */
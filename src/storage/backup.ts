@@ -0,0 +1,167 @@
+/**
+ * Open-Mem Backup Service
+ *
+ * Consistent online snapshots of the WAL-mode database via `VACUUM INTO`,
+ * which reads through a single transaction — unlike a file copy it can never
+ * capture a torn main-file/WAL pair while the worker is writing.
+ *
+ * Snapshots live in <dataDir>/backups as
+ *   open-mem-<ISO timestamp>-<label>.db
+ * with 0600 permissions (directory 0700). Only the newest `keep` are retained.
+ *
+ * Restore is split in two: replaceDatabaseFile() here does the file work and
+ * validation; db.ts restoreDb() closes and reopens the singleton around it.
+ */
+
+import { Database } from 'bun:sqlite';
+import {
+  chmodSync,
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from 'fs';
+import { join } from 'path';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export type BackupLabel = 'scheduled' | 'manual' | 'pre-restore';
+
+/** Only names we generated are listed, restored or rotated */
+const BACKUP_NAME_RE =
+  /^open-mem-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z-(scheduled|manual|pre-restore)\.db$/;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface BackupInfo {
+  file: string;
+  path: string;
+  label: BackupLabel;
+  bytes: number;
+  created_at: string; // ISO-8601
+}
+
+// ─── Backup Service ───────────────────────────────────────────────────────────
+
+export class BackupService {
+  private readonly _dir: string;
+  private readonly _keep: number;
+
+  constructor(dir: string, keep: number) {
+    this._dir = dir;
+    this._keep = Math.max(1, keep);
+  }
+
+  /**
+   * Write a snapshot of `db`, then prune old ones beyond `keep`.
+   * Pass `rotate: false` when an older snapshot must survive (e.g. the one
+   * about to be restored) and call rotate() afterwards.
+   */
+  create(db: Database, label: BackupLabel = 'manual', options: { rotate?: boolean } = {}): BackupInfo {
+    if (!existsSync(this._dir)) {
+      mkdirSync(this._dir, { recursive: true, mode: 0o700 });
+    }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = `open-mem-${stamp}-${label}.db`;
+    const path = join(this._dir, file);
+    const tmp = `${path}.tmp`;
+
+    // VACUUM INTO refuses to overwrite; write to a temp name so a crash never
+    // leaves a half-written file that looks like a valid snapshot.
+    if (existsSync(tmp)) unlinkSync(tmp);
+    db.query('VACUUM INTO ?').run(tmp);
+    chmodSync(tmp, 0o600);
+    renameSync(tmp, path);
+
+    if (options.rotate !== false) this.rotate();
+    return this._info(file);
+  }
+
+  /** Snapshots, newest first. */
+  list(): BackupInfo[] {
+    if (!existsSync(this._dir)) return [];
+    return readdirSync(this._dir)
+      .filter((f) => BACKUP_NAME_RE.test(f))
+      .sort()
+      .reverse()
+      .map((f) => this._info(f));
+  }
+
+  /**
+   * Resolve a snapshot file name to its path.
+   * @throws Error if the name is not one of ours or does not exist
+   */
+  resolve(file: string): string {
+    if (!BACKUP_NAME_RE.test(file)) {
+      throw new Error(`Invalid backup name "${file}"`);
+    }
+    const path = join(this._dir, file);
+    if (!existsSync(path)) {
+      throw new Error(`Backup not found: ${file}`);
+    }
+    return path;
+  }
+
+  /** Delete all but the newest `keep` snapshots. Returns the number removed. */
+  rotate(): number {
+    const stale = this.list().slice(this._keep);
+    for (const b of stale) unlinkSync(b.path);
+    return stale.length;
+  }
+
+  private _info(file: string): BackupInfo {
+    const path = join(this._dir, file);
+    const stat = statSync(path);
+    const label = (file.match(BACKUP_NAME_RE)?.[1] ?? 'manual') as BackupLabel;
+    return { file, path, label, bytes: stat.size, created_at: stat.mtime.toISOString() };
+  }
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────────
+
+/**
+ * Check that a snapshot opens and passes `PRAGMA integrity_check`.
+ * @throws Error describing the first problem found
+ */
+export function validateSnapshot(snapshotPath: string): void {
+  let snap: Database | null = null;
+  try {
+    snap = new Database(snapshotPath, { readonly: true });
+    const row = snap.query<{ integrity_check: string }, []>('PRAGMA integrity_check').get();
+    if (row?.integrity_check !== 'ok') {
+      throw new Error(`integrity_check failed: ${row?.integrity_check ?? 'no result'}`);
+    }
+    const hasSchema = snap
+      .query<{ name: string }, []>(
+        `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'migrations'`,
+      )
+      .get();
+    if (!hasSchema) throw new Error('not an Open-Mem database (no migrations table)');
+  } catch (err) {
+    throw new Error(`Snapshot ${snapshotPath} is unusable: ${err instanceof Error ? err.message : String(err)}`);
+  } finally {
+    snap?.close();
+  }
+}
+
+/**
+ * Replace the database file at `dbPath` with a copy of `snapshotPath`.
+ * The connection to `dbPath` MUST be closed first. Stale -wal/-shm files are
+ * removed so SQLite does not replay the old WAL over the restored pages.
+ */
+export function replaceDatabaseFile(snapshotPath: string, dbPath: string): void {
+  validateSnapshot(snapshotPath);
+
+  const tmp = `${dbPath}.restore-tmp`;
+  copyFileSync(snapshotPath, tmp);
+  chmodSync(tmp, 0o600);
+
+  for (const suffix of ['-wal', '-shm']) {
+    if (existsSync(dbPath + suffix)) unlinkSync(dbPath + suffix);
+  }
+  renameSync(tmp, dbPath);
+}
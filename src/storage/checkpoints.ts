@@ -0,0 +1,153 @@
+/**
+ * Open-Mem Checkpoint Summaries
+ *
+ * A session that never reaches its Stop / SessionEnd hooks (crash, killed
+ * terminal) would otherwise leave no summary. While a session is active the
+ * worker keeps one rolling checkpoint per session in the summaries table
+ * (checkpoint = 1):
+ *
+ *   due()    — active sessions with enough new observations since their
+ *              checkpoint (settings.json → summarization.checkpointEvery), or
+ *              with new observations older than checkpointMinutes
+ *   latest() — the session's checkpoint, which the next one extends
+ *   save()   — replace it; through_observation_id marks the newest
+ *              observation covered, so the next checkpoint only reads newer ones
+ *
+ * Checkpoints are ordinary summaries for search, export and forget.
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { Summary } from './types.ts';
+import type { SummarizationPolicy } from '../types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const SECONDS_PER_MINUTE = 60;
+
+/** A session's first checkpoint waits for at least this many observations */
+const DEFAULT_MIN_OBSERVATIONS = 3;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface DueCheckpoint {
+  session_id: number;
+  claude_session_id: string;
+  project: string;
+  /** Observations newer than the current checkpoint */
+  pending: number;
+  reason: 'observations' | 'minutes';
+}
+
+export interface DueOptions {
+  /** Only this session (DB id) */
+  sessionId?: number;
+  minObservations?: number;
+  now?: number; // Unix epoch ms
+}
+
+export type CheckpointInput = Omit<Summary, 'id' | 'created_at' | 'checkpoint'>;
+
+// ─── Checkpoint Service ───────────────────────────────────────────────────────
+
+export class CheckpointService {
+  private readonly _db: Database;
+
+  constructor(db: Database) {
+    this._db = db;
+  }
+
+  /** Active sessions whose checkpoint is due under `policy`, oldest session first. */
+  due(
+    policy: Pick<SummarizationPolicy, 'checkpointEvery' | 'checkpointMinutes'>,
+    options: DueOptions = {},
+  ): DueCheckpoint[] {
+    if (policy.checkpointEvery === null && policy.checkpointMinutes === null) return [];
+
+    const where = ["s.status = 'active'"];
+    const params: number[] = [];
+    if (options.sessionId !== undefined) {
+      where.push('s.id = ?');
+      params.push(options.sessionId);
+    }
+
+    const rows = this._db
+      .query<
+        {
+          session_id: number;
+          claude_session_id: string;
+          project: string;
+          pending: number;
+          oldest_pending: number;
+          checkpoint_at: number | null;
+        },
+        number[]
+      >(
+        `SELECT s.id AS session_id, s.claude_session_id, s.project,
+                COUNT(o.id)       AS pending,
+                MIN(o.created_at) AS oldest_pending,
+                cp.created_at     AS checkpoint_at
+         FROM sessions s
+         LEFT JOIN summaries cp ON cp.session_id = s.id AND cp.checkpoint = 1
+         JOIN observations o ON o.session_id = s.id
+                            AND o.deleted_at IS NULL
+                            AND o.id > COALESCE(cp.through_observation_id, 0)
+         WHERE ${where.join(' AND ')}
+         GROUP BY s.id
+         ORDER BY s.id`,
+      )
+      .all(...params);
+
+    const now = Math.floor((options.now ?? Date.now()) / 1000);
+    const minObservations = options.minObservations ?? DEFAULT_MIN_OBSERVATIONS;
+    const due: DueCheckpoint[] = [];
+
+    for (const row of rows) {
+      if (row.checkpoint_at === null && row.pending < minObservations) continue;
+      const { oldest_pending: _, checkpoint_at: since, ...session } = row;
+
+      if (policy.checkpointEvery !== null && row.pending >= policy.checkpointEvery) {
+        due.push({ ...session, reason: 'observations' });
+      } else if (
+        policy.checkpointMinutes !== null &&
+        now - (since ?? row.oldest_pending) >= policy.checkpointMinutes * SECONDS_PER_MINUTE
+      ) {
+        due.push({ ...session, reason: 'minutes' });
+      }
+    }
+    return due;
+  }
+
+  /** The session's current checkpoint, if any */
+  latest(sessionDbId: number): Summary | null {
+    return this._db
+      .query<Summary, [number]>(
+        'SELECT * FROM summaries WHERE session_id = ? AND checkpoint = 1 ORDER BY id DESC LIMIT 1',
+      )
+      .get(sessionDbId) ?? null;
+  }
+
+  /** Store a checkpoint, replacing the session's previous one. Returns the new summary id. */
+  save(checkpoint: CheckpointInput): number {
+    return this._db.transaction(() => {
+      this._db.run('DELETE FROM summaries WHERE session_id = ? AND checkpoint = 1', [checkpoint.session_id]);
+      const result = this._db.run(
+        `INSERT INTO summaries
+           (session_id, request, investigated, learned, completed, next_steps, prompt_version, model,
+            checkpoint, through_observation_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?)`,
+        [
+          checkpoint.session_id,
+          checkpoint.request,
+          checkpoint.investigated,
+          checkpoint.learned,
+          checkpoint.completed,
+          checkpoint.next_steps,
+          checkpoint.prompt_version,
+          checkpoint.model,
+          checkpoint.through_observation_id,
+        ],
+      );
+      return Number(result.lastInsertRowid);
+    })();
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Open-Mem Command History
+ *
+ * One row per shell command run through an exec tool (Bash / exec / shell),
+ * recorded by the queue processor next to the observation it produced. The
+ * command line, working directory and outcome would otherwise only survive
+ * inside the narrative.
+ *
+ * Outcome comes from the structured fields the post-tool-use hook copies
+ * into tool_input (exit_code, signal, duration_ms) when the tool reports
+ * them, else from the usual "Exit code: N" / "killed by signal" lines in the
+ * output. Unknown stays null — a run only counts as failed when it has a
+ * non-zero exit code or a signal.
+ *
+ * Rows cascade away with their observation (retention, forget, purge), and
+ * trashed observations hide their commands.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { scrubSecrets } from './secrets.ts';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Lower-cased tool names whose input is a shell command */
+export const EXEC_TOOL_NAMES = new Set(['bash', 'exec', 'shell']);
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_FAILING_LIMIT = 20;
+
+const MAX_COMMAND_CHARS = 4_000;
+
+/** A run failed if it exited non-zero or was stopped by a signal; unknown exit = not failed */
+const FAILED_SQL = '(COALESCE(c.exit_code, 0) <> 0 OR c.signal IS NOT NULL)';
+
+const EXIT_CODE_RES = [
+  /\bexit(?:ed with)? (?:code|status):? *(-?\d+)/i,
+  /\breturn(?:ed)? (?:non-zero )?(?:exit )?code:? *(-?\d+)/i,
+];
+const SIGNAL_RE = /\b(?:killed|terminated|interrupted) (?:by|with) signal:? *(SIG[A-Z0-9]+|\d+)/i;
+const TIMEOUT_RE = /\bcommand timed out\b/i;
+const DURATION_RE = /^(?:duration|elapsed|wall time):? *(\d+(?:\.\d+)?) *(ms|s)\b/im;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** What one exec tool call ran and how it ended; null = not reported */
+export interface CommandRun {
+  command: string;
+  cwd: string | null;
+  exit_code: number | null;
+  /** Signal name or number, or "timeout" / "interrupted" */
+  signal: string | null;
+  duration_ms: number | null;
+}
+
+export interface CommandEntry extends CommandRun {
+  id: number;
+  observation_id: number;
+  failed: boolean;
+  session_id: string; // Claude session id
+  project: string;
+  created_at: number; // Unix epoch seconds
+}
+
+export interface CommandSearchOptions {
+  /** Words that must all appear in the command line (case-insensitive) */
+  query?: string;
+  project?: string;
+  /** true = only failed runs, false = only runs known to succeed */
+  failed?: boolean;
+  limit?: number;
+}
+
+export interface FailingCommand {
+  project: string;
+  command: string;
+  failures: number;
+  runs: number;
+  last_exit_code: number | null;
+  last_signal: string | null;
+  last_failed_at: number; // Unix epoch seconds
+}
+
+export interface FailingCommandOptions {
+  project?: string;
+  /** Only count runs newer than this (Unix epoch seconds) */
+  since?: number;
+  limit?: number;
+}
+
+interface CommandRow extends Omit<CommandEntry, 'failed'> {
+  failed: number;
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * The command run by an exec tool call, or null for other tools and calls
+ * without a command. `toolInput` is the queue's JSON string.
+ */
+export function parseCommandRun(toolName: string, toolInput: string, toolResult: string): CommandRun | null {
+  if (!EXEC_TOOL_NAMES.has(toolName.trim().toLowerCase())) return null;
+
+  let input: unknown;
+  try {
+    input = JSON.parse(toolInput);
+  } catch {
+    input = toolInput;
+  }
+  const obj = input && typeof input === 'object' && !Array.isArray(input)
+    ? (input as Record<string, unknown>)
+    : {};
+
+  const command = typeof input === 'string'
+    ? input
+    : typeof obj.command === 'string'
+      ? obj.command
+      : Array.isArray(obj.command)
+        ? obj.command.map(String).join(' ')
+        : typeof obj.cmd === 'string' ? obj.cmd : '';
+  if (!command.trim()) return null;
+
+  const cwd = [obj.cwd, obj.workdir].find((v): v is string => typeof v === 'string' && v !== '') ?? null;
+
+  let exitCode = integer(obj.exit_code);
+  if (exitCode === null) {
+    for (const re of EXIT_CODE_RES) {
+      const m = re.exec(toolResult);
+      if (m) {
+        exitCode = Number(m[1]);
+        break;
+      }
+    }
+  }
+
+  let signal = typeof obj.signal === 'string' && obj.signal ? obj.signal : null;
+  if (!signal) {
+    const m = SIGNAL_RE.exec(toolResult);
+    signal = m ? m[1].toUpperCase() : TIMEOUT_RE.test(toolResult) ? 'timeout' : null;
+  }
+
+  let durationMs = integer(obj.duration_ms);
+  if (durationMs === null) {
+    const m = DURATION_RE.exec(toolResult);
+    if (m) durationMs = Math.round(Number(m[1]) * (m[2].toLowerCase() === 's' ? 1000 : 1));
+  }
+
+  return {
+    command: command.trim().slice(0, MAX_COMMAND_CHARS),
+    cwd,
+    exit_code: exitCode,
+    signal,
+    duration_ms: durationMs,
+  };
+}
+
+// ─── Command Service ──────────────────────────────────────────────────────────
+
+export class CommandService {
+  private readonly _db: Database;
+
+  constructor(db: Database) {
+    this._db = db;
+  }
+
+  /**
+   * Store a run against the observation it produced (session and timestamp
+   * are taken from the observation). Returns null if the observation is gone.
+   */
+  record(observationId: number, run: CommandRun): number | null {
+    const result = this._db
+      .query(
+        `INSERT INTO commands
+           (session_id, observation_id, command, cwd, exit_code, signal, duration_ms, created_at)
+         SELECT o.session_id, o.id, ?, ?, ?, ?, ?, o.created_at
+         FROM observations o
+         WHERE o.id = ?`,
+      )
+      .run(
+        scrubSecrets(run.command),
+        run.cwd,
+        run.exit_code,
+        run.signal,
+        run.duration_ms,
+        observationId,
+      );
+    return result.changes > 0 ? Number(result.lastInsertRowid) : null;
+  }
+
+  /** Matching runs, newest first. */
+  search(options: CommandSearchOptions = {}): CommandEntry[] {
+    const where = ['o.deleted_at IS NULL'];
+    const params: (string | number)[] = [];
+    for (const word of (options.query ?? '').split(/\s+/).filter(Boolean)) {
+      where.push('instr(lower(c.command), lower(?)) > 0');
+      params.push(word);
+    }
+    if (options.project) {
+      where.push('s.project = ?');
+      params.push(options.project);
+    }
+    if (options.failed !== undefined) {
+      where.push(options.failed ? FAILED_SQL : `c.exit_code = 0 AND c.signal IS NULL`);
+    }
+    params.push(options.limit ?? DEFAULT_LIMIT);
+
+    return this._db
+      .query<CommandRow, (string | number)[]>(
+        `SELECT c.id, c.observation_id, c.command, c.cwd, c.exit_code, c.signal, c.duration_ms,
+                ${FAILED_SQL} AS failed,
+                s.claude_session_id AS session_id, s.project, c.created_at
+         FROM commands c
+         JOIN observations o ON o.id = c.observation_id
+         JOIN sessions s ON s.id = c.session_id
+         WHERE ${where.join(' AND ')}
+         ORDER BY c.created_at DESC, c.id DESC
+         LIMIT ?`,
+      )
+      .all(...params)
+      .map((row) => ({ ...row, failed: row.failed === 1 }));
+  }
+
+  /**
+   * Command lines that failed more than once, per project, most failures
+   * first (then most recent). `runs` counts every run of the same line.
+   */
+  failing(options: FailingCommandOptions = {}): FailingCommand[] {
+    const where = ['o.deleted_at IS NULL'];
+    const params: (string | number)[] = [];
+    if (options.project) {
+      where.push('s.project = ?');
+      params.push(options.project);
+    }
+    if (options.since !== undefined) {
+      where.push('c.created_at >= ?');
+      params.push(options.since);
+    }
+    params.push(options.limit ?? DEFAULT_FAILING_LIMIT);
+
+    return this._db
+      .query<FailingCommand, (string | number)[]>(
+        `WITH runs AS (
+           SELECT s.project, c.command, c.exit_code, c.signal, c.created_at, c.id,
+                  ${FAILED_SQL} AS failed
+           FROM commands c
+           JOIN observations o ON o.id = c.observation_id
+           JOIN sessions s ON s.id = c.session_id
+           WHERE ${where.join(' AND ')}
+         ),
+         last_failure AS (
+           SELECT project, command, exit_code, signal, created_at,
+                  ROW_NUMBER() OVER (
+                    PARTITION BY project, command ORDER BY created_at DESC, id DESC
+                  ) AS n
+           FROM runs
+           WHERE failed
+         )
+         SELECT r.project, r.command,
+                SUM(r.failed) AS failures,
+                COUNT(*)      AS runs,
+                l.exit_code   AS last_exit_code,
+                l.signal      AS last_signal,
+                l.created_at  AS last_failed_at
+         FROM runs r
+         JOIN last_failure l ON l.project = r.project AND l.command = r.command AND l.n = 1
+         GROUP BY r.project, r.command
+         HAVING failures > 1
+         ORDER BY failures DESC, last_failed_at DESC
+         LIMIT ?`,
+      )
+      .all(...params);
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function integer(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) ? value : null;
+}
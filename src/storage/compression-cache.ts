@@ -0,0 +1,188 @@
+/**
+ * Open-Mem Compression Cache
+ *
+ * Agents re-run the same commands and re-read the same files all the time.
+ * Each LLM compression is stored under a SHA-256 of
+ *
+ *   tool name · normalized input · scrubbed, normalized response · prompt version
+ *
+ * and compressObservation() consults the cache before calling a provider.
+ * Normalization drops what changes between otherwise identical runs: key
+ * order, timing fields, timestamps and durations in the output, line endings
+ * and trailing whitespace. Bumping the prompt version retires every entry.
+ *
+ * Entries expire after `ttlDays` and the least recently used are evicted
+ * beyond `maxEntries`. Hit and miss counters live in a one-row table so they
+ * survive restarts (reported by GET /api/stats).
+ */
+
+import { createHash } from 'crypto';
+import type { Database } from 'bun:sqlite';
+import { scrubSecrets } from './secrets.ts';
+import type { CompressedObservation, CompressionCachePolicy, RawObservation } from '../types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const SECONDS_PER_DAY = 86_400;
+
+/** Input fields that differ between identical runs */
+const VOLATILE_INPUT_KEYS = new Set(['duration_ms', 'durationMs', 'timestamp', 'started_at', 'ended_at']);
+
+const TIMESTAMP_RE = /\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g;
+const DURATION_RE = /\b\d+(?:\.\d+)?\s?(?:ms|s|sec|seconds?|m|min)\b/g;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface CompressionCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), null before the first lookup */
+  hit_rate: number | null;
+}
+
+// ─── Key ──────────────────────────────────────────────────────────────────────
+
+/** Cache key of one tool execution under one prompt version. */
+export function compressionCacheKey(raw: RawObservation, promptVersion: string): string {
+  const tool = raw.tool_name.trim().toLowerCase();
+  const input = typeof raw.tool_input === 'string'
+    ? normalizeText(raw.tool_input)
+    : stableJson(raw.tool_input);
+  const response = normalizeText(scrubSecrets(raw.tool_response))
+    .replace(TIMESTAMP_RE, '<time>')
+    .replace(DURATION_RE, '<duration>');
+
+  return createHash('sha256')
+    .update([tool, input, response, promptVersion].join('\u0000'))
+    .digest('hex');
+}
+
+// ─── Compression Cache Service ────────────────────────────────────────────────
+
+export class CompressionCacheService {
+  private readonly _db: Database;
+  private readonly _policy: CompressionCachePolicy;
+  private readonly _promptVersion: string;
+
+  constructor(db: Database, policy: CompressionCachePolicy, promptVersion: string) {
+    this._db = db;
+    this._policy = policy;
+    this._promptVersion = promptVersion;
+  }
+
+  /** The cached compression of `raw`, or null. Counts a hit or a miss. */
+  get(raw: RawObservation): CompressedObservation | null {
+    const key = compressionCacheKey(raw, this._promptVersion);
+    const row = this._db
+      .query<{ compressed: string }, [string, number]>(
+        `SELECT compressed FROM compression_cache
+         WHERE key = ? AND created_at >= ?`,
+      )
+      .get(key, this._cutoff());
+
+    if (!row) {
+      this._count('misses');
+      return null;
+    }
+    this._db
+      .query(
+        `UPDATE compression_cache
+         SET hit_count = hit_count + 1, last_hit_at = unixepoch()
+         WHERE key = ?`,
+      )
+      .run(key);
+    this._count('hits');
+    return JSON.parse(row.compressed) as CompressedObservation;
+  }
+
+  /** Store an LLM compression of `raw`, then drop expired and excess entries. */
+  set(raw: RawObservation, compressed: CompressedObservation): void {
+    this._db.transaction(() => {
+      this._db
+        .query(
+          `INSERT OR REPLACE INTO compression_cache (key, tool_name, prompt_version, compressed)
+           VALUES (?, ?, ?, ?)`,
+        )
+        .run(
+          compressionCacheKey(raw, this._promptVersion),
+          raw.tool_name,
+          this._promptVersion,
+          JSON.stringify(compressed),
+        );
+      this.evict();
+    })();
+  }
+
+  /** Remove expired entries and the least recently used beyond maxEntries. Returns rows removed. */
+  evict(): number {
+    let removed = this._db
+      .query('DELETE FROM compression_cache WHERE created_at < ?')
+      .run(this._cutoff()).changes;
+    removed += this._db
+      .query(
+        `DELETE FROM compression_cache
+         WHERE key IN (
+           SELECT key FROM compression_cache
+           ORDER BY COALESCE(last_hit_at, created_at) DESC, created_at DESC
+           LIMIT -1 OFFSET ?
+         )`,
+      )
+      .run(this._policy.maxEntries).changes;
+    return removed;
+  }
+
+  /** Drop every entry (counters are kept). Returns rows removed. */
+  clear(): number {
+    return this._db.query('DELETE FROM compression_cache').run().changes;
+  }
+
+  stats(): CompressionCacheStats {
+    const entries = this._db
+      .query<{ n: number }, []>('SELECT COUNT(*) AS n FROM compression_cache')
+      .get()?.n ?? 0;
+    const counters = this._db
+      .query<{ hits: number; misses: number }, []>(
+        'SELECT hits, misses FROM compression_cache_stats WHERE id = 1',
+      )
+      .get() ?? { hits: 0, misses: 0 };
+    const lookups = counters.hits + counters.misses;
+    return {
+      entries,
+      hits: counters.hits,
+      misses: counters.misses,
+      hit_rate: lookups > 0 ? counters.hits / lookups : null,
+    };
+  }
+
+  private _cutoff(): number {
+    return Math.floor(Date.now() / 1000) - this._policy.ttlDays * SECONDS_PER_DAY;
+  }
+
+  private _count(column: 'hits' | 'misses'): void {
+    this._db
+      .query(
+        `INSERT INTO compression_cache_stats (id, ${column}) VALUES (1, 1)
+         ON CONFLICT(id) DO UPDATE SET ${column} = ${column} + 1`,
+      )
+      .run();
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function normalizeText(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+/** JSON with sorted keys and volatile fields removed, so key order never changes the hash */
+function stableJson(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v: unknown) => {
+    if (!v || typeof v !== 'object' || Array.isArray(v)) return v;
+    const sorted: Record<string, unknown> = {};
+    for (const k of Object.keys(v).sort()) {
+      if (!VOLATILE_INPUT_KEYS.has(k)) sorted[k] = (v as Record<string, unknown>)[k];
+    }
+    return sorted;
+  });
+}
@@ -17,8 +17,11 @@ import { existsSync, mkdirSync, chmodSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 import { runMigrations } from './migrations.ts';
-import { scrubSecrets, scrubJson } from './secrets.ts';
+import { scrubSecrets, scrubJson, scrubRawInput } from './secrets.ts';
 import { SearchService } from './search.ts';
+import type { HighlightOptions, IndexPageOptions, TimelineOptions } from './search.ts';
+import { replaceDatabaseFile } from './backup.ts';
+import { VectorIndex } from './vectors.ts';
 import { readAuthToken } from '../auth/token.ts';
 import type {
   Session,
@@ -28,6 +31,11 @@ import type {
   QueueMessage,
   QueueMessageType,
   ProjectStats,
+  ObservationPatch,
+  ObservationAuditEntry,
+  AuditAction,
+  SearchScope,
+  SearchHighlight,
 } from './types.ts';
 // Builder-B shared types (aliased to avoid name collisions with storage/types.ts)
 import type {
@@ -38,6 +46,8 @@ import type {
   UserPrompt as BBUserPrompt,
   QueueItem,
   QueueStatus as BBQueueStatus,
+  ObservationPatchBody,
+  RankingSettings,
 } from '../types.js';
 
 // ─── Paths ────────────────────────────────────────────────────────────────────
@@ -67,7 +77,7 @@ function getHmacKey(): string {
  * Sign observation content using HMAC-SHA256.
  * Signs `compressed + "\n" + (narrative ?? "")`.
  */
-function signObservation(compressed: string, narrative: string | null): string {
+export function signObservation(compressed: string, narrative: string | null): string {
   return createHmac('sha256', getHmacKey())
     .update(compressed + '\n' + (narrative ?? ''))
     .digest('hex');
@@ -94,8 +104,23 @@ function verifyObservationHmac(
 
 // ─── Database Interface ───────────────────────────────────────────────────────
 
-type InsertableObservation = Omit<Observation, 'id' | 'created_at' | 'hmac'> & {
+type InsertableObservation = Omit<
+  Observation,
+  'id' | 'created_at' | 'hmac' | 'deleted_at' | 'prompt_version' | 'model'
+> & {
   hmac?: string | null;
+  prompt_version?: string | null;
+  model?: string | null;
+};
+
+type InsertableSummary = Omit<
+  Summary,
+  'id' | 'created_at' | 'prompt_version' | 'model' | 'checkpoint' | 'through_observation_id'
+> & {
+  prompt_version?: string | null;
+  model?: string | null;
+  checkpoint?: boolean;
+  through_observation_id?: number | null;
 };
 
 export interface DbInterface {
@@ -111,11 +136,19 @@ export interface DbInterface {
   getObservation(id: number): Observation | null;
   getRecentObservations(project: string, limit: number): Observation[];
 
+  // Observation edits, trash and audit
+  updateObservation(id: number, patch: ObservationPatch, actor: string): Observation | null;
+  softDeleteObservation(id: number, actor: string): boolean;
+  restoreObservation(id: number, actor: string): boolean;
+  purgeObservation(id: number, actor: string): boolean;
+  getDeletedObservations(project: string | undefined, limit: number, offset: number): Observation[];
+  getObservationAudit(id: number): ObservationAuditEntry[];
+
   // User prompts
   insertUserPrompt(sessionId: number, promptNumber: number, prompt: string): void;
 
   // Summaries
-  insertSummary(summary: Omit<Summary, 'id' | 'created_at'>): number;
+  insertSummary(summary: InsertableSummary): number;
   getRecentSummaries(project: string, limit: number): Summary[];
 
   // Queue
@@ -152,6 +185,11 @@ export function getDb(): DbInterface {
   return _db;
 }
 
+/** Absolute path of the live database file */
+export function getDbPath(): string {
+  return DB_PATH;
+}
+
 /**
  * Reset the singleton — used in tests to get a fresh in-memory database.
  * @internal
@@ -202,6 +240,13 @@ class CMemDb implements DbInterface {
 
     // Apply all schema migrations
     runMigrations(this._db);
+
+    // Vectors missing for rows from before v6 or an older VECTOR_MODEL — never fatal
+    try {
+      new VectorIndex(this._db).sync();
+    } catch (err) {
+      process.stderr.write(`[c-mem] Vector sync failed: ${err}\n`);
+    }
   }
 
   // ─── Sessions ──────────────────────────────────────────────────────────────
@@ -256,7 +301,7 @@ class CMemDb implements DbInterface {
 
   insertObservation(obs: InsertableObservation): number {
     // Scrub secrets from both raw_input and compressed text before storage
-    const scrubbedRaw = obs.raw_input ? scrubSecrets(obs.raw_input) : null;
+    const scrubbedRaw = obs.raw_input ? scrubRawInput(obs.raw_input) : null;
     const scrubbedCompressed = scrubSecrets(obs.compressed);
     const scrubbedNarrative = obs.narrative ? scrubSecrets(obs.narrative) : null;
 
@@ -265,8 +310,9 @@ class CMemDb implements DbInterface {
 
     const result = this._db.run(
       `INSERT INTO observations
-         (session_id, prompt_number, tool_name, raw_input, compressed, obs_type, title, narrative, hmac)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+         (session_id, prompt_number, tool_name, raw_input, compressed, obs_type, title, narrative, hmac,
+          prompt_version, model)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         obs.session_id,
         obs.prompt_number,
@@ -277,9 +323,23 @@ class CMemDb implements DbInterface {
         obs.title ?? null,
         scrubbedNarrative,
         hmac,
+        obs.prompt_version ?? null,
+        obs.model ?? null,
       ],
     );
-    return Number(result.lastInsertRowid);
+    const id = Number(result.lastInsertRowid);
+
+    // Local semantic index (vectors.ts) — built incrementally, never fatal
+    try {
+      new VectorIndex(this._db).upsert(id, {
+        title: obs.title ?? null,
+        narrative: scrubbedNarrative,
+        compressed: scrubbedCompressed,
+      });
+    } catch (err) {
+      process.stderr.write(`[c-mem] Vector indexing failed for observation id=${id}: ${err}\n`);
+    }
+    return id;
   }
 
   getObservations(project: string, limit: number, offset: number): Observation[] {
@@ -288,6 +348,7 @@ class CMemDb implements DbInterface {
        FROM observations o
        JOIN sessions s ON s.id = o.session_id
        WHERE s.project = ?
+         AND o.deleted_at IS NULL
        ORDER BY o.created_at DESC
        LIMIT ? OFFSET ?`,
     ).all(project, limit, offset);
@@ -305,7 +366,7 @@ class CMemDb implements DbInterface {
 
   getObservation(id: number): Observation | null {
     const row = this._db.query<Observation, [number]>(
-      'SELECT * FROM observations WHERE id = ?',
+      'SELECT * FROM observations WHERE id = ? AND deleted_at IS NULL',
     ).get(id) ?? null;
 
     if (row && !verifyObservationHmac(row.compressed, row.narrative, row.hmac)) {
@@ -322,11 +383,183 @@ class CMemDb implements DbInterface {
        FROM observations o
        JOIN sessions s ON s.id = o.session_id
        WHERE s.project = ?
+         AND o.deleted_at IS NULL
        ORDER BY o.created_at DESC
        LIMIT ?`,
     ).all(project, limit);
   }
 
+  // ─── Observation Edits / Trash ─────────────────────────────────────────────
+
+  /**
+   * Edit an observation in place. Text is scrubbed, list fields are merged
+   * into the compressed JSON, the HMAC is re-signed, the obs_au trigger
+   * reindexes the FTS row and the vector is rebuilt. Each changed field is
+   * recorded in observation_audit.
+   *
+   * Returns the updated row, or null if the observation is missing or trashed.
+   */
+  updateObservation(id: number, patch: ObservationPatch, actor: string): Observation | null {
+    const current = this.getObservation(id);
+    if (!current) return null;
+
+    let details: Record<string, unknown> | null = null;
+    try {
+      const parsed: unknown = JSON.parse(current.compressed);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        details = parsed as Record<string, unknown>;
+      }
+    } catch {
+      // compressed is plain text (legacy / direct inserts)
+    }
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    const track = (field: string, from: unknown, to: unknown) => {
+      if (JSON.stringify(from) !== JSON.stringify(to)) changes[field] = { from, to };
+    };
+
+    const title = patch.title !== undefined ? scrubSecrets(patch.title) : current.title;
+    const narrative =
+      patch.narrative !== undefined ? scrubSecrets(patch.narrative) : current.narrative;
+    const obsType = patch.obs_type ?? current.obs_type;
+    track('title', current.title, title);
+    track('narrative', current.narrative, narrative);
+    track('obs_type', current.obs_type, obsType);
+
+    const listFields = ['tags', 'facts', 'files_read', 'files_modified'] as const;
+    const lists: Partial<Record<(typeof listFields)[number], string[]>> = {};
+    for (const field of listFields) {
+      const next = patch[field];
+      if (next === undefined) continue;
+      const before = Array.isArray(details?.[field]) ? (details?.[field] as string[]) : [];
+      lists[field] = next.map((v) => scrubSecrets(v));
+      track(field, before, lists[field]);
+    }
+
+    if (Object.keys(changes).length === 0) return current;
+
+    // Rebuild compressed: merge into the JSON form, or promote plain text to
+    // JSON only when list fields need somewhere to live.
+    let compressed = current.compressed;
+    if (details) {
+      compressed = JSON.stringify({
+        ...details,
+        ...('type' in details || patch.obs_type !== undefined ? { type: obsType } : {}),
+        ...('narrative' in details || patch.narrative !== undefined ? { narrative } : {}),
+        ...lists,
+      });
+    } else if (Object.keys(lists).length > 0) {
+      compressed = JSON.stringify({
+        type: obsType,
+        tags: [],
+        facts: [],
+        files_read: [],
+        files_modified: [],
+        ...lists,
+        narrative: narrative ?? current.compressed,
+      });
+    }
+
+    const hmac = signObservation(compressed, narrative);
+
+    this._db.transaction(() => {
+      this._db.run(
+        `UPDATE observations
+         SET title = ?, narrative = ?, obs_type = ?, compressed = ?, hmac = ?
+         WHERE id = ?`,
+        [title, narrative, obsType, compressed, hmac, id],
+      );
+      new VectorIndex(this._db).upsert(id, { title, narrative, compressed });
+      this._audit(id, 'update', actor, changes);
+    })();
+
+    return this.getObservation(id);
+  }
+
+  /** Move an observation to the trash. Returns false if missing or already trashed. */
+  softDeleteObservation(id: number, actor: string): boolean {
+    return this._db.transaction(() => {
+      const result = this._db.run(
+        'UPDATE observations SET deleted_at = unixepoch() WHERE id = ? AND deleted_at IS NULL',
+        [id],
+      );
+      if (result.changes === 0) return false;
+      this._audit(id, 'delete', actor, null);
+      return true;
+    })();
+  }
+
+  /** Take an observation out of the trash. Returns false if it is not trashed. */
+  restoreObservation(id: number, actor: string): boolean {
+    return this._db.transaction(() => {
+      const result = this._db.run(
+        'UPDATE observations SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL',
+        [id],
+      );
+      if (result.changes === 0) return false;
+      this._audit(id, 'restore', actor, null);
+      return true;
+    })();
+  }
+
+  /**
+   * Permanently delete an observation (trashed or not). obs_ad drops the FTS
+   * row. Earlier audit entries keep who/when but lose their field values,
+   * since those may hold the very content being purged.
+   */
+  purgeObservation(id: number, actor: string): boolean {
+    return this._db.transaction(() => {
+      const result = this._db.run('DELETE FROM observations WHERE id = ?', [id]);
+      if (result.changes === 0) return false;
+      this._db.run('UPDATE observation_audit SET changes = NULL WHERE observation_id = ?', [id]);
+      this._audit(id, 'purge', actor, null);
+      return true;
+    })();
+  }
+
+  /** Trashed observations, most recently deleted first. */
+  getDeletedObservations(project: string | undefined, limit: number, offset: number): Observation[] {
+    if (project) {
+      return this._db.query<Observation, [string, number, number]>(
+        `SELECT o.*
+         FROM observations o
+         JOIN sessions s ON s.id = o.session_id
+         WHERE s.project = ?
+           AND o.deleted_at IS NOT NULL
+         ORDER BY o.deleted_at DESC, o.id DESC
+         LIMIT ? OFFSET ?`,
+      ).all(project, limit, offset);
+    }
+    return this._db.query<Observation, [number, number]>(
+      `SELECT * FROM observations
+       WHERE deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC, id DESC
+       LIMIT ? OFFSET ?`,
+    ).all(limit, offset);
+  }
+
+  /** Audit trail for one observation, oldest first. Survives purge. */
+  getObservationAudit(id: number): ObservationAuditEntry[] {
+    return this._db.query<ObservationAuditEntry, [number]>(
+      `SELECT * FROM observation_audit
+       WHERE observation_id = ?
+       ORDER BY created_at ASC, id ASC`,
+    ).all(id);
+  }
+
+  private _audit(
+    id: number,
+    action: AuditAction,
+    actor: string,
+    changes: Record<string, { from: unknown; to: unknown }> | null,
+  ): void {
+    this._db.run(
+      `INSERT INTO observation_audit (observation_id, action, actor, changes)
+       VALUES (?, ?, ?, ?)`,
+      [id, action, actor, changes ? JSON.stringify(changes) : null],
+    );
+  }
+
   // ─── User Prompts ──────────────────────────────────────────────────────────
 
   insertUserPrompt(sessionId: number, promptNumber: number, prompt: string): void {
@@ -340,10 +573,12 @@ class CMemDb implements DbInterface {
 
   // ─── Summaries ─────────────────────────────────────────────────────────────
 
-  insertSummary(summary: Omit<Summary, 'id' | 'created_at'>): number {
+  insertSummary(summary: InsertableSummary): number {
     const result = this._db.run(
-      `INSERT INTO summaries (session_id, request, investigated, learned, completed, next_steps)
-       VALUES (?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO summaries
+         (session_id, request, investigated, learned, completed, next_steps, prompt_version, model,
+          checkpoint, through_observation_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         summary.session_id,
         summary.request ?? null,
@@ -351,6 +586,10 @@ class CMemDb implements DbInterface {
         summary.learned ?? null,
         summary.completed ?? null,
         summary.next_steps ?? null,
+        summary.prompt_version ?? null,
+        summary.model ?? null,
+        summary.checkpoint ? 1 : 0,
+        summary.through_observation_id ?? null,
       ],
     );
     return Number(result.lastInsertRowid);
@@ -485,6 +724,7 @@ class CMemDb implements DbInterface {
          JOIN sessions s     ON s.id = o.session_id
          WHERE obs_fts MATCH ?
            AND s.project = ?
+           AND o.deleted_at IS NULL
          ORDER BY rank
          LIMIT ?`,
       ).all(safeQuery, project, limit);
@@ -495,6 +735,7 @@ class CMemDb implements DbInterface {
        FROM obs_fts
        JOIN observations o ON o.id = obs_fts.rowid
        WHERE obs_fts MATCH ?
+         AND o.deleted_at IS NULL
        ORDER BY rank
        LIMIT ?`,
     ).all(safeQuery, limit);
@@ -510,7 +751,7 @@ class CMemDb implements DbInterface {
     const obsCounts = this._db.query<{ project: string; count: number }, []>(
       `SELECT s.project, COUNT(o.id) AS count
        FROM sessions s
-       LEFT JOIN observations o ON o.session_id = s.id
+       LEFT JOIN observations o ON o.session_id = s.id AND o.deleted_at IS NULL
        GROUP BY s.project`,
     ).all();
 
@@ -828,12 +1069,14 @@ class DbAdapter implements ISessionStore {
       session_id: sessionDbId,
       prompt_number: obs.prompt_number,
       tool_name: obs.tool_name,
-      raw_input: null,
+      raw_input: obs.raw_input ?? null,
       compressed,
       obs_type: obs.type,
       title: safeTitle,
       narrative: safeNarrative,
       hmac: null,
+      prompt_version: obs.prompt_version ?? null,
+      model: obs.model ?? null,
     });
   }
 
@@ -868,8 +1111,8 @@ class DbAdapter implements ISessionStore {
     const totalRow = _getRawDb()
       .query<{ count: number }, [string] | []>(
         project
-          ? "SELECT COUNT(o.id) as count FROM observations o JOIN sessions s ON s.id = o.session_id WHERE s.project = ?"
-          : "SELECT COUNT(*) as count FROM observations"
+          ? "SELECT COUNT(o.id) as count FROM observations o JOIN sessions s ON s.id = o.session_id WHERE s.project = ? AND o.deleted_at IS NULL"
+          : "SELECT COUNT(*) as count FROM observations WHERE deleted_at IS NULL"
       )
       .get(...(project ? [project] : []) as [] | [string]);
 
@@ -888,7 +1131,7 @@ class DbAdapter implements ISessionStore {
     if (!session) return [];
     const rows = _getRawDb()
       .query<Parameters<typeof _mapObservation>[0], [number]>(
-        "SELECT * FROM observations WHERE session_id = ? ORDER BY created_at DESC"
+        "SELECT * FROM observations WHERE session_id = ? AND deleted_at IS NULL ORDER BY created_at DESC"
       )
       .all(session.id);
     return rows.map((o) =>
@@ -896,6 +1139,93 @@ class DbAdapter implements ISessionStore {
     );
   }
 
+  // ─── Observation Edits / Trash ────────────────────────────────────────────
+
+  updateObservation(
+    id: number,
+    edit: Omit<ObservationPatchBody, "actor">,
+    actor: string
+  ): BBObservation | null {
+    const updated = this.inner.updateObservation(
+      id,
+      {
+        title: edit.title,
+        narrative: edit.narrative,
+        obs_type: edit.type,
+        tags: edit.tags,
+        facts: edit.facts,
+        files_read: edit.files_read,
+        files_modified: edit.files_modified,
+      },
+      actor
+    );
+    return updated ? this.getObservation(updated.id) : null;
+  }
+
+  deleteObservation(id: number, actor: string): boolean {
+    return this.inner.softDeleteObservation(id, actor);
+  }
+
+  restoreObservation(id: number, actor: string): BBObservation | null {
+    return this.inner.restoreObservation(id, actor) ? this.getObservation(id) : null;
+  }
+
+  /**
+   * Hard delete. Also removes the observation's QMD export file, if any.
+   */
+  purgeObservation(id: number, actor: string): boolean {
+    const owner = _getRawDb()
+      .query<{ project: string }, [number]>(
+        "SELECT s.project FROM observations o JOIN sessions s ON s.id = o.session_id WHERE o.id = ?"
+      )
+      .get(id);
+    if (!this.inner.purgeObservation(id, actor)) return false;
+    if (owner) new SearchService(_getRawDb()).removeFromQMD(owner.project, [id]);
+    return true;
+  }
+
+  getDeletedObservations(
+    project?: string,
+    limit = 20,
+    offset = 0
+  ): { observations: Array<BBObservation & { deleted_at: string }>; total: number } {
+    const rows = this.inner.getDeletedObservations(project, limit, offset);
+    const observations = rows.map((o) => {
+      const s = this.getSessionById(o.session_id);
+      return {
+        ..._mapObservation(o, s?.project ?? project ?? "", s?.session_id ?? String(o.session_id)),
+        deleted_at: _epochToIso(o.deleted_at ?? 0),
+      };
+    });
+
+    const totalRow = _getRawDb()
+      .query<{ count: number }, [string] | []>(
+        project
+          ? "SELECT COUNT(o.id) as count FROM observations o JOIN sessions s ON s.id = o.session_id WHERE s.project = ? AND o.deleted_at IS NOT NULL"
+          : "SELECT COUNT(*) as count FROM observations WHERE deleted_at IS NOT NULL"
+      )
+      .get(...(project ? [project] : []) as [] | [string]);
+
+    return { observations, total: totalRow?.count ?? observations.length };
+  }
+
+  getObservationAudit(id: number): Array<{
+    id: number;
+    observation_id: number;
+    action: string;
+    actor: string;
+    changes: Record<string, { from: unknown; to: unknown }> | null;
+    created_at: string;
+  }> {
+    return this.inner.getObservationAudit(id).map((a) => {
+      let changes: Record<string, { from: unknown; to: unknown }> | null = null;
+      try {
+        changes = a.changes ? JSON.parse(a.changes) : null;
+      } catch { /* ignore */ }
+      return { ...a, changes, created_at: _epochToIso(a.created_at) };
+    });
+  }
+
   // ─── Summaries ────────────────────────────────────────────────────────────
 
   createSummary(summary: Omit<SessionSummary, "id">): number {
@@ -908,10 +1238,13 @@ class DbAdapter implements ISessionStore {
       learned: summary.work_done,
       completed: summary.work_done,
       next_steps: summary.remaining,
+      prompt_version: summary.prompt_version ?? null,
+      model: summary.model ?? null,
+      checkpoint: summary.checkpoint,
     });
   }
 
-  insertSummary(summary: Omit<Summary, "id" | "created_at">): number {
+  insertSummary(summary: InsertableSummary): number {
     return this.inner.insertSummary(summary);
   }
 
@@ -939,6 +1272,7 @@ class DbAdapter implements ISessionStore {
         completed: string | null;
         next_steps: string | null;
         created_at: number;
+        checkpoint: number;
       }, [number]>(
         "SELECT * FROM summaries WHERE session_id = ? ORDER BY created_at DESC"
       )
@@ -961,6 +1295,7 @@ class DbAdapter implements ISessionStore {
     completed: string | null;
     next_steps: string | null;
     created_at: number;
+    checkpoint?: number;
     project?: string;
     claude_session_id?: string;
   }): SessionSummary {
@@ -983,6 +1318,7 @@ class DbAdapter implements ISessionStore {
       notes: "",
       created_at: _epochToIso(s.created_at),
       created_at_epoch: s.created_at * 1000,
+      checkpoint: s.checkpoint === 1,
     };
   }
 
@@ -1252,7 +1588,13 @@ function getAdapter(): DbAdapter {
  * Called by server.ts at startup.
  */
 export interface CompatDb extends ISessionStore {
-  insertSummary(summary: Omit<Summary, "id" | "created_at">): number;
+  insertSummary(summary: InsertableSummary): number;
+  updateObservation: DbAdapter["updateObservation"];
+  deleteObservation: DbAdapter["deleteObservation"];
+  restoreObservation: DbAdapter["restoreObservation"];
+  purgeObservation: DbAdapter["purgeObservation"];
+  getDeletedObservations: DbAdapter["getDeletedObservations"];
+  getObservationAudit: DbAdapter["getObservationAudit"];
 }
 
 export function initDb(_dataDir: string): void {
@@ -1269,6 +1611,23 @@ export function _resetCompatForTesting(rawDb?: Database): void {
   _resetDbForTesting(rawDb);
 }
 
+/**
+ * Swap the live database for a snapshot (see backup.ts).
+ * Closes the singleton, replaces the file, then reopens it — the CMemDb
+ * constructor re-runs runMigrations, so an older snapshot is brought up to
+ * the current schema. Callers must stop the ObservationQueue first.
+ */
+export function restoreDb(snapshotPath: string): void {
+  _adapterInstance = null;
+  _searchInstance = null;
+  if (_db) {
+    _db.close();
+    _db = null;
+  }
+  replaceDatabaseFile(snapshotPath, DB_PATH);
+  getDb();
+}
+
 /**
  * The singleton ISessionStore adapter — wraps CMemDb.
  * Import this as `db` in server.ts and queue.ts.
@@ -1305,6 +1664,7 @@ export class SearchAdapter {
       filters?.project,
       filters?.limit ?? 20
     );
+    const marks = this._highlights('observation', query, rawResults);
     return rawResults.map((o, idx) => ({
       id: o.id,
       title: o.title ?? "",
@@ -1312,13 +1672,13 @@ export class SearchAdapter {
       project: filters?.project ?? "",
       created_at_epoch: o.created_at * 1000,
       rank: idx,
-      snippet: o.narrative?.slice(0, 200) ?? o.compressed?.slice(0, 200),
+      snippet: marks.get(o.id)?.snippet ?? o.narrative?.slice(0, 200) ?? o.compressed?.slice(0, 200),
     }));
   }
 
   searchSummaries(
-    _query: string,
-    _filters?: { project?: string; limit?: number }
+    query: string,
+    filters?: { project?: string; limit?: number }
   ): Array<{
     id: number;
     title: string;
@@ -1326,14 +1686,68 @@ export class SearchAdapter {
     project: string;
     created_at_epoch: number;
     rank: number;
+    snippet?: string;
   }> {
-    return [];
+    const rows = this.svc.searchSummaries(query, filters?.project, filters?.limit ?? 20);
+    const marks = this._highlights('summary', query, rows);
+    return rows.map((s, idx) => ({
+      id: s.id,
+      title: s.request ?? "Session summary",
+      type: "summary",
+      project: s.project,
+      created_at_epoch: s.created_at * 1000,
+      rank: idx,
+      snippet:
+        marks.get(s.id)?.snippet ??
+        ((s.learned ?? s.completed ?? s.next_steps ?? "").slice(0, 200) || undefined),
+    }));
   }
 
   searchKeyword(query: string, project?: string, limit = 20) {
     return this.svc.searchKeyword(query, project, limit);
   }
 
+  searchPrompts(query: string, project?: string, limit = 20) {
+    return this.svc.searchPrompts(query, project, limit);
+  }
+
+  searchScoped(
+    query: string,
+    scope: SearchScope,
+    project?: string,
+    limit = 20,
+    highlight?: HighlightOptions,
+  ) {
+    return this.svc.searchScoped(query, scope, project, limit, highlight);
+  }
+
+  searchCode(query: string, project?: string, limit = 20, highlight?: HighlightOptions) {
+    return this.svc.searchCode(query, project, limit, highlight);
+  }
+
+  suggest(query: string) {
+    return this.svc.suggest(query);
+  }
+
+  searchVectors(query: string, project?: string, limit = 20) {
+    return this.svc.searchVectors(query, project, limit);
+  }
+
+  searchHybrid(
+    query: string,
+    scope: SearchScope,
+    settings: RankingSettings,
+    project?: string,
+    limit = 20,
+    highlight?: HighlightOptions,
+  ) {
+    return this.svc.searchHybrid(query, scope, settings, project, limit, highlight);
+  }
+
+  facets(query: string, project?: string, limit?: number) {
+    return this.svc.facets(query, project, limit);
+  }
+
   searchByType(type: string, project?: string, limit = 20) {
     return this.svc.searchByType(type, project, limit);
   }
@@ -1349,6 +1763,25 @@ export class SearchAdapter {
   getTimeline(id: number, window = 5) {
     return this.svc.getTimeline(id, window);
   }
+
+  searchIndexPage(query: string, options?: IndexPageOptions) {
+    return this.svc.searchIndexPage(query, options);
+  }
+
+  timelinePage(id: number, options?: TimelineOptions) {
+    return this.svc.timelinePage(id, options);
+  }
+
+  sessionTimeline(sessionId: number, options?: { limit?: number; cursor?: string }) {
+    return this.svc.sessionTimeline(sessionId, options);
+  }
+
+  /** FTS5 snippets for the ISessionSearch results (same phrase query as the search) */
+  private _highlights(kind: 'observation' | 'summary', query: string, rows: { id: number }[]) {
+    const match = escapeFTS5Query(query);
+    if (!match) return new Map<number, SearchHighlight>();
+    return this.svc.highlightMatches(kind, match, rows.map((r) => r.id));
+  }
 }
 
 let _searchInstance: SearchAdapter | null = null;
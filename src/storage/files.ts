@@ -0,0 +1,142 @@
+/**
+ * Open-Mem File Index
+ *
+ * Queries over observation_files — the normalized copy of the files_read /
+ * files_modified arrays inside observations.compressed. The table is kept in
+ * sync by the obs_files_ai / obs_files_au triggers (migration v4), so every
+ * insert path (createObservation, edits, import) populates it, and rows
+ * cascade away with their observation.
+ *
+ * Trashed observations are excluded from every query.
+ */
+
+import type { Database } from 'bun:sqlite';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const DEFAULT_HISTORY_LIMIT = 100;
+const DEFAULT_HOT_LIMIT = 20;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type FileAccess = 'read' | 'modified';
+
+export interface FileHistoryEntry {
+  observation_id: number;
+  path: string;
+  access: FileAccess;
+  title: string | null;
+  obs_type: string;
+  tool_name: string;
+  session_id: string; // Claude session id
+  project: string;
+  created_at: number; // Unix epoch seconds
+}
+
+export interface HotFile {
+  project: string;
+  path: string;
+  edits: number;
+  reads: number;
+  last_touched: number; // Unix epoch seconds
+}
+
+export interface FileHistoryOptions {
+  project?: string;
+  limit?: number;
+}
+
+export interface HotFileOptions {
+  project?: string;
+  /** Only count observations newer than this (Unix epoch seconds) */
+  since?: number;
+  /** Max files per project */
+  limit?: number;
+}
+
+// ─── File Index Service ───────────────────────────────────────────────────────
+
+export class FileIndexService {
+  private readonly _db: Database;
+
+  constructor(db: Database) {
+    this._db = db;
+  }
+
+  /**
+   * Every observation that read or modified `path`, oldest first.
+   * `path` matches exactly or as a trailing path suffix, so
+   * "src/worker/queue.ts" also finds "/home/me/proj/src/worker/queue.ts".
+   */
+  history(path: string, options: FileHistoryOptions = {}): FileHistoryEntry[] {
+    const params: (string | number)[] = [path, path, path, path];
+    let projectClause = '';
+    if (options.project) {
+      projectClause = 'AND s.project = ?';
+      params.push(options.project);
+    }
+    params.push(options.limit ?? DEFAULT_HISTORY_LIMIT);
+
+    // Newest `limit` rows, returned in chronological order
+    return this._db
+      .query<FileHistoryEntry, (string | number)[]>(
+        `SELECT * FROM (
+           SELECT f.observation_id, f.path, f.access, o.title, o.obs_type, o.tool_name,
+                  s.claude_session_id AS session_id, s.project, o.created_at
+           FROM observation_files f
+           JOIN observations o ON o.id = f.observation_id
+           JOIN sessions s ON s.id = o.session_id
+           WHERE (f.path = ? OR (length(f.path) > length(?) AND substr(f.path, -length(?) - 1) = '/' || ?))
+             AND o.deleted_at IS NULL
+             ${projectClause}
+           ORDER BY o.created_at DESC, f.observation_id DESC
+           LIMIT ?
+         )
+         ORDER BY created_at ASC, observation_id ASC`,
+      )
+      .all(...params);
+  }
+
+  /**
+   * Most-edited files, ranked per project by modification count
+   * (reads break ties, then recency).
+   */
+  hot(options: HotFileOptions = {}): HotFile[] {
+    const where = ['o.deleted_at IS NULL'];
+    const params: (string | number)[] = [];
+    if (options.project) {
+      where.push('s.project = ?');
+      params.push(options.project);
+    }
+    if (options.since !== undefined) {
+      where.push('o.created_at >= ?');
+      params.push(options.since);
+    }
+    params.push(options.limit ?? DEFAULT_HOT_LIMIT);
+
+    return this._db
+      .query<HotFile, (string | number)[]>(
+        `SELECT project, path, edits, reads, last_touched FROM (
+           SELECT s.project, f.path,
+                  SUM(f.access = 'modified') AS edits,
+                  SUM(f.access = 'read')     AS reads,
+                  MAX(o.created_at)          AS last_touched,
+                  ROW_NUMBER() OVER (
+                    PARTITION BY s.project
+                    ORDER BY SUM(f.access = 'modified') DESC,
+                             SUM(f.access = 'read') DESC,
+                             MAX(o.created_at) DESC
+                  ) AS rank
+           FROM observation_files f
+           JOIN observations o ON o.id = f.observation_id
+           JOIN sessions s ON s.id = o.session_id
+           WHERE ${where.join(' AND ')}
+           GROUP BY s.project, f.path
+           HAVING edits > 0
+         )
+         WHERE rank <= ?
+         ORDER BY project, rank`,
+      )
+      .all(...params);
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * Open-Mem Forget Service
+ *
+ * Removes everything matching a set of criteria from every place content is
+ * stored: observations (incl. raw_input and the trash), user_prompts,
+ * summaries and stored chunk summaries, queue payloads, command history,
+ * sessions.first_prompt, the observation audit trail, the compression cache,
+ * the FTS indexes and the QMD markdown export.
+ *
+ * Criteria are ANDed:
+ *   query     — FTS5 phrase over obs_fts, plus a case-insensitive substring
+ *               match (catches partial tokens and raw_input, which is not
+ *               indexed) on observations, prompts, summaries, queue payloads
+ *               and commands
+ *   file      — substring match on file paths (compressed JSON, raw_input, payloads)
+ *   sessionId — Claude session id
+ *   from / to — created_at range (Unix epoch seconds, inclusive)
+ *   project   — narrows any of the above; never sufficient on its own
+ *
+ * Compression cache entries are keyed by hash and shared across sessions and
+ * projects, so they cannot be matched one by one: the whole cache is dropped
+ * whenever an observation or queue entry matches.
+ *
+ * purge() is a single transaction with secure_delete on, followed by a
+ * 'rebuild' of every FTS index, a WAL checkpoint and VACUUM so the bytes
+ * leave the disk; secure_delete is then set back to what it was.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { escapeFTS5Query } from './db.ts';
+import type { QmdCleaner } from './retention.ts';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Max observation ids listed in a report — counts are always exact */
+const REPORT_ID_LIMIT = 200;
+
+/** Ids per DELETE … WHERE id IN (…) statement */
+const DELETE_CHUNK = 500;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ForgetCriteria {
+  query?: string;
+  file?: string;
+  sessionId?: string;
+  from?: number; // Unix epoch seconds
+  to?: number; // Unix epoch seconds
+  project?: string;
+}
+
+export interface ForgetReport {
+  dryRun: boolean;
+  observations: { count: number; ids: number[] };
+  userPrompts: number;
+  /** Incl. the checkpoint of a session with matched observations */
+  summaries: number;
+  /** Chunk summaries of long sessions, incl. every chunk of a session with matched observations */
+  summaryChunks: number;
+  queue: number;
+  /** Command history rows, incl. those of matched observations */
+  commands: number;
+  /** Sessions whose first_prompt was (or would be) cleared */
+  sessionPrompts: number;
+  auditRows: number;
+  /** Compression cache entries (all of them, once anything matched) */
+  compressionCache: number;
+  qmdFilesRemoved: number;
+  vacuumed: boolean;
+}
+
+interface Matches {
+  observations: Map<number, string>; // id → project
+  userPrompts: number[];
+  summaries: number[];
+  summaryChunks: number[];
+  queue: number[];
+  commands: number[];
+  sessions: number[];
+  auditRows: number;
+  compressionCache: number;
+}
+
+interface Clause {
+  sql: string[];
+  params: (string | number)[];
+}
+
+// ─── Forget Service ───────────────────────────────────────────────────────────
+
+export class ForgetService {
+  private readonly _db: Database;
+  private readonly _qmd: QmdCleaner | null;
+
+  constructor(db: Database, qmd?: QmdCleaner) {
+    this._db = db;
+    this._qmd = qmd ?? null;
+  }
+
+  /** Report what purge() would remove. Never writes. */
+  preview(criteria: ForgetCriteria): ForgetReport {
+    return this._report(this._match(criteria), true, 0, false);
+  }
+
+  /**
+   * Delete every match in one transaction, then rebuild the FTS indexes,
+   * checkpoint the WAL and VACUUM. QMD export files are removed last.
+   *
+   * @throws Error if the criteria are empty (would match everything)
+   */
+  purge(criteria: ForgetCriteria): ForgetReport {
+    const matches = this._match(criteria);
+
+    // Zero freed pages so deleted content is not left in the file; the
+    // connection is shared, so later deletes go back to the previous mode
+    const previous = this._db
+      .query<{ secure_delete: number }, []>('PRAGMA secure_delete')
+      .get()?.secure_delete ?? 0;
+    this._db.run('PRAGMA secure_delete=ON');
+
+    try {
+      this._db.transaction(() => {
+        const obsIds = [...matches.observations.keys()];
+        this._deleteIds('observation_audit', 'observation_id', obsIds);
+        this._deleteIds('observations', 'id', obsIds);
+        this._deleteIds('user_prompts', 'id', matches.userPrompts);
+        this._deleteIds('summaries', 'id', matches.summaries);
+        this._deleteIds('summary_chunks', 'id', matches.summaryChunks);
+        this._deleteIds('queue', 'id', matches.queue);
+        this._deleteIds('commands', 'id', matches.commands);
+        if (matches.compressionCache > 0) this._db.run('DELETE FROM compression_cache');
+        for (let i = 0; i < matches.sessions.length; i += DELETE_CHUNK) {
+          const chunk = matches.sessions.slice(i, i + DELETE_CHUNK);
+          this._db
+            .query(
+              `UPDATE sessions SET first_prompt = NULL WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+            )
+            .run(...chunk);
+        }
+      })();
+
+      // External-content FTS indexes may still hold tokens in old segments;
+      // rebuild rewrites them from the surviving rows.
+      for (const fts of ['obs_fts', 'obs_trigram', 'obs_words', 'summaries_fts', 'prompts_fts']) {
+        this._db.run(`INSERT INTO ${fts}(${fts}) VALUES ('rebuild')`);
+      }
+      this._db.run('PRAGMA wal_checkpoint(TRUNCATE)');
+      this._db.run('VACUUM');
+    } finally {
+      this._db.run(`PRAGMA secure_delete=${previous}`);
+    }
+
+    let qmdFilesRemoved = 0;
+    if (this._qmd) {
+      const byProject = new Map<string, number[]>();
+      for (const [id, project] of matches.observations) {
+        const ids = byProject.get(project) ?? [];
+        ids.push(id);
+        byProject.set(project, ids);
+      }
+      for (const [project, ids] of byProject) {
+        qmdFilesRemoved += this._qmd.removeFromQMD(project, ids);
+      }
+    }
+
+    return this._report(matches, false, qmdFilesRemoved, true);
+  }
+
+  // ─── Matching ─────────────────────────────────────────────────────────────
+
+  private _match(criteria: ForgetCriteria): Matches {
+    const query = criteria.query?.trim() || undefined;
+    const file = criteria.file?.trim() || undefined;
+    if (!query && !file && !criteria.sessionId && criteria.from === undefined && criteria.to === undefined) {
+      throw new Error('Forget requires at least one of: query, file, session_id, from, to');
+    }
+    const c = { ...criteria, query, file };
+
+    // Observations: FTS phrase match OR substring match on every text column
+    const obsWhere = this._scope(c, 'o.created_at');
+    if (query) {
+      const fts = escapeFTS5Query(query);
+      obsWhere.sql.push(
+        `(o.id IN (SELECT rowid FROM obs_fts WHERE obs_fts MATCH ?)
+          OR ${['o.title', 'o.narrative', 'o.compressed', 'o.raw_input'].map(contains).join(' OR ')})`,
+      );
+      obsWhere.params.push(fts ?? '""', query, query, query, query);
+    }
+    if (file) {
+      obsWhere.sql.push(`(instr(o.compressed, ?) > 0 OR instr(COALESCE(o.raw_input, ''), ?) > 0)`);
+      obsWhere.params.push(file, file);
+    }
+    const obsRows = this._db
+      .query<{ id: number; project: string }, (string | number)[]>(
+        `SELECT o.id, s.project
+         FROM observations o
+         JOIN sessions s ON s.id = o.session_id
+         WHERE ${obsWhere.sql.join(' AND ')}
+         ORDER BY o.id`,
+      )
+      .all(...obsWhere.params);
+    const observations = new Map(obsRows.map((r) => [r.id, r.project] as const));
+
+    const userPrompts = this._matchIds('user_prompts', 'x', ['x.prompt'], c);
+    const summaries = new Set(
+      this._matchIds(
+        'summaries',
+        'x',
+        ['x.request', 'x.investigated', 'x.learned', 'x.completed', 'x.next_steps'],
+        c,
+      ),
+    );
+    const summaryChunks = new Set(
+      this._matchIds(
+        'summary_chunks',
+        'x',
+        ['x.request', 'x.investigated', 'x.learned', 'x.completed', 'x.next_steps'],
+        c,
+      ),
+    );
+    const queue = this._matchIds('queue', 'x', ['x.payload'], c);
+    const commands = new Set(this._matchIds('commands', 'x', ['x.command', 'x.cwd'], c));
+
+    // first_prompt is matched on text; without text criteria every session
+    // in scope is cleared (a session-id forget should not leave the prompt).
+    const sessWhere = this._scope(c, 's.created_at');
+    this._addText(sessWhere, ['s.first_prompt'], c);
+    sessWhere.sql.push('s.first_prompt IS NOT NULL');
+    const sessions = this._db
+      .query<{ id: number }, (string | number)[]>(
+        `SELECT s.id FROM sessions s WHERE ${sessWhere.sql.join(' AND ')}`,
+      )
+      .all(...sessWhere.params)
+      .map((r) => r.id);
+
+    const obsIds = [...observations.keys()];
+    let auditRows = 0;
+    for (let i = 0; i < obsIds.length; i += DELETE_CHUNK) {
+      const chunk = obsIds.slice(i, i + DELETE_CHUNK);
+      const row = this._db
+        .query<{ n: number }, number[]>(
+          `SELECT COUNT(*) AS n FROM observation_audit
+           WHERE observation_id IN (${chunk.map(() => '?').join(', ')})`,
+        )
+        .get(...chunk);
+      auditRows += row?.n ?? 0;
+      // Commands go with their observation even when their own text does not match
+      const linked = this._db
+        .query<{ id: number }, number[]>(
+          `SELECT id FROM commands WHERE observation_id IN (${chunk.map(() => '?').join(', ')})`,
+        )
+        .all(...chunk);
+      for (const { id } of linked) commands.add(id);
+      // A chunk summary may describe a matched observation without quoting it
+      const chunks = this._db
+        .query<{ id: number }, number[]>(
+          `SELECT id FROM summary_chunks WHERE session_id IN
+             (SELECT session_id FROM observations WHERE id IN (${chunk.map(() => '?').join(', ')}))`,
+        )
+        .all(...chunk);
+      for (const { id } of chunks) summaryChunks.add(id);
+      // Likewise the rolling checkpoint, which the next one would extend
+      const checkpoints = this._db
+        .query<{ id: number }, number[]>(
+          `SELECT id FROM summaries WHERE checkpoint = 1 AND session_id IN
+             (SELECT session_id FROM observations WHERE id IN (${chunk.map(() => '?').join(', ')}))`,
+        )
+        .all(...chunk);
+      for (const { id } of checkpoints) summaries.add(id);
+    }
+
+    const compressionCache = observations.size > 0 || queue.length > 0
+      ? this._db.query<{ n: number }, []>('SELECT COUNT(*) AS n FROM compression_cache').get()?.n ?? 0
+      : 0;
+
+    return {
+      observations,
+      userPrompts,
+      summaries: [...summaries],
+      summaryChunks: [...summaryChunks],
+      queue,
+      commands: [...commands],
+      sessions,
+      auditRows,
+      compressionCache,
+    };
+  }
+
+  /** Ids from a session-scoped table whose text columns match the criteria */
+  private _matchIds(
+    table: 'user_prompts' | 'summaries' | 'summary_chunks' | 'queue' | 'commands',
+    alias: string,
+    textColumns: string[],
+    c: ForgetCriteria,
+  ): number[] {
+    const where = this._scope(c, `${alias}.created_at`);
+    this._addText(where, textColumns, c);
+    return this._db
+      .query<{ id: number }, (string | number)[]>(
+        `SELECT ${alias}.id
+         FROM ${table} ${alias}
+         JOIN sessions s ON s.id = ${alias}.session_id
+         WHERE ${where.sql.join(' AND ')}`,
+      )
+      .all(...where.params)
+      .map((r) => r.id);
+  }
+
+  /** Session / date range / project conditions shared by every table */
+  private _scope(c: ForgetCriteria, createdColumn: string): Clause {
+    const clause: Clause = { sql: ['1 = 1'], params: [] };
+    if (c.sessionId) {
+      clause.sql.push('s.claude_session_id = ?');
+      clause.params.push(c.sessionId);
+    }
+    if (c.from !== undefined) {
+      clause.sql.push(`${createdColumn} >= ?`);
+      clause.params.push(c.from);
+    }
+    if (c.to !== undefined) {
+      clause.sql.push(`${createdColumn} <= ?`);
+      clause.params.push(c.to);
+    }
+    if (c.project) {
+      clause.sql.push('s.project = ?');
+      clause.params.push(c.project);
+    }
+    return clause;
+  }
+
+  private _addText(clause: Clause, columns: string[], c: ForgetCriteria): void {
+    for (const needle of [c.query, c.file]) {
+      if (!needle) continue;
+      clause.sql.push(`(${columns.map(contains).join(' OR ')})`);
+      for (let i = 0; i < columns.length; i++) clause.params.push(needle);
+    }
+  }
+
+  private _deleteIds(table: string, column: string, ids: number[]): void {
+    for (let i = 0; i < ids.length; i += DELETE_CHUNK) {
+      const chunk = ids.slice(i, i + DELETE_CHUNK);
+      this._db
+        .query(`DELETE FROM ${table} WHERE ${column} IN (${chunk.map(() => '?').join(', ')})`)
+        .run(...chunk);
+    }
+  }
+
+  private _report(
+    matches: Matches,
+    dryRun: boolean,
+    qmdFilesRemoved: number,
+    vacuumed: boolean,
+  ): ForgetReport {
+    return {
+      dryRun,
+      observations: {
+        count: matches.observations.size,
+        ids: [...matches.observations.keys()].slice(0, REPORT_ID_LIMIT),
+      },
+      userPrompts: matches.userPrompts.length,
+      summaries: matches.summaries.length,
+      summaryChunks: matches.summaryChunks.length,
+      queue: matches.queue.length,
+      commands: matches.commands.length,
+      sessionPrompts: matches.sessions.length,
+      auditRows: matches.auditRows,
+      compressionCache: matches.compressionCache,
+      qmdFilesRemoved,
+      vacuumed,
+    };
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Case-insensitive substring test for one bound needle */
+function contains(column: string): string {
+  return `instr(lower(COALESCE(${column}, '')), lower(?)) > 0`;
+}
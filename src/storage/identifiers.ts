@@ -0,0 +1,66 @@
+/**
+ * Open-Mem Code Identifiers
+ *
+ * Helpers for searching code-shaped text, which the `porter unicode61`
+ * tokenizer behind obs_fts indexes as opaque words: "parseJsonBody" is one
+ * token and "obs_fts" / "queue.ts" split only at the punctuation.
+ *
+ *   splitIdentifier()  camelCase / PascalCase / snake_case / kebab-case and
+ *                      path segments → sub-words, for the trigram index
+ *   editDistance()     Damerau (optimal string alignment) distance, for
+ *                      "did you mean" suggestions from the index vocabulary
+ */
+
+// ─── Identifier Splitting ─────────────────────────────────────────────────────
+
+/**
+ * Split an identifier or path into its sub-words, keeping their case:
+ *
+ *   parseJsonBody        → parse, Json, Body
+ *   HTTPServer           → HTTP, Server
+ *   obs_fts              → obs, fts
+ *   src/worker/queue.ts  → src, worker, queue, ts
+ *
+ * Digits stay attached to the word before them ("v7", "utf8").
+ */
+export function splitIdentifier(text: string): string[] {
+  return text
+    .split(/[^\p{L}\p{N}]+/u)
+    .flatMap((segment) =>
+      segment
+        .replace(/(\p{Ll}|\p{N})(\p{Lu})/gu, '$1 $2')
+        .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+        .split(' '),
+    )
+    .filter((part) => part.length > 0);
+}
+
+// ─── Edit Distance ────────────────────────────────────────────────────────────
+
+/**
+ * Edits (insert, delete, substitute, swap adjacent) needed to turn `a` into
+ * `b`. Stops early and returns `max + 1` once the distance must exceed `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_v, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
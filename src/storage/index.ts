@@ -47,6 +47,127 @@ export const search = new Proxy({} as SearchService, {
 
 export { scrubSecrets, scrubJson } from './secrets.ts';
 
+// ─── Retention ────────────────────────────────────────────────────────────────
+
+export { RetentionService } from './retention.ts';
+export type { RetentionReport } from './retention.ts';
+
+// ─── Forget ───────────────────────────────────────────────────────────────────
+
+export { ForgetService } from './forget.ts';
+export type { ForgetCriteria, ForgetReport } from './forget.ts';
+
+// ─── Export / Import ──────────────────────────────────────────────────────────
+
+export { exportProject, importProject, EXPORT_FORMAT, EXPORT_VERSION } from './portable.ts';
+export type { ExportOptions, ImportOptions, ImportReport } from './portable.ts';
+
+// ─── Query Language ───────────────────────────────────────────────────────────
+
+export {
+  parseQuery,
+  compileQuery,
+  compileTrigramQuery,
+  filterSql,
+  plainText,
+  QuerySyntaxError,
+} from './query-parser.ts';
+export { splitIdentifier, editDistance } from './identifiers.ts';
+export type { CompiledQuery, FieldFilter, FilterField, ParsedQuery, QueryNode } from './query-parser.ts';
+
+// ─── Search Results ───────────────────────────────────────────────────────────
+
+export { compactResult, DEFAULT_HIGHLIGHT, CursorError } from './search.ts';
+export type {
+  HighlightOptions,
+  IndexPage,
+  IndexPageOptions,
+  TimelineOptions,
+  TimelinePage,
+  SessionTimelinePage,
+  SpellingSuggestion,
+} from './search.ts';
+
+// ─── Local Vectors ────────────────────────────────────────────────────────────
+
+export { VectorIndex, embedText, observationText, VECTOR_MODEL, VECTOR_DIMS } from './vectors.ts';
+export type { VectorHit, VectorSearchOptions } from './vectors.ts';
+
+// ─── Hybrid Ranking ───────────────────────────────────────────────────────────
+
+export {
+  rankHybrid,
+  scoreSignals,
+  resolveRanking,
+  textRanks,
+  TYPE_PRIORITY,
+  DEFAULT_RANKING,
+} from './ranking.ts';
+export type { RankSignals, RankingBreakdown, Ranked } from './ranking.ts';
+
+// ─── File Index ───────────────────────────────────────────────────────────────
+
+export { FileIndexService } from './files.ts';
+export type {
+  FileAccess,
+  FileHistoryEntry,
+  FileHistoryOptions,
+  HotFile,
+  HotFileOptions,
+} from './files.ts';
+
+// ─── Command History ──────────────────────────────────────────────────────────
+
+export { CommandService, parseCommandRun, EXEC_TOOL_NAMES } from './commands.ts';
+export type {
+  CommandRun,
+  CommandEntry,
+  CommandSearchOptions,
+  FailingCommand,
+  FailingCommandOptions,
+} from './commands.ts';
+
+// ─── Compression Cache ────────────────────────────────────────────────────────
+
+export { CompressionCacheService, compressionCacheKey } from './compression-cache.ts';
+export type { CompressionCacheStats } from './compression-cache.ts';
+
+// ─── LLM Usage ────────────────────────────────────────────────────────────────
+
+export { UsageService, estimateCostUsd } from './usage.ts';
+export type { UsageEntry, UsageRow, UsageReportOptions, BudgetStatus } from './usage.ts';
+
+// ─── Reprocessing ─────────────────────────────────────────────────────────────
+
+export { ReprocessService } from './reprocess.ts';
+export type {
+  ReprocessRun,
+  ReprocessStatus,
+  ReprocessCandidate,
+  ReprocessPreview,
+  ReprocessConfirmReport,
+} from './reprocess.ts';
+
+// ─── Summary Chunks ───────────────────────────────────────────────────────────
+
+export { SummaryChunkService, summaryChunkKey } from './summary-chunks.ts';
+export type { SummaryChunk, SummaryChunkFields } from './summary-chunks.ts';
+
+// ─── Checkpoints ──────────────────────────────────────────────────────────────
+
+export { CheckpointService } from './checkpoints.ts';
+export type { CheckpointInput, DueCheckpoint, DueOptions } from './checkpoints.ts';
+
+// ─── Watches ──────────────────────────────────────────────────────────────────
+
+export { WatchService } from './watches.ts';
+export type { Watch, WatchInput, WatchPatch, WatchMatch } from './watches.ts';
+
+// ─── Backup ───────────────────────────────────────────────────────────────────
+
+export { BackupService, validateSnapshot, replaceDatabaseFile } from './backup.ts';
+export type { BackupInfo, BackupLabel } from './backup.ts';
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 export type {
@@ -59,6 +180,15 @@ export type {
   QueueMessageType,
   QueueStatus,
   IndexResult,
+  SearchScope,
+  ScopedSearchResult,
+  HybridSearchResult,
+  CompactSearchResult,
+  SearchHighlight,
+  ColumnMatch,
+  FacetCount,
+  SearchFacets,
+  SessionTimelineEntry,
   ProjectStats,
 } from './types.ts';
 
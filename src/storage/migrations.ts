@@ -49,6 +49,382 @@ export const MIGRATIONS: Migration[] = [
       `ALTER TABLE observations ADD COLUMN hmac TEXT;`,
     ],
   },
+  {
+    version: 3,
+    description: 'Soft-delete column on observations and observation_audit trail',
+    sql: [
+      `ALTER TABLE observations ADD COLUMN deleted_at INTEGER;`,
+      `CREATE INDEX IF NOT EXISTS idx_observations_deleted ON observations(deleted_at);`,
+      // No FK to observations: audit rows must outlive a hard delete (purge)
+      `CREATE TABLE IF NOT EXISTS observation_audit (
+        id             INTEGER PRIMARY KEY AUTOINCREMENT,
+        observation_id INTEGER NOT NULL,
+        action         TEXT    NOT NULL
+                       CHECK(action IN ('update', 'delete', 'restore', 'purge')),
+        actor          TEXT    NOT NULL,
+        changes        TEXT,
+        created_at     INTEGER NOT NULL DEFAULT (unixepoch())
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_observation_audit_obs
+         ON observation_audit(observation_id, created_at);`,
+    ],
+  },
+  {
+    version: 4,
+    description: 'observation_files index of files_read / files_modified, kept in sync by triggers',
+    sql: [
+      // Rows go away with their observation (retention, forget, purge)
+      `CREATE TABLE IF NOT EXISTS observation_files (
+        observation_id INTEGER NOT NULL REFERENCES observations(id) ON DELETE CASCADE,
+        path           TEXT    NOT NULL,
+        access         TEXT    NOT NULL CHECK(access IN ('read', 'modified')),
+        PRIMARY KEY (observation_id, path, access)
+      ) WITHOUT ROWID;`,
+      `CREATE INDEX IF NOT EXISTS idx_observation_files_path
+         ON observation_files(path, access);`,
+      // compressed may be plain text; json_each over '{}' yields nothing
+      `CREATE TRIGGER IF NOT EXISTS obs_files_ai
+       AFTER INSERT ON observations
+       BEGIN
+         INSERT OR IGNORE INTO observation_files (observation_id, path, access)
+         SELECT new.id, j.value, 'read'
+         FROM json_each(CASE WHEN json_valid(new.compressed) THEN new.compressed ELSE '{}' END,
+                        '$.files_read') j
+         WHERE j.type = 'text' AND j.value != '';
+         INSERT OR IGNORE INTO observation_files (observation_id, path, access)
+         SELECT new.id, j.value, 'modified'
+         FROM json_each(CASE WHEN json_valid(new.compressed) THEN new.compressed ELSE '{}' END,
+                        '$.files_modified') j
+         WHERE j.type = 'text' AND j.value != '';
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS obs_files_au
+       AFTER UPDATE OF compressed ON observations
+       BEGIN
+         DELETE FROM observation_files WHERE observation_id = new.id;
+         INSERT OR IGNORE INTO observation_files (observation_id, path, access)
+         SELECT new.id, j.value, 'read'
+         FROM json_each(CASE WHEN json_valid(new.compressed) THEN new.compressed ELSE '{}' END,
+                        '$.files_read') j
+         WHERE j.type = 'text' AND j.value != '';
+         INSERT OR IGNORE INTO observation_files (observation_id, path, access)
+         SELECT new.id, j.value, 'modified'
+         FROM json_each(CASE WHEN json_valid(new.compressed) THEN new.compressed ELSE '{}' END,
+                        '$.files_modified') j
+         WHERE j.type = 'text' AND j.value != '';
+       END;`,
+      // Backfill existing rows
+      `INSERT OR IGNORE INTO observation_files (observation_id, path, access)
+       SELECT o.id, j.value, 'read'
+       FROM observations o,
+            json_each(CASE WHEN json_valid(o.compressed) THEN o.compressed ELSE '{}' END,
+                      '$.files_read') j
+       WHERE j.type = 'text' AND j.value != '';`,
+      `INSERT OR IGNORE INTO observation_files (observation_id, path, access)
+       SELECT o.id, j.value, 'modified'
+       FROM observations o,
+            json_each(CASE WHEN json_valid(o.compressed) THEN o.compressed ELSE '{}' END,
+                      '$.files_modified') j
+       WHERE j.type = 'text' AND j.value != '';`,
+    ],
+  },
+  {
+    version: 5,
+    description: 'FTS5 indexes over summaries and user_prompts, with sync triggers',
+    sql: [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS summaries_fts USING fts5(
+        request,
+        investigated,
+        learned,
+        completed,
+        next_steps,
+        content=summaries,
+        content_rowid=id,
+        tokenize='porter unicode61'
+      );`,
+      `CREATE TRIGGER IF NOT EXISTS summaries_ai
+       AFTER INSERT ON summaries
+       BEGIN
+         INSERT INTO summaries_fts(rowid, request, investigated, learned, completed, next_steps)
+         VALUES (new.id, new.request, new.investigated, new.learned, new.completed, new.next_steps);
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS summaries_ad
+       AFTER DELETE ON summaries
+       BEGIN
+         INSERT INTO summaries_fts(summaries_fts, rowid, request, investigated, learned, completed, next_steps)
+         VALUES ('delete', old.id, old.request, old.investigated, old.learned, old.completed, old.next_steps);
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS summaries_au
+       AFTER UPDATE ON summaries
+       BEGIN
+         INSERT INTO summaries_fts(summaries_fts, rowid, request, investigated, learned, completed, next_steps)
+         VALUES ('delete', old.id, old.request, old.investigated, old.learned, old.completed, old.next_steps);
+         INSERT INTO summaries_fts(rowid, request, investigated, learned, completed, next_steps)
+         VALUES (new.id, new.request, new.investigated, new.learned, new.completed, new.next_steps);
+       END;`,
+      `CREATE VIRTUAL TABLE IF NOT EXISTS prompts_fts USING fts5(
+        prompt,
+        content=user_prompts,
+        content_rowid=id,
+        tokenize='porter unicode61'
+      );`,
+      `CREATE TRIGGER IF NOT EXISTS prompts_ai
+       AFTER INSERT ON user_prompts
+       BEGIN
+         INSERT INTO prompts_fts(rowid, prompt) VALUES (new.id, new.prompt);
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS prompts_ad
+       AFTER DELETE ON user_prompts
+       BEGIN
+         INSERT INTO prompts_fts(prompts_fts, rowid, prompt) VALUES ('delete', old.id, old.prompt);
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS prompts_au
+       AFTER UPDATE ON user_prompts
+       BEGIN
+         INSERT INTO prompts_fts(prompts_fts, rowid, prompt) VALUES ('delete', old.id, old.prompt);
+         INSERT INTO prompts_fts(rowid, prompt) VALUES (new.id, new.prompt);
+       END;`,
+      // Backfill from existing rows
+      `INSERT INTO summaries_fts(summaries_fts) VALUES ('rebuild');`,
+      `INSERT INTO prompts_fts(prompts_fts) VALUES ('rebuild');`,
+    ],
+  },
+  {
+    version: 6,
+    description: 'observation_vectors for local semantic search (filled by VectorIndex, not SQL)',
+    sql: [
+      `CREATE TABLE IF NOT EXISTS observation_vectors (
+        observation_id INTEGER PRIMARY KEY REFERENCES observations(id) ON DELETE CASCADE,
+        model          TEXT NOT NULL,
+        vector         BLOB NOT NULL
+      );`,
+      // An edit invalidates the vector; the edit path re-embeds it (VectorIndex.upsert)
+      `CREATE TRIGGER IF NOT EXISTS obs_vectors_au
+       AFTER UPDATE OF title, narrative, compressed ON observations
+       BEGIN
+         DELETE FROM observation_vectors WHERE observation_id = new.id;
+       END;`,
+    ],
+  },
+  {
+    version: 7,
+    description: 'watches: saved searches evaluated against each processed observation',
+    sql: [
+      `CREATE TABLE IF NOT EXISTS watches (
+        id              INTEGER PRIMARY KEY AUTOINCREMENT,
+        name            TEXT    NOT NULL,
+        query           TEXT    NOT NULL,
+        project         TEXT,
+        enabled         INTEGER NOT NULL DEFAULT 1,
+        match_count     INTEGER NOT NULL DEFAULT 0,
+        last_matched_at INTEGER,
+        created_at      INTEGER NOT NULL DEFAULT (unixepoch()),
+        updated_at      INTEGER NOT NULL DEFAULT (unixepoch())
+      );`,
+    ],
+  },
+  {
+    version: 8,
+    description: 'Code-aware search: obs_trigram substring index and obs_words vocabulary for suggestions',
+    sql: [
+      // Substring matches inside identifiers and paths (parseJsonBody, queue.ts)
+      `CREATE VIRTUAL TABLE IF NOT EXISTS obs_trigram USING fts5(
+        title,
+        narrative,
+        compressed,
+        tool_name,
+        content=observations,
+        content_rowid=id,
+        tokenize='trigram'
+      );`,
+      `CREATE TRIGGER IF NOT EXISTS obs_trigram_ai
+       AFTER INSERT ON observations
+       BEGIN
+         INSERT INTO obs_trigram(rowid, title, narrative, compressed, tool_name)
+         VALUES (new.id, new.title, new.narrative, new.compressed, new.tool_name);
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS obs_trigram_ad
+       AFTER DELETE ON observations
+       BEGIN
+         INSERT INTO obs_trigram(obs_trigram, rowid, title, narrative, compressed, tool_name)
+         VALUES ('delete', old.id, old.title, old.narrative, old.compressed, old.tool_name);
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS obs_trigram_au
+       AFTER UPDATE OF title, narrative, compressed, tool_name ON observations
+       BEGIN
+         INSERT INTO obs_trigram(obs_trigram, rowid, title, narrative, compressed, tool_name)
+         VALUES ('delete', old.id, old.title, old.narrative, old.compressed, old.tool_name);
+         INSERT INTO obs_trigram(rowid, title, narrative, compressed, tool_name)
+         VALUES (new.id, new.title, new.narrative, new.compressed, new.tool_name);
+       END;`,
+      // Unstemmed words, only read through obs_words_vocab, so no positions are kept
+      `CREATE VIRTUAL TABLE IF NOT EXISTS obs_words USING fts5(
+        title,
+        narrative,
+        compressed,
+        content=observations,
+        content_rowid=id,
+        detail=none,
+        tokenize='unicode61'
+      );`,
+      `CREATE VIRTUAL TABLE IF NOT EXISTS obs_words_vocab USING fts5vocab(obs_words, 'row');`,
+      `CREATE TRIGGER IF NOT EXISTS obs_words_ai
+       AFTER INSERT ON observations
+       BEGIN
+         INSERT INTO obs_words(rowid, title, narrative, compressed)
+         VALUES (new.id, new.title, new.narrative, new.compressed);
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS obs_words_ad
+       AFTER DELETE ON observations
+       BEGIN
+         INSERT INTO obs_words(obs_words, rowid, title, narrative, compressed)
+         VALUES ('delete', old.id, old.title, old.narrative, old.compressed);
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS obs_words_au
+       AFTER UPDATE OF title, narrative, compressed ON observations
+       BEGIN
+         INSERT INTO obs_words(obs_words, rowid, title, narrative, compressed)
+         VALUES ('delete', old.id, old.title, old.narrative, old.compressed);
+         INSERT INTO obs_words(rowid, title, narrative, compressed)
+         VALUES (new.id, new.title, new.narrative, new.compressed);
+       END;`,
+      // Backfill from existing rows
+      `INSERT INTO obs_trigram(obs_trigram) VALUES ('rebuild');`,
+      `INSERT INTO obs_words(obs_words) VALUES ('rebuild');`,
+    ],
+  },
+  {
+    version: 9,
+    description: 'commands: shell command history recorded from exec tool observations',
+    sql: [
+      `CREATE TABLE IF NOT EXISTS commands (
+        id             INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id     INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        observation_id INTEGER NOT NULL REFERENCES observations(id) ON DELETE CASCADE,
+        command        TEXT    NOT NULL,
+        cwd            TEXT,
+        exit_code      INTEGER,
+        signal         TEXT,
+        duration_ms    INTEGER,
+        created_at     INTEGER NOT NULL DEFAULT (unixepoch())
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_commands_session ON commands(session_id, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_commands_observation ON commands(observation_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_commands_created ON commands(created_at);`,
+    ],
+  },
+  {
+    version: 10,
+    description: 'compression_cache: LLM compressions keyed by normalized content hash, with hit/miss counters',
+    sql: [
+      `CREATE TABLE IF NOT EXISTS compression_cache (
+        key            TEXT    PRIMARY KEY,
+        tool_name      TEXT    NOT NULL,
+        prompt_version TEXT    NOT NULL,
+        compressed     TEXT    NOT NULL,
+        hit_count      INTEGER NOT NULL DEFAULT 0,
+        created_at     INTEGER NOT NULL DEFAULT (unixepoch()),
+        last_hit_at    INTEGER
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_compression_cache_created ON compression_cache(created_at);`,
+      `CREATE TABLE IF NOT EXISTS compression_cache_stats (
+        id     INTEGER PRIMARY KEY CHECK (id = 1),
+        hits   INTEGER NOT NULL DEFAULT 0,
+        misses INTEGER NOT NULL DEFAULT 0
+      );`,
+    ],
+  },
+  {
+    version: 11,
+    description: 'llm_usage: tokens, latency and estimated cost of every compression and summary call',
+    sql: [
+      `CREATE TABLE IF NOT EXISTS llm_usage (
+        id            INTEGER PRIMARY KEY AUTOINCREMENT,
+        project       TEXT    NOT NULL,
+        provider      TEXT    NOT NULL,
+        model         TEXT,
+        purpose       TEXT,
+        input_tokens  INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        latency_ms    INTEGER NOT NULL,
+        cost_usd      REAL    NOT NULL DEFAULT 0,
+        ok            INTEGER NOT NULL DEFAULT 1,
+        created_at    INTEGER NOT NULL DEFAULT (unixepoch())
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_llm_usage_project ON llm_usage(project, created_at);`,
+    ],
+  },
+  {
+    version: 12,
+    description: 'Prompt version and model per observation / summary; reprocess runs with staged re-compressions',
+    sql: [
+      `ALTER TABLE observations ADD COLUMN prompt_version TEXT;`,
+      `ALTER TABLE observations ADD COLUMN model TEXT;`,
+      `ALTER TABLE summaries ADD COLUMN prompt_version TEXT;`,
+      `ALTER TABLE summaries ADD COLUMN model TEXT;`,
+      `CREATE TABLE IF NOT EXISTS reprocess_runs (
+        id             INTEGER PRIMARY KEY AUTOINCREMENT,
+        project        TEXT,
+        before_version TEXT    NOT NULL,
+        prompt_version TEXT    NOT NULL,
+        status         TEXT    NOT NULL DEFAULT 'running'
+                       CHECK(status IN ('running', 'ready', 'confirmed', 'discarded', 'failed')),
+        total          INTEGER NOT NULL DEFAULT 0,
+        processed      INTEGER NOT NULL DEFAULT 0,
+        failed         INTEGER NOT NULL DEFAULT 0,
+        skipped        INTEGER NOT NULL DEFAULT 0,
+        error          TEXT,
+        created_at     INTEGER NOT NULL DEFAULT (unixepoch()),
+        finished_at    INTEGER
+      );`,
+      // New compressions wait here until the run is confirmed; based_on
+      // fingerprints the observation when staged, so later edits are not overwritten
+      `CREATE TABLE IF NOT EXISTS reprocess_results (
+        run_id         INTEGER NOT NULL REFERENCES reprocess_runs(id) ON DELETE CASCADE,
+        observation_id INTEGER NOT NULL REFERENCES observations(id) ON DELETE CASCADE,
+        compressed     TEXT    NOT NULL,
+        model          TEXT,
+        based_on       TEXT,
+        PRIMARY KEY (run_id, observation_id)
+      );`,
+    ],
+  },
+  {
+    version: 13,
+    description: 'summary_chunks: per-chunk summaries of long sessions, reused on re-summarization',
+    sql: [
+      // chunk_key hashes the chunk's observations and the prompt version,
+      // so an edited observation or a new prompt misses the stored summary
+      `CREATE TABLE IF NOT EXISTS summary_chunks (
+        id                   INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id           INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        chunk_key            TEXT    NOT NULL,
+        first_observation_id INTEGER NOT NULL,
+        last_observation_id  INTEGER NOT NULL,
+        observation_count    INTEGER NOT NULL,
+        first_prompt         INTEGER NOT NULL,
+        last_prompt          INTEGER NOT NULL,
+        request              TEXT    NOT NULL,
+        investigated         TEXT    NOT NULL,
+        learned              TEXT    NOT NULL,
+        completed            TEXT    NOT NULL,
+        next_steps           TEXT    NOT NULL,
+        prompt_version       TEXT    NOT NULL,
+        model                TEXT,
+        created_at           INTEGER NOT NULL DEFAULT (unixepoch()),
+        UNIQUE (session_id, chunk_key)
+      );`,
+    ],
+  },
+  {
+    version: 14,
+    description: 'Checkpoint summaries: summaries.checkpoint and the newest observation a checkpoint covers',
+    sql: [
+      `ALTER TABLE summaries ADD COLUMN checkpoint INTEGER NOT NULL DEFAULT 0;`,
+      `ALTER TABLE summaries ADD COLUMN through_observation_id INTEGER;`,
+      `CREATE INDEX IF NOT EXISTS idx_summaries_checkpoint ON summaries(session_id, checkpoint);`,
+    ],
+  },
 ];
 
 // ─── Runner ───────────────────────────────────────────────────────────────────
@@ -0,0 +1,401 @@
+/**
+ * Open-Mem Portable Export / Import
+ *
+ * Serialises one project's memory as NDJSON so it can be moved between
+ * machines or kept in versioned backups:
+ *
+ *   {"kind":"header","format":"open-mem-export","version":1,...}
+ *   {"kind":"session","data":{...}}
+ *   {"kind":"user_prompt","data":{...}}
+ *   {"kind":"observation","data":{...}}
+ *   {"kind":"command","data":{...}}
+ *   {"kind":"summary","data":{...}}
+ *   {"kind":"queue","data":{...}}          (only with includeQueue)
+ *   {"kind":"footer","counts":{...}}
+ *
+ * Import rules:
+ *  - Sessions are deduped by claude_session_id: a session that already exists
+ *    locally is skipped together with all of its rows.
+ *  - Numeric sessions.id and observations.id foreign keys are remapped to the
+ *    new local ids.
+ *  - Observation text is re-scrubbed and the HMAC re-signed with the local key
+ *    (the exporting machine's signature is meaningless here), and its search
+ *    vector is built locally.
+ *  - The footer counts must match, so a truncated file is rejected.
+ *  - Everything is applied in one transaction.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { signObservation } from './db.ts';
+import { scrubRawInput, scrubSecrets } from './secrets.ts';
+import { VectorIndex } from './vectors.ts';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const EXPORT_FORMAT = 'open-mem-export';
+export const EXPORT_VERSION = 1;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ExportOptions {
+  includeQueue?: boolean;
+}
+
+export interface ImportOptions {
+  /** Store imported sessions under this project name instead of the exported one */
+  project?: string;
+}
+
+type RecordKind = 'session' | 'user_prompt' | 'observation' | 'command' | 'summary' | 'queue';
+
+export type ExportCounts = Record<RecordKind, number>;
+
+export interface ImportReport {
+  project: string;
+  sessions: { imported: number; skipped: number };
+  userPrompts: number;
+  observations: number;
+  commands: number;
+  summaries: number;
+  queue: number;
+}
+
+type Row = Record<string, unknown>;
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+/**
+ * Yield the NDJSON lines (without trailing newlines) for one project.
+ * Rows are read with statement iterators so large projects stream.
+ */
+export function* exportProject(
+  db: Database,
+  project: string,
+  options: ExportOptions = {},
+): Generator<string> {
+  const counts: ExportCounts = { session: 0, user_prompt: 0, observation: 0, command: 0, summary: 0, queue: 0 };
+
+  yield JSON.stringify({
+    kind: 'header',
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    project,
+    exported_at: new Date().toISOString(),
+    include_queue: options.includeQueue === true,
+  });
+
+  const tables: [RecordKind, string][] = [
+    ['session', 'SELECT * FROM sessions WHERE project = ? ORDER BY id'],
+    [
+      'user_prompt',
+      `SELECT x.* FROM user_prompts x JOIN sessions s ON s.id = x.session_id
+       WHERE s.project = ? ORDER BY x.id`,
+    ],
+    [
+      'observation',
+      `SELECT x.* FROM observations x JOIN sessions s ON s.id = x.session_id
+       WHERE s.project = ? ORDER BY x.id`,
+    ],
+    [
+      'command',
+      `SELECT x.* FROM commands x JOIN sessions s ON s.id = x.session_id
+       WHERE s.project = ? ORDER BY x.id`,
+    ],
+    [
+      'summary',
+      `SELECT x.* FROM summaries x JOIN sessions s ON s.id = x.session_id
+       WHERE s.project = ? ORDER BY x.id`,
+    ],
+  ];
+  if (options.includeQueue) {
+    tables.push([
+      'queue',
+      `SELECT x.* FROM queue x JOIN sessions s ON s.id = x.session_id
+       WHERE s.project = ? ORDER BY x.id`,
+    ]);
+  }
+
+  for (const [kind, sql] of tables) {
+    for (const row of db.query<Row, [string]>(sql).iterate(project)) {
+      if (kind === 'observation') delete row.hmac; // re-signed on import
+      counts[kind]++;
+      yield JSON.stringify({ kind, data: row });
+    }
+  }
+
+  yield JSON.stringify({ kind: 'footer', counts });
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+/**
+ * Import an NDJSON export produced by exportProject().
+ *
+ * @throws Error on a malformed line, unknown format/version, missing footer
+ *         or count mismatch — nothing is written in that case.
+ */
+export function importProject(
+  db: Database,
+  ndjson: string,
+  options: ImportOptions = {},
+): ImportReport {
+  const records = parseLines(ndjson);
+
+  const header = records[0];
+  if (!header || header.kind !== 'header' || header.format !== EXPORT_FORMAT) {
+    throw new Error('Not an open-mem export: first line must be the format header');
+  }
+  if (typeof header.version !== 'number' || header.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${String(header.version)} (max ${EXPORT_VERSION})`);
+  }
+
+  const footer = records[records.length - 1];
+  if (!footer || footer.kind !== 'footer') {
+    throw new Error('Export is truncated: footer line missing');
+  }
+
+  const body = records.slice(1, -1);
+  const seen: ExportCounts = { session: 0, user_prompt: 0, observation: 0, command: 0, summary: 0, queue: 0 };
+  for (const rec of body) {
+    if (typeof rec.kind !== 'string' || !(rec.kind in seen) || !rec.data || typeof rec.data !== 'object') {
+      throw new Error(`Unknown record kind: ${String(rec.kind)}`);
+    }
+    seen[rec.kind as RecordKind]++;
+  }
+  const expected = footer.counts as Partial<ExportCounts> | undefined;
+  for (const kind of Object.keys(seen) as RecordKind[]) {
+    if ((expected?.[kind] ?? 0) !== seen[kind]) {
+      throw new Error(
+        `Export is truncated or corrupt: footer says ${expected?.[kind] ?? 0} ${kind} rows, found ${seen[kind]}`,
+      );
+    }
+  }
+
+  const project = options.project ?? String(header.project ?? 'imported');
+  const report: ImportReport = {
+    project,
+    sessions: { imported: 0, skipped: 0 },
+    userPrompts: 0,
+    observations: 0,
+    commands: 0,
+    summaries: 0,
+    queue: 0,
+  };
+
+  /** exported sessions.id → local sessions.id (null = skipped duplicate) */
+  const sessionMap = new Map<number, number | null>();
+  const localSession = (data: Row): number | null => {
+    const mapped = sessionMap.get(Number(data.session_id));
+    if (mapped === undefined) {
+      throw new Error(`Row references unknown session_id ${String(data.session_id)}`);
+    }
+    return mapped;
+  };
+
+  /** exported observations.id → local observations.id (null = its session was skipped) */
+  const observationMap = new Map<number, number | null>();
+
+  const vectors = new VectorIndex(db);
+  db.transaction(() => {
+    for (const { kind, data } of body as { kind: RecordKind; data: Row }[]) {
+      switch (kind) {
+        case 'session': {
+          const claudeId = requireString(data, 'claude_session_id');
+          const existing = db
+            .query<{ id: number }, [string]>('SELECT id FROM sessions WHERE claude_session_id = ?')
+            .get(claudeId);
+          if (existing) {
+            sessionMap.set(Number(data.id), null);
+            report.sessions.skipped++;
+            break;
+          }
+          const result = db.run(
+            `INSERT INTO sessions
+               (claude_session_id, project, first_prompt, prompt_counter, status, created_at, completed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+              claudeId,
+              project,
+              optionalString(data.first_prompt),
+              Number(data.prompt_counter ?? 0),
+              String(data.status ?? 'completed'),
+              Number(data.created_at),
+              data.completed_at == null ? null : Number(data.completed_at),
+            ],
+          );
+          sessionMap.set(Number(data.id), Number(result.lastInsertRowid));
+          report.sessions.imported++;
+          break;
+        }
+
+        case 'user_prompt': {
+          const sessionId = localSession(data);
+          if (sessionId === null) break;
+          db.run(
+            `INSERT INTO user_prompts (session_id, prompt_number, prompt, created_at)
+             VALUES (?, ?, ?, ?)`,
+            [
+              sessionId,
+              Number(data.prompt_number),
+              scrubSecrets(requireString(data, 'prompt')),
+              Number(data.created_at),
+            ],
+          );
+          report.userPrompts++;
+          break;
+        }
+
+        case 'observation': {
+          const sessionId = localSession(data);
+          if (sessionId === null) {
+            observationMap.set(Number(data.id), null);
+            break;
+          }
+          const compressed = scrubSecrets(requireString(data, 'compressed'));
+          const narrative = optionalString(data.narrative);
+          const scrubbedNarrative = narrative === null ? null : scrubSecrets(narrative);
+          const rawInput = optionalString(data.raw_input);
+          const title = optionalString(data.title);
+          const result = db.run(
+            `INSERT INTO observations
+               (session_id, prompt_number, tool_name, raw_input, compressed, obs_type,
+                title, narrative, created_at, hmac, deleted_at, prompt_version, model)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              sessionId,
+              Number(data.prompt_number),
+              requireString(data, 'tool_name'),
+              rawInput === null ? null : scrubRawInput(rawInput),
+              compressed,
+              String(data.obs_type ?? 'other'),
+              title,
+              scrubbedNarrative,
+              Number(data.created_at),
+              signObservation(compressed, scrubbedNarrative),
+              data.deleted_at == null ? null : Number(data.deleted_at),
+              optionalString(data.prompt_version),
+              optionalString(data.model),
+            ],
+          );
+          const observationId = Number(result.lastInsertRowid);
+          observationMap.set(Number(data.id), observationId);
+          vectors.upsert(observationId, { title, narrative: scrubbedNarrative, compressed });
+          report.observations++;
+          break;
+        }
+
+        case 'command': {
+          const sessionId = localSession(data);
+          const observationId = observationMap.get(Number(data.observation_id));
+          if (observationId === undefined) {
+            throw new Error(`Row references unknown observation_id ${String(data.observation_id)}`);
+          }
+          if (sessionId === null || observationId === null) break;
+          db.run(
+            `INSERT INTO commands
+               (session_id, observation_id, command, cwd, exit_code, signal, duration_ms, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              sessionId,
+              observationId,
+              scrubSecrets(requireString(data, 'command')),
+              optionalString(data.cwd),
+              data.exit_code == null ? null : Number(data.exit_code),
+              optionalString(data.signal),
+              data.duration_ms == null ? null : Number(data.duration_ms),
+              Number(data.created_at),
+            ],
+          );
+          report.commands++;
+          break;
+        }
+
+        case 'summary': {
+          const sessionId = localSession(data);
+          if (sessionId === null) break;
+          db.run(
+            `INSERT INTO summaries
+               (session_id, request, investigated, learned, completed, next_steps, created_at,
+                prompt_version, model, checkpoint, through_observation_id)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              sessionId,
+              optionalString(data.request),
+              optionalString(data.investigated),
+              optionalString(data.learned),
+              optionalString(data.completed),
+              optionalString(data.next_steps),
+              Number(data.created_at),
+              optionalString(data.prompt_version),
+              optionalString(data.model),
+              data.checkpoint === 1 ? 1 : 0,
+              // Observations come first, so a checkpoint's newest one is already mapped
+              data.through_observation_id == null
+                ? null
+                : (observationMap.get(Number(data.through_observation_id)) ?? null),
+            ],
+          );
+          report.summaries++;
+          break;
+        }
+
+        case 'queue': {
+          const sessionId = localSession(data);
+          if (sessionId === null) break;
+          // A row caught mid-flight on the exporting machine is retried here
+          const status = data.status === 'processing' ? 'pending' : String(data.status);
+          db.run(
+            `INSERT INTO queue
+               (session_id, message_type, payload, status, retry_count, error, created_at, completed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              sessionId,
+              String(data.message_type),
+              requireString(data, 'payload'),
+              status,
+              Number(data.retry_count ?? 0),
+              optionalString(data.error),
+              Number(data.created_at),
+              data.completed_at == null ? null : Number(data.completed_at),
+            ],
+          );
+          report.queue++;
+          break;
+        }
+      }
+    }
+  })();
+
+  return report;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function parseLines(ndjson: string): Row[] {
+  const records: Row[] = [];
+  const lines = ndjson.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+      records.push(parsed as Row);
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+  }
+  return records;
+}
+
+function requireString(data: Row, field: string): string {
+  const value = data[field];
+  if (typeof value !== 'string') {
+    throw new Error(`Missing or invalid field "${field}"`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
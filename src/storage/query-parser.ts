@@ -0,0 +1,542 @@
+/**
+ * Open-Mem Search Query Language
+ *
+ * Parses the `q` parameter of GET /api/search into an FTS5 MATCH expression
+ * plus parameterized SQL filters:
+ *
+ *   tokenizer quotes          both words (implicit AND)
+ *   "curly quotes"            exact phrase
+ *   token*                    prefix match
+ *   lexer OR parser           either; AND / OR / NOT are uppercase keywords
+ *   (lexer OR parser) -test   grouping and exclusion (-x is the same as NOT x)
+ *   type:bugfix,feature       obs_type in list
+ *   tool:Bash                 tool_name in list
+ *   file:src/worker/*         an indexed file path (glob, also matches as a path suffix)
+ *   session:<claude id>       one session
+ *   after:2026-09-01          created at or after (ISO date or date-time, UTC)
+ *   before:2026-10-01         created before
+ *
+ * Field filters apply to the whole query: they may be negated (-type:other)
+ * but not used inside parentheses or OR. Unknown `name:value` tokens are
+ * searched as plain words.
+ *
+ * Safety: every word and phrase is emitted as a quoted FTS5 string, so user
+ * input never reaches FTS5 as syntax; filter values are always bound
+ * parameters. Malformed input throws QuerySyntaxError.
+ */
+
+import { splitIdentifier } from './identifiers.ts';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type QueryNode =
+  | { kind: 'term'; text: string; prefix: boolean }
+  | { kind: 'phrase'; text: string }
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode };
+
+export type FilterField = 'type' | 'tool' | 'file' | 'session' | 'after' | 'before';
+
+export type FieldFilter =
+  | { field: 'type' | 'tool'; values: string[]; negated: boolean }
+  | { field: 'file' | 'session'; value: string; negated: boolean }
+  | { field: 'after' | 'before'; epoch: number; negated: boolean }; // Unix epoch seconds
+
+export interface ParsedQuery {
+  text: QueryNode | null;
+  filters: FieldFilter[];
+}
+
+export interface CompiledQuery {
+  /** FTS5 MATCH expression, or null when there are no positive text terms */
+  match: string | null;
+  /** FTS5 expression whose hits are removed — only set when `match` is null */
+  exclude: string | null;
+  filters: FieldFilter[];
+  /** A non-negated type/tool/file filter: only observations can match */
+  observationOnly: boolean;
+}
+
+export interface SqlClause {
+  sql: string[];
+  params: (string | number)[];
+}
+
+/** Thrown for malformed queries; `position` is a 0-based offset into the input */
+export class QuerySyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const FIELDS = new Set<FilterField>(['type', 'tool', 'file', 'session', 'after', 'before']);
+const OBSERVATION_FIELDS = new Set<FilterField>(['type', 'tool', 'file']);
+
+/** The trigram tokenizer cannot match anything shorter */
+const TRIGRAM_MIN_CHARS = 3;
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// ─── Tokenizer ────────────────────────────────────────────────────────────────
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; pos: number }
+  | { type: 'word'; text: string; prefix: boolean; negated: boolean; pos: number }
+  | { type: 'phrase'; text: string; negated: boolean; pos: number }
+  | { type: 'field'; field: FilterField; value: string; negated: boolean; pos: number };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): { text: string; end: number } => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) throw new QuerySyntaxError('Unterminated quoted phrase', start);
+    return { text: input.slice(start + 1, close), end: close + 1 };
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', pos: i });
+      i++;
+      continue;
+    }
+
+    const pos = i;
+    let negated = false;
+    // "-" directly before a term, phrase, field or "(" negates it; a lone "-" is a word
+    if (ch === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      negated = true;
+      i++;
+      if (input[i] === '(') {
+        tokens.push({ type: 'not', pos });
+        continue;
+      }
+    }
+
+    if (input[i] === '"') {
+      const { text, end } = readQuoted(i);
+      if (!text.trim()) throw new QuerySyntaxError('Empty quoted phrase', i);
+      tokens.push({ type: 'phrase', text, negated, pos });
+      i = end;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+    const word = input.slice(i, end);
+
+    const colon = word.indexOf(':');
+    const field = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+    if (FIELDS.has(field as FilterField)) {
+      let value = word.slice(colon + 1);
+      if (!value && input[end] === '"') {
+        const quoted = readQuoted(end);
+        value = quoted.text;
+        end = quoted.end;
+      }
+      if (!value.trim()) throw new QuerySyntaxError(`Missing value for ${field}:`, pos);
+      tokens.push({ type: 'field', field: field as FilterField, value, negated, pos });
+      i = end;
+      continue;
+    }
+
+    if (!negated && (word === 'AND' || word === 'OR' || word === 'NOT')) {
+      tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not', pos });
+      i = end;
+      continue;
+    }
+
+    const prefix = word.endsWith('*');
+    const text = prefix ? word.replace(/\*+$/, '') : word;
+    if (!text) throw new QuerySyntaxError('Prefix search needs at least one character before *', pos);
+    if (text.includes('*')) {
+      throw new QuerySyntaxError('* is only allowed at the end of a word', pos);
+    }
+    tokens.push({ type: 'word', text, prefix, negated, pos });
+    i = end;
+  }
+
+  return tokens;
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a query string.
+ * @throws QuerySyntaxError on malformed input
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) throw new QuerySyntaxError('Query is empty', 0);
+
+  let idx = 0;
+  let depth = 0;
+  const filters: { filter: FieldFilter; pos: number }[] = [];
+
+  const peek = () => tokens[idx];
+
+  const parseOr = (): QueryNode | null => {
+    const filtersBefore = filters.length;
+    const branches: { node: QueryNode | null; pos: number }[] = [];
+    for (;;) {
+      const pos = peek()?.pos ?? input.length;
+      branches.push({ node: parseAnd(), pos });
+      if (peek()?.type !== 'or') break;
+      idx++;
+    }
+    if (branches.length === 1) return branches[0].node;
+    if (filters.length > filtersBefore) {
+      throw new QuerySyntaxError('Field filters cannot be combined with OR', filters[filtersBefore].pos);
+    }
+    for (const b of branches) {
+      if (onlyExclusions(b.node)) {
+        throw new QuerySyntaxError('An exclusion cannot be one side of OR', b.pos);
+      }
+    }
+    return { kind: 'or', children: branches.map((b) => b.node as QueryNode) };
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    let sawOperand = false;
+    for (;;) {
+      const tok = peek();
+      if (!tok || tok.type === 'or' || tok.type === 'rparen') break;
+      if (tok.type === 'and') {
+        if (!sawOperand) throw new QuerySyntaxError('AND needs a term on both sides', tok.pos);
+        idx++;
+        const after = peek();
+        if (!after || after.type === 'or' || after.type === 'rparen' || after.type === 'and') {
+          throw new QuerySyntaxError('AND needs a term on both sides', tok.pos);
+        }
+        continue;
+      }
+      const node = parseUnary();
+      sawOperand = true;
+      if (node) children.push(node);
+    }
+    if (!sawOperand) {
+      const tok = peek();
+      throw new QuerySyntaxError('Expected a search term', tok ? tok.pos : input.length);
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  /** Returns null for field filters, which are collected separately */
+  const parseUnary = (): QueryNode | null => {
+    const tok = tokens[idx++];
+    switch (tok.type) {
+      case 'not': {
+        const next = peek();
+        if (!next || next.type === 'rparen' || next.type === 'or' || next.type === 'and') {
+          throw new QuerySyntaxError('NOT needs a term after it', tok.pos);
+        }
+        if (next.type === 'field') {
+          idx++;
+          addFilter({ ...next, negated: !next.negated });
+          return null;
+        }
+        const child = parseUnary();
+        if (child?.kind === 'not') throw new QuerySyntaxError('Double negation', tok.pos);
+        return child && { kind: 'not', child };
+      }
+      case 'lparen': {
+        depth++;
+        if (peek()?.type === 'rparen') throw new QuerySyntaxError('Empty parentheses', tok.pos);
+        const inner = parseOr();
+        if (peek()?.type !== 'rparen') throw new QuerySyntaxError('Unbalanced "("', tok.pos);
+        idx++;
+        depth--;
+        if (onlyExclusions(inner)) {
+          throw new QuerySyntaxError('A group needs at least one term that is not excluded', tok.pos);
+        }
+        return inner;
+      }
+      case 'rparen':
+        throw new QuerySyntaxError('Unbalanced ")"', tok.pos);
+      case 'field':
+        addFilter(tok);
+        return null;
+      case 'word': {
+        const node: QueryNode = { kind: 'term', text: tok.text, prefix: tok.prefix };
+        return tok.negated ? { kind: 'not', child: node } : node;
+      }
+      case 'phrase': {
+        const node: QueryNode = { kind: 'phrase', text: tok.text };
+        return tok.negated ? { kind: 'not', child: node } : node;
+      }
+      default:
+        throw new QuerySyntaxError(`Unexpected ${tok.type.toUpperCase()}`, tok.pos);
+    }
+  };
+
+  const addFilter = (tok: Extract<Token, { type: 'field' }>): void => {
+    if (depth > 0) {
+      throw new QuerySyntaxError(`${tok.field}: cannot be used inside parentheses`, tok.pos);
+    }
+    filters.push({ filter: toFilter(tok), pos: tok.pos });
+  };
+
+  const text = parseOr();
+  if (idx < tokens.length) {
+    const tok = tokens[idx];
+    throw new QuerySyntaxError(tok.type === 'rparen' ? 'Unbalanced ")"' : 'Unexpected token', tok.pos);
+  }
+
+  return { text, filters: filters.map((f) => f.filter) };
+}
+
+/** True for `-a` and `-a -b` — nothing for FTS5 to match positively */
+function onlyExclusions(node: QueryNode | null): boolean {
+  if (!node) return false;
+  if (node.kind === 'not') return true;
+  return node.kind === 'and' && node.children.every((c) => c.kind === 'not');
+}
+
+function toFilter(tok: Extract<Token, { type: 'field' }>): FieldFilter {
+  const { field, value, negated, pos } = tok;
+  switch (field) {
+    case 'type':
+    case 'tool': {
+      const values = value.split(',').map((v) => v.trim()).filter(Boolean);
+      if (values.length === 0) throw new QuerySyntaxError(`Missing value for ${field}:`, pos);
+      return { field, values, negated };
+    }
+    case 'file':
+    case 'session':
+      return { field, value, negated };
+    case 'after':
+    case 'before': {
+      const ms = ISO_DATE_RE.test(value) ? Date.parse(value) : NaN;
+      if (Number.isNaN(ms)) {
+        throw new QuerySyntaxError(
+          `Invalid date "${value}" for ${field}: (expected YYYY-MM-DD or an ISO-8601 date-time)`,
+          pos,
+        );
+      }
+      return { field, epoch: Math.floor(ms / 1000), negated };
+    }
+  }
+}
+
+// ─── Compiler ─────────────────────────────────────────────────────────────────
+
+/** Turn a parsed query into an FTS5 expression and the filters to bind. */
+export function compileQuery(parsed: ParsedQuery): CompiledQuery {
+  const observationOnly = parsed.filters.some(
+    (f) => !f.negated && OBSERVATION_FIELDS.has(f.field),
+  );
+
+  let match: string | null = null;
+  let exclude: string | null = null;
+  const text = parsed.text;
+  if (text && onlyExclusions(text)) {
+    // Nothing for FTS5 to match; the exclusions become an id NOT IN (…) filter
+    const negs = text.kind === 'and' ? text.children : [text];
+    exclude = negs.map((n) => group((n as { child: QueryNode }).child)).join(' OR ');
+  } else if (text) {
+    match = toFts(text);
+  }
+
+  return { match, exclude, filters: parsed.filters, observationOnly };
+}
+
+/** parseQuery() guarantees every NOT sits in an AND next to a positive term */
+function toFts(node: QueryNode): string {
+  switch (node.kind) {
+    case 'term':
+      return quote(node.text) + (node.prefix ? '*' : '');
+    case 'phrase':
+      return quote(node.text);
+    case 'or':
+      return node.children.map(group).join(' OR ');
+    case 'not':
+      return group(node.child);
+    case 'and': {
+      const pos = node.children.filter((c) => c.kind !== 'not');
+      const negs = node.children.filter((c) => c.kind === 'not') as { child: QueryNode }[];
+      const positive = pos.map(group).join(' AND ');
+      if (negs.length === 0) return positive;
+      const negative = negs.map((n) => group(n.child)).join(' OR ');
+      const left = pos.length === 1 ? positive : `(${positive})`;
+      return `${left} NOT ${negs.length === 1 ? negative : `(${negative})`}`;
+    }
+  }
+}
+
+/** FTS5 string literal: everything inside is data, never syntax */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/** Parenthesize anything but a single term or phrase */
+function group(node: QueryNode): string {
+  const expr = toFts(node);
+  return node.kind === 'term' || node.kind === 'phrase' ? expr : `(${expr})`;
+}
+
+/**
+ * FTS5 MATCH expression for the trigram index (obs_trigram). Each word is
+ * split into identifier sub-words that must all occur as substrings, so
+ * "parseJsonBody", "json body" and "parse_json_body" find one another;
+ * phrases match as written. Parts shorter than a trigram are dropped, which
+ * widens a match; an exclusion would narrow instead, so one that loses a part
+ * is dropped whole. Returns null when nothing matchable is left or the query
+ * is only exclusions.
+ */
+export function compileTrigramQuery(parsed: ParsedQuery): string | null {
+  if (!parsed.text || onlyExclusions(parsed.text)) return null;
+  return toTrigram(parsed.text, false);
+}
+
+/**
+ * `strict` (inside a NOT) returns null unless the expression can be kept
+ * without dropping anything; otherwise null means "could match anything".
+ */
+function toTrigram(node: QueryNode, strict: boolean): string | null {
+  switch (node.kind) {
+    case 'term': {
+      const words = splitIdentifier(node.text);
+      const parts = words.filter((p) => p.length >= TRIGRAM_MIN_CHARS).map(quote);
+      if (strict && parts.length < words.length) return null;
+      return parts.length > 1 ? `(${parts.join(' AND ')})` : (parts[0] ?? null);
+    }
+    case 'phrase':
+      return node.text.trim().length >= TRIGRAM_MIN_CHARS ? quote(node.text) : null;
+    case 'or': {
+      // An unmatchable branch could match anything, so the OR cannot narrow
+      const children = node.children.map((c) => toTrigram(c, strict));
+      return children.every((c) => c !== null) ? `(${children.join(' OR ')})` : null;
+    }
+    case 'not':
+      return toTrigram(node.child, strict);
+    case 'and': {
+      const pos = node.children.filter((c) => c.kind !== 'not').map((c) => toTrigram(c, strict));
+      const negs = node.children
+        .filter((c): c is Extract<QueryNode, { kind: 'not' }> => c.kind === 'not')
+        .map((c) => toTrigram(c.child, !strict));
+      const kept = pos.filter((c): c is string => c !== null);
+      const excluded = negs.filter((c): c is string => c !== null);
+      if (kept.length === 0) return null;
+      if (strict && (kept.length < pos.length || excluded.length < negs.length)) return null;
+      const positive = kept.length === 1 ? kept[0] : `(${kept.join(' AND ')})`;
+      return excluded.length === 0 ? positive : `${positive} NOT (${excluded.join(' OR ')})`;
+    }
+  }
+}
+
+/**
+ * The positive words and phrases of a query as plain text, for backends that
+ * cannot evaluate the query language (the vector index). `exact` is false
+ * when the query also has exclusions or field filters the text leaves out.
+ */
+export function plainText(parsed: ParsedQuery): { text: string; exact: boolean } {
+  const words: string[] = [];
+  let exact = parsed.filters.length === 0;
+  const walk = (node: QueryNode): void => {
+    switch (node.kind) {
+      case 'term':
+      case 'phrase':
+        words.push(node.text);
+        break;
+      case 'and':
+      case 'or':
+        node.children.forEach(walk);
+        break;
+      case 'not':
+        exact = false;
+        break;
+    }
+  };
+  if (parsed.text) walk(parsed.text);
+  return { text: words.join(' '), exact };
+}
+
+/**
+ * The part of a query the vector index leaves to SQL: the filters, and every
+ * excluded word or phrase — wherever it sits — as an `exclude` expression, so
+ * a hit containing any of them is dropped. `match` is always null.
+ */
+export function compileSemanticQuery(parsed: ParsedQuery): CompiledQuery {
+  const negs: string[] = [];
+  const walk = (node: QueryNode): void => {
+    if (node.kind === 'not') negs.push(group(node.child));
+    else if (node.kind === 'and' || node.kind === 'or') node.children.forEach(walk);
+  };
+  if (parsed.text) walk(parsed.text);
+
+  return {
+    ...compileQuery({ text: null, filters: parsed.filters }),
+    exclude: negs.length > 0 ? negs.join(' OR ') : null,
+  };
+}
+
+// ─── SQL Filters ──────────────────────────────────────────────────────────────
+
+/**
+ * WHERE conditions for the field filters. `alias` is the row table and must
+ * be joined to sessions as `s`. Observation-only filters are skipped for
+ * other tables — callers drop those tables when `observationOnly` is set.
+ */
+export function filterSql(
+  filters: FieldFilter[],
+  alias: string,
+  isObservation: boolean,
+): SqlClause {
+  const clause: SqlClause = { sql: [], params: [] };
+  for (const f of filters) {
+    if (!isObservation && OBSERVATION_FIELDS.has(f.field)) continue;
+
+    let sql: string;
+    const params: (string | number)[] = [];
+    switch (f.field) {
+      case 'type':
+      case 'tool':
+        sql = `${alias}.${f.field === 'type' ? 'obs_type' : 'tool_name'} IN (${f.values.map(() => '?').join(', ')})`;
+        params.push(...f.values);
+        break;
+      case 'file': {
+        const glob = toGlob(f.value);
+        sql = `EXISTS (SELECT 1 FROM observation_files f
+                       WHERE f.observation_id = ${alias}.id
+                         AND (f.path GLOB ? OR f.path GLOB ?))`;
+        params.push(glob, `*/${glob}`);
+        break;
+      }
+      case 'session':
+        sql = 's.claude_session_id = ?';
+        params.push(f.value);
+        break;
+      case 'after':
+        sql = `${alias}.created_at >= ?`;
+        params.push(f.epoch);
+        break;
+      case 'before':
+        sql = `${alias}.created_at < ?`;
+        params.push(f.epoch);
+        break;
+    }
+    clause.sql.push(f.negated ? `NOT (${sql})` : sql);
+    clause.params.push(...params);
+  }
+  return clause;
+}
+
+/** `*` is the only wildcard; GLOB's ? and [ are matched literally */
+function toGlob(pattern: string): string {
+  return pattern.replace(/[?[]/g, (ch) => `[${ch}]`);
+}
@@ -0,0 +1,201 @@
+/**
+ * Open-Mem Hybrid Ranking
+ *
+ * One ranking function for GET /api/search (mode=hybrid) and the context
+ * builder. Four signals are fused with reciprocal-rank fusion (RRF):
+ *
+ *   bm25      rank in the keyword result list      w / (k + rank)
+ *   semantic  rank in the vector result list       w / (k + rank)
+ *   type      TYPE_PRIORITY, scaled to [0, 1]      w · p / (k + 1)
+ *   recency   exponential decay by age             w · 2^(−age / halfLife) / (k + 1)
+ *
+ * Type and recency are priors rather than result lists, so they are scaled
+ * to at most what a rank-1 hit earns — a weight of 1 makes "newest" or
+ * "most important type" worth as much as "best keyword match".
+ *
+ * The module is pure: callers supply the ranks. SearchService takes them from
+ * FTS5 and the vector index; the context builder, which only sees a handful of
+ * in-memory rows, gets them from textRanks().
+ */
+
+import type { RankingPolicy, RankingSettings } from '../types.js';
+import { embedText, tokenizeForVectors, DEFAULT_MIN_SIMILARITY } from './vectors.ts';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Type priority — higher number = ranked first */
+export const TYPE_PRIORITY: Record<string, number> = {
+  error:     9,
+  bugfix:    8,
+  decision:  7,
+  discovery: 6,
+  change:    5,
+  feature:   4,
+  refactor:  3,
+  config:    2,
+  research:  1,
+  other:     0,
+};
+
+/** Defaults for settings.json → "ranking" */
+export const DEFAULT_RANKING: RankingPolicy = {
+  weights: { bm25: 1, semantic: 1, type: 0.5, recency: 0.5 },
+  halfLifeDays: 30,
+  rrfK: 60,
+  projects: {},
+};
+
+const MAX_TYPE_PRIORITY = Math.max(...Object.values(TYPE_PRIORITY));
+
+/** Okapi BM25 parameters for textRanks() */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const SECONDS_PER_DAY = 86_400;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Per-item input to rankHybrid(); ranks are 1-based, null = not in that list */
+export interface RankSignals {
+  bm25Rank: number | null;
+  semanticRank: number | null;
+  type: string;
+  /** Unix epoch seconds */
+  createdAt: number;
+}
+
+/** Each signal's contribution to `total` (returned by /api/search?debug=1) */
+export interface RankingBreakdown {
+  total: number;
+  bm25: { rank: number | null; score: number };
+  semantic: { rank: number | null; score: number };
+  type: { priority: number; score: number };
+  recency: { age_days: number; decay: number; score: number };
+}
+
+export interface Ranked<T> {
+  item: T;
+  ranking: RankingBreakdown;
+}
+
+// ─── Settings ─────────────────────────────────────────────────────────────────
+
+/** Top-level ranking settings with `project`'s overrides merged in. */
+export function resolveRanking(policy: RankingPolicy, project?: string): RankingSettings {
+  const override = project ? policy.projects[project] : undefined;
+  return {
+    weights: { ...policy.weights, ...override?.weights },
+    halfLifeDays: override?.halfLifeDays ?? policy.halfLifeDays,
+    rrfK: override?.rrfK ?? policy.rrfK,
+  };
+}
+
+// ─── Fusion ───────────────────────────────────────────────────────────────────
+
+/** Score one item. `now` is Unix epoch seconds. */
+export function scoreSignals(
+  signals: RankSignals,
+  settings: RankingSettings,
+  now: number,
+): RankingBreakdown {
+  const { weights, rrfK, halfLifeDays } = settings;
+  const rrf = (rank: number | null) => (rank === null ? 0 : 1 / (rrfK + rank));
+
+  const priority = TYPE_PRIORITY[signals.type] ?? 0;
+  const ageDays = Math.max(0, now - signals.createdAt) / SECONDS_PER_DAY;
+  const decay = Math.pow(2, -ageDays / halfLifeDays);
+
+  const bm25 = weights.bm25 * rrf(signals.bm25Rank);
+  const semantic = weights.semantic * rrf(signals.semanticRank);
+  const type = (weights.type * (priority / MAX_TYPE_PRIORITY)) / (rrfK + 1);
+  const recency = (weights.recency * decay) / (rrfK + 1);
+
+  return {
+    total: bm25 + semantic + type + recency,
+    bm25: { rank: signals.bm25Rank, score: bm25 },
+    semantic: { rank: signals.semanticRank, score: semantic },
+    type: { priority, score: type },
+    recency: { age_days: ageDays, decay, score: recency },
+  };
+}
+
+/**
+ * Order `items` by fused score, best first; ties go to the newer item.
+ * `now` defaults to the current time (Unix epoch seconds).
+ */
+export function rankHybrid<T>(
+  items: T[],
+  signals: (item: T) => RankSignals,
+  settings: RankingSettings,
+  now = Math.floor(Date.now() / 1000),
+): Ranked<T>[] {
+  return items
+    .map((item) => {
+      const s = signals(item);
+      return { item, ranking: scoreSignals(s, settings, now), createdAt: s.createdAt };
+    })
+    .sort((a, b) => b.ranking.total - a.ranking.total || b.createdAt - a.createdAt)
+    .map(({ item, ranking }) => ({ item, ranking }));
+}
+
+// ─── In-Memory Ranks ──────────────────────────────────────────────────────────
+
+/**
+ * BM25 and vector-similarity ranks of `query` over a small set of in-memory
+ * documents (no FTS index needed). Documents that do not match get null.
+ */
+export function textRanks(
+  query: string,
+  docs: string[],
+): { bm25: (number | null)[]; semantic: (number | null)[] } {
+  const terms = [...new Set(tokenizeForVectors(query))];
+  if (terms.length === 0 || docs.length === 0) {
+    return { bm25: docs.map(() => null), semantic: docs.map(() => null) };
+  }
+
+  // BM25
+  const tokenized = docs.map((d) => tokenizeForVectors(d));
+  const avgLength = tokenized.reduce((sum, t) => sum + t.length, 0) / docs.length || 1;
+  const df = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) df.set(term, (df.get(term) ?? 0) + 1);
+  }
+  const bm25 = tokenized.map((tokens) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = tokens.filter((t) => t === term).length;
+      if (tf === 0) continue;
+      const n = df.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+      score += (idf * tf * (BM25_K1 + 1)) /
+        (tf + BM25_K1 * (1 - BM25_B + (BM25_B * tokens.length) / avgLength));
+    }
+    return score;
+  });
+
+  // Cosine similarity (embeddings are unit length)
+  const q = embedText(query);
+  const semantic = docs.map((d) => {
+    const v = embedText(d);
+    let dot = 0;
+    for (let i = 0; i < q.length; i++) dot += q[i] * v[i];
+    return dot >= DEFAULT_MIN_SIMILARITY ? dot : 0;
+  });
+
+  return { bm25: toRanks(bm25), semantic: toRanks(semantic) };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** 1-based rank by descending score; non-positive scores are unranked */
+function toRanks(scores: number[]): (number | null)[] {
+  const ranks: (number | null)[] = scores.map(() => null);
+  scores
+    .map((score, index) => ({ score, index }))
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .forEach((s, i) => {
+      ranks[s.index] = i + 1;
+    });
+  return ranks;
+}
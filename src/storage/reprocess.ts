@@ -0,0 +1,393 @@
+/**
+ * Open-Mem Reprocessing
+ *
+ * Every observation records the compression prompt version and model that
+ * produced it. When the prompt improves, a reprocess run feeds the stored
+ * (scrubbed) raw_input of older observations back through the compressor:
+ *
+ *   start()   — pick observations with a prompt_version below `before`
+ *               (rule-based ones have none, so every run picks them up);
+ *               rows without raw_input cannot be re-compressed and are skipped
+ *   stage()   — hold each new compression in reprocess_results; the live
+ *               observation keeps its old version
+ *   confirm() — apply the staged compressions (old values go to the audit log);
+ *               a failed run can still apply what it staged
+ *   discard() — drop them
+ *
+ * A staged result remembers a fingerprint of the observation; one edited
+ * after staging is left alone on confirm and counted as a conflict.
+ */
+
+import { createHash } from 'crypto';
+import type { Database } from 'bun:sqlite';
+import { signObservation } from './db.ts';
+import { scrubJson, scrubSecrets } from './secrets.ts';
+import { VectorIndex } from './vectors.ts';
+import type { CompressedObservation, RawObservation } from '../types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const REPROCESS_ACTOR = 'reprocess';
+
+const DEFAULT_PREVIEW_LIMIT = 20;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ReprocessStatus = 'running' | 'ready' | 'confirmed' | 'discarded' | 'failed';
+
+export interface ReprocessRun {
+  id: number;
+  /** null = all projects */
+  project: string | null;
+  /** Observations with an older (or no) prompt version were selected */
+  before_version: string;
+  /** Prompt version the new compressions are made with */
+  prompt_version: string;
+  status: ReprocessStatus;
+  total: number;
+  processed: number;
+  failed: number;
+  /** Matching observations without raw_input, or gone before their turn */
+  skipped: number;
+  error: string | null;
+  created_at: number;
+  finished_at: number | null;
+}
+
+/** One observation queued for re-compression */
+export interface ReprocessCandidate {
+  observation_id: number;
+  raw: RawObservation;
+}
+
+/** A staged compression next to the live one */
+export interface ReprocessPreview {
+  observation_id: number;
+  old_title: string | null;
+  new_title: string;
+  old_type: string;
+  new_type: string;
+  old_model: string | null;
+  new_model: string | null;
+}
+
+export interface ReprocessConfirmReport {
+  applied: number;
+  /** Edited or trashed since staging — left unchanged */
+  conflicts: number;
+}
+
+/** The observation columns an edit can change */
+interface FingerprintedFields {
+  title: string | null;
+  narrative: string | null;
+  obs_type: string;
+  compressed: string;
+}
+
+// ─── Reprocess Service ────────────────────────────────────────────────────────
+
+export class ReprocessService {
+  private readonly _db: Database;
+
+  constructor(db: Database) {
+    this._db = db;
+  }
+
+  /**
+   * Create a run over the matching observations of `project` (all when
+   * undefined). Returns the run and the observation ids to re-compress.
+   */
+  start(
+    project: string | undefined,
+    beforeVersion: string,
+    promptVersion: string,
+  ): { run: ReprocessRun; observationIds: number[] } {
+    const where = [
+      'o.deleted_at IS NULL',
+      '(o.prompt_version IS NULL OR CAST(o.prompt_version AS INTEGER) < ?)',
+    ];
+    const params: (string | number)[] = [Number(beforeVersion)];
+    if (project) {
+      where.push('s.project = ?');
+      params.push(project);
+    }
+
+    return this._db.transaction(() => {
+      const rows = this._db
+        .query<{ id: number; has_raw: number }, (string | number)[]>(
+          `SELECT o.id, o.raw_input IS NOT NULL AS has_raw
+           FROM observations o
+           JOIN sessions s ON s.id = o.session_id
+           WHERE ${where.join(' AND ')}
+           ORDER BY o.id`,
+        )
+        .all(...params);
+      const observationIds = rows.filter((r) => r.has_raw).map((r) => r.id);
+
+      const result = this._db
+        .query(
+          `INSERT INTO reprocess_runs (project, before_version, prompt_version, total, skipped)
+           VALUES (?, ?, ?, ?, ?)`,
+        )
+        .run(project ?? null, beforeVersion, promptVersion, observationIds.length, rows.length - observationIds.length);
+      const run = this.get(Number(result.lastInsertRowid));
+      if (!run) throw new Error('reprocess run vanished after insert');
+      return { run, observationIds };
+    })();
+  }
+
+  get(id: number): ReprocessRun | null {
+    return this._db
+      .query<ReprocessRun, [number]>('SELECT * FROM reprocess_runs WHERE id = ?')
+      .get(id) ?? null;
+  }
+
+  /** Most recent runs first */
+  list(limit = 20): ReprocessRun[] {
+    return this._db
+      .query<ReprocessRun, [number]>('SELECT * FROM reprocess_runs ORDER BY id DESC LIMIT ?')
+      .all(limit);
+  }
+
+  /** The run still re-compressing, if any (one at a time) */
+  active(): ReprocessRun | null {
+    return this._db
+      .query<ReprocessRun, []>("SELECT * FROM reprocess_runs WHERE status = 'running' ORDER BY id LIMIT 1")
+      .get() ?? null;
+  }
+
+  /**
+   * The compressor input stored with an observation, or null if it was
+   * trashed or purged since the run started.
+   */
+  candidate(observationId: number): ReprocessCandidate | null {
+    const row = this._db
+      .query<{ raw_input: string | null; tool_name: string; prompt_number: number; project: string }, [number]>(
+        `SELECT o.raw_input, o.tool_name, o.prompt_number, s.project
+         FROM observations o
+         JOIN sessions s ON s.id = o.session_id
+         WHERE o.id = ? AND o.deleted_at IS NULL`,
+      )
+      .get(observationId);
+    if (!row || row.raw_input === null) return null;
+
+    const { tool_input, tool_response } = parseRawInput(row.raw_input);
+    return {
+      observation_id: observationId,
+      raw: {
+        tool_name: row.tool_name,
+        tool_input,
+        tool_response,
+        project: row.project,
+        prompt_number: row.prompt_number,
+        user_goal: '',
+      },
+    };
+  }
+
+  /** Hold a new compression of `observationId` until the run is confirmed (no-op once it stopped running). */
+  stage(runId: number, observationId: number, compressed: CompressedObservation, model: string | null): void {
+    this._db.transaction(() => {
+      if (this.get(runId)?.status !== 'running') return;
+      const current = this._db
+        .query<FingerprintedFields, [number]>(
+          'SELECT title, narrative, obs_type, compressed FROM observations WHERE id = ?',
+        )
+        .get(observationId);
+      if (!current) return;
+      this._db
+        .query(
+          `INSERT OR REPLACE INTO reprocess_results (run_id, observation_id, compressed, model, based_on)
+           VALUES (?, ?, ?, ?, ?)`,
+        )
+        .run(runId, observationId, JSON.stringify(scrubJson(compressed)), model, fingerprint(current));
+      this._count(runId, 'processed');
+    })();
+  }
+
+  recordFailure(runId: number): void {
+    this._count(runId, 'failed');
+  }
+
+  recordSkip(runId: number): void {
+    this._count(runId, 'skipped');
+  }
+
+  /** End a running run: 'ready' for review, or 'failed' with `error`. */
+  finish(runId: number, error?: string): ReprocessRun | null {
+    this._db
+      .query(
+        `UPDATE reprocess_runs SET status = ?, error = ?, finished_at = unixepoch()
+         WHERE id = ? AND status = 'running'`,
+      )
+      .run(error ? 'failed' : 'ready', error ?? null, runId);
+    return this.get(runId);
+  }
+
+  /** Runs left 'running' by a worker that stopped mid-run. Returns runs failed. */
+  failInterrupted(): number {
+    return this._db
+      .query(
+        `UPDATE reprocess_runs SET status = 'failed', error = 'interrupted by a worker restart',
+                                   finished_at = unixepoch()
+         WHERE status = 'running'`,
+      )
+      .run().changes;
+  }
+
+  /** Staged compressions next to the live observations, oldest observation first. */
+  preview(runId: number, limit = DEFAULT_PREVIEW_LIMIT): ReprocessPreview[] {
+    return this._db
+      .query<ReprocessPreview, [number, number]>(
+        `SELECT r.observation_id,
+                o.title                             AS old_title,
+                json_extract(r.compressed, '$.title') AS new_title,
+                o.obs_type                          AS old_type,
+                json_extract(r.compressed, '$.type')  AS new_type,
+                o.model                             AS old_model,
+                r.model                             AS new_model
+         FROM reprocess_results r
+         JOIN observations o ON o.id = r.observation_id
+         WHERE r.run_id = ?
+         ORDER BY r.observation_id
+         LIMIT ?`,
+      )
+      .all(runId, limit);
+  }
+
+  /**
+   * Replace the live observations with a run's compressions. Each replaced
+   * observation gets an audit entry with its old values. Returns null unless
+   * the run is ready — or failed, applying what it staged before failing.
+   */
+  confirm(runId: number): ReprocessConfirmReport | null {
+    return this._db.transaction(() => {
+      const run = this.get(runId);
+      if (!run || (run.status !== 'ready' && run.status !== 'failed')) return null;
+
+      const staged = this._db
+        .query<
+          FingerprintedFields & {
+            observation_id: number;
+            staged: string;
+            model: string | null;
+            based_on: string | null;
+            deleted_at: number | null;
+          },
+          [number]
+        >(
+          `SELECT r.observation_id, r.compressed AS staged, r.model, r.based_on,
+                  o.deleted_at, o.title, o.narrative, o.obs_type, o.compressed
+           FROM reprocess_results r
+           JOIN observations o ON o.id = r.observation_id
+           WHERE r.run_id = ?`,
+        )
+        .all(runId);
+
+      const report: ReprocessConfirmReport = { applied: 0, conflicts: 0 };
+      for (const row of staged) {
+        if (row.deleted_at !== null || fingerprint(row) !== row.based_on) {
+          report.conflicts++;
+          continue;
+        }
+        const next = JSON.parse(row.staged) as CompressedObservation;
+        const title = scrubSecrets(next.title);
+        const narrative = scrubSecrets(next.narrative);
+        const compressed = JSON.stringify({
+          type: next.type,
+          tags: next.tags,
+          facts: next.facts,
+          files_read: next.files_read,
+          files_modified: next.files_modified,
+          narrative,
+        });
+
+        this._db
+          .query(
+            `UPDATE observations
+             SET title = ?, narrative = ?, obs_type = ?, compressed = ?, hmac = ?,
+                 prompt_version = ?, model = ?
+             WHERE id = ?`,
+          )
+          .run(
+            title,
+            narrative,
+            next.type,
+            compressed,
+            signObservation(compressed, narrative),
+            run.prompt_version,
+            row.model,
+            row.observation_id,
+          );
+        new VectorIndex(this._db).upsert(row.observation_id, { title, narrative, compressed });
+        this._db
+          .query(
+            `INSERT INTO observation_audit (observation_id, action, actor, changes)
+             VALUES (?, 'update', ?, ?)`,
+          )
+          .run(
+            row.observation_id,
+            REPROCESS_ACTOR,
+            JSON.stringify({
+              title: { from: row.title, to: title },
+              narrative: { from: row.narrative, to: narrative },
+              obs_type: { from: row.obs_type, to: next.type },
+            }),
+          );
+        report.applied++;
+      }
+
+      this._db.query('DELETE FROM reprocess_results WHERE run_id = ?').run(runId);
+      this._db.query("UPDATE reprocess_runs SET status = 'confirmed' WHERE id = ?").run(runId);
+      return report;
+    })();
+  }
+
+  /**
+   * Drop a run's staged compressions; a running run stops after its current
+   * item. Returns the number dropped, or null if the run was already
+   * confirmed or discarded.
+   */
+  discard(runId: number): number | null {
+    return this._db.transaction(() => {
+      const run = this.get(runId);
+      if (!run || run.status === 'confirmed' || run.status === 'discarded') return null;
+      const dropped = this._db.query('DELETE FROM reprocess_results WHERE run_id = ?').run(runId).changes;
+      this._db
+        .query(
+          `UPDATE reprocess_runs SET status = 'discarded', finished_at = COALESCE(finished_at, unixepoch())
+           WHERE id = ?`,
+        )
+        .run(runId);
+      return dropped;
+    })();
+  }
+
+  private _count(runId: number, column: 'processed' | 'failed' | 'skipped'): void {
+    this._db.query(`UPDATE reprocess_runs SET ${column} = ${column} + 1 WHERE id = ?`).run(runId);
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Changes with any edit of an observation (the HMAC does not cover the title) */
+function fingerprint(row: FingerprintedFields): string {
+  return createHash('sha256')
+    .update(JSON.stringify([row.title, row.narrative, row.obs_type, row.compressed]))
+    .digest('hex');
+}
+
+/** raw_input as written by the worker ({ tool_input, tool_response }), else plain text */
+function parseRawInput(rawInput: string): { tool_input: unknown; tool_response: string } {
+  try {
+    const parsed: unknown = JSON.parse(rawInput);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      const { tool_input, tool_response } = parsed as Record<string, unknown>;
+      if (typeof tool_response === 'string') return { tool_input: tool_input ?? {}, tool_response };
+    }
+  } catch {
+    // not JSON — imported or legacy rows
+  }
+  return { tool_input: {}, tool_response: rawInput };
+}
@@ -0,0 +1,321 @@
+/**
+ * Open-Mem Retention Service
+ *
+ * Applies the settings.json retention policy to the database:
+ *   - observations older than a per-obs_type age limit ("*" = any other type)
+ *   - observations beyond a per-project row cap (newest rows are kept)
+ *   - summaries older than an age limit
+ *   - processed / failed queue rows older than their purge windows
+ *
+ * preview() computes exactly what purge() would delete without touching data.
+ *
+ * Consistency:
+ *  - Observations are removed with plain DELETEs so the obs_ad trigger keeps
+ *    obs_fts in sync — no separate FTS bookkeeping is needed here.
+ *  - QMD export files for purged observations are removed after the
+ *    transaction commits (file system work never runs inside a transaction).
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { RetentionPolicy } from '../types.js';
+import type { SearchService } from './search.ts';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const DAY_SECONDS = 86_400;
+
+/** Max observation ids listed in a report — counts are always exact */
+const REPORT_ID_LIMIT = 200;
+
+/** Ids per DELETE … WHERE id IN (…) statement */
+const DELETE_CHUNK = 500;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface RetentionReport {
+  dryRun: boolean;
+  project: string | null;
+  observations: {
+    byAge: number;
+    byProjectCap: number;
+    total: number;
+    /** First REPORT_ID_LIMIT affected ids, ascending */
+    ids: number[];
+  };
+  summaries: number;
+  queue: { processed: number; failed: number };
+  qmdFilesRemoved: number;
+  ranAt: number; // Unix epoch seconds
+}
+
+/** The slice of SearchService the retention job needs (injectable for tests) */
+export type QmdCleaner = Pick<SearchService, 'removeFromQMD'>;
+
+interface Candidates {
+  /** observation id → project */
+  byAge: Map<number, string>;
+  byProjectCap: Map<number, string>;
+  summaryCutoff: number | null;
+  processedCutoff: number | null;
+  failedCutoff: number | null;
+}
+
+// ─── Retention Service ────────────────────────────────────────────────────────
+
+export class RetentionService {
+  private readonly _db: Database;
+  private readonly _qmd: QmdCleaner | null;
+
+  constructor(db: Database, qmd?: QmdCleaner) {
+    this._db = db;
+    this._qmd = qmd ?? null;
+  }
+
+  /** Dry run: report what purge() would delete. Never writes. */
+  preview(policy: RetentionPolicy, project?: string): RetentionReport {
+    const now = Math.floor(Date.now() / 1000);
+    const candidates = this._collect(policy, now, project);
+
+    return this._report(candidates, project, now, true, {
+      summaries: this._countSummaries(candidates.summaryCutoff, project),
+      processed: this._countQueue('processed', candidates.processedCutoff, project),
+      failed: this._countQueue('failed', candidates.failedCutoff, project),
+    });
+  }
+
+  /**
+   * Delete everything the policy selects in a single transaction, then
+   * remove the matching QMD export files.
+   */
+  purge(policy: RetentionPolicy, project?: string): RetentionReport {
+    const now = Math.floor(Date.now() / 1000);
+    const candidates = this._collect(policy, now, project);
+    const obsIds = [...candidates.byAge.keys(), ...candidates.byProjectCap.keys()];
+
+    const counts = this._db.transaction(() => {
+      for (let i = 0; i < obsIds.length; i += DELETE_CHUNK) {
+        const chunk = obsIds.slice(i, i + DELETE_CHUNK);
+        this._db
+          .query(`DELETE FROM observations WHERE id IN (${chunk.map(() => '?').join(', ')})`)
+          .run(...chunk);
+      }
+      return {
+        summaries: this._deleteSummaries(candidates.summaryCutoff, project),
+        processed: this._deleteQueue('processed', candidates.processedCutoff, project),
+        failed: this._deleteQueue('failed', candidates.failedCutoff, project),
+      };
+    })();
+
+    const report = this._report(candidates, project, now, false, counts);
+
+    if (this._qmd) {
+      const byProject = new Map<string, number[]>();
+      for (const map of [candidates.byAge, candidates.byProjectCap]) {
+        for (const [id, proj] of map) {
+          const ids = byProject.get(proj) ?? [];
+          ids.push(id);
+          byProject.set(proj, ids);
+        }
+      }
+      for (const [proj, ids] of byProject) {
+        report.qmdFilesRemoved += this._qmd.removeFromQMD(proj, ids);
+      }
+    }
+
+    return report;
+  }
+
+  // ─── Candidate Selection ──────────────────────────────────────────────────
+
+  private _collect(policy: RetentionPolicy, now: number, project?: string): Candidates {
+    const cutoff = (days: number | null) => (days === null ? null : now - days * DAY_SECONDS);
+
+    const byAge = new Map<number, string>();
+    const explicitTypes = Object.keys(policy.observationMaxAgeDays).filter((t) => t !== '*');
+
+    for (const [type, days] of Object.entries(policy.observationMaxAgeDays)) {
+      const params: (string | number)[] = [now - days * DAY_SECONDS];
+      let typeClause: string;
+      if (type === '*') {
+        typeClause = explicitTypes.length
+          ? `AND o.obs_type NOT IN (${explicitTypes.map(() => '?').join(', ')})`
+          : '';
+        params.push(...explicitTypes);
+      } else {
+        typeClause = 'AND o.obs_type = ?';
+        params.push(type);
+      }
+      if (project) params.push(project);
+
+      const rows = this._db
+        .query<{ id: number; project: string }, (string | number)[]>(
+          `SELECT o.id, s.project
+           FROM observations o
+           JOIN sessions s ON s.id = o.session_id
+           WHERE o.created_at < ?
+             ${typeClause}
+             ${project ? 'AND s.project = ?' : ''}`,
+        )
+        .all(...params);
+      for (const row of rows) byAge.set(row.id, row.project);
+    }
+
+    // Row cap is applied to what survives the age rules, newest first.
+    const byProjectCap = new Map<number, string>();
+    const cap = policy.maxObservationsPerProject;
+    if (cap !== null) {
+      const rows = project
+        ? this._db
+            .query<{ id: number; project: string }, [string]>(
+              `SELECT o.id, s.project
+               FROM observations o
+               JOIN sessions s ON s.id = o.session_id
+               WHERE s.project = ?
+               ORDER BY o.created_at DESC, o.id DESC`,
+            )
+            .all(project)
+        : this._db
+            .query<{ id: number; project: string }, []>(
+              `SELECT o.id, s.project
+               FROM observations o
+               JOIN sessions s ON s.id = o.session_id
+               ORDER BY s.project, o.created_at DESC, o.id DESC`,
+            )
+            .all();
+
+      const kept = new Map<string, number>();
+      for (const row of rows) {
+        if (byAge.has(row.id)) continue;
+        const n = (kept.get(row.project) ?? 0) + 1;
+        kept.set(row.project, n);
+        if (n > cap) byProjectCap.set(row.id, row.project);
+      }
+    }
+
+    return {
+      byAge,
+      byProjectCap,
+      summaryCutoff: cutoff(policy.summaryMaxAgeDays),
+      processedCutoff: cutoff(policy.processedQueueMaxAgeDays),
+      failedCutoff: cutoff(policy.failedQueueMaxAgeDays),
+    };
+  }
+
+  // ─── Summaries ────────────────────────────────────────────────────────────
+
+  private _countSummaries(cutoff: number | null, project?: string): number {
+    if (cutoff === null) return 0;
+    const row = project
+      ? this._db
+          .query<{ n: number }, [number, string]>(
+            `SELECT COUNT(*) AS n FROM summaries
+             WHERE created_at < ?
+               AND session_id IN (SELECT id FROM sessions WHERE project = ?)`,
+          )
+          .get(cutoff, project)
+      : this._db
+          .query<{ n: number }, [number]>('SELECT COUNT(*) AS n FROM summaries WHERE created_at < ?')
+          .get(cutoff);
+    return row?.n ?? 0;
+  }
+
+  private _deleteSummaries(cutoff: number | null, project?: string): number {
+    if (cutoff === null) return 0;
+    // Counted up front: the changes count would include summaries_fts trigger writes
+    const count = this._countSummaries(cutoff, project);
+    if (project) {
+      this._db
+        .query(
+          `DELETE FROM summaries
+           WHERE created_at < ?
+             AND session_id IN (SELECT id FROM sessions WHERE project = ?)`,
+        )
+        .run(cutoff, project);
+    } else {
+      this._db.query('DELETE FROM summaries WHERE created_at < ?').run(cutoff);
+    }
+    return count;
+  }
+
+  // ─── Queue ────────────────────────────────────────────────────────────────
+
+  /** Queue rows age from completion; rows without completed_at fall back to created_at */
+  private _countQueue(
+    status: 'processed' | 'failed',
+    cutoff: number | null,
+    project?: string,
+  ): number {
+    if (cutoff === null) return 0;
+    const row = project
+      ? this._db
+          .query<{ n: number }, [string, number, string]>(
+            `SELECT COUNT(*) AS n FROM queue
+             WHERE status = ?
+               AND COALESCE(completed_at, created_at) < ?
+               AND session_id IN (SELECT id FROM sessions WHERE project = ?)`,
+          )
+          .get(status, cutoff, project)
+      : this._db
+          .query<{ n: number }, [string, number]>(
+            `SELECT COUNT(*) AS n FROM queue
+             WHERE status = ?
+               AND COALESCE(completed_at, created_at) < ?`,
+          )
+          .get(status, cutoff);
+    return row?.n ?? 0;
+  }
+
+  private _deleteQueue(
+    status: 'processed' | 'failed',
+    cutoff: number | null,
+    project?: string,
+  ): number {
+    if (cutoff === null) return 0;
+    const result = project
+      ? this._db
+          .query(
+            `DELETE FROM queue
+             WHERE status = ?
+               AND COALESCE(completed_at, created_at) < ?
+               AND session_id IN (SELECT id FROM sessions WHERE project = ?)`,
+          )
+          .run(status, cutoff, project)
+      : this._db
+          .query(
+            `DELETE FROM queue
+             WHERE status = ?
+               AND COALESCE(completed_at, created_at) < ?`,
+          )
+          .run(status, cutoff);
+    return result.changes;
+  }
+
+  // ─── Reporting ────────────────────────────────────────────────────────────
+
+  private _report(
+    candidates: Candidates,
+    project: string | undefined,
+    now: number,
+    dryRun: boolean,
+    counts: { summaries: number; processed: number; failed: number },
+  ): RetentionReport {
+    const ids = [...candidates.byAge.keys(), ...candidates.byProjectCap.keys()]
+      .sort((a, b) => a - b)
+      .slice(0, REPORT_ID_LIMIT);
+
+    return {
+      dryRun,
+      project: project ?? null,
+      observations: {
+        byAge: candidates.byAge.size,
+        byProjectCap: candidates.byProjectCap.size,
+        total: candidates.byAge.size + candidates.byProjectCap.size,
+        ids,
+      },
+      summaries: counts.summaries,
+      queue: { processed: counts.processed, failed: counts.failed },
+      qmdFilesRemoved: 0,
+      ranAt: now,
+    };
+  }
+}
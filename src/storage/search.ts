@@ -7,27 +7,174 @@
  *   Layer 2 — getTimeline()    → chronological context window
  *   Layer 3 — getByIds()       → full observation details on demand
  *
- * Phase 1: FTS5 keyword search (no external deps)
- * Phase 2: QMD semantic search (via shell-out to qmd CLI)
+ * searchIndexPage() and timelinePage() are the keyset-paged forms served over
+ * HTTP (GET /api/search/index, GET /api/timeline/:id).
+ *
+ * Phase 1: FTS5 keyword search (no external deps) over observations
+ *          (obs_fts), session summaries (summaries_fts) and prompts (prompts_fts)
+ * Code:    trigram substring search over observations (obs_trigram) for
+ *          identifiers and paths, plus "did you mean" from obs_words_vocab
+ * Phase 2: semantic search — built-in hashed vectors (vectors.ts, offline),
+ *          or QMD via shell-out to the qmd CLI when installed
+ * Hybrid:  both fused with type priority and recency (ranking.ts)
  *
  * Security requirements:
- *  - FTS5 queries are escaped via escapeFTS5Query() before use
+ *  - FTS5 queries are escaped via escapeFTS5Query() before use; searchScoped()
+ *    compiles the query language in query-parser.ts, which quotes every term
  *  - Project names for QMD export are validated against /^[a-zA-Z0-9_-]+$/
  *  - Shell arguments are never interpolated; argv arrays are used throughout
  *  - Export directory traversal is prevented by the project name validation
+ *
+ * Soft-deleted observations (deleted_at IS NOT NULL) are excluded from every read.
  */
 
-import { mkdirSync, writeFileSync } from 'fs';
+import { existsSync, mkdirSync, readdirSync, unlinkSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 import { spawnSync } from 'child_process';
 import type { Database } from 'bun:sqlite';
-import type { Observation, IndexResult } from './types.ts';
+import type {
+  Observation,
+  IndexResult,
+  Summary,
+  UserPrompt,
+  SearchScope,
+  ScopedSearchResult,
+  HybridSearchResult,
+  CompactSearchResult,
+  SearchHighlight,
+  ColumnMatch,
+  SearchFacets,
+  SessionTimelineEntry,
+} from './types.ts';
+import type { RankingSettings } from '../types.js';
+import {
+  compileQuery,
+  compileSemanticQuery,
+  compileTrigramQuery,
+  filterSql,
+  parseQuery,
+  plainText,
+} from './query-parser.ts';
+import type { CompiledQuery, QueryNode } from './query-parser.ts';
+import { VectorIndex } from './vectors.ts';
+import { rankHybrid } from './ranking.ts';
+import { editDistance } from './identifiers.ts';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const QMD_EXPORT_ROOT = join(homedir(), '.open-mem', 'qmd-export');
 
+/** FTS index, content table and indexed columns behind each kind of scoped search result */
+const SCOPED_TABLES = {
+  observation: {
+    fts: 'obs_fts',
+    table: 'observations',
+    columns: ['title', 'narrative', 'compressed', 'tool_name'],
+  },
+  summary: {
+    fts: 'summaries_fts',
+    table: 'summaries',
+    columns: ['request', 'investigated', 'learned', 'completed', 'next_steps'],
+  },
+  prompt: { fts: 'prompts_fts', table: 'user_prompts', columns: ['prompt'] },
+} as const;
+
+/** Trigram index over the observation columns (migration v8) */
+const CODE_FTS = 'obs_trigram';
+
+/** Trigram snippet() tokens are roughly one character each */
+const CODE_SNIPPET_SCALE = 4;
+
+/** Query words shorter than this get no spelling suggestions */
+const SUGGEST_MIN_CHARS = 3;
+
+/** Private-use markers for locating matches in highlight() output */
+const MATCH_OPEN = '\u0002';
+const MATCH_CLOSE = '\u0003';
+
+/** FTS5 caps snippet() at 64 tokens */
+const MAX_SNIPPET_TOKENS = 64;
+
+/** Markers and length for snippet() excerpts */
+export interface HighlightOptions {
+  start: string;
+  end: string;
+  ellipsis: string;
+  /** Excerpt length in tokens (1–64) */
+  tokens: number;
+}
+
+export const DEFAULT_HIGHLIGHT: HighlightOptions = {
+  start: '**',
+  end: '**',
+  ellipsis: '…',
+  tokens: 16,
+};
+
+const NO_HIGHLIGHT: SearchHighlight = { snippet: null, matches: [] };
+
+/** Thrown when a paging cursor is malformed or was issued by another endpoint */
+export class CursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+// ─── Paging Types ─────────────────────────────────────────────────────────────
+
+export interface IndexPageOptions {
+  project?: string;
+  limit?: number;
+  /** `next_cursor` from the previous page */
+  cursor?: string;
+}
+
+export interface IndexPage {
+  results: (IndexResult & { score: number })[];
+  next_cursor: string | null;
+}
+
+export interface TimelineOptions {
+  /** Observations on each side of the anchor, or per page when paging */
+  window?: number;
+  /** Follow the project's other sessions instead of stopping at the anchor's */
+  crossSessions?: boolean;
+  /** `before_cursor` / `after_cursor` from a previous response */
+  cursor?: string;
+}
+
+export interface TimelinePage {
+  observations: Observation[];
+  /** Continue to older observations; null at the start */
+  before_cursor: string | null;
+  /** Continue to newer observations; null at the end */
+  after_cursor: string | null;
+}
+
+export interface SessionTimelinePage {
+  entries: SessionTimelineEntry[];
+  next_cursor: string | null;
+}
+
+/** "Did you mean" for a query with words missing from the index vocabulary */
+export interface SpellingSuggestion {
+  /** The query with every correction applied */
+  query: string;
+  corrections: { term: string; suggestion: string }[];
+}
+
+/** Candidates pulled from each backend per requested hybrid result */
+const HYBRID_POOL_FACTOR = 3;
+const HYBRID_MIN_POOL = 50;
+
+/** Tie-break order when prompts, observations and summaries share a timestamp */
+const SESSION_TIMELINE_ORDER = { prompt: 0, observation: 1, summary: 2 } as const;
+
+/** Values returned per facet */
+const DEFAULT_FACET_LIMIT = 10;
+
 /** Safe project name — no path traversal, no shell injection */
 const SAFE_PROJECT_RE = /^[a-zA-Z0-9_-]+$/;
 
@@ -74,6 +221,7 @@ export class SearchService {
          JOIN sessions s     ON s.id = o.session_id
          WHERE obs_fts MATCH ?
            AND s.project = ?
+           AND o.deleted_at IS NULL
          ORDER BY rank
          LIMIT ?`,
       ).all(safeQuery, project, limit);
@@ -84,6 +232,7 @@ export class SearchService {
        FROM obs_fts
        JOIN observations o ON o.id = obs_fts.rowid
        WHERE obs_fts MATCH ?
+         AND o.deleted_at IS NULL
        ORDER BY rank
        LIMIT ?`,
     ).all(safeQuery, limit);
@@ -100,6 +249,7 @@ export class SearchService {
          JOIN sessions s ON s.id = o.session_id
          WHERE o.obs_type = ?
            AND s.project = ?
+           AND o.deleted_at IS NULL
          ORDER BY o.created_at DESC
          LIMIT ?`,
       ).all(type, project, limit);
@@ -109,6 +259,7 @@ export class SearchService {
       `SELECT o.*
        FROM observations o
        WHERE o.obs_type = ?
+         AND o.deleted_at IS NULL
        ORDER BY o.created_at DESC
        LIMIT ?`,
     ).all(type, limit);
@@ -127,6 +278,7 @@ export class SearchService {
          WHERE o.created_at >= ?
            AND o.created_at <= ?
            AND s.project = ?
+           AND o.deleted_at IS NULL
          ORDER BY o.created_at ASC`,
       ).all(from, to, project);
     }
@@ -136,6 +288,7 @@ export class SearchService {
        FROM observations o
        WHERE o.created_at >= ?
          AND o.created_at <= ?
+         AND o.deleted_at IS NULL
        ORDER BY o.created_at ASC`,
     ).all(from, to);
   }
@@ -147,7 +300,7 @@ export class SearchService {
    */
   getTimeline(observationId: number, windowSize = 5): Observation[] {
     const anchor = this._db.query<{ session_id: number; created_at: number }, [number]>(
-      'SELECT session_id, created_at FROM observations WHERE id = ?',
+      'SELECT session_id, created_at FROM observations WHERE id = ? AND deleted_at IS NULL',
     ).get(observationId);
 
     if (!anchor) return [];
@@ -157,6 +310,7 @@ export class SearchService {
        WHERE session_id = ?
          AND created_at <= ?
          AND id != ?
+         AND deleted_at IS NULL
        ORDER BY created_at DESC
        LIMIT ?`,
     ).all(anchor.session_id, anchor.created_at, observationId, windowSize);
@@ -166,13 +320,14 @@ export class SearchService {
        WHERE session_id = ?
          AND created_at >= ?
          AND id != ?
+         AND deleted_at IS NULL
        ORDER BY created_at ASC
        LIMIT ?`,
     ).all(anchor.session_id, anchor.created_at, observationId, windowSize);
 
     // Anchor itself
     const anchorRow = this._db.query<Observation, [number]>(
-      'SELECT * FROM observations WHERE id = ?',
+      'SELECT * FROM observations WHERE id = ? AND deleted_at IS NULL',
     ).get(observationId);
 
     // Combine: before (reversed to chronological) + anchor + after
@@ -185,6 +340,123 @@ export class SearchService {
     return combined;
   }
 
+  /**
+   * Layer 2 with keyset paging. Without a cursor: `window` observations either
+   * side of the anchor (oldest → newest). With one: the next `window` in the
+   * cursor's direction. Ordering is (created_at, id), so equal timestamps never
+   * repeat or skip a row. Returns null when the anchor does not exist.
+   *
+   * @throws CursorError on a malformed cursor
+   */
+  timelinePage(observationId: number, options: TimelineOptions = {}): TimelinePage | null {
+    const anchor = this._db.query<Observation & { project: string }, [number]>(
+      `SELECT o.*, s.project
+       FROM observations o
+       JOIN sessions s ON s.id = o.session_id
+       WHERE o.id = ? AND o.deleted_at IS NULL`,
+    ).get(observationId);
+    if (!anchor) return null;
+
+    const window = options.window ?? 5;
+    const scope = options.crossSessions
+      ? { sql: 's.project = ?', param: anchor.project as string | number }
+      : { sql: 'o.session_id = ?', param: anchor.session_id as string | number };
+
+    // dir = -1: strictly older than (createdAt, id), newest first; dir = 1: strictly newer
+    const step = (dir: number, createdAt: number, id: number, limit: number): Observation[] =>
+      this._db.query<Observation, (string | number)[]>(
+        `SELECT o.*
+         FROM observations o
+         JOIN sessions s ON s.id = o.session_id
+         WHERE ${scope.sql}
+           AND o.deleted_at IS NULL
+           AND (o.created_at, o.id) ${dir < 0 ? '<' : '>'} (?, ?)
+         ORDER BY o.created_at ${dir < 0 ? 'DESC' : 'ASC'}, o.id ${dir < 0 ? 'DESC' : 'ASC'}
+         LIMIT ?`,
+      ).all(scope.param, createdAt, id, limit);
+
+    let observations: Observation[];
+    if (options.cursor) {
+      const [dir, createdAt, id] = decodeCursor(options.cursor, 3);
+      if (dir !== -1 && dir !== 1) throw new CursorError();
+      const page = step(dir, createdAt, id, window);
+      observations = dir < 0 ? page.reverse() : page;
+    } else {
+      const { project: _project, ...row } = anchor;
+      observations = [
+        ...step(-1, anchor.created_at, anchor.id, window).reverse(),
+        row,
+        ...step(1, anchor.created_at, anchor.id, window),
+      ];
+    }
+
+    const first = observations[0];
+    const last = observations[observations.length - 1];
+    return {
+      observations,
+      before_cursor:
+        first && step(-1, first.created_at, first.id, 1).length > 0
+          ? encodeCursor([-1, first.created_at, first.id])
+          : null,
+      after_cursor:
+        last && step(1, last.created_at, last.id, 1).length > 0
+          ? encodeCursor([1, last.created_at, last.id])
+          : null,
+    };
+  }
+
+  /**
+   * Everything recorded in one session — user prompts, observations and
+   * summaries — interleaved oldest first, `limit` entries per page.
+   *
+   * @throws CursorError on a malformed cursor
+   */
+  sessionTimeline(
+    sessionId: number,
+    options: { limit?: number; cursor?: string } = {},
+  ): SessionTimelinePage {
+    const limit = options.limit ?? 50;
+    const after = options.cursor ? decodeCursor(options.cursor, 3) : null;
+
+    const rowsOf = <T>(kind: SessionTimelineEntry['kind'], table: string, extra = ''): T[] => {
+      const params: number[] = [sessionId];
+      let keyset = '';
+      if (after) {
+        keyset = `AND (created_at, ${SESSION_TIMELINE_ORDER[kind]}, id) > (?, ?, ?)`;
+        params.push(...after);
+      }
+      params.push(limit + 1);
+      return this._db.query<T, number[]>(
+        `SELECT * FROM ${table}
+         WHERE session_id = ? ${extra} ${keyset}
+         ORDER BY created_at, id
+         LIMIT ?`,
+      ).all(...params);
+    };
+
+    const entries: SessionTimelineEntry[] = [
+      ...rowsOf<UserPrompt>('prompt', 'user_prompts').map((r) => ({ ...r, kind: 'prompt' as const })),
+      ...rowsOf<Observation>('observation', 'observations', 'AND deleted_at IS NULL')
+        .map((r) => ({ ...r, kind: 'observation' as const })),
+      ...rowsOf<Summary>('summary', 'summaries').map((r) => ({ ...r, kind: 'summary' as const })),
+    ].sort(
+      (a, b) =>
+        a.created_at - b.created_at ||
+        SESSION_TIMELINE_ORDER[a.kind] - SESSION_TIMELINE_ORDER[b.kind] ||
+        a.id - b.id,
+    );
+
+    const page = entries.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      entries: page,
+      next_cursor:
+        entries.length > limit
+          ? encodeCursor([last.created_at, SESSION_TIMELINE_ORDER[last.kind], last.id])
+          : null,
+    };
+  }
+
   // ─── Layer 1: Compact Index ────────────────────────────────────────────────
 
   /**
@@ -204,6 +476,7 @@ export class SearchService {
          JOIN sessions s     ON s.id = o.session_id
          WHERE obs_fts MATCH ?
            AND s.project = ?
+           AND o.deleted_at IS NULL
          ORDER BY rank
          LIMIT ?`,
       ).all(safeQuery, project, limit);
@@ -214,11 +487,520 @@ export class SearchService {
        FROM obs_fts
        JOIN observations o ON o.id = obs_fts.rowid
        WHERE obs_fts MATCH ?
+         AND o.deleted_at IS NULL
        ORDER BY rank
        LIMIT ?`,
     ).all(safeQuery, limit);
   }
 
+  /**
+   * Layer 1 with the query language and keyset paging. Hits are ordered by
+   * bm25() — newest first for filter-only queries — and `next_cursor` fetches
+   * the following page.
+   *
+   * @throws QuerySyntaxError on a malformed query
+   * @throws CursorError on a malformed cursor
+   */
+  searchIndexPage(query: string, options: IndexPageOptions = {}): IndexPage {
+    const compiled = compileQuery(parseQuery(query));
+    const { from, where, params } = this._scopedWhere('observation', compiled, options.project);
+    const limit = options.limit ?? 50;
+
+    // One ascending sort key for both orders; id breaks ties newest first
+    const key = compiled.match ? `bm25(${SCOPED_TABLES.observation.fts})` : '-x.created_at';
+    let keyset = '';
+    if (options.cursor) {
+      const [k, id] = decodeCursor(options.cursor, 2);
+      keyset = 'WHERE sort_key > ? OR (sort_key = ? AND id < ?)';
+      params.push(k, k, id);
+    }
+
+    const rows = this._db.query<IndexResult & { sort_key: number }, (string | number)[]>(
+      `SELECT * FROM (
+         SELECT x.id, x.title, x.obs_type, x.created_at, x.session_id, ${key} AS sort_key
+         FROM ${from}
+         JOIN sessions s ON s.id = x.session_id
+         WHERE ${where}
+       )
+       ${keyset}
+       ORDER BY sort_key, id DESC
+       LIMIT ?`,
+    ).all(...params, limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      results: page.map(({ sort_key, ...r }) => ({ ...r, score: compiled.match ? sort_key : 0 })),
+      next_cursor: rows.length > limit ? encodeCursor([last.sort_key, last.id]) : null,
+    };
+  }
+
+  // ─── Summaries & Prompts ──────────────────────────────────────────────────
+
+  /** BM25-ranked search over session summaries. */
+  searchSummaries(
+    query: string,
+    project?: string,
+    limit = 20,
+  ): (Summary & { project: string; score: number })[] {
+    const safeQuery = escapeFTS5(query);
+    if (!safeQuery) return [];
+
+    return this._db.query<Summary & { project: string; score: number }, (string | number)[]>(
+      `SELECT x.*, s.project, bm25(summaries_fts) AS score
+       FROM summaries_fts
+       JOIN summaries x ON x.id = summaries_fts.rowid
+       JOIN sessions s  ON s.id = x.session_id
+       WHERE summaries_fts MATCH ?
+         ${project ? 'AND s.project = ?' : ''}
+       ORDER BY score
+       LIMIT ?`,
+    ).all(...(project ? [safeQuery, project, limit] : [safeQuery, limit]));
+  }
+
+  /** BM25-ranked search over user prompts. */
+  searchPrompts(
+    query: string,
+    project?: string,
+    limit = 20,
+  ): (UserPrompt & { project: string; score: number })[] {
+    const safeQuery = escapeFTS5(query);
+    if (!safeQuery) return [];
+
+    return this._db.query<UserPrompt & { project: string; score: number }, (string | number)[]>(
+      `SELECT x.*, s.project, bm25(prompts_fts) AS score
+       FROM prompts_fts
+       JOIN user_prompts x ON x.id = prompts_fts.rowid
+       JOIN sessions s     ON s.id = x.session_id
+       WHERE prompts_fts MATCH ?
+         ${project ? 'AND s.project = ?' : ''}
+       ORDER BY score
+       LIMIT ?`,
+    ).all(...(project ? [safeQuery, project, limit] : [safeQuery, limit]));
+  }
+
+  /**
+   * Search one or all FTS indexes with the query language in query-parser.ts
+   * and merge the hits by bm25() score. Each result is tagged with `kind` and
+   * carries a snippet() excerpt with `highlight` markers plus match offsets.
+   * Queries made only of filters/exclusions have no score (0) and come back
+   * newest first. Non-negated type/tool/file filters limit results to observations.
+   *
+   * @throws QuerySyntaxError on a malformed query
+   */
+  searchScoped(
+    query: string,
+    scope: SearchScope,
+    project?: string,
+    limit = 20,
+    highlight: HighlightOptions = DEFAULT_HIGHLIGHT,
+  ): ScopedSearchResult[] {
+    const compiled = compileQuery(parseQuery(query));
+
+    const rowsOf = <T extends { id: number }>(kind: ScopedSearchResult['kind']) => {
+      const rows = this._scopedRows<T>(kind, compiled, project, limit);
+      const marks = compiled.match
+        ? this.highlightMatches(kind, compiled.match, rows.map((r) => r.id), highlight)
+        : new Map<number, SearchHighlight>();
+      return rows.map((row) => ({ ...row, ...(marks.get(row.id) ?? NO_HIGHLIGHT) }));
+    };
+
+    const results: ScopedSearchResult[] = [];
+    if (scope === 'observations' || scope === 'all') {
+      for (const row of rowsOf<Observation>('observation')) {
+        results.push({ ...row, kind: 'observation' });
+      }
+    }
+    if (!compiled.observationOnly) {
+      if (scope === 'summaries' || scope === 'all') {
+        for (const row of rowsOf<Summary>('summary')) {
+          results.push({ ...row, kind: 'summary' });
+        }
+      }
+      if (scope === 'prompts' || scope === 'all') {
+        for (const row of rowsOf<UserPrompt>('prompt')) {
+          results.push({ ...row, kind: 'prompt' });
+        }
+      }
+    }
+
+    return results
+      .sort((a, b) => a.score - b.score || b.created_at - a.created_at)
+      .slice(0, limit);
+  }
+
+  /**
+   * Test one observation against a query-language query. Returns its
+   * highlight when it matches (snippet null for filter-only queries), or
+   * null when it does not or is trashed.
+   *
+   * @throws QuerySyntaxError on a malformed query
+   */
+  matchObservation(
+    query: string,
+    observationId: number,
+    project?: string,
+    highlight: HighlightOptions = DEFAULT_HIGHLIGHT,
+  ): SearchHighlight | null {
+    const compiled = compileQuery(parseQuery(query));
+    const { from, where, params } = this._scopedWhere('observation', compiled, project);
+    const hit = this._db.query<{ id: number }, (string | number)[]>(
+      `SELECT x.id
+       FROM ${from}
+       JOIN sessions s ON s.id = x.session_id
+       WHERE ${where} AND x.id = ?`,
+    ).get(...params, observationId);
+    if (!hit) return null;
+    if (!compiled.match) return NO_HIGHLIGHT;
+    return this.highlightMatches('observation', compiled.match, [observationId], highlight)
+      .get(observationId) ?? NO_HIGHLIGHT;
+  }
+
+  /**
+   * Code-aware search over observations. The trigram index matches
+   * identifier sub-words and path fragments as substrings, so "json body"
+   * finds parseJsonBody and "queue.ts" finds src/worker/queue.ts, where the
+   * porter tokenizer sees one opaque word. Filters apply as in searchScoped();
+   * `score` is bm25() over obs_trigram (lower is more relevant).
+   *
+   * @throws QuerySyntaxError on a malformed query
+   */
+  searchCode(
+    query: string,
+    project?: string,
+    limit = 20,
+    highlight: HighlightOptions = DEFAULT_HIGHLIGHT,
+  ): ScopedSearchResult[] {
+    const parsed = parseQuery(query);
+    const match = compileTrigramQuery(parsed);
+    if (!match) return [];
+
+    const compiled: CompiledQuery = { ...compileQuery(parsed), match, exclude: null };
+    const rows = this._scopedRows<Observation>('observation', compiled, project, limit, CODE_FTS);
+    const marks = this.highlightMatches(
+      'observation',
+      match,
+      rows.map((r) => r.id),
+      { ...highlight, tokens: highlight.tokens * CODE_SNIPPET_SCALE },
+      CODE_FTS,
+    );
+    return rows.map((row) => ({ ...row, ...(marks.get(row.id) ?? NO_HIGHLIGHT), kind: 'observation' }));
+  }
+
+  /**
+   * "Did you mean" for words of `query` that never occur in an observation.
+   * Each is replaced by the closest word in the index vocabulary (at most one
+   * edit for words of up to four letters, two otherwise), preferring the word
+   * found in more observations. Returns null when every word is known or
+   * nothing is close enough.
+   *
+   * @throws QuerySyntaxError on a malformed query
+   */
+  suggest(query: string): SpellingSuggestion | null {
+    const words = new Set<string>();
+    const walk = (node: QueryNode): void => {
+      switch (node.kind) {
+        case 'term':
+          if (!node.prefix) words.add(node.text);
+          break;
+        case 'phrase':
+          for (const word of node.text.split(/\s+/)) words.add(word);
+          break;
+        case 'and':
+        case 'or':
+          node.children.forEach(walk);
+          break;
+        case 'not':
+          walk(node.child);
+          break;
+      }
+    };
+    const { text } = parseQuery(query);
+    if (text) walk(text);
+
+    const known = this._db.query<{ doc: number }, [string]>(
+      'SELECT doc FROM obs_words_vocab WHERE term = ?',
+    );
+    const candidates = this._db.query<{ term: string; doc: number }, [number, number]>(
+      'SELECT term, doc FROM obs_words_vocab WHERE length(term) BETWEEN ? AND ?',
+    );
+
+    const corrections: SpellingSuggestion['corrections'] = [];
+    for (const term of words) {
+      const word = term.toLowerCase();
+      if (word.length < SUGGEST_MIN_CHARS || !/^[\p{L}\p{N}]+$/u.test(word) || known.get(word)) {
+        continue;
+      }
+      const max = word.length <= 4 ? 1 : 2;
+      let best: { term: string; doc: number; distance: number } | null = null;
+      for (const c of candidates.all(word.length - max, word.length + max)) {
+        const distance = editDistance(word, c.term, max);
+        if (
+          distance <= max &&
+          (!best || distance < best.distance || (distance === best.distance && c.doc > best.doc))
+        ) {
+          best = { ...c, distance };
+        }
+      }
+      if (best) corrections.push({ term, suggestion: best.term });
+    }
+    if (corrections.length === 0) return null;
+
+    const fixes = new Map(corrections.map((c) => [c.term, c.suggestion]));
+    const corrected = query.replace(/[^\s()"*]+/g, (token) => {
+      const negated = token.startsWith('-');
+      const word = negated ? token.slice(1) : token;
+      return fixes.has(word) ? `${negated ? '-' : ''}${fixes.get(word)}` : token;
+    });
+    return { query: corrected, corrections };
+  }
+
+  /**
+   * Snippet and per-column match offsets for rows of `kind` that match the
+   * FTS5 expression `match`. Rows that do not match are absent from the map.
+   * `fts` swaps in another index over the same columns (obs_trigram).
+   */
+  highlightMatches(
+    kind: ScopedSearchResult['kind'],
+    match: string,
+    ids: number[],
+    options: HighlightOptions = DEFAULT_HIGHLIGHT,
+    fts: string = SCOPED_TABLES[kind].fts,
+  ): Map<number, SearchHighlight> {
+    const marks = new Map<number, SearchHighlight>();
+    if (ids.length === 0) return marks;
+
+    const { columns } = SCOPED_TABLES[kind];
+    const tokens = Math.min(Math.max(Math.trunc(options.tokens), 1), MAX_SNIPPET_TOKENS);
+    const rows = this._db.query<Record<string, string | number | null>, (string | number)[]>(
+      `SELECT rowid AS id,
+              snippet(${fts}, -1, ?, ?, ?, ?) AS snippet,
+              ${columns.map((_c, i) => `highlight(${fts}, ${i}, ?, ?) AS c${i}`).join(',\n              ')}
+       FROM ${fts}
+       WHERE ${fts} MATCH ?
+         AND rowid IN (${ids.map(() => '?').join(', ')})`,
+    ).all(
+      options.start, options.end, options.ellipsis, tokens,
+      ...columns.flatMap(() => [MATCH_OPEN, MATCH_CLOSE]),
+      match,
+      ...ids,
+    );
+
+    for (const row of rows) {
+      const matches: ColumnMatch[] = [];
+      columns.forEach((column, i) => {
+        const offsets = matchOffsets(row[`c${i}`] as string | null);
+        if (offsets.length > 0) matches.push({ column, offsets });
+      });
+      marks.set(row.id as number, { snippet: (row.snippet as string | null) || null, matches });
+    }
+    return marks;
+  }
+
+  /**
+   * Facet counts over every observation matching `query` (query language,
+   * same filters as searchScoped) — not just the first page of hits. An
+   * empty query counts every observation. Each facet lists its top `limit`
+   * values; date buckets are newest first.
+   *
+   * @throws QuerySyntaxError on a malformed query
+   */
+  facets(query: string, project?: string, limit = DEFAULT_FACET_LIMIT): SearchFacets {
+    const compiled: CompiledQuery = query.trim()
+      ? compileQuery(parseQuery(query))
+      : { match: null, exclude: null, filters: [], observationOnly: true };
+    const { from, where, params } = this._scopedWhere('observation', compiled, project);
+    const rows = this._db.query<{ facet: keyof SearchFacets; value: string; count: number }, (string | number)[]>(
+      `WITH hits AS (
+         SELECT x.id, x.obs_type, x.tool_name, s.project, x.created_at
+         FROM ${from}
+         JOIN sessions s ON s.id = x.session_id
+         WHERE ${where}
+       ),
+       buckets AS (
+         SELECT 'type' AS facet, obs_type AS value, COUNT(*) AS count FROM hits GROUP BY obs_type
+         UNION ALL
+         SELECT 'tool', tool_name, COUNT(*) FROM hits GROUP BY tool_name
+         UNION ALL
+         SELECT 'project', project, COUNT(*) FROM hits GROUP BY project
+         UNION ALL
+         SELECT 'file', f.path, COUNT(DISTINCT h.id)
+         FROM hits h JOIN observation_files f ON f.observation_id = h.id AND f.access = 'modified'
+         GROUP BY f.path
+         UNION ALL
+         SELECT 'day', date(created_at, 'unixepoch'), COUNT(*) FROM hits GROUP BY 2
+         UNION ALL
+         -- ISO week, labelled by its Monday
+         SELECT 'week', date(created_at, 'unixepoch', 'weekday 0', '-6 days'), COUNT(*) FROM hits GROUP BY 2
+         UNION ALL
+         SELECT 'total', '', COUNT(*) FROM hits
+       )
+       SELECT facet, value, count FROM (
+         SELECT facet, value, count,
+                ROW_NUMBER() OVER (
+                  PARTITION BY facet
+                  ORDER BY CASE WHEN facet IN ('day', 'week') THEN value END DESC,
+                           count DESC, value
+                ) AS rank
+         FROM buckets
+       )
+       WHERE rank <= ?
+       ORDER BY facet, rank`,
+    ).all(...params, limit);
+
+    const facets: SearchFacets = { total: 0, type: [], tool: [], project: [], file: [], day: [], week: [] };
+    for (const row of rows) {
+      if (row.facet === 'total') facets.total = row.count;
+      else facets[row.facet].push({ value: row.value, count: row.count });
+    }
+    return facets;
+  }
+
+  private _scopedRows<T>(
+    kind: ScopedSearchResult['kind'],
+    compiled: CompiledQuery,
+    project: string | undefined,
+    limit: number,
+    fts: string = SCOPED_TABLES[kind].fts,
+  ): (T & { project: string; score: number })[] {
+    const { from, where, params } = this._scopedWhere(kind, compiled, project, fts);
+    return this._db.query<T & { project: string; score: number }, (string | number)[]>(
+      `SELECT x.*, s.project, ${compiled.match ? `bm25(${fts})` : '0'} AS score
+       FROM ${from}
+       JOIN sessions s ON s.id = x.session_id
+       WHERE ${where}
+       ORDER BY ${compiled.match ? 'score' : 'x.created_at DESC, x.id DESC'}
+       LIMIT ?`,
+    ).all(...params, limit);
+  }
+
+  /**
+   * FROM and WHERE for rows of `kind` matching a compiled query. The row
+   * table is aliased `x`; callers join sessions as `s`. `fts` is the index
+   * `compiled.match` is evaluated against.
+   */
+  private _scopedWhere(
+    kind: ScopedSearchResult['kind'],
+    compiled: CompiledQuery,
+    project: string | undefined,
+    fts: string = SCOPED_TABLES[kind].fts,
+  ): { from: string; where: string; params: (string | number)[] } {
+    const { table } = SCOPED_TABLES[kind];
+    const isObservation = kind === 'observation';
+
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (compiled.match) {
+      where.push(`${fts} MATCH ?`);
+      params.push(compiled.match);
+    }
+    if (compiled.exclude) {
+      where.push(`x.id NOT IN (SELECT rowid FROM ${fts} WHERE ${fts} MATCH ?)`);
+      params.push(compiled.exclude);
+    }
+    if (isObservation) where.push('x.deleted_at IS NULL');
+    if (project) {
+      where.push('s.project = ?');
+      params.push(project);
+    }
+    const filters = filterSql(compiled.filters, 'x', isObservation);
+    where.push(...filters.sql);
+    params.push(...filters.params);
+
+    const from = compiled.match
+      ? `${fts} JOIN ${table} x ON x.id = ${fts}.rowid`
+      : `${table} x`;
+    return { from, where: where.length ? where.join(' AND ') : '1 = 1', params };
+  }
+
+  /**
+   * Keyword and semantic search fused with type priority and recency
+   * (ranking.ts). Keyword candidates come from searchScoped(), so the query
+   * language applies, followed by searchCode() hits the word index missed;
+   * vector hits re-rank them and, for plain-text queries over observations,
+   * add recent matches that share no keyword (see VectorIndex.search). Results are best first with `score`
+   * set to the fused score (higher is better).
+   *
+   * @throws QuerySyntaxError on a malformed query
+   */
+  searchHybrid(
+    query: string,
+    scope: SearchScope,
+    settings: RankingSettings,
+    project?: string,
+    limit = 20,
+    highlight: HighlightOptions = DEFAULT_HIGHLIGHT,
+  ): HybridSearchResult[] {
+    const parsed = parseQuery(query);
+    const pool = Math.max(limit * HYBRID_POOL_FACTOR, HYBRID_MIN_POOL);
+
+    const keyword = this.searchScoped(query, scope, project, pool, highlight);
+    const candidates = new Map<string, ScopedSearchResult>();
+    const bm25Ranks = new Map<string, number>();
+    const hasMatch = compileQuery(parsed).match !== null;
+    keyword.forEach((row, i) => {
+      const key = `${row.kind}:${row.id}`;
+      candidates.set(key, row);
+      if (hasMatch) bm25Ranks.set(key, i + 1);
+    });
+
+    // Identifier and path fragments the porter tokenizer cannot see, ranked after every word match
+    if (hasMatch && (scope === 'observations' || scope === 'all')) {
+      for (const row of this.searchCode(query, project, pool, highlight)) {
+        const key = `observation:${row.id}`;
+        if (candidates.has(key)) continue;
+        candidates.set(key, row);
+        bm25Ranks.set(key, bm25Ranks.size + 1);
+      }
+    }
+
+    const semanticRanks = new Map<string, number>();
+    const { text, exact } = plainText(parsed);
+    if (text && (scope === 'observations' || scope === 'all') && settings.weights.semantic > 0) {
+      const hits = new VectorIndex(this._db).search(text, {
+        project,
+        limit: pool,
+        candidates: [...candidates.values()].filter((row) => row.kind === 'observation').map((row) => row.id),
+      });
+      hits.forEach((hit, i) => semanticRanks.set(`observation:${hit.id}`, i + 1));
+
+      // Without exclusions or filters a vector hit satisfies the query as-is
+      const extra = exact ? hits.filter((h) => !candidates.has(`observation:${h.id}`)) : [];
+      if (extra.length > 0) {
+        const rows = this._db.query<Observation & { project: string }, number[]>(
+          `SELECT o.*, s.project
+           FROM observations o
+           JOIN sessions s ON s.id = o.session_id
+           WHERE o.id IN (${extra.map(() => '?').join(', ')})`,
+        ).all(...extra.map((h) => h.id));
+        for (const row of rows) {
+          candidates.set(`observation:${row.id}`, {
+            ...row,
+            ...NO_HIGHLIGHT,
+            kind: 'observation',
+            score: 0,
+          });
+        }
+      }
+    }
+
+    return rankHybrid(
+      [...candidates.values()],
+      (row) => {
+        const key = `${row.kind}:${row.id}`;
+        return {
+          bm25Rank: bm25Ranks.get(key) ?? null,
+          semanticRank: semanticRanks.get(key) ?? null,
+          type: row.kind === 'observation' ? row.obs_type : row.kind,
+          createdAt: row.created_at,
+        };
+      },
+      settings,
+    )
+      .slice(0, limit)
+      .map(({ item, ranking }) => ({ ...item, score: ranking.total, ranking }));
+  }
+
   // ─── Layer 3: Fetch by IDs ─────────────────────────────────────────────────
 
   /**
@@ -237,6 +1019,7 @@ export class SearchService {
     return this._db.query<Observation, number[]>(
       `SELECT * FROM observations
        WHERE id IN (${placeholders})
+         AND deleted_at IS NULL
        ORDER BY created_at ASC`,
     ).all(...ids);
   }
@@ -300,7 +1083,83 @@ export class SearchService {
   }
 
   /**
-   * Semantic search via QMD.
+   * Remove exported markdown files for deleted observations, then run
+   * `qmd update` so the QMD index drops them too.
+   *
+   * Projects whose names fail validation can never have been exported,
+   * so they are skipped rather than rejected. Returns the number of files removed.
+   */
+  removeFromQMD(project: string, ids: number[]): number {
+    if (ids.length === 0 || !SAFE_PROJECT_RE.test(project)) return 0;
+
+    const exportDir = join(QMD_EXPORT_ROOT, project);
+    if (!existsSync(exportDir)) return 0;
+
+    const wanted = new Set(ids);
+    let removed = 0;
+    for (const filename of readdirSync(exportDir)) {
+      const match = filename.match(/^(\d+)-[^/]+\.md$/);
+      if (!match || !wanted.has(parseInt(match[1], 10))) continue;
+      unlinkSync(join(exportDir, filename));
+      removed++;
+    }
+
+    if (removed > 0) {
+      const updateResult = spawnSync('qmd', ['update'], { encoding: 'utf-8' });
+      if (updateResult.error) {
+        console.warn('[Open-Mem] qmd update failed (QMD not installed?):', updateResult.error.message);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Semantic search via the local vector index (vectors.ts) — works offline.
+   * Returns matching observation IDs, best match first; callers should use
+   * getByIds() to fetch full records.
+   */
+  searchSemantic(query: string, project?: string, limit = 20): number[] {
+    return new VectorIndex(this._db).search(query, { project, limit }).map((h) => h.id);
+  }
+
+  /**
+   * Semantic search returning full rows in the scoped-search shape. The
+   * query's words and phrases are embedded; its filters and exclusions are
+   * applied to the vector hits (compileSemanticQuery), so a filter-only query
+   * finds nothing. `score` is the cosine distance (1 − similarity), so lower
+   * is better as with bm25().
+   *
+   * @throws QuerySyntaxError on a malformed query
+   */
+  searchVectors(query: string, project?: string, limit = 20): ScopedSearchResult[] {
+    const parsed = parseQuery(query);
+    const compiled = compileSemanticQuery(parsed);
+    const narrowed = compiled.exclude !== null || compiled.filters.length > 0;
+    const pool = narrowed ? Math.max(limit * HYBRID_POOL_FACTOR, HYBRID_MIN_POOL) : limit;
+    const hits = new VectorIndex(this._db).search(plainText(parsed).text, { project, limit: pool });
+    if (hits.length === 0) return [];
+
+    const { from, where, params } = this._scopedWhere('observation', compiled, project);
+    const rows = this._db.query<Observation & { project: string }, (string | number)[]>(
+      `SELECT x.*, s.project
+       FROM ${from}
+       JOIN sessions s ON s.id = x.session_id
+       WHERE ${where} AND x.id IN (${hits.map(() => '?').join(', ')})`,
+    ).all(...params, ...hits.map((h) => h.id));
+    const byId = new Map(rows.map((r) => [r.id, r]));
+
+    const results: ScopedSearchResult[] = [];
+    for (const hit of hits) {
+      const row = byId.get(hit.id);
+      if (row) {
+        results.push({ ...row, ...NO_HIGHLIGHT, kind: 'observation', score: 1 - hit.similarity });
+      }
+    }
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Semantic search via the external QMD CLI (requires `qmd` on PATH).
    * Shells out to: qmd query '<query>' -c c-mem-{project}
    * Parses the output to extract matching observation IDs.
    *
@@ -309,7 +1168,7 @@ export class SearchService {
    *
    * Security: query and project are passed as argv elements, never interpolated.
    */
-  searchSemantic(query: string, project?: string): number[] {
+  searchQMD(query: string, project?: string): number[] {
     const args: string[] = ['query', query];
     if (project) {
       validateProjectName(project);
@@ -339,6 +1198,70 @@ export class SearchService {
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+/** Opaque paging cursor: base64url JSON of the keyset values */
+function encodeCursor(values: number[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/** @throws CursorError unless `cursor` decodes to `length` finite numbers */
+function decodeCursor(cursor: string, length: number): number[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new CursorError();
+  }
+  if (
+    !Array.isArray(values) ||
+    values.length !== length ||
+    !values.every((v) => typeof v === 'number' && Number.isFinite(v))
+  ) {
+    throw new CursorError();
+  }
+  return values;
+}
+
+/** The Layer 1 view of a search hit: id, title, type, snippet and score. */
+export function compactResult(result: ScopedSearchResult): CompactSearchResult {
+  const { id, snippet, score } = result;
+  switch (result.kind) {
+    case 'observation':
+      return { id, title: result.title, type: result.obs_type, snippet, score };
+    case 'summary':
+      return { id, title: result.request, type: 'summary', snippet, score };
+    case 'prompt':
+      return { id, title: firstLine(result.prompt), type: 'prompt', snippet, score };
+  }
+}
+
+/**
+ * [start, end) offsets of MATCH_OPEN … MATCH_CLOSE spans in highlight()
+ * output, measured in the unmarked column text.
+ */
+function matchOffsets(marked: string | null): [number, number][] {
+  if (!marked) return [];
+  const offsets: [number, number][] = [];
+  let plain = 0;
+  let start = -1;
+  for (const ch of marked) {
+    if (ch === MATCH_OPEN) {
+      start = plain;
+    } else if (ch === MATCH_CLOSE) {
+      if (start >= 0) offsets.push([start, plain]);
+      start = -1;
+    } else {
+      plain += ch.length;
+    }
+  }
+  return offsets;
+}
+
+/** First line of a prompt, cut to a title-sized length */
+function firstLine(text: string): string {
+  const line = text.split('\n', 1)[0].trim();
+  return line.length > 80 ? `${line.slice(0, 79)}…` : line;
+}
+
 /**
  * Validate a project name for safe use in file system paths.
  * Rejects anything with characters that could enable path traversal.
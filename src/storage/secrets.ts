@@ -72,6 +72,18 @@ export function scrubJson(obj: unknown): unknown {
   return obj;
 }
 
+/**
+ * Scrub an observation's raw_input. JSON is scrubbed value by value so it
+ * stays parseable for re-compression; anything else as plain text.
+ */
+export function scrubRawInput(text: string): string {
+  try {
+    return JSON.stringify(scrubJson(JSON.parse(text)));
+  } catch {
+    return scrubSecrets(text);
+  }
+}
+
 // ─── Content Validation (INJ-02) ─────────────────────────────────────────────
 
 /**
@@ -0,0 +1,133 @@
+/**
+ * Open-Mem Summary Chunks
+ *
+ * Long sessions are summarized map-reduce (see sdk/summarizer.ts): one
+ * summary per chunk of observations, then one merged summary. The chunk
+ * summaries are kept here so re-summarizing a session that grew only sends
+ * the new chunks to the model.
+ *
+ * A chunk is keyed by the id, type, title and narrative of each of its
+ * observations plus the summary prompt version. Editing an observation or
+ * bumping the prompt changes the key; retain() then drops the stale row.
+ */
+
+import { createHash } from 'crypto';
+import type { Database } from 'bun:sqlite';
+import type { Observation } from '../types.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** The five summary fields, as the summarizer produces them */
+export interface SummaryChunkFields {
+  request: string;
+  investigated: string;
+  learned: string;
+  completed: string;
+  next_steps: string;
+}
+
+export interface SummaryChunk extends SummaryChunkFields {
+  id: number;
+  session_id: number;
+  chunk_key: string;
+  first_observation_id: number;
+  last_observation_id: number;
+  observation_count: number;
+  first_prompt: number;
+  last_prompt: number;
+  prompt_version: string;
+  model: string | null;
+  created_at: number;
+}
+
+type ChunkObservation = Pick<Observation, 'id' | 'type' | 'title' | 'narrative' | 'prompt_number'>;
+
+// ─── Key ──────────────────────────────────────────────────────────────────────
+
+/** Content key of a chunk: its observations (in order) and the prompt version */
+export function summaryChunkKey(observations: ChunkObservation[], promptVersion: string): string {
+  const hash = createHash('sha256').update(promptVersion);
+  for (const o of observations) {
+    hash.update('\0').update(JSON.stringify([o.id, o.type, o.title, o.narrative]));
+  }
+  return hash.digest('hex');
+}
+
+// ─── Summary Chunk Service ────────────────────────────────────────────────────
+
+/** Implements the summarizer's SummaryChunkStore */
+export class SummaryChunkService {
+  private readonly _db: Database;
+  private readonly _promptVersion: string;
+
+  constructor(db: Database, promptVersion: string) {
+    this._db = db;
+    this._promptVersion = promptVersion;
+  }
+
+  get(sessionDbId: number, observations: ChunkObservation[]): SummaryChunkFields | null {
+    return this._db
+      .query<SummaryChunkFields, [number, string]>(
+        `SELECT request, investigated, learned, completed, next_steps
+         FROM summary_chunks
+         WHERE session_id = ? AND chunk_key = ?`,
+      )
+      .get(sessionDbId, summaryChunkKey(observations, this._promptVersion)) ?? null;
+  }
+
+  set(
+    sessionDbId: number,
+    observations: ChunkObservation[],
+    fields: SummaryChunkFields,
+    model: string | null,
+  ): void {
+    if (observations.length === 0) return;
+    const prompts = observations.map((o) => o.prompt_number);
+    this._db
+      .query(
+        `INSERT OR REPLACE INTO summary_chunks
+           (session_id, chunk_key, first_observation_id, last_observation_id, observation_count,
+            first_prompt, last_prompt, request, investigated, learned, completed, next_steps,
+            prompt_version, model)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        sessionDbId,
+        summaryChunkKey(observations, this._promptVersion),
+        observations[0].id,
+        observations[observations.length - 1].id,
+        observations.length,
+        Math.min(...prompts),
+        Math.max(...prompts),
+        fields.request,
+        fields.investigated,
+        fields.learned,
+        fields.completed,
+        fields.next_steps,
+        this._promptVersion,
+        model,
+      );
+  }
+
+  /** Delete the session's chunks whose key is not among `chunks` */
+  retain(sessionDbId: number, chunks: ChunkObservation[][]): void {
+    const keys = chunks.map((c) => summaryChunkKey(c, this._promptVersion));
+    const placeholders = keys.map(() => '?').join(', ');
+    this._db
+      .query(
+        keys.length > 0
+          ? `DELETE FROM summary_chunks WHERE session_id = ? AND chunk_key NOT IN (${placeholders})`
+          : 'DELETE FROM summary_chunks WHERE session_id = ?',
+      )
+      .run(sessionDbId, ...keys);
+  }
+
+  /** Stored chunks of a session, oldest first */
+  list(sessionDbId: number): SummaryChunk[] {
+    return this._db
+      .query<SummaryChunk, [number]>(
+        'SELECT * FROM summary_chunks WHERE session_id = ? ORDER BY first_observation_id',
+      )
+      .all(sessionDbId);
+  }
+}
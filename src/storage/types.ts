@@ -4,6 +4,8 @@
  * These are the database record shapes — not the full shared/interfaces.ts contracts.
  */
 
+import type { RankingBreakdown } from './ranking.ts';
+
 // ─── Session ────────────────────────────────────────────────────────────────
 
 export type SessionStatus = 'active' | 'summarizing' | 'completed';
@@ -33,6 +35,33 @@ export interface Observation {
   narrative: string | null;
   created_at: number; // Unix epoch seconds
   hmac: string | null; // HMAC-SHA256 signature for integrity (INJ-04)
+  deleted_at: number | null; // Unix epoch seconds; non-null = in the trash
+  prompt_version: string | null; // COMPRESSION_PROMPT_VERSION; null = no prompt (rules, legacy)
+  model: string | null; // LLM model id, 'rules', or null (legacy)
+}
+
+/** Editable observation fields. List fields live inside the compressed JSON. */
+export interface ObservationPatch {
+  title?: string;
+  narrative?: string;
+  obs_type?: string;
+  tags?: string[];
+  facts?: string[];
+  files_read?: string[];
+  files_modified?: string[];
+}
+
+// ─── Observation Audit ───────────────────────────────────────────────────────
+
+export type AuditAction = 'update' | 'delete' | 'restore' | 'purge';
+
+export interface ObservationAuditEntry {
+  id: number;
+  observation_id: number;
+  action: AuditAction;
+  actor: string;
+  changes: string | null; // JSON: { field: { from, to } } — nulled on purge
+  created_at: number;
 }
 
 // ─── User Prompt ─────────────────────────────────────────────────────────────
@@ -56,6 +85,10 @@ export interface Summary {
   completed: string | null;
   next_steps: string | null;
   created_at: number;
+  prompt_version: string | null; // SUMMARY_PROMPT_VERSION; null = no prompt (deterministic, legacy)
+  model: string | null; // LLM model id, 'rules', or null (legacy)
+  checkpoint: number; // 1 = rolling summary of an active session (one per session)
+  through_observation_id: number | null; // checkpoints: newest observation covered
 }
 
 // ─── Queue ────────────────────────────────────────────────────────────────────
@@ -87,6 +120,73 @@ export interface IndexResult {
   session_id: number;
 }
 
+/** Which FTS indexes GET /api/search consults */
+export type SearchScope = 'observations' | 'summaries' | 'prompts' | 'all';
+
+/** The FTS columns a hit matched in; offsets are [start, end) character ranges into that column */
+export interface ColumnMatch {
+  column: string;
+  offsets: [number, number][];
+}
+
+/** Why a hit matched: an FTS5 snippet() excerpt plus per-column match offsets */
+export interface SearchHighlight {
+  /** null when nothing in the query is a text match (filters only, vector hits) */
+  snippet: string | null;
+  matches: ColumnMatch[];
+}
+
+/**
+ * One hit from a scoped search. `score` is the FTS5 bm25() value — lower is
+ * more relevant — so hits from different indexes can be merged in one list.
+ */
+export type ScopedSearchResult =
+  | (Observation & { kind: 'observation'; project: string; score: number } & SearchHighlight)
+  | (Summary & { kind: 'summary'; project: string; score: number } & SearchHighlight)
+  | (UserPrompt & { kind: 'prompt'; project: string; score: number } & SearchHighlight);
+
+/** One row of GET /api/sessions/:id/timeline, tagged by source table */
+export type SessionTimelineEntry =
+  | (UserPrompt & { kind: 'prompt' })
+  | (Observation & { kind: 'observation' })
+  | (Summary & { kind: 'summary' });
+
+/** GET /api/search?compact=1 — just enough to decide which hits to fetch in full */
+export interface CompactSearchResult {
+  id: number;
+  title: string | null;
+  /** obs_type for observations, otherwise 'summary' or 'prompt' */
+  type: string;
+  snippet: string | null;
+  score: number;
+}
+
+/**
+ * One hit from a hybrid search. `score` is the fused RRF score — higher is
+ * more relevant — and `ranking` breaks it down by signal.
+ */
+export type HybridSearchResult = ScopedSearchResult & { ranking: RankingBreakdown };
+
+/** One facet value and how many matching observations have it */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * GET /api/facets — counts over all observations matching a query.
+ * `file` counts modifications; `day` / `week` are UTC dates (weeks by their Monday).
+ */
+export interface SearchFacets {
+  total: number;
+  type: FacetCount[];
+  tool: FacetCount[];
+  project: FacetCount[];
+  file: FacetCount[];
+  day: FacetCount[];
+  week: FacetCount[];
+}
+
 // ─── Stats ────────────────────────────────────────────────────────────────────
 
 export interface ProjectStats {
@@ -0,0 +1,165 @@
+/**
+ * Open-Mem LLM Usage
+ *
+ * One row per model call made by the compressor or the summarizer: project,
+ * provider, model, purpose, input/output tokens, latency, outcome and the
+ * estimated cost at the prices in settings.json → "usage". Failed calls are
+ * recorded too (zero tokens) so slow or broken providers show up.
+ *
+ * Budgets are checked against the recorded cost per project for the current
+ * UTC day and month; the queue asks before every item (see budgetStatus()).
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { LlmBudget, LlmPrice } from '../types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const SECONDS_PER_DAY = 86_400;
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+const DEFAULT_REPORT_DAYS = 30;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface UsageEntry {
+  project: string;
+  provider: string;
+  model: string | null;
+  purpose: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
+  ok: boolean;
+}
+
+/** Usage of one model by one project on one UTC day */
+export interface UsageRow {
+  day: string; // YYYY-MM-DD
+  project: string;
+  model: string | null;
+  calls: number;
+  failed_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+export interface UsageReportOptions {
+  project?: string;
+  /** Only calls at or after this time (Unix epoch seconds); default: last 30 days */
+  since?: number;
+}
+
+export interface BudgetStatus {
+  project: string;
+  daily_usd: number;
+  monthly_usd: number;
+  daily_budget_usd: number | null;
+  monthly_budget_usd: number | null;
+  exceeded: boolean;
+}
+
+// ─── Cost ─────────────────────────────────────────────────────────────────────
+
+/** Estimated cost of one call; unpriced models (e.g. local servers) cost 0. */
+export function estimateCostUsd(
+  model: string | null,
+  inputTokens: number,
+  outputTokens: number,
+  prices: Record<string, LlmPrice>,
+): number {
+  const price = model ? prices[model] : undefined;
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / TOKENS_PER_PRICE_UNIT;
+}
+
+// ─── Usage Service ────────────────────────────────────────────────────────────
+
+export class UsageService {
+  private readonly _db: Database;
+
+  constructor(db: Database) {
+    this._db = db;
+  }
+
+  record(entry: UsageEntry): number {
+    const result = this._db
+      .query(
+        `INSERT INTO llm_usage
+           (project, provider, model, purpose, input_tokens, output_tokens, latency_ms, cost_usd, ok)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        entry.project,
+        entry.provider,
+        entry.model,
+        entry.purpose,
+        entry.input_tokens,
+        entry.output_tokens,
+        Math.round(entry.latency_ms),
+        entry.cost_usd,
+        entry.ok ? 1 : 0,
+      );
+    return Number(result.lastInsertRowid);
+  }
+
+  /** Usage grouped by UTC day, project and model — newest day first. */
+  report(options: UsageReportOptions = {}): UsageRow[] {
+    const where = ['created_at >= ?'];
+    const params: (string | number)[] = [
+      options.since ?? Math.floor(Date.now() / 1000) - DEFAULT_REPORT_DAYS * SECONDS_PER_DAY,
+    ];
+    if (options.project) {
+      where.push('project = ?');
+      params.push(options.project);
+    }
+
+    return this._db
+      .query<UsageRow, (string | number)[]>(
+        `SELECT date(created_at, 'unixepoch') AS day, project, model,
+                COUNT(*)                  AS calls,
+                SUM(ok = 0)               AS failed_calls,
+                SUM(input_tokens)         AS input_tokens,
+                SUM(output_tokens)        AS output_tokens,
+                SUM(cost_usd)             AS cost_usd,
+                CAST(ROUND(AVG(latency_ms)) AS INTEGER) AS avg_latency_ms
+         FROM llm_usage
+         WHERE ${where.join(' AND ')}
+         GROUP BY day, project, model
+         ORDER BY day DESC, project, model`,
+      )
+      .all(...params);
+  }
+
+  /** Spend of `project` this UTC day and month against its limits. */
+  budgetStatus(project: string, budget: LlmBudget, now = Date.now()): BudgetStatus {
+    const date = new Date(now);
+    const dayStart = Math.floor(now / 1000 / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+    const monthStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+
+    const row = this._db
+      .query<{ daily: number | null; monthly: number | null }, [number, string, number]>(
+        `SELECT SUM(CASE WHEN created_at >= ? THEN cost_usd ELSE 0 END) AS daily,
+                SUM(cost_usd) AS monthly
+         FROM llm_usage
+         WHERE project = ? AND created_at >= ?`,
+      )
+      .get(dayStart, project, monthStart);
+    const daily = row?.daily ?? 0;
+    const monthly = row?.monthly ?? 0;
+
+    return {
+      project,
+      daily_usd: daily,
+      monthly_usd: monthly,
+      daily_budget_usd: budget.dailyUsd,
+      monthly_budget_usd: budget.monthlyUsd,
+      exceeded:
+        (budget.dailyUsd !== null && daily >= budget.dailyUsd) ||
+        (budget.monthlyUsd !== null && monthly >= budget.monthlyUsd),
+    };
+  }
+}
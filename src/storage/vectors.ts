@@ -0,0 +1,285 @@
+/**
+ * Open-Mem Local Vector Index
+ *
+ * Dependency-free semantic search that works offline (no qmd, no model
+ * download). Observations are embedded with signed feature hashing:
+ *
+ *   - text is split on camelCase / snake_case / punctuation, lower-cased,
+ *     stop words dropped and common English suffixes stripped
+ *   - each word is hashed (FNV-1a) into one of WORD_BUCKETS buckets and each
+ *     of its character trigrams into the remaining buckets, with a
+ *     hash-derived sign; trigrams let "tokenizer" and "tokenization" share
+ *     mass, while the sparse word buckets keep document frequencies meaningful
+ *   - term frequency is sublinear (1 + ln tf) and the vector is L2-normalised
+ *
+ * At query time the query vector is IDF-weighted using bucket document
+ * frequencies over the candidate set, then scored by cosine similarity. The
+ * candidates are the most recent live observations (SCAN_LIMIT) plus any ids
+ * the caller passes (hybrid search passes its keyword hits), so a search
+ * never reads every vector.
+ *
+ * Storage: observation_vectors (migration v6), one Float32 BLOB per
+ * observation. Vectors are written when an observation is inserted, edited,
+ * re-compressed or imported (the obs_vectors_au trigger drops a stale one
+ * first). sync() embeds anything missing or built by an older VECTOR_MODEL
+ * when the database is opened; search only reads.
+ */
+
+import type { Database } from 'bun:sqlite';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Bump when tokenisation or hashing changes — stale vectors are rebuilt */
+export const VECTOR_MODEL = 'hash-v1';
+export const VECTOR_DIMS = 768;
+
+/** Buckets [0, WORD_BUCKETS) hold whole words; the rest hold trigrams */
+const WORD_BUCKETS = 512;
+
+const TRIGRAM_WEIGHT = 0.35;
+
+/** Most recent live observations a search scores by default, besides its explicit candidates */
+export const SCAN_LIMIT = 5_000;
+
+/** Below this cosine similarity a hit is noise */
+export const DEFAULT_MIN_SIMILARITY = 0.08;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be been but by can could did do does for from had has have how i if in ' +
+    'into is it its of on or our so that the their then there these this those to was we were ' +
+    'what when where which while who why will with would you your not no yes also just than too ' +
+    'very via using use used'
+  ).split(' '),
+);
+
+const SUFFIXES = ['ations', 'ation', 'ings', 'ing', 'ers', 'er', 'ies', 'ied', 'ed', 'es', 'ly', 's'];
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface VectorHit {
+  id: number;
+  similarity: number;
+}
+
+export interface VectorSearchOptions {
+  project?: string;
+  limit?: number;
+  minSimilarity?: number;
+  /** Observation ids to score even if older than the `scanLimit` most recent */
+  candidates?: number[];
+  scanLimit?: number;
+}
+
+interface ObservationText {
+  title: string | null;
+  narrative: string | null;
+  compressed: string;
+}
+
+// ─── Embedding ────────────────────────────────────────────────────────────────
+
+/** Normalised word tokens used for hashing (exported for tests) */
+export function tokenizeForVectors(text: string): string[] {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/);
+
+  const tokens: string[] = [];
+  for (const word of words) {
+    if (word.length < 2 || STOP_WORDS.has(word) || /^\d+$/.test(word)) continue;
+    tokens.push(stem(word));
+  }
+  return tokens;
+}
+
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/** Sparse bucket → weight map before normalisation */
+function hashFeatures(text: string): Map<number, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenizeForVectors(text)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  const features = new Map<number, number>();
+  const add = (feature: string, offset: number, size: number, weight: number) => {
+    const h = fnv1a(feature);
+    const bucket = offset + (h % size);
+    const sign = h & 0x80000000 ? -1 : 1;
+    features.set(bucket, (features.get(bucket) ?? 0) + sign * weight);
+  };
+
+  for (const [token, tf] of counts) {
+    const weight = 1 + Math.log(tf);
+    add(token, 0, WORD_BUCKETS, weight);
+    const padded = `^${token}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(padded.slice(i, i + 3), WORD_BUCKETS, VECTOR_DIMS - WORD_BUCKETS, weight * TRIGRAM_WEIGHT);
+    }
+  }
+  return features;
+}
+
+/** Dense, L2-normalised embedding (all zeros for text with no tokens) */
+export function embedText(text: string): Float32Array {
+  const vector = new Float32Array(VECTOR_DIMS);
+  for (const [bucket, weight] of hashFeatures(text)) vector[bucket] = weight;
+  return normalize(vector);
+}
+
+/** The text an observation is embedded from: title, narrative and the readable parts of compressed */
+export function observationText(obs: ObservationText): string {
+  const parts: string[] = [obs.title ?? '', obs.narrative ?? ''];
+  try {
+    const parsed = JSON.parse(obs.compressed) as Record<string, unknown>;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      for (const key of ['facts', 'tags', 'files_read', 'files_modified']) {
+        const value = parsed[key];
+        if (Array.isArray(value)) parts.push(value.filter((v) => typeof v === 'string').join(' '));
+      }
+      if (!obs.narrative && typeof parsed.narrative === 'string') parts.push(parsed.narrative);
+    } else {
+      parts.push(obs.compressed);
+    }
+  } catch {
+    parts.push(obs.compressed); // plain-text compressed
+  }
+  return parts.join('\n');
+}
+
+// ─── Vector Index ─────────────────────────────────────────────────────────────
+
+export class VectorIndex {
+  private readonly _db: Database;
+
+  constructor(db: Database) {
+    this._db = db;
+  }
+
+  /** Embed and store one observation's vector. */
+  upsert(observationId: number, obs: ObservationText): void {
+    const vector = embedText(observationText(obs));
+    this._db
+      .query(
+        `INSERT OR REPLACE INTO observation_vectors (observation_id, model, vector)
+         VALUES (?, ?, ?)`,
+      )
+      .run(observationId, VECTOR_MODEL, new Uint8Array(vector.buffer));
+  }
+
+  /**
+   * Embed every observation that has no vector for the current model
+   * (imports, edits, rows from before migration v6). Returns the number built.
+   */
+  sync(): number {
+    const missing = this._db
+      .query<{ id: number } & ObservationText, [string]>(
+        `SELECT o.id, o.title, o.narrative, o.compressed
+         FROM observations o
+         LEFT JOIN observation_vectors v ON v.observation_id = o.id AND v.model = ?
+         WHERE v.observation_id IS NULL`,
+      )
+      .all(VECTOR_MODEL);
+    if (missing.length === 0) return 0;
+
+    this._db.transaction(() => {
+      for (const row of missing) this.upsert(row.id, row);
+    })();
+    return missing.length;
+  }
+
+  /**
+   * Cosine-similarity search over live (non-trashed) observations — the
+   * `scanLimit` most recent plus `options.candidates` — best match first.
+   * Read-only: an observation without a current vector is not found.
+   */
+  search(query: string, options: VectorSearchOptions = {}): VectorHit[] {
+    const features = hashFeatures(query);
+    if (features.size === 0) return [];
+
+    const project = options.project ? 'AND s.project = ?' : '';
+    const projectParams = options.project ? [options.project] : [];
+    const rows = this._db
+      .query<{ id: number; vector: Uint8Array }, Array<string | number>>(
+        `SELECT v.observation_id AS id, v.vector
+         FROM observation_vectors v
+         JOIN observations o ON o.id = v.observation_id
+         JOIN sessions s     ON s.id = o.session_id
+         WHERE v.model = ? AND o.deleted_at IS NULL ${project}
+           AND (o.id IN (SELECT value FROM json_each(?))
+                OR o.id IN (SELECT o2.id FROM observations o2
+                            JOIN sessions s ON s.id = o2.session_id
+                            WHERE o2.deleted_at IS NULL ${project}
+                            ORDER BY o2.id DESC LIMIT ?))`,
+      )
+      .all(
+        VECTOR_MODEL,
+        ...projectParams,
+        JSON.stringify(options.candidates ?? []),
+        ...projectParams,
+        options.scanLimit ?? SCAN_LIMIT,
+      );
+    if (rows.length === 0) return [];
+
+    const docs = rows.map((r) => ({ id: r.id, vector: fromBlob(r.vector) }));
+
+    // IDF-weight the query by how many candidates use each of its buckets
+    const weighted = new Map<number, number>();
+    let norm = 0;
+    for (const [bucket, weight] of features) {
+      let df = 0;
+      for (const doc of docs) if (doc.vector[bucket] !== 0) df++;
+      const w = weight * (Math.log((docs.length + 1) / (df + 1)) + 1);
+      weighted.set(bucket, w);
+      norm += w * w;
+    }
+    norm = Math.sqrt(norm);
+    if (norm === 0) return [];
+
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    const hits: VectorHit[] = [];
+    for (const doc of docs) {
+      let dot = 0;
+      for (const [bucket, w] of weighted) dot += w * doc.vector[bucket];
+      const similarity = dot / norm;
+      if (similarity >= minSimilarity) hits.push({ id: doc.id, similarity });
+    }
+
+    return hits
+      .sort((a, b) => b.similarity - a.similarity || b.id - a.id)
+      .slice(0, options.limit ?? 20);
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
+
+/** bun:sqlite BLOBs may not be 4-byte aligned, so copy before viewing as Float32 */
+function fromBlob(blob: Uint8Array): Float32Array {
+  return new Float32Array(blob.slice().buffer);
+}
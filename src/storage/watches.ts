@@ -0,0 +1,165 @@
+/**
+ * Open-Mem Watches
+ *
+ * Saved searches that are evaluated against every newly processed
+ * observation. A watch is a query-language query (see query-parser.ts) with an
+ * optional project scope; the queue calls evaluate() after each observation
+ * is stored and the worker pushes one `watch-matched` SSE event per hit.
+ *
+ * Queries are validated on create/update, so evaluate() only ever sees
+ * queries that parse. Disabled watches are kept but never evaluated.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { parseQuery } from './query-parser.ts';
+import { SearchService, DEFAULT_HIGHLIGHT } from './search.ts';
+import type { HighlightOptions } from './search.ts';
+import type { SearchHighlight } from './types.ts';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface Watch {
+  id: number;
+  name: string;
+  query: string;
+  /** null = every project */
+  project: string | null;
+  enabled: boolean;
+  match_count: number;
+  last_matched_at: number | null; // Unix epoch seconds
+  created_at: number; // Unix epoch seconds
+  updated_at: number; // Unix epoch seconds
+}
+
+export interface WatchInput {
+  name: string;
+  query: string;
+  project?: string | null;
+  enabled?: boolean;
+}
+
+export type WatchPatch = Partial<WatchInput>;
+
+export interface WatchMatch extends SearchHighlight {
+  watch: Watch;
+  observation_id: number;
+  title: string | null;
+  obs_type: string;
+  project: string;
+}
+
+interface WatchRow extends Omit<Watch, 'enabled'> {
+  enabled: number;
+}
+
+// ─── Watch Service ────────────────────────────────────────────────────────────
+
+export class WatchService {
+  private readonly _db: Database;
+  private readonly _search: SearchService;
+
+  constructor(db: Database) {
+    this._db = db;
+    this._search = new SearchService(db);
+  }
+
+  /** All watches, oldest first. With `project`, only watches that apply to it. */
+  list(project?: string): Watch[] {
+    const rows = project
+      ? this._db
+          .query<WatchRow, [string]>(
+            'SELECT * FROM watches WHERE project IS NULL OR project = ? ORDER BY id',
+          )
+          .all(project)
+      : this._db.query<WatchRow, []>('SELECT * FROM watches ORDER BY id').all();
+    return rows.map(toWatch);
+  }
+
+  get(id: number): Watch | null {
+    const row = this._db.query<WatchRow, [number]>('SELECT * FROM watches WHERE id = ?').get(id);
+    return row ? toWatch(row) : null;
+  }
+
+  /** @throws QuerySyntaxError when `query` does not parse */
+  create(input: WatchInput): Watch {
+    parseQuery(input.query);
+    const result = this._db
+      .query(
+        `INSERT INTO watches (name, query, project, enabled)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(input.name, input.query, input.project || null, input.enabled === false ? 0 : 1);
+    return this.get(Number(result.lastInsertRowid)) as Watch;
+  }
+
+  /**
+   * Apply a partial update. Returns null if the watch does not exist.
+   * @throws QuerySyntaxError when a new `query` does not parse
+   */
+  update(id: number, patch: WatchPatch): Watch | null {
+    const current = this.get(id);
+    if (!current) return null;
+    if (patch.query !== undefined) parseQuery(patch.query);
+
+    this._db
+      .query(
+        `UPDATE watches
+         SET name = ?, query = ?, project = ?, enabled = ?, updated_at = unixepoch()
+         WHERE id = ?`,
+      )
+      .run(
+        patch.name ?? current.name,
+        patch.query ?? current.query,
+        patch.project !== undefined ? patch.project || null : current.project,
+        (patch.enabled ?? current.enabled) ? 1 : 0,
+        id,
+      );
+    return this.get(id);
+  }
+
+  /** Returns false if the watch does not exist. */
+  delete(id: number): boolean {
+    return this._db.query('DELETE FROM watches WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Test one observation against every enabled watch in its project.
+   * Matching watches have match_count / last_matched_at bumped and are
+   * returned with the observation's highlighted fields.
+   */
+  evaluate(observationId: number, highlight: HighlightOptions = DEFAULT_HIGHLIGHT): WatchMatch[] {
+    const obs = this._db
+      .query<{ title: string | null; obs_type: string; project: string }, [number]>(
+        `SELECT o.title, o.obs_type, s.project
+         FROM observations o
+         JOIN sessions s ON s.id = o.session_id
+         WHERE o.id = ? AND o.deleted_at IS NULL`,
+      )
+      .get(observationId);
+    if (!obs) return [];
+
+    const matches: WatchMatch[] = [];
+    for (const watch of this.list(obs.project)) {
+      if (!watch.enabled) continue;
+      const hit = this._search.matchObservation(watch.query, observationId, obs.project, highlight);
+      if (hit) matches.push({ watch, observation_id: observationId, ...obs, ...hit });
+    }
+    if (matches.length === 0) return matches;
+
+    const bump = this._db.query(
+      `UPDATE watches
+       SET match_count = match_count + 1, last_matched_at = unixepoch()
+       WHERE id = ?`,
+    );
+    this._db.transaction(() => {
+      for (const m of matches) bump.run(m.watch.id);
+    })();
+    return matches;
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function toWatch(row: WatchRow): Watch {
+  return { ...row, enabled: row.enabled === 1 };
+}
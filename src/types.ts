@@ -51,6 +51,185 @@ export interface WorkerConfig {
   maxSessionsPerContext: number;
   maxRetries: number;
   stuckThresholdMs: number;
+  retention: RetentionPolicy;
+  backup: BackupPolicy;
+  ranking: RankingPolicy;
+  llm: LlmPolicy;
+  batching: BatchingPolicy;
+  compressionCache: CompressionCachePolicy;
+  usage: UsagePolicy;
+  summarization: SummarizationPolicy;
+}
+
+/**
+ * Retention / pruning policy (settings.json → "retention").
+ * Age limits are in days; null disables that rule.
+ */
+export interface RetentionPolicy {
+  /** Run the pruning job on a schedule inside the worker */
+  enabled: boolean;
+  /** How often the scheduled job runs */
+  intervalMs: number;
+  /** obs_type → max age in days. "*" applies to every type without its own entry. */
+  observationMaxAgeDays: Record<string, number>;
+  /** Keep at most this many observations per project (newest win) */
+  maxObservationsPerProject: number | null;
+  summaryMaxAgeDays: number | null;
+  /** Purge window for queue rows in the 'processed' state */
+  processedQueueMaxAgeDays: number | null;
+  /** Purge window for queue rows in the 'failed' state */
+  failedQueueMaxAgeDays: number | null;
+}
+
+/**
+ * Snapshot schedule (settings.json → "backup").
+ * Snapshots are written to ~/.open-mem/backups/.
+ */
+export interface BackupPolicy {
+  /** Take snapshots on a schedule inside the worker */
+  enabled: boolean;
+  /** How often the scheduled snapshot runs */
+  intervalMs: number;
+  /** Number of most recent snapshots to keep */
+  keep: number;
+}
+
+/**
+ * Batch compression (settings.json → "batching").
+ * Queued observations of one session are compressed in a single LLM call.
+ */
+export interface BatchingPolicy {
+  enabled: boolean;
+  /** Most items sent in one call */
+  maxItems: number;
+  /** How long the queue waits for a batch to fill after an item arrives */
+  windowMs: number;
+}
+
+/**
+ * Compression response cache (settings.json → "compressionCache").
+ * Identical tool executions reuse an earlier LLM compression.
+ */
+export interface CompressionCachePolicy {
+  enabled: boolean;
+  /** Entries older than this are ignored and evicted */
+  ttlDays: number;
+  /** Least recently used entries beyond this are evicted */
+  maxEntries: number;
+}
+
+/**
+ * Session summarization (settings.json → "summarization").
+ * Sessions too long for one prompt are summarized chunk by chunk, then the
+ * chunk summaries are reduced into one. Active sessions also get rolling
+ * checkpoint summaries, each extending the previous one.
+ */
+export interface SummarizationPolicy {
+  /** Estimated prompt tokens of observations per chunk */
+  chunkTokens: number;
+  /** Checkpoint after this many new observations; null disables */
+  checkpointEvery: number | null;
+  /** Checkpoint new observations after this many minutes; null disables */
+  checkpointMinutes: number | null;
+}
+
+/**
+ * Hybrid search ranking (settings.json → "ranking").
+ * Used by GET /api/search (mode=hybrid) and the context builder.
+ */
+export interface RankingPolicy extends RankingSettings {
+  /** project → overrides merged over the top-level settings */
+  projects: Record<string, RankingOverride>;
+}
+
+export interface RankingSettings {
+  weights: RankingWeights;
+  /** Age at which an item gets half the recency credit */
+  halfLifeDays: number;
+  /** Reciprocal-rank-fusion constant k in 1 / (k + rank) */
+  rrfK: number;
+}
+
+/** Relative weight of each signal; 0 disables it */
+export interface RankingWeights {
+  bm25: number;
+  semantic: number;
+  type: number;
+  recency: number;
+}
+
+export interface RankingOverride {
+  weights?: Partial<RankingWeights>;
+  halfLifeDays?: number;
+  rrfK?: number;
+}
+
+/** Backend behind compressObservation() / summarizeSession() */
+export type LlmProviderType = "anthropic" | "openai" | "none";
+
+/** One named provider (settings.json → "llm" → "providers") */
+export interface LlmProviderSettings {
+  type: LlmProviderType;
+  /** Model id; null = the provider's default (Anthropic: OpenClaw's haiku model, else claude-haiku-4-5) */
+  model: string | null;
+  /** Model ids accepted for `model`; empty = any */
+  models: string[];
+  /** Per-request timeout */
+  timeoutMs: number;
+  /** openai: base URL up to and including /v1, e.g. http://127.0.0.1:11434/v1 */
+  baseUrl?: string;
+  /** openai: name of the env var holding the bearer token (the token itself never goes in settings.json) */
+  apiKeyEnv?: string;
+  /** Cheaper model used while a project is over its budget (usage.onExceeded = "downgrade") */
+  budgetModel?: string;
+  /** openai: the server supports the json_schema response format (default false → XML prompts) */
+  structuredOutput?: boolean;
+}
+
+/**
+ * LLM provider selection (settings.json → "llm").
+ * "anthropic" and "none" are always defined; entries with those names are
+ * merged over the built-in definitions.
+ */
+export interface LlmPolicy {
+  /** Provider used by projects without an entry in `projects` */
+  provider: string;
+  /** provider name → definition */
+  providers: Record<string, LlmProviderSettings>;
+  /** project → provider name */
+  projects: Record<string, string>;
+}
+
+/** USD per million tokens */
+export interface LlmPrice {
+  input: number;
+  output: number;
+}
+
+/** Spend limits in USD; null = unlimited. Days and months are UTC. */
+export interface LlmBudget {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+}
+
+/**
+ * LLM usage accounting and budgets (settings.json → "usage").
+ * Every compression and summary call is recorded in llm_usage with an
+ * estimated cost; GET /api/usage reports it.
+ */
+export interface UsagePolicy {
+  /** model id → price; calls to unpriced models cost 0 (e.g. local servers) */
+  prices: Record<string, LlmPrice>;
+  /** Limits for every project without an entry in `projects` */
+  budget: LlmBudget;
+  /** project → its own limits */
+  projects: Record<string, LlmBudget>;
+  /**
+   * What the queue does for a project over budget: use its provider's
+   * budgetModel ("downgrade" — stops instead if there is none), or make no
+   * model calls at all ("stop"). Summaries follow the same rule.
+   */
+  onExceeded: "downgrade" | "stop";
 }
 
 // ───────────────────────────────────────────────────────
@@ -100,6 +279,12 @@ export interface Observation {
   files_modified: string; // JSON array
   created_at: string;
   created_at_epoch: number;
+  /** Scrubbed tool input and response as JSON, kept for re-compression (write only) */
+  raw_input?: string;
+  /** Compression prompt version; null when compressed by rule */
+  prompt_version?: string | null;
+  /** LLM model id, or "rules" */
+  model?: string | null;
 }
 
 // ───────────────────────────────────────────────────────
@@ -119,6 +304,14 @@ export interface Summary {
   completed: string | null;
   next_steps: string | null;
   created_at: number; // Unix epoch seconds
+  /** Summary prompt version; null when built without an LLM */
+  prompt_version?: string | null;
+  /** LLM model id, or "rules" */
+  model?: string | null;
+  /** Rolling summary of a session in progress (one per session), not from the Stop / SessionEnd hooks */
+  checkpoint?: boolean;
+  /** Checkpoints: the newest observation they cover */
+  through_observation_id?: number | null;
 }
 
 /** Input passed to summarizeSession() in Builder A's summarizer */
@@ -143,6 +336,10 @@ export interface SessionSummary {
   notes: string;
   created_at: string;
   created_at_epoch: number;
+  prompt_version?: string | null;
+  model?: string | null;
+  /** See Summary.checkpoint */
+  checkpoint?: boolean;
 }
 
 export interface UserPrompt {
@@ -414,6 +611,41 @@ export interface BatchObservationsBody {
   limit?: number;
 }
 
+/** PATCH /api/observation/:id — every field is optional; omitted fields are unchanged */
+export interface ObservationPatchBody {
+  title?: string;
+  narrative?: string;
+  type?: string;
+  tags?: string[];
+  facts?: string[];
+  files_read?: string[];
+  files_modified?: string[];
+  /** Who made the change; the X-Open-Mem-Actor header takes precedence */
+  actor?: string;
+}
+
+/** POST /api/forget — criteria are ANDed; nothing is deleted unless confirm is true */
+export interface ForgetBody {
+  query?: string;
+  file?: string;
+  session_id?: string;
+  /** Epoch ms or ISO-8601 */
+  from?: number | string;
+  to?: number | string;
+  project?: string;
+  confirm?: boolean;
+}
+
+/** POST /api/watches (all of name + query required) and PATCH /api/watches/:id */
+export interface WatchBody {
+  name?: string;
+  /** Query-language query, e.g. "type:error migrations" */
+  query?: string;
+  /** Omit or null to watch every project */
+  project?: string | null;
+  enabled?: boolean;
+}
+
 export interface QueueRecoverBody {
   sessionId?: string; // optional: recover only for a specific session
 }
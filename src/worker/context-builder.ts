@@ -4,7 +4,8 @@
  * Builds the context markdown injected at session start.
  *
  * Progressive disclosure strategy:
- *   1. Session summaries first (compact, high-signal)
+ *   1. Session summaries first (compact, high-signal), one per session;
+ *      a session that never ended is shown by its latest checkpoint
  *   2. Recent individual observations (detailed)
  *
  * The output is wrapped in <c-mem-context>...</c-mem-context> tags to
@@ -17,9 +18,11 @@
 import type {
   ISessionStore,
   Observation,
+  RankingPolicy,
   SessionSummary,
 } from "../types.js";
 import { filterObservations } from "../storage/anomaly.js";
+import { DEFAULT_RANKING, rankHybrid, resolveRanking, textRanks } from "../storage/ranking.js";
 
 // ───────────────────────────────────────────────────────
 // Constants
@@ -27,20 +30,8 @@ import { filterObservations } from "../storage/anomaly.js";
 
 const DEFAULT_MAX_TOKENS = 1_200; // summary-first, small injection budget
 const CHARS_PER_TOKEN = 4; // rough estimate
-
-// Type priority — higher number = shown first
-const TYPE_PRIORITY: Record<string, number> = {
-  error:     9,
-  bugfix:    8,
-  decision:  7,
-  discovery: 6,
-  change:    5,
-  feature:   4,
-  refactor:  3,
-  config:    2,
-  research:  1,
-  other:     0,
-};
+/** Summaries fetched per session shown — Stop fires once per pause */
+const SUMMARIES_PER_SESSION = 5;
 
 // ───────────────────────────────────────────────────────
 // ContextBuilder
@@ -55,6 +46,8 @@ export interface ContextBuilderOptions {
   maxSessions?: number;
   /** Optional FTS topic — if provided, sorts obs by relevance not just recency */
   topic?: string;
+  /** Hybrid ranking weights (settings.json → "ranking"), resolved per project */
+  ranking?: RankingPolicy;
 }
 
 export interface BuiltContext {
@@ -70,6 +63,7 @@ export class ContextBuilder {
   private maxObservations: number;
   private maxSessions: number;
   private topic?: string;
+  private ranking: RankingPolicy;
 
   constructor(
     private readonly store: ISessionStore,
@@ -79,6 +73,7 @@ export class ContextBuilder {
     this.maxObservations = options.maxObservations ?? 8;
     this.maxSessions = options.maxSessions ?? 2;
     this.topic = options.topic;
+    this.ranking = options.ranking ?? DEFAULT_RANKING;
   }
 
   /**
@@ -100,8 +95,15 @@ export class ContextBuilder {
     usedChars += header.length;
 
     // ─── 2. Session summaries (compact, high-signal) ───
-    const { summaries: rawSummaries } = this.store.getSummaries(project, this.maxSessions, 0);
-    const summaries = this.rankSummaries(rawSummaries);
+    const { summaries: rawSummaries } = this.store.getSummaries(
+      project,
+      this.maxSessions * SUMMARIES_PER_SESSION,
+      0
+    );
+    const summaries = this.rankSummaries(
+      this.pickSessionSummaries(rawSummaries).slice(0, this.maxSessions),
+      project
+    );
     if (summaries.length > 0) {
       const summarySection = this.buildSummariesSection(summaries);
       if (usedChars + summarySection.length <= budget) {
@@ -127,8 +129,7 @@ export class ContextBuilder {
       const observations = filterObservations(rawObs)
         .filter((obs) => !isLowSignalObservation(obs, summaryCount > 0));
 
-      const prioritized = observations
-        .sort((a, b) => this.compareObservations(a, b));
+      const prioritized = this.rankObservations(observations, project);
 
       const selected = prioritized.slice(0, summaryCount > 0 ? Math.min(4, this.maxObservations) : this.maxObservations);
       if (selected.length > 0) {
@@ -171,47 +172,80 @@ export class ContextBuilder {
     ].join("\n");
   }
 
-  private rankSummaries(summaries: SessionSummary[]): SessionSummary[] {
-    return [...summaries].sort((a, b) => this.compareSummary(a, b));
-  }
+  /**
+   * One summary per session, newest first. A session that ended shows its
+   * latest final summary. One that never got a SessionEnd (crashed, or
+   * still running) shows its newest summary, the checkpoint on a tie.
+   */
+  private pickSessionSummaries(summaries: SessionSummary[]): SessionSummary[] {
+    const bySession = new Map<string, SessionSummary[]>();
+    for (const s of summaries) {
+      const rows = bySession.get(s.session_id) ?? [];
+      rows.push(s);
+      bySession.set(s.session_id, rows);
+    }
 
-  private compareSummary(a: SessionSummary, b: SessionSummary): number {
-    const byTopic = this.topicScore(b) - this.topicScore(a);
-    if (byTopic !== 0) return byTopic;
-    return (b.created_at_epoch ?? 0) - (a.created_at_epoch ?? 0);
-  }
+    const picked: SessionSummary[] = [];
+    for (const [sessionId, rows] of bySession) {
+      const ended = this.store.getSession(sessionId)?.status === "completed";
+      const candidates = ended && rows.some((s) => !s.checkpoint)
+        ? rows.filter((s) => !s.checkpoint)
+        : rows;
+      picked.push(
+        candidates.reduce((best, s) =>
+          s.created_at_epoch > best.created_at_epoch ||
+          (s.created_at_epoch === best.created_at_epoch && s.checkpoint && !best.checkpoint)
+            ? s
+            : best
+        )
+      );
+    }
 
-  private compareObservations(a: Observation, b: Observation): number {
-    const ta = this.topicScore(a);
-    const tb = this.topicScore(b);
-    if (tb !== ta) return tb - ta;
+    return picked.sort((a, b) => b.created_at_epoch - a.created_at_epoch);
+  }
 
-    const pa = TYPE_PRIORITY[a.type] ?? 0;
-    const pb = TYPE_PRIORITY[b.type] ?? 0;
-    if (pb !== pa) return pb - pa;
+  private rankSummaries(summaries: SessionSummary[], project: string): SessionSummary[] {
+    return this.rank(
+      summaries,
+      (s) => [s.request, s.work_done, s.discoveries, s.remaining, s.notes],
+      () => "summary",
+      project
+    );
+  }
 
-    return (b.created_at_epoch ?? 0) - (a.created_at_epoch ?? 0);
+  private rankObservations(observations: Observation[], project: string): Observation[] {
+    return this.rank(
+      observations,
+      (o) => [o.title, o.narrative, ...safeJsonParse<string[]>(o.facts, [])],
+      (o) => o.type,
+      project
+    );
   }
 
-  private topicScore(item: Pick<Observation, "title" | "narrative"> | Pick<SessionSummary, "request" | "work_done" | "discoveries" | "remaining" | "notes">): number {
-    if (!this.topic) return 0;
-
-    const haystack = [
-      "title" in item ? item.title : item.request,
-      "narrative" in item ? item.narrative : item.work_done,
-      "discoveries" in item ? item.discoveries : undefined,
-      "remaining" in item ? item.remaining : undefined,
-      "notes" in item ? item.notes : undefined,
-    ]
-      .filter(Boolean)
-      .join("\n")
-      .toLowerCase();
-
-    return this.topic
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((term) => term.length > 2)
-      .reduce((score, term) => score + (haystack.includes(term) ? 1 : 0), 0);
+  /**
+   * Order items with the shared hybrid ranking (storage/ranking.ts).
+   * Without a topic only type priority and recency apply.
+   */
+  private rank<T extends { created_at_epoch: number }>(
+    items: T[],
+    text: (item: T) => (string | undefined | null)[],
+    type: (item: T) => string,
+    project: string
+  ): T[] {
+    const ranks = this.topic
+      ? textRanks(this.topic, items.map((item) => text(item).filter(Boolean).join("\n")))
+      : null;
+    const ranked = rankHybrid(
+      items.map((_item, i) => i),
+      (i) => ({
+        bm25Rank: ranks?.bm25[i] ?? null,
+        semanticRank: ranks?.semantic[i] ?? null,
+        type: type(items[i]),
+        createdAt: Math.floor((items[i].created_at_epoch ?? 0) / 1000),
+      }),
+      resolveRanking(this.ranking, project)
+    );
+    return ranked.map((r) => items[r.item]);
   }
 
   private buildSummariesSection(summaries: SessionSummary[]): string {
@@ -221,8 +255,7 @@ export class ContextBuilder {
     ];
 
     for (const s of summaries) {
-      const date = new Date(s.created_at_epoch).toLocaleDateString("en-CA");
-      lines.push(`#### Session — ${date}`);
+      lines.push(summaryHeading(s));
       if (s.request) lines.push(`**Request:** ${s.request}`);
       if (s.work_done) lines.push(`**Done:** ${s.work_done}`);
       if (s.discoveries) lines.push(`**Discovered:** ${s.discoveries}`);
@@ -254,8 +287,7 @@ export class ContextBuilder {
   }
 
   private buildSummaryEntry(s: SessionSummary): string {
-    const date = new Date(s.created_at_epoch).toLocaleDateString("en-CA");
-    const parts: string[] = [`#### Session — ${date}`];
+    const parts: string[] = [summaryHeading(s)];
     if (s.request) parts.push(`**Request:** ${s.request}`);
     if (s.work_done) parts.push(`**Done:** ${s.work_done}`);
     if (s.remaining) parts.push(`**Remaining:** ${s.remaining}`);
@@ -324,6 +356,12 @@ function wrapInContextTag(content: string): string {
   return `<c-mem-context>\n${content}\n</c-mem-context>`;
 }
 
+/** Checkpoints are marked: the session ended without a final summary, or is still running */
+function summaryHeading(s: SessionSummary): string {
+  const date = new Date(s.created_at_epoch).toLocaleDateString("en-CA");
+  return `#### Session — ${date}${s.checkpoint ? " _(checkpoint, no final summary)_" : ""}`;
+}
+
 function isLowSignalObservation(obs: Observation, hasSummaries: boolean): boolean {
   const title = (obs.title ?? "").toLowerCase();
   const narrative = (obs.narrative ?? "").trim().toLowerCase();
@@ -5,6 +5,12 @@
  *
  * Guarantees:
  *   - Sequential processing per session (no concurrent agents on same session)
+ *   - Optional batching: up to N fresh items of a session, collected within a
+ *     short window, go to the batch processor in one call; items it does not
+ *     store fall back to the single-item processor
+ *   - Optional LLM budgets: a guard decides per project whether items use the
+ *     normal model, a cheaper one or no model at all (batching is skipped
+ *     for projects that make no model calls)
  *   - Max 3 retry attempts with exponential backoff (2s, 4s, 8s)
  *   - Stuck detection: >5min in "processing" → mark failed
  *   - On startup: loads pending/processing items from DB and requeues
@@ -14,6 +20,7 @@
 import { EventEmitter } from "events";
 import type { ISessionStore } from "../types.js";
 import { sseManager } from "./sse.js";
+import type { WatchMatchedEvent } from "./sse.js";
 
 // ───────────────────────────────────────────────────────
 // Types
@@ -28,6 +35,10 @@ export interface QueueMessage {
   toolResult: string;
   promptNumber?: number;
   retryCount: number;
+  /** When the item entered the in-memory queue (ms) — starts the batch window */
+  queuedAt?: number;
+  /** Set by the budget guard just before processing; absent = "normal" */
+  budgetMode?: BudgetMode;
 }
 
 /**
@@ -39,6 +50,40 @@ export type ObservationProcessor = (
   msg: QueueMessage
 ) => Promise<number>;
 
+/**
+ * Batch processor — handles several items of one session in one call.
+ * Returns queue ID → observation ID for every item it stored; the queue runs
+ * the rest through the single-item processor. It should not throw once it
+ * has stored anything: a throw sends the whole batch through again.
+ */
+export type BatchObservationProcessor = (
+  msgs: QueueMessage[]
+) => Promise<Map<number, number>>;
+
+export interface BatchOptions {
+  /** Most items per call */
+  maxItems: number;
+  /** How long to wait for a batch to fill, from its oldest item */
+  windowMs: number;
+}
+
+/**
+ * How a project may use the LLM right now:
+ *   normal    — its configured model
+ *   downgrade — over budget, use the provider's cheaper budget model
+ *   stop      — over budget, no model calls (rule-based compression)
+ */
+export type BudgetMode = "normal" | "downgrade" | "stop";
+
+/** Budget check — called with the item's project before it is processed */
+export type BudgetGuard = (project: string) => BudgetMode;
+
+/**
+ * Saved-search evaluator — called with each newly processed observation,
+ * returns one event per watch it matched.
+ */
+export type WatchEvaluator = (observationId: number) => WatchMatchedEvent[];
+
 export interface SessionDrainResult {
   pending: number;
   processing: number;
@@ -74,9 +119,23 @@ export class ObservationQueue extends EventEmitter {
 
   private pollTimer: ReturnType<typeof setTimeout> | null = null;
   private stuckTimer: ReturnType<typeof setInterval> | null = null;
+  private retryTimers = new Set<ReturnType<typeof setTimeout>>();
 
   private processor: ObservationProcessor | null = null;
 
+  private watchEvaluator: WatchEvaluator | null = null;
+
+  private batchProcessor: BatchObservationProcessor | null = null;
+  private batchOptions: BatchOptions = { maxItems: 1, windowMs: 0 };
+
+  /** Sessions someone is waiting on — their batches go out without waiting for the window */
+  private drainingSessions = new Set<string>();
+
+  private budgetGuard: BudgetGuard | null = null;
+
+  /** Last mode seen per project, to log and emit transitions once */
+  private budgetModes = new Map<string, BudgetMode>();
+
   constructor(private readonly store: ISessionStore) {
     super();
   }
@@ -103,6 +162,30 @@ export class ObservationQueue extends EventEmitter {
     console.log("[queue] Started");
   }
 
+  /** Evaluate saved watches against every observation processed from now on. */
+  setWatchEvaluator(evaluator: WatchEvaluator | null): void {
+    this.watchEvaluator = evaluator;
+  }
+
+  /**
+   * Enable batch mode (null turns it off). Batches need at least two items;
+   * a lone item is processed singly once its window has passed.
+   */
+  setBatchProcessor(processor: BatchObservationProcessor | null, options?: BatchOptions): void {
+    this.batchProcessor = processor;
+    if (options) this.batchOptions = options;
+  }
+
+  /**
+   * Check LLM budgets before every item (null turns it off). Each message
+   * gets the guard's verdict in `budgetMode`; a "budget-mode" event is
+   * emitted when a project's mode changes.
+   */
+  setBudgetGuard(guard: BudgetGuard | null): void {
+    this.budgetGuard = guard;
+    this.budgetModes.clear();
+  }
+
   stop(): void {
     this.running = false;
     if (this.pollTimer) clearTimeout(this.pollTimer);
@@ -112,6 +195,24 @@ export class ObservationQueue extends EventEmitter {
     console.log("[queue] Stopped");
   }
 
+  /**
+   * Stop, wait for in-flight items to finish, then drop all in-memory state
+   * (pending items and scheduled retries). Used before the database is swapped
+   * out underneath the queue — start() reloads pending work from the new DB.
+   * Returns false if in-flight items did not finish within the timeout.
+   */
+  async stopAndDrain(timeoutMs = 10_000): Promise<boolean> {
+    this.stop();
+    const startedAt = Date.now();
+    while (this.processingBySession.size > 0 && (Date.now() - startedAt) < timeoutMs) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    for (const timer of this.retryTimers) clearTimeout(timer);
+    this.retryTimers.clear();
+    this.pendingItems = [];
+    return this.processingBySession.size === 0;
+  }
+
   // ─────────────────────────────────────
   // Public API
   // ─────────────────────────────────────
@@ -151,6 +252,7 @@ export class ObservationQueue extends EventEmitter {
       toolResult: truncated,
       promptNumber,
       retryCount: 0,
+      queuedAt: Date.now(),
     };
     this.pendingItems.push(msg);
 
@@ -212,13 +314,18 @@ export class ObservationQueue extends EventEmitter {
     const pollIntervalMs = Math.max(25, options.pollIntervalMs ?? 50);
     const startedAt = Date.now();
 
+    this.drainingSessions.add(sessionId);
     this.refillFromDb();
     if (this.running) this.processSoon();
 
     let counts = this.store.getQueueCountsBySession(sessionId);
-    while ((counts.pending > 0 || counts.processing > 0) && (Date.now() - startedAt) < timeoutMs) {
-      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
-      counts = this.store.getQueueCountsBySession(sessionId);
+    try {
+      while ((counts.pending > 0 || counts.processing > 0) && (Date.now() - startedAt) < timeoutMs) {
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        counts = this.store.getQueueCountsBySession(sessionId);
+      }
+    } finally {
+      this.drainingSessions.delete(sessionId);
     }
 
     return {
@@ -259,18 +366,92 @@ export class ObservationQueue extends EventEmitter {
     // Launch processing for each available session (sequential within session)
     const promises: Promise<void>[] = [];
     for (const item of available) {
-      if (!this.processingBySession.has(item.sessionId)) {
-        // Remove from pending list
-        const idx = this.pendingItems.indexOf(item);
-        if (idx !== -1) this.pendingItems.splice(idx, 1);
+      if (this.processingBySession.has(item.sessionId)) continue;
 
-        promises.push(this.processItem(item));
+      const mode = this.checkBudget(item.sessionId);
+
+      // Batching only saves round-trips when there are model calls to make
+      if (this.batching() && item.retryCount === 0 && mode !== "stop") {
+        const group = this.takeBatch(item.sessionId);
+        if (group === null) continue; // window still open — wait for more items
+        for (const msg of group) msg.budgetMode = mode;
+        promises.push(group.length > 1 ? this.processGroup(group) : this.processItem(group[0]));
+        continue;
       }
+
+      // Remove from pending list
+      const idx = this.pendingItems.indexOf(item);
+      if (idx !== -1) this.pendingItems.splice(idx, 1);
+
+      item.budgetMode = mode;
+      promises.push(this.processItem(item));
     }
 
     await Promise.allSettled(promises);
   }
 
+  private batching(): boolean {
+    return this.batchProcessor !== null && this.batchOptions.maxItems > 1;
+  }
+
+  /**
+   * Remove and return the session's next batch of fresh items, or null while
+   * the batch is neither full nor past its window.
+   */
+  private takeBatch(sessionId: string): QueueMessage[] | null {
+    const { maxItems, windowMs } = this.batchOptions;
+    const fresh = this.pendingItems.filter(
+      (p) => p.sessionId === sessionId && p.retryCount === 0
+    );
+    const oldest = Math.min(...fresh.map((p) => p.queuedAt ?? 0));
+    const waiting = fresh.length < maxItems && Date.now() - oldest < windowMs;
+    if (waiting && !this.drainingSessions.has(sessionId)) return null;
+
+    const group = fresh.slice(0, maxItems);
+    this.pendingItems = this.pendingItems.filter((p) => !group.includes(p));
+    return group;
+  }
+
+  /**
+   * Send a batch to the batch processor, then run whatever it did not store
+   * through the single-item processor (with the usual retries).
+   */
+  private async processGroup(msgs: QueueMessage[]): Promise<void> {
+    if (!this.batchProcessor) return;
+
+    // Acquire session lock for the whole batch
+    this.processingBySession.set(msgs[0].sessionId, msgs[0].queueId);
+    for (const msg of msgs) this.store.updateQueueStatus(msg.queueId, "processing");
+
+    let stored = new Map<number, number>();
+    try {
+      stored = await this.batchProcessor(msgs);
+    } catch (err) {
+      console.warn(
+        `[queue] Batch of ${msgs.length} for session ${msgs[0].sessionId} failed, processing singly: ${err}`
+      );
+    }
+
+    const leftover: QueueMessage[] = [];
+    for (const msg of msgs) {
+      const observationId = stored.get(msg.queueId);
+      if (observationId === undefined) leftover.push(msg);
+      else this.markProcessed(msg, observationId);
+    }
+    if (stored.size > 0) {
+      console.log(
+        `[queue] Batch stored ${stored.size}/${msgs.length} item(s) for session ${msgs[0].sessionId}`
+      );
+    }
+
+    // processItem() takes and releases the lock per item; the session stays
+    // busy because each continuation runs before any new poll.
+    for (const msg of leftover) {
+      await this.processItem(msg);
+    }
+    this.processingBySession.delete(msgs[0].sessionId);
+  }
+
   private async processItem(msg: QueueMessage): Promise<void> {
     if (!this.processor) return;
 
@@ -280,23 +461,7 @@ export class ObservationQueue extends EventEmitter {
 
     try {
       const observationId = await this.processor(msg.queueId, msg);
-
-      // Success
-      this.store.updateQueueStatus(msg.queueId, "processed");
-      this.emit("observation-processed", {
-        observationId,
-        queueId: msg.queueId,
-        sessionId: msg.sessionId,
-      });
-
-      sseManager.notifyObservationProcessed({
-        observationId,
-        queueId: msg.queueId,
-        sessionId: msg.sessionId,
-        project: this.getProject(msg.sessionId),
-        title: "",
-        kind: "",
-      });
+      this.markProcessed(msg, observationId);
     } catch (err) {
       await this.handleProcessingError(msg, err);
     } finally {
@@ -305,6 +470,27 @@ export class ObservationQueue extends EventEmitter {
     }
   }
 
+  /** Record success and notify listeners, SSE clients and watches */
+  private markProcessed(msg: QueueMessage, observationId: number): void {
+    this.store.updateQueueStatus(msg.queueId, "processed");
+    this.emit("observation-processed", {
+      observationId,
+      queueId: msg.queueId,
+      sessionId: msg.sessionId,
+    });
+
+    sseManager.notifyObservationProcessed({
+      observationId,
+      queueId: msg.queueId,
+      sessionId: msg.sessionId,
+      project: this.getProject(msg.sessionId),
+      title: "",
+      kind: "",
+    });
+
+    this.notifyWatches(observationId);
+  }
+
   private async handleProcessingError(
     msg: QueueMessage,
     err: unknown
@@ -327,7 +513,8 @@ export class ObservationQueue extends EventEmitter {
       );
       this.store.updateQueueStatus(msg.queueId, "pending");
 
-      setTimeout(() => {
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
         const retryMsg: QueueMessage = {
           ...msg,
           retryCount: newRetryCount,
@@ -335,6 +522,7 @@ export class ObservationQueue extends EventEmitter {
         this.pendingItems.push(retryMsg);
         if (this.running) this.processSoon();
       }, delayMs);
+      this.retryTimers.add(timer);
     }
   }
 
@@ -396,6 +584,7 @@ export class ObservationQueue extends EventEmitter {
         toolInput: item.tool_input,
         toolResult: item.tool_response,
         retryCount: item.retry_count,
+        queuedAt: Date.now(),
       };
       // Avoid duplicates
       if (!this.pendingItems.some((p) => p.queueId === msg.queueId)) {
@@ -412,6 +601,40 @@ export class ObservationQueue extends EventEmitter {
   // Helpers
   // ─────────────────────────────────────
 
+  /** The guard's verdict for the session's project; a failing guard means "normal" */
+  private checkBudget(sessionId: string): BudgetMode {
+    if (!this.budgetGuard) return "normal";
+    const project = this.getProject(sessionId);
+    let mode: BudgetMode;
+    try {
+      mode = this.budgetGuard(project);
+    } catch (err) {
+      console.error(`[queue] Budget check failed for project ${project}: ${err}`);
+      return "normal";
+    }
+
+    const previous = this.budgetModes.get(project) ?? "normal";
+    this.budgetModes.set(project, mode);
+    if (mode !== previous) {
+      console.log(`[queue] LLM budget mode for ${project || "unknown project"}: ${previous} → ${mode}`);
+      this.emit("budget-mode", { project, mode, previous });
+    }
+    return mode;
+  }
+
+  /** Push watch-matched events; a failing watch never fails the item */
+  private notifyWatches(observationId: number): void {
+    if (!this.watchEvaluator) return;
+    try {
+      for (const match of this.watchEvaluator(observationId)) {
+        this.emit("watch-matched", match);
+        sseManager.notifyWatchMatched(match);
+      }
+    } catch (err) {
+      console.error(`[queue] Watch evaluation failed for observation ${observationId}: ${err}`);
+    }
+  }
+
   /** Retrieve project for a session (best effort, returns empty string if not found) */
   private getProject(sessionId: string): string {
     try {
@@ -7,22 +7,62 @@
  *   - CORS: only http://localhost:{port} and http://127.0.0.1:{port}
  *   - Request body: 100KB max
  *   - Rate limiting: 100 req/s per IP (token bucket)
- *   - Content-Type: application/json required for all POST/PUT routes
+ *   - Content-Type: application/json required for all POST/PUT/PATCH routes
  *   - SSE: same localhost-only restriction
  */
 
 import { Hono } from "hono";
 import { streamSSE } from "hono/streaming";
 import { cors } from "hono/cors";
-import { db, search, initDb } from "../storage/db.js";
+import { join } from "path";
+import { db, search, initDb, getDb, restoreDb } from "../storage/db.js";
+import type { CMemDb } from "../storage/db.js";
+import { SearchService, DEFAULT_HIGHLIGHT, CursorError, compactResult } from "../storage/search.js";
+import type { HighlightOptions, SpellingSuggestion } from "../storage/search.js";
+import { RetentionService } from "../storage/retention.js";
+import { ForgetService } from "../storage/forget.js";
+import { exportProject, importProject } from "../storage/portable.js";
+import { BackupService, validateSnapshot } from "../storage/backup.js";
+import { FileIndexService } from "../storage/files.js";
+import { WatchService } from "../storage/watches.js";
+import { CommandService, parseCommandRun } from "../storage/commands.js";
+import { CompressionCacheService } from "../storage/compression-cache.js";
+import { UsageService, estimateCostUsd } from "../storage/usage.js";
+import { ReprocessService } from "../storage/reprocess.js";
+import type { ReprocessRun } from "../storage/reprocess.js";
+import { SummaryChunkService } from "../storage/summary-chunks.js";
+import { CheckpointService } from "../storage/checkpoints.js";
+import type { DueCheckpoint } from "../storage/checkpoints.js";
+import type { Watch } from "../storage/watches.js";
+import { QuerySyntaxError } from "../storage/query-parser.js";
+import { resolveRanking } from "../storage/ranking.js";
+import type {
+  HybridSearchResult,
+  ScopedSearchResult,
+  SearchFacets,
+  SearchScope,
+} from "../storage/types.js";
+import { isKnownObsType } from "../storage/anomaly.js";
 import { sseManager, isLocalhost, generateClientId } from "./sse.js";
 import { ObservationQueue } from "./queue.js";
-import type { ObservationProcessor, QueueMessage } from "./queue.js";
+import type {
+  BatchObservationProcessor,
+  BudgetGuard,
+  BudgetMode,
+  ObservationProcessor,
+  QueueMessage,
+} from "./queue.js";
 import { ContextBuilder } from "./context-builder.js";
-import { compressObservation } from "../sdk/compressor.js";
-import { summarizeSession } from "../sdk/summarizer.js";
+import { compressObservation, compressObservationBatch } from "../sdk/compressor.js";
+import { extendSummary, summarizeSession } from "../sdk/summarizer.js";
+import type { SummaryFields } from "../sdk/structured-output.js";
+import { MeteredProvider, NoneProvider, resolveProvider } from "../sdk/providers.js";
+import type { LlmCall, LlmProvider } from "../sdk/providers.js";
+import { RULES_MODEL, compressWithRules } from "../sdk/rule-compressor.js";
+import { COMPRESSION_PROMPT_VERSION, SUMMARY_PROMPT_VERSION } from "../sdk/prompts.js";
 import { loadOpenClawConfig } from "../sdk/openclaw-config.js";
 import { DEFAULT_CONFIG } from "../types.js";
+import { loadConfig } from "../config.js";
 import { ensureAuthToken, verifyBearer, TOKEN_PATH } from "../auth/token.js";
 import type {
   SessionInitBody,
@@ -31,6 +71,13 @@ import type {
   CompleteBody,
   BatchObservationsBody,
   QueueRecoverBody,
+  ObservationPatchBody,
+  ForgetBody,
+  WatchBody,
+  RawObservation,
+  CompressedObservation,
+  LlmBudget,
+  Summary,
 } from "../types.js";
 
 // ───────────────────────────────────────────────────────
@@ -54,7 +101,17 @@ const HOST = (() => {
 })();
 const DATA_DIR = process.env["C_MEM_DATA_DIR"] ?? DEFAULT_CONFIG.dataDir;
 const MAX_BODY_BYTES = DEFAULT_CONFIG.maxBodyBytes;
+/** POST /api/import carries a whole project, so it gets its own ceiling */
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
 const RATE_LIMIT_RPS = DEFAULT_CONFIG.rateLimit;
+const SEARCH_SCOPES = new Set(["observations", "summaries", "prompts", "all"]);
+const SEARCH_MODES = new Set(["hybrid", "keyword", "semantic"]);
+/** Longest accepted highlight_start / highlight_end / ellipsis marker */
+const MAX_MARKER_CHARS = 16;
+
+// settings.json — the worker reads its policy blocks (llm, batching, compressionCache, usage,
+// summarization, ranking, retention, backup) from here; port and host come from the env above
+const SETTINGS = loadConfig();
 
 const START_TIME = Date.now();
 
@@ -70,15 +127,191 @@ const contextBuilder = new ContextBuilder(db, {
   maxTokens: 1_200,
   maxObservations: 8,
   maxSessions: 2,
+  ranking: SETTINGS.ranking,
 });
 
-const AUTO_SUMMARIZE_EVERY = 8;
+/** Built per call so it always wraps the current connection */
+function retentionService(): RetentionService {
+  const rawDb = (getDb() as CMemDb).rawDb;
+  return new RetentionService(rawDb, new SearchService(rawDb));
+}
+
+function watchService(): WatchService {
+  return new WatchService((getDb() as CMemDb).rawDb);
+}
+
+function compressionCacheService(): CompressionCacheService {
+  return new CompressionCacheService(
+    (getDb() as CMemDb).rawDb,
+    SETTINGS.compressionCache,
+    COMPRESSION_PROMPT_VERSION
+  );
+}
+
+/** The cache handed to the compressor; undefined when settings.json disables it */
+function compressionCache(): CompressionCacheService | undefined {
+  return SETTINGS.compressionCache.enabled ? compressionCacheService() : undefined;
+}
+
+function usageService(): UsageService {
+  return new UsageService((getDb() as CMemDb).rawDb);
+}
+
+function reprocessService(): ReprocessService {
+  return new ReprocessService((getDb() as CMemDb).rawDb);
+}
+
+function summaryChunkService(): SummaryChunkService {
+  return new SummaryChunkService((getDb() as CMemDb).rawDb, SUMMARY_PROMPT_VERSION);
+}
+
+function checkpointService(): CheckpointService {
+  return new CheckpointService((getDb() as CMemDb).rawDb);
+}
+
+function backupService(): BackupService {
+  return new BackupService(join(DATA_DIR, "backups"), SETTINGS.backup.keep);
+}
+
+/** Set while POST /api/backups/restore has the queue stopped */
+let restoreInProgress = false;
+
+// ─── LLM usage and budgets ───────────────────────────────────────────────────
+
+/** Spend limits for `project` (settings.json → "usage") */
+function budgetFor(project: string): LlmBudget {
+  return SETTINGS.usage.projects[project] ?? SETTINGS.usage.budget;
+}
+
+/** Checked by the queue before every item, and before every summary */
+const budgetGuard: BudgetGuard = (project) => {
+  const budget = budgetFor(project);
+  if (budget.dailyUsd === null && budget.monthlyUsd === null) return "normal";
+  return usageService().budgetStatus(project, budget).exceeded ? SETTINGS.usage.onExceeded : "normal";
+};
+
+/**
+ * The provider `project` may use under its budget mode, with every call
+ * recorded in llm_usage. "stop" — and "downgrade" without a budget model —
+ * yield an unavailable provider, so callers fall back to rules.
+ */
+function llmProvider(project: string, mode: BudgetMode = "normal"): LlmProvider {
+  if (mode === "stop") return new NoneProvider();
+  const provider = resolveProvider(SETTINGS.llm, project, mode === "downgrade");
+  return new MeteredProvider(provider, (call) => recordLlmCall(project, call));
+}
+
+/** Accounting never fails a compression or summary */
+function recordLlmCall(project: string, call: LlmCall): void {
+  try {
+    usageService().record({
+      project,
+      provider: call.provider,
+      model: call.model,
+      purpose: call.purpose,
+      input_tokens: call.inputTokens,
+      output_tokens: call.outputTokens,
+      latency_ms: call.latencyMs,
+      cost_usd: estimateCostUsd(call.model, call.inputTokens, call.outputTokens, SETTINGS.usage.prices),
+      ok: call.ok,
+    });
+  } catch (err) {
+    console.warn(`[usage] Failed to record LLM call for ${project}: ${err}`);
+  }
+}
+
+// ─── Reprocessing ────────────────────────────────────────────────────────────
+
+/**
+ * Re-compress a run's observations one at a time with the current prompt,
+ * staging each result (see storage/reprocess.ts) and reporting progress
+ * over SSE. Stops early when the run is discarded, and fails it when a
+ * project has no LLM to use: the rules would only reproduce what is stored.
+ * For the same reason an observation the LLM fails on is counted as failed,
+ * never staged as a rule-based compression.
+ */
+async function runReprocess(runId: number, observationIds: number[]): Promise<void> {
+  const notify = (run: ReprocessRun | null) => {
+    if (!run) return;
+    sseManager.notifyReprocess({
+      runId: run.id,
+      project: run.project,
+      status: run.status,
+      total: run.total,
+      processed: run.processed,
+      failed: run.failed,
+      skipped: run.skipped,
+      error: run.error,
+    });
+  };
+
+  let error: string | undefined;
+  try {
+    for (const observationId of observationIds) {
+      const service = reprocessService();
+      if (service.get(runId)?.status !== "running") return;
+
+      const candidate = service.candidate(observationId);
+      if (!candidate) {
+        service.recordSkip(runId);
+      } else {
+        const { project } = candidate.raw;
+        const provider = llmProvider(project, budgetGuard(project));
+        if (!provider.isAvailable()) {
+          error = `No LLM provider available for project "${project}"`;
+          break;
+        }
+        try {
+          const compressed = await compressObservation(candidate.raw, provider, compressionCache());
+          service.stage(runId, observationId, compressed, provider.model ?? provider.name);
+        } catch (err) {
+          service.recordFailure(runId);
+          console.warn(`[reprocess] Run ${runId}: observation ${observationId} failed: ${err}`);
+        }
+      }
+      notify(service.get(runId));
+    }
+  } catch (err) {
+    error = String(err);
+  }
+
+  const run = reprocessService().finish(runId, error);
+  if (run?.status === "failed") console.warn(`[reprocess] Run ${runId} failed: ${run.error}`);
+  else console.log(`[reprocess] Run ${runId} ready for review (${run?.processed ?? 0} re-compressed)`);
+  notify(run);
+}
+
 const MIN_SUMMARIZABLE_OBSERVATIONS = 3;
 const SUMMARY_QUEUE_BARRIER_MS = 1_500;
 const SUMMARY_QUEUE_RETRY_MS = 12_000;
 const SUMMARY_QUEUE_POLL_MS = 50;
 const deferredSummaryRetries = new Set<string>();
 
+/** Summaries and checkpoints still writing; a restore waits for them */
+const backgroundWork = new Set<Promise<unknown>>();
+
+function trackBackground<T>(work: Promise<T>): Promise<T> {
+  backgroundWork.add(work);
+  void work.finally(() => backgroundWork.delete(work)).catch(() => {});
+  return work;
+}
+
+/** Wait until no tracked background work is left. False if `timeoutMs` ran out first. */
+async function settleBackgroundWork(timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (backgroundWork.size > 0) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      Promise.allSettled([...backgroundWork]),
+      new Promise((resolve) => { timer = setTimeout(resolve, remaining); }),
+    ]);
+    clearTimeout(timer);
+  }
+  return true;
+}
+
 function buildDeterministicSummary(input: {
   session_id: string;
   project: string;
@@ -119,15 +352,11 @@ function buildDeterministicSummary(input: {
     notes: "deterministic fallback summary",
     created_at: new Date().toISOString(),
     created_at_epoch: Date.now(),
+    prompt_version: null,
+    model: RULES_MODEL,
   };
 }
 
-function countSignificantObservations(observations: ReturnType<typeof db.getObservationsBySession>): number {
-  return observations.filter(
-    (obs) => obs.type !== "other" || !/passthrough|session prompt #0/i.test(obs.title)
-  ).length;
-}
-
 function requestSessionSummary(input: {
   session_id: string;
   project: string;
@@ -143,20 +372,168 @@ function requestSessionSummary(input: {
     console.log(`[server] Stored deterministic summary for ${input.session_id}`);
   };
 
-  if (!process.env["ANTHROPIC_API_KEY"]) {
+  const provider = llmProvider(input.project, budgetGuard(input.project));
+  if (!provider.isAvailable()) {
     fallback();
     return;
   }
 
-  summarizeSession(input, sessionDbId)
-    .then((summary) => {
-      db.insertSummary(summary);
-      console.log(`[server] Session ${input.session_id} summarized (${input.observations.length} obs)`);
+  void trackBackground(
+    summarizeSession(input, sessionDbId, provider, {
+      chunkTokens: SETTINGS.summarization.chunkTokens,
+      chunkStore: summaryChunkService(),
     })
-    .catch((err) => {
-      console.warn(`[server] Summarization failed for ${input.session_id}: ${err}`);
-      fallback();
+      .then((summary) => {
+        db.insertSummary(summary);
+        console.log(`[server] Session ${input.session_id} summarized (${input.observations.length} obs)`);
+      })
+      .catch((err) => {
+        console.warn(`[server] Summarization failed for ${input.session_id}: ${err}`);
+        fallback();
+      })
+  );
+}
+
+// ─── Checkpoints ─────────────────────────────────────────────────────────────
+
+const CHECKPOINT_SWEEP_MS = 60_000;
+const checkpointsInFlight = new Set<number>();
+let checkpointSweepRunning = false;
+
+/** Summary text fields of a stored summary; empty ones read "None" */
+function summaryFieldsOf(summary: {
+  request: string | null;
+  investigated: string | null;
+  learned: string | null;
+  completed: string | null;
+  next_steps: string | null;
+}): SummaryFields {
+  return {
+    request: summary.request || "None",
+    investigated: summary.investigated || "None",
+    learned: summary.learned || "None",
+    completed: summary.completed || "None",
+    next_steps: summary.next_steps || "None",
+  };
+}
+
+/**
+ * Write the next rolling checkpoint of an active session. The current
+ * checkpoint is extended with the observations recorded since; without one
+ * to extend (first checkpoint, built by rule or by an older prompt, or
+ * imported) the session is summarized from scratch. Without a usable
+ * provider a deterministic checkpoint is stored; when the LLM fails, nothing is. Skipped while a backup
+ * restore swaps the database.
+ */
+function writeCheckpoint(due: DueCheckpoint): Promise<void> {
+  if (restoreInProgress || checkpointsInFlight.has(due.session_id)) return Promise.resolve();
+  checkpointsInFlight.add(due.session_id);
+  return trackBackground(storeCheckpoint(due));
+}
+
+async function storeCheckpoint(due: DueCheckpoint): Promise<void> {
+  try {
+    const service = checkpointService();
+    const observations = db.getObservationsBySession(due.claude_session_id);
+    if (observations.length === 0) return;
+
+    const previous = service.latest(due.session_id);
+    const since =
+      previous?.through_observation_id != null && previous.prompt_version === SUMMARY_PROMPT_VERSION
+        ? previous.through_observation_id
+        : null;
+    const session = db.getSession(due.claude_session_id);
+    const input = {
+      session_id: due.claude_session_id,
+      project: due.project,
+      observations: since === null ? observations : observations.filter((obs) => obs.id > since),
+      prompt_number: session?.prompt_counter ?? observations.length,
+      last_user_message: `Project: ${due.project}. Tool session in progress.`,
+      last_assistant_message: `Last tool: ${observations[0].tool_name}`,
+    };
+    const options = {
+      chunkTokens: SETTINGS.summarization.chunkTokens,
+      chunkStore: summaryChunkService(),
+    };
+
+    const provider = llmProvider(due.project, budgetGuard(due.project));
+    let summary: Omit<Summary, "id" | "created_at">;
+    if (!provider.isAvailable()) {
+      const fallback = buildDeterministicSummary({ ...input, observations });
+      summary = {
+        session_id: due.session_id,
+        request: fallback.request,
+        investigated: "None",
+        learned: fallback.discoveries,
+        completed: fallback.work_done,
+        next_steps: fallback.remaining,
+        prompt_version: null,
+        model: RULES_MODEL,
+      };
+    } else if (previous && since !== null) {
+      summary = await extendSummary(summaryFieldsOf(previous), input, due.session_id, provider, options);
+    } else {
+      summary = await summarizeSession(input, due.session_id, provider, options);
+      // Its placeholder after every attempt failed must not replace a good checkpoint
+      if (summary.model === RULES_MODEL) throw new Error("summary generation failed on every attempt");
+    }
+
+    const summaryId = service.save({
+      session_id: due.session_id,
+      request: summary.request,
+      investigated: summary.investigated,
+      learned: summary.learned,
+      completed: summary.completed,
+      next_steps: summary.next_steps,
+      prompt_version: summary.prompt_version ?? null,
+      model: summary.model ?? null,
+      through_observation_id: Math.max(...observations.map((obs) => obs.id)),
+    });
+    sseManager.notifySummaryCreated({
+      summaryId,
+      sessionId: due.claude_session_id,
+      project: due.project,
+      request: summary.request ?? "",
+      checkpoint: true,
     });
+    console.log(
+      `[checkpoint] Session ${due.claude_session_id}: checkpoint ${summaryId} ` +
+        `(${due.pending} new observations, ${due.reason})`
+    );
+  } catch (err) {
+    console.warn(`[checkpoint] Failed for ${due.claude_session_id}: ${err}`);
+  } finally {
+    checkpointsInFlight.delete(due.session_id);
+  }
+}
+
+/** Checkpoint one session if settings.json → summarization says it is due */
+function checkpointIfDue(sessionDbId: number): void {
+  try {
+    const [due] = checkpointService().due(SETTINGS.summarization, {
+      sessionId: sessionDbId,
+      minObservations: MIN_SUMMARIZABLE_OBSERVATIONS,
+    });
+    if (due) void writeCheckpoint(due);
+  } catch (err) {
+    console.warn(`[checkpoint] Could not check session ${sessionDbId}: ${err}`);
+  }
+}
+
+/** Timer: checkpoint every active session that is due, one at a time */
+async function runCheckpointSweep(): Promise<void> {
+  if (checkpointSweepRunning || restoreInProgress) return;
+  checkpointSweepRunning = true;
+  try {
+    const due = checkpointService().due(SETTINGS.summarization, {
+      minObservations: MIN_SUMMARIZABLE_OBSERVATIONS,
+    });
+    for (const session of due) await writeCheckpoint(session);
+  } catch (err) {
+    console.error(`[checkpoint] Sweep failed: ${err}`);
+  } finally {
+    checkpointSweepRunning = false;
+  }
 }
 
 function hasActiveQueueWork(counts: { pending: number; processing: number }): boolean {
@@ -197,6 +574,10 @@ function scheduleDeferredSummaryRetry(input: {
         timeoutMs: SUMMARY_QUEUE_RETRY_MS,
         pollIntervalMs: SUMMARY_QUEUE_POLL_MS,
       });
+      if (restoreInProgress) {
+        console.log(`[server] Deferred ${reason} summary dropped for ${input.session_id}: backup restore in progress`);
+        return;
+      }
       const session = db.getSession(input.session_id);
       if (!session) return;
 
@@ -301,8 +682,8 @@ app.use(
       }
       return null; // reject everything else
     },
-    allowMethods: ["GET", "POST", "OPTIONS"],
-    allowHeaders: ["Content-Type"],
+    allowMethods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
+    allowHeaders: ["Content-Type", "X-Open-Mem-Actor"],
     credentials: false,
   })
 );
@@ -328,11 +709,12 @@ app.use("*", async (c, next) => {
   return next();
 });
 
-/** Request body size limit — reject > 100KB */
+/** Request body size limit — reject > 100KB (import: 50MB) */
 app.use("*", async (c, next) => {
   const contentLength = c.req.raw.headers.get("content-length");
-  if (contentLength && parseInt(contentLength, 10) > MAX_BODY_BYTES) {
-    return c.json({ error: "Request body too large (max 100KB)" }, 413);
+  const limit = c.req.path === "/api/import" ? MAX_IMPORT_BYTES : MAX_BODY_BYTES;
+  if (contentLength && parseInt(contentLength, 10) > limit) {
+    return c.json({ error: `Request body too large (max ${limit} bytes)` }, 413);
   }
   return next();
 });
@@ -348,11 +730,12 @@ app.use("*", async (c, next) => {
   return next();
 });
 
-/** JSON Content-Type enforcement for POST routes */
+/** JSON Content-Type enforcement for POST/PUT/PATCH routes */
 app.use("/api/*", async (c, next) => {
-  if (c.req.method === "POST" || c.req.method === "PUT") {
+  if (c.req.method === "POST" || c.req.method === "PUT" || c.req.method === "PATCH") {
     const ct = c.req.header("content-type") ?? "";
-    if (!ct.includes("application/json")) {
+    const ndjsonOk = c.req.path === "/api/import" && ct.includes("application/x-ndjson");
+    if (!ct.includes("application/json") && !ndjsonOk) {
       return c.json(
         { error: "Content-Type must be application/json" },
         415
@@ -410,7 +793,13 @@ app.get("/api/context", (c) => {
   const topic = c.req.query("topic") ?? c.req.query("q") ?? undefined;
 
   const builder = topic
-    ? new ContextBuilder(db, { maxTokens: 1_200, maxObservations: 8, maxSessions: 2, topic })
+    ? new ContextBuilder(db, {
+        maxTokens: 1_200,
+        maxObservations: 8,
+        maxSessions: 2,
+        topic,
+        ranking: SETTINGS.ranking,
+      })
     : contextBuilder;
 
   const result = builder.build(project);
@@ -617,7 +1006,13 @@ app.post("/api/sessions/complete", async (c) => {
 });
 
 // ─────────────────────────────────────
-// P0: GET /api/search
+// P0: GET /api/search — ?scope=observations (default) | summaries | prompts | all
+// q uses the query language in storage/query-parser.ts; malformed → 400
+// mode=hybrid (default) fuses BM25, vectors, type and recency (storage/ranking.ts);
+// keyword = BM25 only, semantic = local vector index only; debug=1 adds `ranking`
+// Hits carry an FTS5 snippet (highlight_start/highlight_end/ellipsis/snippet_tokens)
+// and matched columns; compact=1 trims each hit to id, title, type, snippet, score;
+// facets=1 adds GET /api/facets counts for the same query
 // ─────────────────────────────────────
 
 app.get("/api/search", (c) => {
@@ -629,17 +1024,156 @@ app.get("/api/search", (c) => {
   const project = c.req.query("project");
   const limit = Math.min(parseInt(c.req.query("limit") ?? "20", 10), 100);
   const offset = Math.max(parseInt(c.req.query("offset") ?? "0", 10), 0);
+  const scope = c.req.query("scope") ?? "observations";
+  if (!SEARCH_SCOPES.has(scope)) {
+    return c.json({ error: "scope must be one of: observations, summaries, prompts, all" }, 400);
+  }
 
-  const ranked = search.searchKeyword(q, project ?? undefined, limit + offset);
+  const mode = c.req.query("mode") ?? "hybrid";
+  if (!SEARCH_MODES.has(mode)) {
+    return c.json({ error: "mode must be one of: hybrid, keyword, semantic" }, 400);
+  }
+  if (mode === "semantic" && scope !== "observations" && scope !== "all") {
+    return c.json({ error: "mode=semantic only searches observations" }, 400);
+  }
+  const debug = c.req.query("debug") === "1";
+  const compact = c.req.query("compact") === "1";
+  const withFacets = c.req.query("facets") === "1";
+
+  const highlight: HighlightOptions = {
+    start: c.req.query("highlight_start") ?? DEFAULT_HIGHLIGHT.start,
+    end: c.req.query("highlight_end") ?? DEFAULT_HIGHLIGHT.end,
+    ellipsis: c.req.query("ellipsis") ?? DEFAULT_HIGHLIGHT.ellipsis,
+    tokens: parseInt(c.req.query("snippet_tokens") ?? String(DEFAULT_HIGHLIGHT.tokens), 10),
+  };
+  if ([highlight.start, highlight.end, highlight.ellipsis].some((m) => m.length > MAX_MARKER_CHARS)) {
+    return c.json({ error: `highlight markers must be at most ${MAX_MARKER_CHARS} characters` }, 400);
+  }
+  if (!Number.isInteger(highlight.tokens) || highlight.tokens < 1 || highlight.tokens > 64) {
+    return c.json({ error: "snippet_tokens must be an integer from 1 to 64" }, 400);
+  }
+
+  let ranked: (ScopedSearchResult | HybridSearchResult)[];
+  let facets: SearchFacets | undefined;
+  let suggestion: SpellingSuggestion | null = null;
+  try {
+    if (withFacets) facets = search.facets(q, project ?? undefined);
+    if (mode !== "semantic") suggestion = search.suggest(q);
+    if (mode === "semantic") {
+      ranked = search.searchVectors(q, project ?? undefined, limit + offset);
+    } else if (mode === "keyword") {
+      ranked = search.searchScoped(q, scope as SearchScope, project ?? undefined, limit + offset, highlight);
+      // Nothing for the word index: retry identifier / path fragments on the trigram index
+      if (ranked.length === 0 && (scope === "observations" || scope === "all")) {
+        ranked = search.searchCode(q, project ?? undefined, limit + offset, highlight);
+      }
+    } else {
+      const settings = resolveRanking(SETTINGS.ranking, project ?? undefined);
+      const hybrid = search.searchHybrid(
+        q,
+        scope as SearchScope,
+        settings,
+        project ?? undefined,
+        limit + offset,
+        highlight
+      );
+      ranked = debug ? hybrid : hybrid.map(({ ranking: _ranking, ...row }) => row as ScopedSearchResult);
+    }
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) {
+      return c.json({ error: err.message, position: err.position }, 400);
+    }
+    throw err;
+  }
   const results = ranked.slice(offset, offset + limit);
 
   return c.json({
-    results,
+    results: compact ? results.map(compactResult) : results,
     total: ranked.length,
     hasMore: ranked.length > offset + results.length,
+    ...(facets ? { facets } : {}),
+    ...(suggestion ? { did_you_mean: suggestion } : {}),
   });
 });
 
+// ─────────────────────────────────────
+// P1: GET /api/facets?q=&project=&limit= — observation counts by type, tool,
+// project, modified file, day and week over the same matches as /api/search.
+// q is optional (omitted = every observation) and may be filters only.
+// ─────────────────────────────────────
+
+app.get("/api/facets", (c) => {
+  const q = c.req.query("q") ?? c.req.query("query") ?? "";
+  const project = c.req.query("project");
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "10", 10) || 10, 100);
+
+  try {
+    return c.json(search.facets(q, project ?? undefined, limit));
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) {
+      return c.json({ error: err.message, position: err.position }, 400);
+    }
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/search/index — Layer 1: compact hits (id, title, type, time,
+// session) in bm25 order; ?cursor=<next_cursor> pages on
+// ─────────────────────────────────────
+
+app.get("/api/search/index", (c) => {
+  const q = c.req.query("q") ?? c.req.query("query") ?? "";
+  if (!q) {
+    return c.json({ error: "q query param is required" }, 400);
+  }
+  const project = c.req.query("project") || undefined;
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "50", 10) || 50, 200);
+  const cursor = c.req.query("cursor") || undefined;
+
+  try {
+    return c.json(search.searchIndexPage(q, { project, limit, cursor }));
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) {
+      return c.json({ error: err.message, position: err.position }, 400);
+    }
+    if (err instanceof CursorError) {
+      return c.json({ error: err.message }, 400);
+    }
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/timeline/:id — Layer 2: observations around an anchor.
+// ?window=N per side (default 5), cross_sessions=1 follows the whole project,
+// ?cursor=<before_cursor|after_cursor> pages further out
+// ─────────────────────────────────────
+
+app.get("/api/timeline/:id", (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) {
+    return c.json({ error: "Invalid id" }, 400);
+  }
+  const window = Math.min(parseInt(c.req.query("window") ?? "5", 10) || 5, 50);
+  const crossSessions = c.req.query("cross_sessions") === "1";
+  const cursor = c.req.query("cursor") || undefined;
+
+  let page;
+  try {
+    page = search.timelinePage(id, { window, crossSessions, cursor });
+  } catch (err) {
+    if (err instanceof CursorError) {
+      return c.json({ error: err.message }, 400);
+    }
+    throw err;
+  }
+  if (!page) {
+    return c.json({ error: "Not found" }, 404);
+  }
+  return c.json({ anchor: id, ...page });
+});
+
 // ─────────────────────────────────────
 // P0: GET /api/observations
 // ─────────────────────────────────────
@@ -670,6 +1204,33 @@ app.get("/api/sessions", (c) => {
   return c.json({ sessions });
 });
 
+// ─────────────────────────────────────
+// P1: GET /api/sessions/:id/timeline — prompts, observations and summaries
+// of one session (Claude session id) interleaved oldest first; cursor-paged
+// ─────────────────────────────────────
+
+app.get("/api/sessions/:id/timeline", (c) => {
+  const session = db.getSession(c.req.param("id"));
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404);
+  }
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "50", 10) || 50, 200);
+  const cursor = c.req.query("cursor") || undefined;
+
+  try {
+    return c.json({
+      session_id: session.session_id,
+      project: session.project,
+      ...search.sessionTimeline(session.id, { limit, cursor }),
+    });
+  } catch (err) {
+    if (err instanceof CursorError) {
+      return c.json({ error: err.message }, 400);
+    }
+    throw err;
+  }
+});
+
 // ─────────────────────────────────────
 // P0: GET /api/stats
 // ─────────────────────────────────────
@@ -677,7 +1238,124 @@ app.get("/api/sessions", (c) => {
 app.get("/api/stats", (c) => {
   const project = c.req.query("project");
   const stats = db.getStats(project);
-  return c.json({ stats, project: project ?? "all" });
+  // The cache is shared by all projects, so its counters are always global
+  return c.json({
+    stats,
+    project: project ?? "all",
+    compression_cache: compressionCacheService().stats(),
+  });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/usage — LLM tokens and cost by day, project and model
+// ─────────────────────────────────────
+
+app.get("/api/usage", (c) => {
+  const project = c.req.query("project") || undefined;
+  const days = Number(c.req.query("days") ?? "30");
+  if (!Number.isFinite(days) || days <= 0) {
+    return c.json({ error: "days must be a positive number" }, 400);
+  }
+  const since = Math.floor(Date.now() / 1000) - Math.round(days * 86_400);
+
+  const usage = usageService().report({ project, since });
+  const totals = { calls: 0, failed_calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+  for (const row of usage) {
+    totals.calls += row.calls;
+    totals.failed_calls += row.failed_calls;
+    totals.input_tokens += row.input_tokens;
+    totals.output_tokens += row.output_tokens;
+    totals.cost_usd += row.cost_usd;
+  }
+
+  // Current spend against the limits of every project in the report
+  const projects = new Set(usage.map((row) => row.project));
+  if (project) projects.add(project);
+  const budgets = [...projects].map((p) => usageService().budgetStatus(p, budgetFor(p)));
+
+  return c.json({ project: project ?? "all", days, usage, totals, budgets });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/reprocess — re-compress older observations in the background
+// ─────────────────────────────────────
+
+app.post("/api/reprocess", (c) => {
+  const project = c.req.query("project") || undefined;
+  const beforeVersion = c.req.query("before_version") ?? COMPRESSION_PROMPT_VERSION;
+  if (!/^\d+$/.test(beforeVersion)) {
+    return c.json({ error: "before_version must be a prompt version number" }, 400);
+  }
+  if (restoreInProgress) {
+    return c.json({ error: "A backup restore is in progress" }, 409);
+  }
+
+  const service = reprocessService();
+  const active = service.active();
+  if (active) {
+    return c.json({ error: "A reprocess run is already in progress", run: active }, 409);
+  }
+
+  const { run, observationIds } = service.start(project, beforeVersion, COMPRESSION_PROMPT_VERSION);
+  void runReprocess(run.id, observationIds);
+  return c.json({ run }, 202);
+});
+
+app.get("/api/reprocess", (c) => {
+  return c.json({ runs: reprocessService().list() });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/reprocess/:id — progress and a preview of the staged compressions
+// ─────────────────────────────────────
+
+app.get("/api/reprocess/:id", (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) return c.json({ error: "Invalid id" }, 400);
+  const service = reprocessService();
+  const run = service.get(id);
+  if (!run) return c.json({ error: "Not found" }, 404);
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "20", 10) || 20, 200);
+  return c.json({ run, preview: service.preview(id, limit) });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/reprocess/:id/confirm — replace the live observations
+// ─────────────────────────────────────
+
+app.post("/api/reprocess/:id/confirm", (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) return c.json({ error: "Invalid id" }, 400);
+  const service = reprocessService();
+  const run = service.get(id);
+  if (!run) return c.json({ error: "Not found" }, 404);
+
+  const report = service.confirm(id);
+  if (!report) {
+    return c.json({ error: `Only a ready or failed run can be confirmed (this one is ${run.status})` }, 409);
+  }
+  console.log(
+    `[reprocess] Run ${id} confirmed: ${report.applied} observations updated, ${report.conflicts} conflicts`
+  );
+  return c.json({ run: service.get(id), ...report });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/reprocess/:id/discard — keep the old versions
+// ─────────────────────────────────────
+
+app.post("/api/reprocess/:id/discard", (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) return c.json({ error: "Invalid id" }, 400);
+  const service = reprocessService();
+  const run = service.get(id);
+  if (!run) return c.json({ error: "Not found" }, 404);
+
+  const discarded = service.discard(id);
+  if (discarded === null) {
+    return c.json({ error: `Run is already ${run.status}` }, 409);
+  }
+  return c.json({ run: service.get(id), discarded });
 });
 
 // ─────────────────────────────────────
@@ -749,53 +1427,577 @@ app.get("/api/observation/:id", (c) => {
 });
 
 // ─────────────────────────────────────
-// P1: POST /api/observations/batch
+// P1: PATCH /api/observation/:id — edit title/narrative/type/lists
 // ─────────────────────────────────────
 
-app.post("/api/observations/batch", async (c) => {
-  let body: BatchObservationsBody;
+app.patch("/api/observation/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) {
+    return c.json({ error: "Invalid id" }, 400);
+  }
+
+  let body: ObservationPatchBody;
   try {
-    body = await parseJsonBody<BatchObservationsBody>(c.req.raw, MAX_BODY_BYTES);
-  } catch (e) {
-    return c.json({ error: String(e) }, 400);
+    body = await parseJsonBody<ObservationPatchBody>(c.req.raw, MAX_BODY_BYTES);
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
   }
 
-  if (!Array.isArray(body.ids)) {
-    return c.json({ error: "ids must be an array" }, 400);
+  const invalid = validateObservationPatch(body);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
   }
 
-  const ids = body.ids
-    .map(Number)
-    .filter((id) => Number.isInteger(id) && id > 0)
-    .slice(0, 200); // cap at 200
+  const actor = resolveActor(c.req.header("X-Open-Mem-Actor"), body.actor);
+  const { actor: _actor, ...edit } = body;
+  const updated = db.updateObservation(id, edit, actor);
+  if (!updated) {
+    return c.json({ error: "Not found" }, 404);
+  }
 
-  const observations = db.getObservationsByIds(ids);
-  return c.json({ observations });
+  sseManager.notifyObservationChanged({ observationId: id, action: "update", actor });
+  return c.json(updated);
 });
 
 // ─────────────────────────────────────
-// P1: GET /api/queue
+// P1: DELETE /api/observation/:id — trash by default, ?hard=true purges
 // ─────────────────────────────────────
 
-app.get("/api/queue", (c) => {
-  const status = queue.getStatus();
-  return c.json(status);
+app.delete("/api/observation/:id", (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) {
+    return c.json({ error: "Invalid id" }, 400);
+  }
+
+  const hard = c.req.query("hard") === "true";
+  const actor = resolveActor(c.req.header("X-Open-Mem-Actor"));
+  const ok = hard ? db.purgeObservation(id, actor) : db.deleteObservation(id, actor);
+  if (!ok) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  sseManager.notifyObservationChanged({
+    observationId: id,
+    action: hard ? "purge" : "delete",
+    actor,
+  });
+  return c.json({ success: true, id, mode: hard ? "purged" : "trashed" });
 });
 
 // ─────────────────────────────────────
-// P1: POST /api/queue/recover
+// P1: POST /api/observation/:id/restore
 // ─────────────────────────────────────
 
-app.post("/api/queue/recover", async (c) => {
+app.post("/api/observation/:id/restore", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) {
+    return c.json({ error: "Invalid id" }, 400);
+  }
+
+  let body: { actor?: string } = {};
   try {
     const text = await c.req.text();
-    if (text) {
-      JSON.parse(text) as QueueRecoverBody;
-    }
-  } catch {}
+    if (text) body = JSON.parse(text) as { actor?: string };
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
 
-  const recovered = queue.recoverStuck();
-  return c.json({ success: true, recovered });
+  const actor = resolveActor(c.req.header("X-Open-Mem-Actor"), body.actor);
+  const restored = db.restoreObservation(id, actor);
+  if (!restored) {
+    return c.json({ error: "Not found in trash" }, 404);
+  }
+
+  sseManager.notifyObservationChanged({ observationId: id, action: "restore", actor });
+  return c.json(restored);
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/observation/:id/audit
+// ─────────────────────────────────────
+
+app.get("/api/observation/:id/audit", (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) {
+    return c.json({ error: "Invalid id" }, 400);
+  }
+  return c.json({ id, audit: db.getObservationAudit(id) });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/observations/trash
+// ─────────────────────────────────────
+
+app.get("/api/observations/trash", (c) => {
+  const project = c.req.query("project");
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "20", 10), 200);
+  const offset = parseInt(c.req.query("offset") ?? "0", 10);
+
+  const { observations, total } = db.getDeletedObservations(project, limit, offset);
+  return c.json({
+    observations,
+    total,
+    hasMore: offset + observations.length < total,
+  });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/files — chronological history of one file
+// ─────────────────────────────────────
+
+app.get("/api/files", (c) => {
+  const path = c.req.query("path");
+  if (!path) return c.json({ error: "path is required" }, 400);
+  const project = c.req.query("project") || undefined;
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "100", 10) || 100, 500);
+
+  const history = new FileIndexService((getDb() as CMemDb).rawDb)
+    .history(path, { project, limit })
+    .map((e) => ({
+      ...e,
+      created_at: new Date(e.created_at * 1000).toISOString(),
+      created_at_epoch: e.created_at * 1000,
+    }));
+  return c.json({ path, project: project ?? null, history });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/files/hot — most-edited files per project
+// ─────────────────────────────────────
+
+app.get("/api/files/hot", (c) => {
+  const project = c.req.query("project") || undefined;
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "20", 10) || 20, 200);
+  const days = c.req.query("days");
+  const since = days ? Math.floor(Date.now() / 1000) - Number(days) * 86_400 : undefined;
+  if (since !== undefined && !Number.isFinite(since)) {
+    return c.json({ error: "days must be a number" }, 400);
+  }
+
+  const files = new FileIndexService((getDb() as CMemDb).rawDb)
+    .hot({ project, since, limit })
+    .map((f) => ({ ...f, last_touched: new Date(f.last_touched * 1000).toISOString() }));
+  return c.json({ project: project ?? null, files });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/commands — shell command history, newest first
+// ─────────────────────────────────────
+
+app.get("/api/commands", (c) => {
+  const query = c.req.query("q") || undefined;
+  const project = c.req.query("project") || undefined;
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "50", 10) || 50, 500);
+  const failedParam = c.req.query("failed");
+  if (failedParam !== undefined && failedParam !== "true" && failedParam !== "false") {
+    return c.json({ error: "failed must be true or false" }, 400);
+  }
+  const failed = failedParam === undefined ? undefined : failedParam === "true";
+
+  const commands = new CommandService((getDb() as CMemDb).rawDb)
+    .search({ query, project, failed, limit })
+    .map((e) => ({ ...e, created_at: new Date(e.created_at * 1000).toISOString() }));
+  return c.json({ project: project ?? null, commands });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/commands/failing — command lines that keep failing
+// ─────────────────────────────────────
+
+app.get("/api/commands/failing", (c) => {
+  const project = c.req.query("project") || undefined;
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "20", 10) || 20, 200);
+  const days = c.req.query("days");
+  const since = days ? Math.floor(Date.now() / 1000) - Number(days) * 86_400 : undefined;
+  if (since !== undefined && !Number.isFinite(since)) {
+    return c.json({ error: "days must be a number" }, 400);
+  }
+
+  const commands = new CommandService((getDb() as CMemDb).rawDb)
+    .failing({ project, since, limit })
+    .map((f) => ({ ...f, last_failed_at: new Date(f.last_failed_at * 1000).toISOString() }));
+  return c.json({ project: project ?? null, commands });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/watches — saved searches (?project= limits to those that apply)
+// ─────────────────────────────────────
+
+app.get("/api/watches", (c) => {
+  const project = c.req.query("project") || undefined;
+  return c.json({ watches: watchService().list(project).map(formatWatch) });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/watches — create a saved search
+// ─────────────────────────────────────
+
+app.post("/api/watches", async (c) => {
+  let body: WatchBody;
+  try {
+    body = await parseJsonBody<WatchBody>(c.req.raw, MAX_BODY_BYTES);
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  const invalid = validateWatchBody(body, true);
+  if (invalid || body.name === undefined || body.query === undefined) {
+    return c.json({ error: invalid ?? "name and query are required" }, 400);
+  }
+
+  try {
+    const watch = watchService().create({
+      name: body.name.trim(),
+      query: body.query,
+      project: body.project,
+      enabled: body.enabled,
+    });
+    return c.json(formatWatch(watch), 201);
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) {
+      return c.json({ error: err.message, position: err.position }, 400);
+    }
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/watches/:id
+// ─────────────────────────────────────
+
+app.get("/api/watches/:id", (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) return c.json({ error: "Invalid id" }, 400);
+  const watch = watchService().get(id);
+  return watch ? c.json(formatWatch(watch)) : c.json({ error: "Not found" }, 404);
+});
+
+// ─────────────────────────────────────
+// P1: PATCH /api/watches/:id — rename, change query/project, enable/disable
+// ─────────────────────────────────────
+
+app.patch("/api/watches/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) return c.json({ error: "Invalid id" }, 400);
+
+  let body: WatchBody;
+  try {
+    body = await parseJsonBody<WatchBody>(c.req.raw, MAX_BODY_BYTES);
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  const invalid = validateWatchBody(body, false);
+  if (invalid) return c.json({ error: invalid }, 400);
+
+  try {
+    const watch = watchService().update(id, { ...body, name: body.name?.trim() });
+    return watch ? c.json(formatWatch(watch)) : c.json({ error: "Not found" }, 404);
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) {
+      return c.json({ error: err.message, position: err.position }, 400);
+    }
+    throw err;
+  }
+});
+
+// ─────────────────────────────────────
+// P1: DELETE /api/watches/:id
+// ─────────────────────────────────────
+
+app.delete("/api/watches/:id", (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  if (isNaN(id)) return c.json({ error: "Invalid id" }, 400);
+  if (!watchService().delete(id)) return c.json({ error: "Not found" }, 404);
+  return c.json({ success: true, id });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/observations/batch
+// ─────────────────────────────────────
+
+app.post("/api/observations/batch", async (c) => {
+  let body: BatchObservationsBody;
+  try {
+    body = await parseJsonBody<BatchObservationsBody>(c.req.raw, MAX_BODY_BYTES);
+  } catch (e) {
+    return c.json({ error: String(e) }, 400);
+  }
+
+  if (!Array.isArray(body.ids)) {
+    return c.json({ error: "ids must be an array" }, 400);
+  }
+
+  const ids = body.ids
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0)
+    .slice(0, 200); // cap at 200
+
+  const observations = db.getObservationsByIds(ids);
+  return c.json({ observations });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/queue
+// ─────────────────────────────────────
+
+app.get("/api/queue", (c) => {
+  const status = queue.getStatus();
+  return c.json(status);
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/queue/recover
+// ─────────────────────────────────────
+
+app.post("/api/queue/recover", async (c) => {
+  try {
+    const text = await c.req.text();
+    if (text) {
+      JSON.parse(text) as QueueRecoverBody;
+    }
+  } catch {}
+
+  const recovered = queue.recoverStuck();
+  return c.json({ success: true, recovered });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/retention/preview — dry run of the retention policy
+// ─────────────────────────────────────
+
+app.get("/api/retention/preview", (c) => {
+  const project = c.req.query("project") || undefined;
+  const report = retentionService().preview(SETTINGS.retention, project);
+  return c.json({ policy: SETTINGS.retention, report });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/retention/run
+// ─────────────────────────────────────
+
+app.post("/api/retention/run", async (c) => {
+  let body: { project?: string; dry_run?: boolean } = {};
+  try {
+    const text = await c.req.text();
+    if (text) body = JSON.parse(text) as typeof body;
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  if (body.project !== undefined && typeof body.project !== "string") {
+    return c.json({ error: "project must be a string" }, 400);
+  }
+
+  const svc = retentionService();
+  const report = body.dry_run
+    ? svc.preview(SETTINGS.retention, body.project)
+    : svc.purge(SETTINGS.retention, body.project);
+  return c.json({ success: true, report });
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/backups — list snapshots, newest first
+// ─────────────────────────────────────
+
+app.get("/api/backups", (c) => {
+  return c.json({ policy: SETTINGS.backup, backups: backupService().list() });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/backups — take a snapshot now
+// ─────────────────────────────────────
+
+app.post("/api/backups", (c) => {
+  if (restoreInProgress) return c.json({ error: "Restore in progress" }, 409);
+  const backup = backupService().create((getDb() as CMemDb).rawDb, "manual");
+  return c.json({ success: true, backup });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/backups/restore — swap the live DB for a snapshot
+// Stops the queue and waits for summaries and checkpoints still writing,
+// snapshots the current DB as "pre-restore", replaces the file, reopens it
+// (re-running migrations) and restarts the queue. Refused while a reprocess
+// run is going, and nothing is restored if the work does not finish in time.
+// ─────────────────────────────────────
+
+const RESTORE_DRAIN_MS = 10_000;
+
+app.post("/api/backups/restore", async (c) => {
+  let body: { file?: unknown };
+  try {
+    body = await parseJsonBody<{ file?: unknown }>(c.req.raw, MAX_BODY_BYTES);
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  if (typeof body.file !== "string" || !body.file) {
+    return c.json({ error: "file is required" }, 400);
+  }
+  if (restoreInProgress) return c.json({ error: "Restore already in progress" }, 409);
+
+  const svc = backupService();
+  let snapshotPath: string;
+  try {
+    snapshotPath = svc.resolve(body.file);
+    validateSnapshot(snapshotPath);
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+  }
+
+  const run = reprocessService().active();
+  if (run) {
+    return c.json({ error: `Reprocess run ${run.id} is in progress; wait for it or discard it first` }, 409);
+  }
+
+  restoreInProgress = true;
+  try {
+    const drained = await queue.stopAndDrain(RESTORE_DRAIN_MS);
+    const settled = drained && (await settleBackgroundWork(RESTORE_DRAIN_MS));
+    if (!settled) {
+      console.warn(`[backup] Restore of ${body.file} refused: ${drained ? "summaries" : "compressions"} still running`);
+      return c.json({
+        error: `Timed out waiting for in-flight ${drained ? "summaries and checkpoints" : "compressions"}; nothing was restored`,
+      }, 503);
+    }
+    // Keep the snapshot being restored even if keep would rotate it out
+    const safety = svc.create((getDb() as CMemDb).rawDb, "pre-restore", { rotate: false });
+    restoreDb(snapshotPath);
+    svc.rotate();
+    console.log(`[backup] Restored ${body.file} (previous state saved as ${safety.file})`);
+    return c.json({
+      success: true,
+      restored: body.file,
+      safety_backup: safety.file,
+    });
+  } catch (err) {
+    console.error(`[backup] Restore failed: ${err}`);
+    return c.json({ error: `Restore failed: ${err instanceof Error ? err.message : String(err)}` }, 500);
+  } finally {
+    queue.start(compressionProcessor);
+    restoreInProgress = false;
+  }
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/forget — preview by default, purge with confirm: true
+// Backup snapshots are left alone: report.backupsRetained counts those that
+// may still hold the matched content, with a warning when there are any.
+// ─────────────────────────────────────
+
+app.post("/api/forget", async (c) => {
+  let body: ForgetBody;
+  try {
+    body = await parseJsonBody<ForgetBody>(c.req.raw, MAX_BODY_BYTES);
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  for (const field of ["query", "file", "session_id", "project"] as const) {
+    if (body[field] !== undefined && typeof body[field] !== "string") {
+      return c.json({ error: `${field} must be a string` }, 400);
+    }
+  }
+  const from = toEpochSeconds(body.from);
+  const to = toEpochSeconds(body.to);
+  if (from === null || to === null) {
+    return c.json({ error: "from/to must be epoch milliseconds or ISO-8601 strings" }, 400);
+  }
+
+  const rawDb = (getDb() as CMemDb).rawDb;
+  const svc = new ForgetService(rawDb, new SearchService(rawDb));
+  const criteria = {
+    query: body.query,
+    file: body.file,
+    sessionId: body.session_id,
+    from,
+    to,
+    project: body.project,
+  };
+
+  try {
+    const report = body.confirm === true ? svc.purge(criteria) : svc.preview(criteria);
+    const backupsRetained = backupService().list().length;
+    if (!report.dryRun) {
+      console.log(
+        `[forget] Purged ${report.observations.count} observations, ${report.userPrompts} prompts, ` +
+          `${report.summaries} summaries, ${report.queue} queue rows` +
+          (backupsRetained > 0 ? ` (${backupsRetained} backup snapshots not rewritten)` : "")
+      );
+    }
+    return c.json({
+      success: true,
+      report: { ...report, backupsRetained },
+      ...(backupsRetained > 0
+        ? {
+            warning:
+              `${backupsRetained} backup snapshot(s) taken earlier may still contain the matched content; ` +
+              `delete them from the backups directory to remove it from disk`,
+          }
+        : {}),
+    });
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+  }
+});
+
+// ─────────────────────────────────────
+// P1: GET /api/export — NDJSON dump of one project
+// ─────────────────────────────────────
+
+app.get("/api/export", (c) => {
+  const project = c.req.query("project");
+  if (!project) {
+    return c.json({ error: "project is required" }, 400);
+  }
+
+  const lines = exportProject((getDb() as CMemDb).rawDb, project, {
+    includeQueue: c.req.query("include_queue") === "true",
+  });
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = lines.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value + "\n"));
+      }
+    },
+  });
+
+  const filename = project.replace(/[^a-zA-Z0-9_-]+/g, "_");
+  return c.body(body, 200, {
+    "Content-Type": "application/x-ndjson",
+    "Content-Disposition": `attachment; filename="${filename}.ndjson"`,
+  });
+});
+
+// ─────────────────────────────────────
+// P1: POST /api/import — counterpart of /api/export
+// ─────────────────────────────────────
+
+app.post("/api/import", async (c) => {
+  let text: string;
+  try {
+    text = await c.req.text();
+  } catch {
+    return c.json({ error: "Could not read request body" }, 400);
+  }
+  if (new TextEncoder().encode(text).length > MAX_IMPORT_BYTES) {
+    return c.json({ error: `Request body too large (max ${MAX_IMPORT_BYTES} bytes)` }, 413);
+  }
+
+  try {
+    const report = importProject((getDb() as CMemDb).rawDb, text, {
+      project: c.req.query("project") || undefined,
+    });
+    console.log(
+      `[import] ${report.project}: ${report.sessions.imported} sessions ` +
+        `(${report.sessions.skipped} already present), ${report.observations} observations, ` +
+        `${report.commands} commands`
+    );
+    return c.json({ success: true, report });
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+  }
 });
 
 // ─────────────────────────────────────
@@ -813,8 +2015,8 @@ app.all("*", (c) => {
 initDb(DATA_DIR);
 
 // ─── Bootstrap Anthropic credentials from OpenClaw config ────────────────────
-// Reads ~/.openclaw/openclaw.json and sets the correct env var so the existing
-// `if (process.env["ANTHROPIC_API_KEY"])` guards open correctly.
+// Reads ~/.openclaw/openclaw.json and sets the correct env var so the Anthropic
+// provider (sdk/providers.ts) and anything else reading the env pick it up.
 // oat01 OAuth tokens → ANTHROPIC_AUTH_TOKEN (Authorization: Bearer)
 // Standard sk-ant-api* keys → ANTHROPIC_API_KEY (x-api-key)
 if (!process.env["ANTHROPIC_API_KEY"] && !process.env["ANTHROPIC_AUTH_TOKEN"]) {
@@ -838,58 +2040,111 @@ if (!process.env["ANTHROPIC_API_KEY"] && !process.env["ANTHROPIC_AUTH_TOKEN"]) {
  * The real queue processor — calls Builder A's LLM compressor and stores
  * the resulting observation via Builder C's storage layer.
  *
- * Graceful degradation: if ANTHROPIC_API_KEY is absent or compression fails,
- * stores a passthrough observation so the lifecycle still completes.
+ * Graceful degradation: if the project's LLM provider is unavailable ("none",
+ * no Anthropic credentials, or over budget with no cheaper model) or
+ * compression fails, the rule-based compressor builds the observation
+ * instead — no model call needed.
  */
 const compressionProcessor: ObservationProcessor = async (
   _queueId: number,
   msg: QueueMessage
 ): Promise<number> => {
-  const session = db.getSession(msg.sessionId);
-  const project = session?.project ?? "unknown";
-  const promptNumber = msg.promptNumber ?? session?.prompt_counter ?? 0;
-
-  let kind = "other";
-  let title = `${msg.toolName} — passthrough`;
-  let narrative = msg.toolResult.slice(0, 2_000);
-  let tags: string[] = [msg.toolName];
-  let facts: string[] = [];
-  let files_read: string[] = [];
-  let files_modified: string[] = [];
-
-  // Try LLM compression only if API key is available
-  if (process.env["ANTHROPIC_API_KEY"]) {
-    try {
-      let toolInput: unknown;
-      try {
-        toolInput = JSON.parse(msg.toolInput);
-      } catch {
-        toolInput = msg.toolInput;
-      }
+  const raw = toRawObservation(msg);
 
-      const compressed = await compressObservation({
-        tool_name: msg.toolName,
-        tool_input: toolInput,
-        tool_response: msg.toolResult,
-        project,
-        prompt_number: promptNumber,
-        user_goal: "",
-      });
-
-      kind = compressed.type ?? "other";
-      title = compressed.title;
-      narrative = compressed.narrative;
-      tags = compressed.tags;
-      facts = compressed.facts;
-      files_read = compressed.files_read;
-      files_modified = compressed.files_modified;
+  // LLM compression only if the project's provider can take requests;
+  // otherwise (and if it throws) compress by rule so memory stays useful offline
+  let compressed: CompressedObservation | null = null;
+  const provider = llmProvider(raw.project, msg.budgetMode);
+  if (provider.isAvailable()) {
+    try {
+      compressed = await compressObservation(raw, provider, compressionCache());
     } catch (err) {
       console.warn(
-        `[queue] LLM compression failed for item ${_queueId}, using passthrough: ${err}`
+        `[queue] LLM compression failed for item ${_queueId}, using rules: ${err}`
       );
     }
   }
 
+  return compressed
+    ? storeCompressedObservation(_queueId, msg, raw, compressed, compressedBy(provider))
+    : storeCompressedObservation(_queueId, msg, raw, compressWithRules(raw), compressedBy(null));
+};
+
+/**
+ * Batch mode (settings.json → "batching"): one LLM call for several queued
+ * items of a session. Items the reply does not cover are left to
+ * compressionProcessor by the queue, and so are items that fail to store —
+ * the ones stored before them are still reported, so none is stored twice.
+ * Without an available provider nothing is batched — the rule-based path
+ * needs no round-trips to save.
+ */
+const batchCompressionProcessor: BatchObservationProcessor = async (
+  msgs: QueueMessage[]
+): Promise<Map<number, number>> => {
+  const stored = new Map<number, number>();
+  const items = msgs.map((msg) => ({ id: msg.queueId, msg, raw: toRawObservation(msg) }));
+  const provider = llmProvider(items[0].raw.project, msgs[0].budgetMode);
+  if (!provider.isAvailable()) return stored;
+
+  const compressed = await compressObservationBatch(items, provider, compressionCache());
+  for (const { id, msg, raw } of items) {
+    const result = compressed.get(id);
+    if (!result) continue;
+    try {
+      stored.set(id, storeCompressedObservation(id, msg, raw, result, compressedBy(provider)));
+    } catch (err) {
+      console.warn(`[queue] Batch item ${id} could not be stored, left for single processing: ${err}`);
+    }
+  }
+  return stored;
+};
+
+/** The compressor's view of a queue entry */
+function toRawObservation(msg: QueueMessage): RawObservation {
+  const session = db.getSession(msg.sessionId);
+  let toolInput: unknown;
+  try {
+    toolInput = JSON.parse(msg.toolInput);
+  } catch {
+    toolInput = msg.toolInput;
+  }
+  return {
+    tool_name: msg.toolName,
+    tool_input: toolInput,
+    tool_response: msg.toolResult,
+    project: session?.project ?? "unknown",
+    prompt_number: msg.promptNumber ?? session?.prompt_counter ?? 0,
+    user_goal: "",
+  };
+}
+
+/** Prompt version and model stored with an observation; `null` = compressed by rule */
+function compressedBy(provider: LlmProvider | null): { prompt_version: string | null; model: string } {
+  return provider
+    ? { prompt_version: COMPRESSION_PROMPT_VERSION, model: provider.model ?? provider.name }
+    : { prompt_version: null, model: RULES_MODEL };
+}
+
+/** What POST /api/reprocess feeds back through the compressor (scrubbed on insert) */
+function rawInputOf(raw: RawObservation): string {
+  return JSON.stringify({ tool_input: raw.tool_input, tool_response: raw.tool_response });
+}
+
+/**
+ * Store one compressed observation, record its command (exec tools) and
+ * write a checkpoint summary when the session's next one is due.
+ * Returns the new observation id.
+ */
+function storeCompressedObservation(
+  queueId: number,
+  msg: QueueMessage,
+  raw: RawObservation,
+  compressed: CompressedObservation,
+  by: ReturnType<typeof compressedBy>
+): number {
+  const { project, prompt_number: promptNumber } = raw;
+  const { type: kind, title, narrative, tags, facts, files_read, files_modified } = compressed;
+
   const obsId = db.createObservation({
     session_id: msg.sessionId,
     project,
@@ -904,40 +2159,107 @@ const compressionProcessor: ObservationProcessor = async (
     files_modified: JSON.stringify(files_modified),
     created_at: new Date().toISOString(),
     created_at_epoch: Date.now(),
+    raw_input: rawInputOf(raw),
+    ...by,
   });
 
   console.log(
-    `[queue] Processed item ${_queueId} → observation ${obsId} (session: ${msg.sessionId})`
+    `[queue] Processed item ${queueId} → observation ${obsId} (session: ${msg.sessionId})`
   );
 
-  const sessionForSummary = db.getSession(msg.sessionId);
-  if (sessionForSummary) {
-    const allObs = db.getObservationsBySession(msg.sessionId);
-    const significantCount = countSignificantObservations(allObs);
-    if (
-      significantCount >= MIN_SUMMARIZABLE_OBSERVATIONS &&
-      significantCount % AUTO_SUMMARIZE_EVERY === 0
-    ) {
-      requestSessionSummary(
-        {
-          session_id: msg.sessionId,
-          project,
-          observations: allObs,
-          last_user_message: `Project: ${project}. Tool session in progress.`,
-          last_assistant_message: `Last tool: ${msg.toolName}`,
-          prompt_number: msg.promptNumber ?? sessionForSummary.prompt_counter ?? significantCount,
-        },
-        sessionForSummary.id
-      );
-      console.log(`[queue] Auto-summary requested for ${msg.sessionId} at ${significantCount} significant observations`);
+  // Exec tools: keep the command line and its outcome searchable on their own
+  const run = parseCommandRun(msg.toolName, msg.toolInput, msg.toolResult);
+  if (run) {
+    try {
+      new CommandService((getDb() as CMemDb).rawDb).record(obsId, run);
+    } catch (err) {
+      console.warn(`[queue] Could not record command for observation ${obsId}: ${err}`);
     }
   }
 
+  const sessionForCheckpoint = db.getSession(msg.sessionId);
+  if (sessionForCheckpoint) checkpointIfDue(sessionForCheckpoint.id);
+
   return obsId;
-};
+}
+
+// Saved watches are checked against every observation the queue stores
+queue.setWatchEvaluator((observationId) =>
+  watchService()
+    .evaluate(observationId)
+    .map((m) => ({
+      watchId: m.watch.id,
+      name: m.watch.name,
+      query: m.watch.query,
+      observationId: m.observation_id,
+      project: m.project,
+      title: m.title,
+      type: m.obs_type,
+      snippet: m.snippet,
+      matches: m.matches,
+    }))
+);
+
+if (SETTINGS.batching.enabled) {
+  queue.setBatchProcessor(batchCompressionProcessor, SETTINGS.batching);
+}
+
+queue.setBudgetGuard(budgetGuard);
+
+// A run cut short by the last shutdown cannot resume; its staged results stay reviewable
+const interrupted = reprocessService().failInterrupted();
+if (interrupted > 0) console.warn(`[reprocess] Marked ${interrupted} interrupted run(s) as failed`);
 
 queue.start(compressionProcessor);
 
+// ─── Scheduled retention ─────────────────────────────────────────────────────
+
+function runScheduledRetention(): void {
+  if (restoreInProgress) return;
+  try {
+    const report = retentionService().purge(SETTINGS.retention);
+    const removed =
+      report.observations.total + report.summaries + report.queue.processed + report.queue.failed;
+    if (removed > 0) {
+      console.log(
+        `[retention] Purged ${report.observations.total} observations, ${report.summaries} summaries, ` +
+          `${report.queue.processed + report.queue.failed} queue rows`
+      );
+    }
+  } catch (err) {
+    console.error(`[retention] Scheduled purge failed: ${err}`);
+  }
+}
+
+const retentionTimer = SETTINGS.retention.enabled
+  ? setInterval(runScheduledRetention, SETTINGS.retention.intervalMs)
+  : null;
+
+// Enforce the policy now too: a worker may not live for a whole interval
+if (SETTINGS.retention.enabled) runScheduledRetention();
+
+// ─── Scheduled backups ───────────────────────────────────────────────────────
+
+function runScheduledBackup(): void {
+  if (restoreInProgress) return;
+  try {
+    const backup = backupService().create((getDb() as CMemDb).rawDb, "scheduled");
+    console.log(`[backup] Wrote ${backup.file} (${backup.bytes} bytes)`);
+  } catch (err) {
+    console.error(`[backup] Scheduled snapshot failed: ${err}`);
+  }
+}
+
+const backupTimer = SETTINGS.backup.enabled
+  ? setInterval(runScheduledBackup, SETTINGS.backup.intervalMs)
+  : null;
+
+// ─── Scheduled checkpoints ───────────────────────────────────────────────────
+
+const checkpointTimer = SETTINGS.summarization.checkpointMinutes !== null
+  ? setInterval(() => void runCheckpointSweep(), CHECKPOINT_SWEEP_MS)
+  : null;
+
 // Graceful shutdown
 process.on("SIGTERM", shutdown);
 process.on("SIGINT", shutdown);
@@ -946,6 +2268,9 @@ function shutdown(): void {
   console.log("[server] Shutting down...");
   queue.stop();
   sseManager.stop();
+  if (retentionTimer) clearInterval(retentionTimer);
+  if (backupTimer) clearInterval(backupTimer);
+  if (checkpointTimer) clearInterval(checkpointTimer);
   process.exit(0);
 }
 
@@ -978,3 +2303,111 @@ async function parseJsonBody<T>(
   }
   return JSON.parse(text) as T;
 }
+
+const PATCH_TEXT_FIELDS = ["title", "narrative"] as const;
+const PATCH_LIST_FIELDS = ["tags", "facts", "files_read", "files_modified"] as const;
+const PATCH_MAX_TEXT = 10_000;
+const PATCH_MAX_LIST = 100;
+
+/** Validate a PATCH /api/observation/:id body. Returns an error message or null. */
+function validateObservationPatch(body: ObservationPatchBody): string | null {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return "Body must be a JSON object";
+  }
+
+  let fields = 0;
+  for (const field of PATCH_TEXT_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || value.length > PATCH_MAX_TEXT) {
+      return `${field} must be a string of at most ${PATCH_MAX_TEXT} characters`;
+    }
+    fields++;
+  }
+  if (body.title !== undefined && !body.title.trim()) {
+    return "title must not be empty";
+  }
+
+  if (body.type !== undefined) {
+    if (typeof body.type !== "string" || !isKnownObsType(body.type)) {
+      return `Unknown type: ${JSON.stringify(body.type)}`;
+    }
+    fields++;
+  }
+
+  for (const field of PATCH_LIST_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (
+      !Array.isArray(value) ||
+      value.length > PATCH_MAX_LIST ||
+      !value.every((v) => typeof v === "string")
+    ) {
+      return `${field} must be an array of at most ${PATCH_MAX_LIST} strings`;
+    }
+    fields++;
+  }
+
+  return fields === 0 ? "No editable fields in body" : null;
+}
+
+const WATCH_MAX_NAME = 200;
+const WATCH_MAX_QUERY = 1_000;
+
+/**
+ * Validate a POST /api/watches (`create`) or PATCH /api/watches/:id body.
+ * Query syntax is checked by WatchService. Returns an error message or null.
+ */
+function validateWatchBody(body: WatchBody, create: boolean): string | null {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return "Body must be a JSON object";
+  }
+  if (create || body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim() || body.name.length > WATCH_MAX_NAME) {
+      return `name must be a non-empty string of at most ${WATCH_MAX_NAME} characters`;
+    }
+  }
+  if (create || body.query !== undefined) {
+    if (typeof body.query !== "string" || !body.query.trim() || body.query.length > WATCH_MAX_QUERY) {
+      return `query must be a non-empty string of at most ${WATCH_MAX_QUERY} characters`;
+    }
+  }
+  if (body.project !== undefined && body.project !== null && typeof body.project !== "string") {
+    return "project must be a string or null";
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  if (!create && Object.values(body).every((v) => v === undefined)) {
+    return "No editable fields in body";
+  }
+  return null;
+}
+
+/** Watch timestamps as ISO-8601 */
+function formatWatch(watch: Watch) {
+  const iso = (s: number) => new Date(s * 1000).toISOString();
+  return {
+    ...watch,
+    last_matched_at: watch.last_matched_at === null ? null : iso(watch.last_matched_at),
+    created_at: iso(watch.created_at),
+    updated_at: iso(watch.updated_at),
+  };
+}
+
+/**
+ * Convert an API timestamp (epoch ms or ISO-8601) to epoch seconds.
+ * undefined passes through; anything unparseable returns null.
+ */
+function toEpochSeconds(value: unknown): number | undefined | null {
+  if (value === undefined) return undefined;
+  const ms = typeof value === "number" ? value : typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : null;
+}
+
+/** Who is making a change: X-Open-Mem-Actor header, then the body, then "api" */
+function resolveActor(header: string | undefined, bodyActor?: unknown): string {
+  const raw = header ?? (typeof bodyActor === "string" ? bodyActor : "");
+  const clean = raw.replace(/[\x00-\x1f\x7f]/g, "").trim().slice(0, 100);
+  return clean || "api";
+}
@@ -11,6 +11,10 @@
  *   observation-processed   → AI compression finished
  *   session-summary-created → session summary ready
  *   user-prompt-created     → new user prompt stored
+ *   observation-changed     → an observation was edited, trashed, restored or purged
+ *   watch-matched           → a processed observation matched a saved watch
+ *   reprocess-progress      → a reprocess run re-compressed one more observation
+ *   reprocess-finished      → a reprocess run is ready for review (or failed)
  */
 
 import { EventEmitter } from "events";
@@ -24,6 +28,10 @@ export type SseEventName =
   | "observation-processed"
   | "session-summary-created"
   | "user-prompt-created"
+  | "observation-changed"
+  | "watch-matched"
+  | "reprocess-progress"
+  | "reprocess-finished"
   | "ping";
 
 export interface SseClient {
@@ -34,6 +42,33 @@ export interface SseClient {
   remoteAddress: string;
 }
 
+/** Payload of a watch-matched event */
+export interface WatchMatchedEvent {
+  watchId: number;
+  name: string;
+  query: string;
+  observationId: number;
+  project: string;
+  title: string | null;
+  /** Observation type (obs_type) */
+  type: string;
+  /** Highlighted excerpt; null for filter-only watch queries */
+  snippet: string | null;
+  matches: { column: string; offsets: [number, number][] }[];
+}
+
+/** Payload of reprocess-progress and reprocess-finished events */
+export interface ReprocessEvent {
+  runId: number;
+  project: string | null;
+  status: string;
+  total: number;
+  processed: number;
+  failed: number;
+  skipped: number;
+  error: string | null;
+}
+
 interface SseEvent {
   event: SseEventName;
   data: unknown;
@@ -159,6 +194,8 @@ export class SseManager extends EventEmitter {
     sessionId: string;
     project: string;
     request: string;
+    /** A rolling checkpoint of a session in progress */
+    checkpoint?: boolean;
   }): void {
     this.emit("session-summary-created", data);
     this.broadcast({
@@ -183,6 +220,41 @@ export class SseManager extends EventEmitter {
     });
   }
 
+  /** Emit observation-changed (edit / trash / restore / purge) and broadcast */
+  notifyObservationChanged(data: {
+    observationId: number;
+    action: "update" | "delete" | "restore" | "purge";
+    actor: string;
+  }): void {
+    this.emit("observation-changed", data);
+    this.broadcast({
+      event: "observation-changed",
+      data,
+      id: String(data.observationId),
+    });
+  }
+
+  /** Emit watch-matched and broadcast */
+  notifyWatchMatched(data: WatchMatchedEvent): void {
+    this.emit("watch-matched", data);
+    this.broadcast({
+      event: "watch-matched",
+      data,
+      id: `${data.watchId}:${data.observationId}`,
+    });
+  }
+
+  /** Emit reprocess-progress, or reprocess-finished once the run left "running" */
+  notifyReprocess(data: ReprocessEvent): void {
+    const event = data.status === "running" ? "reprocess-progress" : "reprocess-finished";
+    this.emit(event, data);
+    this.broadcast({
+      event,
+      data,
+      id: `${data.runId}:${data.processed + data.failed + data.skipped}`,
+    });
+  }
+
   // ─────────────────────────────────────
   // Keep-alive
   // ─────────────────────────────────────
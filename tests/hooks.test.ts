@@ -7,11 +7,16 @@
  * - SDK prompt builders (XML structure)
  * - SDK XML parsers (valid, malformed, partial responses)
  * - Config loading (defaults, validation)
+ * - Rule-based compressor (test/build/lint/edit/read classification)
+ * - LLM providers (OpenAI-compatible HTTP against a local stub, none, per-project selection)
+ * - Compression cache hits (no provider request for a repeated execution)
+ * - LLM usage metering and budget settings (token counts, downgrade model)
+ * - Structured output (JSON schema requests, field validation)
  *
  * Run with: bun test tests/hooks.test.ts
  */
 
-import { describe, test, expect } from "bun:test";
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import {
   isValidSessionId,
   scrubSecrets,
@@ -24,9 +29,40 @@ import {
   detectSensitivePath,
   findSensitivePathInValue,
 } from "../src/hooks/privacy.js";
-import { buildCompressionPrompt, buildSummaryPrompt } from "../src/sdk/prompts.js";
-import { projectFromCwd, workerBaseUrl } from "../src/config.js";
-import type { Observation, Session } from "../src/types.js";
+import {
+  buildBatchCompressionPrompt,
+  buildChunkSummaryPrompt,
+  buildCompressionPrompt,
+  buildReduceSummaryPrompt,
+  buildSummaryPrompt,
+} from "../src/sdk/prompts.js";
+import { projectFromCwd, validateLlm, validateUsage, workerBaseUrl } from "../src/config.js";
+import { compressObservation, compressObservationBatch } from "../src/sdk/compressor.js";
+import type { CompressionCache } from "../src/sdk/compressor.js";
+import { chunkObservations, extendSummary, summarizeSession } from "../src/sdk/summarizer.js";
+import type { SummaryChunkStore } from "../src/sdk/summarizer.js";
+import { compressWithRules } from "../src/sdk/rule-compressor.js";
+import {
+  MeteredProvider,
+  NoneProvider,
+  OpenAICompatibleProvider,
+  resolveProvider,
+} from "../src/sdk/providers.js";
+import type { LlmCall } from "../src/sdk/providers.js";
+import {
+  MEMORY_OUTPUT,
+  StructuredOutputError,
+  toJsonSchema,
+  validateMemoryOutput,
+  validateSummaryOutput,
+} from "../src/sdk/structured-output.js";
+import type {
+  CompressedObservation,
+  LlmProviderSettings,
+  Observation,
+  RawObservation,
+  Session,
+} from "../src/types.js";
 
 // ─── Session ID Validation ────────────────────────────────────────────────────
 
@@ -415,6 +451,32 @@ describe("buildCompressionPrompt", () => {
   });
 });
 
+describe("buildBatchCompressionPrompt", () => {
+  const items = [1, 2, 3].map((id) => ({
+    id: id * 10,
+    tool_name: "Bash",
+    tool_input: { command: `step ${id}` },
+    tool_response: "Y".repeat(10_000),
+    promptNumber: id,
+  }));
+
+  test("one tagged tool_execution per item and an id-carrying memory schema", () => {
+    const prompt = buildBatchCompressionPrompt(items, { project: "proj", promptNumber: 3, userGoal: "Ship" });
+    expect(prompt).toContain("<c-mem-compress>");
+    expect(prompt).toContain('<tool_execution id="10">');
+    expect(prompt).toContain('<tool_execution id="30">');
+    expect(prompt).toContain("<prompt_number>2</prompt_number>");
+    expect(prompt).toContain('<memory id="tool execution id">');
+    expect(prompt).toContain("Type must be exactly one of");
+  });
+
+  test("splits the output budget between items", () => {
+    const prompt = buildBatchCompressionPrompt(items, { project: "proj", promptNumber: 3, userGoal: "" });
+    expect(prompt.match(/\[\.\.\.truncated/g)).toHaveLength(3);
+    expect(prompt.length).toBeLessThan(15_000);
+  });
+});
+
 describe("buildSummaryPrompt", () => {
   const mockSession: Pick<Session, "claude_session_id" | "project" | "prompt_counter"> = {
     claude_session_id: "session-abc123",
@@ -489,6 +551,60 @@ describe("buildSummaryPrompt", () => {
   });
 });
 
+describe("chunkObservations", () => {
+  const obs = (id: number, prompt: number, narrative = "Short.", epoch = id): Observation => ({
+    id,
+    session_id: "session-abc123",
+    project: "my-project",
+    prompt_number: prompt,
+    tool_name: "Edit",
+    type: "change",
+    title: `Step ${id}`,
+    narrative,
+    tags: "[]",
+    facts: "[]",
+    files_read: "[]",
+    files_modified: "[]",
+    created_at: new Date(epoch * 1000).toISOString(),
+    created_at_epoch: epoch,
+  });
+  const ids = (chunks: Observation[][]) => chunks.map((c) => c.map((o) => o.id));
+
+  test("orders observations oldest first and keeps a small session in one chunk", () => {
+    expect(ids(chunkObservations([obs(3, 2), obs(1, 1), obs(2, 1)]))).toEqual([[1, 2, 3]]);
+    expect(chunkObservations([])).toEqual([]);
+  });
+
+  test("packs whole prompts into chunks within the token budget", () => {
+    const long = "x".repeat(400); // ~100 tokens with its tag
+    const observations = [obs(1, 1, long), obs(2, 1, long), obs(3, 2, long), obs(4, 3, long), obs(5, 3, long)];
+    expect(ids(chunkObservations(observations, 300))).toEqual([[1, 2], [3], [4, 5]]);
+  });
+
+  test("splits a prompt larger than one chunk, and caps chunks at 30 observations", () => {
+    const long = "x".repeat(400);
+    expect(ids(chunkObservations([obs(1, 1, long), obs(2, 1, long), obs(3, 1, long)], 250))).toEqual([[1, 2], [3]]);
+
+    const many = Array.from({ length: 45 }, (_, i) => obs(i + 1, 1 + Math.floor(i / 5)));
+    const chunks = chunkObservations(many, 100_000);
+    expect(chunks.map((c) => c.length)).toEqual([30, 15]);
+  });
+
+  test("chunk and reduce prompts share the summary schema", () => {
+    const session = { claude_session_id: "session-abc123", project: "my-project", prompt_counter: 9 };
+    const chunk = buildChunkSummaryPrompt(session, [obs(1, 4, "Fixed <retry>")], 1, 3);
+    expect(chunk).toContain("This is part 2 of 3");
+    expect(chunk).toContain("Fixed &lt;retry&gt;");
+    expect(chunk).toContain("<session_summary>");
+
+    const part = { request: "Fix queue", investigated: "None", learned: "None", completed: "Retry", next_steps: "Ship" };
+    const reduce = buildReduceSummaryPrompt(session, [part, part], "Ship it", undefined, "json");
+    expect(reduce).toContain('<part n="2">');
+    expect(reduce).toContain("Ship it");
+    expect(reduce).not.toContain("<session_summary>");
+  });
+});
+
 // ─── Hook Integration Stubs ───────────────────────────────────────────────────
 // These tests verify hook logic without spawning processes.
 // Full end-to-end hook tests require Builder C's DB schema.
@@ -584,3 +700,639 @@ SENDGRID_API_KEY=SG.longapikeythatisverysecret123456789
     expect(result).not.toContain("sk_live_1234567890");
   });
 });
+
+// ─── LLM Providers ────────────────────────────────────────────────────────────
+
+describe("LLM providers", () => {
+  /** Requests the stub server received */
+  const received: Array<{ auth: string | null; body: Record<string, unknown> }> = [];
+  let reply = "";
+  /** Usage block of the stub's reply; undefined = none (like some local servers) */
+  let usage: { prompt_tokens: number; completion_tokens: number } | undefined;
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    // Minimal OpenAI-compatible /chat/completions stub
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      async fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/v1/fail/chat/completions") {
+          return new Response("model not loaded", { status: 503 });
+        }
+        if (url.pathname === "/v1/slow/chat/completions") {
+          await Bun.sleep(500);
+        }
+        received.push({
+          auth: req.headers.get("authorization"),
+          body: (await req.json()) as Record<string, unknown>,
+        });
+        return Response.json({ choices: [{ message: { role: "assistant", content: reply } }], usage });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const local = (path = "/v1", extra: Partial<LlmProviderSettings> = {}): LlmProviderSettings => ({
+    type: "openai",
+    baseUrl: `http://127.0.0.1:${server.port}${path}`,
+    model: "llama3.1:8b",
+    models: [],
+    timeoutMs: 2_000,
+    ...extra,
+  });
+
+  test("OpenAI-compatible provider posts a chat completion and returns the content", async () => {
+    received.length = 0;
+    reply = "hello";
+    process.env.OPEN_MEM_TEST_LLM_KEY = "local-secret";
+    try {
+      const provider = new OpenAICompatibleProvider("local", local("/v1", { apiKeyEnv: "OPEN_MEM_TEST_LLM_KEY" }));
+      expect(provider.isAvailable()).toBe(true);
+      expect(await provider.complete("Say hello", { maxTokens: 64 })).toBe("hello");
+    } finally {
+      delete process.env.OPEN_MEM_TEST_LLM_KEY;
+    }
+
+    expect(received).toHaveLength(1);
+    expect(received[0].auth).toBe("Bearer local-secret");
+    expect(received[0].body.model).toBe("llama3.1:8b");
+    expect(received[0].body.max_tokens).toBe(64);
+    expect(received[0].body.messages).toEqual([{ role: "user", content: "Say hello" }]);
+  });
+
+  test("OpenAI-compatible provider reports HTTP errors and timeouts", async () => {
+    const failing = new OpenAICompatibleProvider("local", local("/v1/fail"));
+    await expect(failing.complete("x", { maxTokens: 8 })).rejects.toThrow(
+      'LLM provider "local" returned HTTP 503: model not loaded'
+    );
+
+    const slow = new OpenAICompatibleProvider("local", local("/v1/slow", { timeoutMs: 50 }));
+    await expect(slow.complete("x", { maxTokens: 8 })).rejects.toThrow("timed out after 50ms");
+  });
+
+  test("compressObservation and summarizeSession run through the provider", async () => {
+    const provider = new OpenAICompatibleProvider("local", local());
+
+    reply = `<memory><type>bugfix</type><title>Fix token refresh</title>
+      <narrative>Refresh now retries once.</narrative>
+      <files><modified>src/auth.ts</modified></files><tags><tag>auth</tag></tags></memory>`;
+    const compressed = await compressObservation(
+      {
+        tool_name: "Edit",
+        tool_input: { file_path: "src/auth.ts" },
+        tool_response: "ok",
+        project: "my-app",
+        prompt_number: 1,
+        user_goal: "",
+      },
+      provider
+    );
+    expect(compressed.type).toBe("bugfix");
+    expect(compressed.title).toBe("Fix token refresh");
+    expect(compressed.files_modified).toEqual(["src/auth.ts"]);
+    expect(compressed.tags).toEqual(["auth"]);
+
+    reply = `<session_summary><request>Fix auth</request>
+      <completed>Token refresh retries</completed></session_summary>`;
+    const summary = await summarizeSession(
+      { session_id: "sess-1", project: "my-app", observations: [] },
+      42,
+      provider
+    );
+    expect(summary.session_id).toBe(42);
+    expect(summary.request).toBe("Fix auth");
+    expect(summary.completed).toBe("Token refresh retries");
+    expect(summary.learned).toBe("None");
+  });
+
+  test("summarizeSession map-reduces long sessions and reuses stored chunk summaries", async () => {
+    const provider = new OpenAICompatibleProvider("local", local());
+    const observations: Observation[] = Array.from({ length: 6 }, (_, i) => ({
+      id: i + 1,
+      session_id: "sess-long",
+      project: "my-app",
+      prompt_number: i + 1,
+      tool_name: "Edit",
+      type: "change",
+      title: `Step ${i + 1}`,
+      narrative: "n".repeat(600),
+      tags: "[]",
+      facts: "[]",
+      files_read: "[]",
+      files_modified: "[]",
+      created_at: new Date((i + 1) * 1000).toISOString(),
+      created_at_epoch: i + 1,
+    }));
+    const stored = new Map<string, string>();
+    const keyOf = (chunk: Observation[]) => chunk.map((o) => `${o.id}:${o.narrative}`).join(",");
+    const store: SummaryChunkStore = {
+      get: (_session, chunk) => {
+        const value = stored.get(keyOf(chunk));
+        return value ? JSON.parse(value) : null;
+      },
+      set: (_session, chunk, fields) => {
+        stored.set(keyOf(chunk), JSON.stringify(fields));
+      },
+      retain: (_session, chunks) => {
+        const keep = new Set(chunks.map(keyOf));
+        for (const key of stored.keys()) if (!keep.has(key)) stored.delete(key);
+      },
+    };
+
+    received.length = 0;
+    reply = "<session_summary><request>Refactor the queue</request><completed>Batching</completed></session_summary>";
+    const input = { session_id: "sess-long", project: "my-app", observations, last_user_message: "Ship it" };
+    // ~160 tokens per observation: two per chunk
+    const summary = await summarizeSession(input, 7, provider, { chunkTokens: 350, chunkStore: store });
+
+    expect(summary).toMatchObject({ session_id: 7, request: "Refactor the queue", prompt_version: "1", model: "llama3.1:8b" });
+    expect(received).toHaveLength(4); // 3 chunks + reduce
+    const prompts = received.map((r) => JSON.stringify(r.body.messages));
+    expect(prompts[0]).toContain("part 1 of 3");
+    expect(prompts[2]).toContain("part 3 of 3");
+    expect(prompts[3]).toContain("Ship it");
+    expect(stored.size).toBe(3);
+
+    // An edit to the last observation only re-sends its chunk
+    received.length = 0;
+    observations[5] = { ...observations[5], narrative: "m".repeat(600) };
+    await summarizeSession(input, 7, provider, { chunkTokens: 350, chunkStore: store });
+    expect(received).toHaveLength(2);
+    expect(JSON.stringify(received[0].body.messages)).toContain("part 3 of 3");
+    expect(stored.size).toBe(3);
+
+    // Partials over budget are merged in rounds before the final reduce
+    received.length = 0;
+    await summarizeSession(input, 7, provider, { chunkTokens: 170 });
+    expect(received.length).toBeGreaterThan(7); // 6 chunks + merge rounds + final
+    expect(JSON.stringify(received[received.length - 1].body.messages)).toContain("Ship it");
+  });
+
+  test("extendSummary folds only the new observations into the previous checkpoint", async () => {
+    const provider = new OpenAICompatibleProvider("local", local());
+    const observation = (id: number): Observation => ({
+      id,
+      session_id: "sess-cp",
+      project: "my-app",
+      prompt_number: id,
+      tool_name: "Edit",
+      type: "change",
+      title: `Step ${id}`,
+      narrative: "n".repeat(600),
+      tags: "[]",
+      facts: "[]",
+      files_read: "[]",
+      files_modified: "[]",
+      created_at: new Date(id * 1000).toISOString(),
+      created_at_epoch: id,
+    });
+    const previous = {
+      request: "Refactor the queue",
+      investigated: "queue.ts",
+      learned: "None",
+      completed: "None",
+      next_steps: "Add batching",
+    };
+
+    received.length = 0;
+    reply = "<session_summary><request>Refactor the queue</request><completed>Batching</completed></session_summary>";
+    const input = { session_id: "sess-cp", project: "my-app", observations: [observation(5), observation(4)] };
+    const summary = await extendSummary(previous, input, 9, provider);
+
+    expect(summary).toMatchObject({ session_id: 9, completed: "Batching", prompt_version: "1", model: "llama3.1:8b" });
+    expect(received).toHaveLength(1);
+    const prompt = JSON.stringify(received[0].body.messages);
+    expect(prompt).toContain("Add batching");
+    expect(prompt).toContain("Step 4");
+    expect(prompt.indexOf("Step 4")).toBeLessThan(prompt.indexOf("Step 5"));
+
+    // More than one chunk: each folds into the summary the previous one produced
+    received.length = 0;
+    await extendSummary(previous, input, 9, provider, { chunkTokens: 200 });
+    expect(received).toHaveLength(2);
+    expect(JSON.stringify(received[1].body.messages)).toContain("Batching");
+  });
+
+  test("compressObservationBatch maps <memory id> replies back and skips the rest", async () => {
+    const provider = new OpenAICompatibleProvider("local", local());
+    const item = (id: number, tool: string) => ({
+      id,
+      raw: { tool_name: tool, tool_input: {}, tool_response: "out", project: "my-app", prompt_number: 1, user_goal: "" },
+    });
+    reply = `<memory id="7"><type>change</type><title>Edited queue</title><narrative>Batching added.</narrative></memory>
+      <memory id="8"><type>discovery</type><title></title><narrative>No title, so unusable.</narrative></memory>
+      <memory id="99"><type>other</type><title>Unknown id</title><narrative>Ignored.</narrative></memory>
+      <memory id="9"><type>research</type><title>Read docs</title><narrative>Checked the API.</narrative></memory>`;
+
+    received.length = 0;
+    const results = await compressObservationBatch([item(7, "Edit"), item(8, "Read"), item(9, "web_fetch")], provider);
+    expect(received).toHaveLength(1);
+    expect(received[0].body.max_tokens).toBe(3 * 1024);
+    expect([...results.keys()]).toEqual([7, 9]);
+    expect(results.get(7)?.title).toBe("Edited queue");
+    expect(results.get(9)?.type).toBe("research");
+
+    const failing = new OpenAICompatibleProvider("local", local("/v1/fail"));
+    expect((await compressObservationBatch([item(1, "Read")], failing)).size).toBe(0);
+  });
+
+  test("structured output sends a JSON schema and validates the reply", async () => {
+    const provider = new OpenAICompatibleProvider("local", local("/v1", { structuredOutput: true }));
+    expect(provider.supportsStructuredOutput()).toBe(true);
+    expect(new OpenAICompatibleProvider("local", local()).supportsStructuredOutput()).toBe(false);
+
+    received.length = 0;
+    reply = JSON.stringify({
+      type: "Bugfix", title: " Fix token refresh ", narrative: "Refresh now retries once.",
+      tags: ["auth", ""], facts: [], files_read: [], files_modified: ["src/auth.ts"],
+    });
+    const compressed = await compressObservation(
+      { tool_name: "Edit", tool_input: { file_path: "src/auth.ts" }, tool_response: "ok", project: "my-app", prompt_number: 1, user_goal: "" },
+      provider
+    );
+    expect(compressed).toEqual({
+      type: "bugfix", title: "Fix token refresh", narrative: "Refresh now retries once.",
+      tags: ["auth"], facts: [], files_read: [], files_modified: ["src/auth.ts"],
+    });
+    const format = received[0].body.response_format as { type: string; json_schema: { name: string } };
+    expect(format.type).toBe("json_schema");
+    expect(format.json_schema.name).toBe("record_memory");
+    expect(JSON.stringify(received[0].body.messages)).not.toContain("<memory>");
+
+    reply = JSON.stringify({ request: "Fix auth", investigated: "", learned: "", completed: "Token refresh retries", next_steps: "" });
+    const summary = await summarizeSession({ session_id: "sess-1", project: "my-app", observations: [] }, 42, provider);
+    expect(summary).toEqual({
+      session_id: 42, request: "Fix auth", investigated: "None", learned: "None",
+      completed: "Token refresh retries", next_steps: "None",
+      prompt_version: "1", model: "llama3.1:8b",
+    });
+
+    const memory = (id: number, type: string) => ({ id, type, title: `Memory ${id}`, narrative: "n", tags: [], facts: [], files_read: [], files_modified: [] });
+    reply = JSON.stringify({ memories: [memory(7, "change"), memory(8, "not-a-type"), memory(99, "other")] });
+    const results = await compressObservationBatch(
+      [7, 8].map((id) => ({ id, raw: { tool_name: "Read", tool_input: {}, tool_response: `out ${id}`, project: "my-app", prompt_number: 1, user_goal: "" } })),
+      provider
+    );
+    expect([...results.keys()]).toEqual([7]);
+    expect(results.get(7)?.title).toBe("Memory 7");
+  });
+
+  test("cached compressions are served without a provider request", async () => {
+    const provider = new OpenAICompatibleProvider("local", local());
+    const stored = new Map<string, CompressedObservation>();
+    const cache: CompressionCache = {
+      get: (raw) => stored.get(raw.tool_response) ?? null,
+      set: (raw, compressed) => void stored.set(raw.tool_response, compressed),
+    };
+    const exec = (out: string): RawObservation => ({
+      tool_name: "Bash", tool_input: { command: "bun test" }, tool_response: out,
+      project: "my-app", prompt_number: 1, user_goal: "",
+    });
+
+    received.length = 0;
+    reply = `<memory><type>change</type><title>Ran tests</title><narrative>All passed.</narrative></memory>`;
+    expect((await compressObservation(exec("12 pass"), provider, cache)).title).toBe("Ran tests");
+    expect((await compressObservation(exec("12 pass"), provider, cache)).title).toBe("Ran tests");
+    expect(received).toHaveLength(1);
+
+    reply = `<memory id="2"><type>error</type><title>Tests failed</title><narrative>One failure.</narrative></memory>`;
+    const results = await compressObservationBatch(
+      [{ id: 1, raw: exec("12 pass") }, { id: 2, raw: exec("1 fail") }],
+      provider,
+      cache
+    );
+    expect(received).toHaveLength(2);
+    expect(JSON.stringify(received[1].body.messages)).not.toContain("12 pass");
+    expect(results.get(1)?.title).toBe("Ran tests");
+    expect(results.get(2)?.title).toBe("Tests failed");
+    expect(stored.get("1 fail")?.type).toBe("error");
+  });
+
+  test("MeteredProvider reports tokens, latency and failures of every call", async () => {
+    const calls: LlmCall[] = [];
+    const metered = new MeteredProvider(new OpenAICompatibleProvider("local", local()), (c) => calls.push(c));
+    expect(metered.name).toBe("local");
+    expect(metered.model).toBe("llama3.1:8b");
+
+    reply = "<memory><type>change</type><title>Ran ls</title><narrative>Listed files.</narrative></memory>";
+    usage = { prompt_tokens: 1_200, completion_tokens: 40 };
+    try {
+      await compressObservation(
+        { tool_name: "Bash", tool_input: { command: "ls" }, tool_response: "a.ts", project: "p", prompt_number: 1, user_goal: "" },
+        metered
+      );
+    } finally {
+      usage = undefined;
+    }
+    reply = "12345678";
+    await metered.complete("x".repeat(400), { maxTokens: 8 });
+
+    const failing = new MeteredProvider(new OpenAICompatibleProvider("local", local("/v1/fail")), (c) => calls.push(c));
+    await expect(failing.complete("x", { maxTokens: 8, purpose: "summarize" })).rejects.toThrow("HTTP 503");
+
+    expect(calls.map(({ latencyMs: _, ...c }) => c)).toEqual([
+      { provider: "local", model: "llama3.1:8b", purpose: "compress", inputTokens: 1_200, outputTokens: 40, ok: true },
+      // No usage block: estimated from characters
+      { provider: "local", model: "llama3.1:8b", purpose: null, inputTokens: 100, outputTokens: 2, ok: true },
+      { provider: "local", model: "llama3.1:8b", purpose: "summarize", inputTokens: 0, outputTokens: 0, ok: false },
+    ]);
+    expect(calls.every((c) => c.latencyMs >= 0)).toBe(true);
+  });
+
+  test("resolveProvider downgrades to the budget model, or none without one", () => {
+    const policy = validateLlm({ providers: { local: local() }, projects: { "my-app": "local" } });
+    expect(resolveProvider(policy, "oss-lib", true).model).toBe("claude-3-haiku-20240307");
+    expect(resolveProvider(policy, "my-app", true).type).toBe("none");
+
+    const withBudgetModel = validateLlm({
+      provider: "local",
+      providers: { local: local("/v1", { budgetModel: "qwen2.5:1.5b" }) },
+    });
+    expect(resolveProvider(withBudgetModel, "my-app").model).toBe("llama3.1:8b");
+    expect(resolveProvider(withBudgetModel, "my-app", true).model).toBe("qwen2.5:1.5b");
+  });
+
+  test("the none provider is never available", async () => {
+    const none = new NoneProvider();
+    expect(none.isAvailable()).toBe(false);
+    await expect(none.complete()).rejects.toThrow("disabled");
+    await expect(
+      compressObservation(
+        { tool_name: "Read", tool_input: {}, tool_response: "", project: "p", prompt_number: 1, user_goal: "" },
+        none
+      )
+    ).rejects.toThrow('LLM provider "none" is not available');
+  });
+
+  test("compressObservation throws after failing every attempt instead of returning rule output", async () => {
+    const calls: LlmCall[] = [];
+    const failing = new MeteredProvider(new OpenAICompatibleProvider("local", local("/v1/fail")), (c) => calls.push(c));
+    const cache: CompressionCache = { get: () => null, set: () => expect.unreachable() };
+
+    await expect(
+      compressObservation(
+        { tool_name: "Bash", tool_input: { command: "bun test" }, tool_response: "3 pass", project: "p", prompt_number: 1, user_goal: "" },
+        failing,
+        cache
+      )
+    ).rejects.toThrow("Compression failed after 3 attempts (tool: Bash): LLM provider \"local\" returned HTTP 503");
+    expect(calls.map((c) => c.ok)).toEqual([false, false, false]);
+  }, 10_000);
+
+  test("resolveProvider picks the project's provider, else the default", () => {
+    const policy = validateLlm({
+      provider: "local",
+      providers: { local: local() },
+      projects: { "client-x": "none", "oss-lib": "anthropic" },
+    });
+
+    const fallback = resolveProvider(policy, "my-app");
+    expect(fallback.name).toBe("local");
+    expect(fallback.type).toBe("openai");
+    expect(fallback.model).toBe("llama3.1:8b");
+
+    expect(resolveProvider(policy, "client-x").type).toBe("none");
+    expect(resolveProvider(policy, "oss-lib").type).toBe("anthropic");
+    expect(resolveProvider(policy).name).toBe("local");
+  });
+});
+
+describe("structured output validation", () => {
+  const memory = {
+    type: "feature", title: "Add batching", narrative: "Queue batches items.",
+    tags: ["queue"], facts: [], files_read: [], files_modified: ["src/worker/queue.ts"],
+  };
+
+  test("the JSON schema requires every field and allows no others", () => {
+    const schema = toJsonSchema(MEMORY_OUTPUT) as { required: string[]; additionalProperties: boolean; properties: Record<string, { enum?: string[] }> };
+    expect(schema.required).toEqual(Object.keys(MEMORY_OUTPUT.fields));
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.properties.type.enum).toContain("bugfix");
+  });
+
+  test("accepts a valid memory and defaults missing lists", () => {
+    const { files_read: _, ...withoutFilesRead } = memory;
+    const result = validateMemoryOutput(withoutFilesRead);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value.files_read).toEqual([]);
+  });
+
+  test("reports wrong types, unknown enum values and length caps per field", () => {
+    const result = validateMemoryOutput(
+      { ...memory, type: "improvement", title: "x".repeat(121), tags: "queue", facts: [1], narrative: "  " },
+      "memories[0]"
+    );
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors.map((e) => e.field)).toEqual([
+      "memories[0].type", "memories[0].title", "memories[0].narrative", "memories[0].tags", "memories[0].facts[0]",
+    ]);
+    expect(result.errors[0].message).toContain('got "improvement"');
+    expect(result.errors[1].message).toBe("exceeds 120 characters (121)");
+    expect(result.errors[3].message).toBe("must be an array of strings, got string");
+
+    expect(validateMemoryOutput({ ...memory, tags: Array.from({ length: 13 }, (_, i) => `t${i}`) }).ok).toBe(false);
+    expect(validateMemoryOutput(["not", "an", "object"]).ok).toBe(false);
+  });
+
+  test("summaries need a request; the error lists every failing field", () => {
+    const result = validateSummaryOutput({ investigated: 3, learned: "Cache keys ignore timing." });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(new StructuredOutputError("record_session_summary", result.errors).message).toBe(
+      "record_session_summary output failed validation: request: is required; investigated: must be a string, got number"
+    );
+  });
+});
+
+describe("validateLlm", () => {
+  test("defaults to the built-in anthropic provider", () => {
+    const policy = validateLlm(undefined);
+    expect(policy.provider).toBe("anthropic");
+    expect(Object.keys(policy.providers).sort()).toEqual(["anthropic", "none"]);
+    expect(policy.providers.anthropic.models).toContain("claude-haiku-4-5");
+    expect(policy.projects).toEqual({});
+  });
+
+  test("merges over built-in providers and applies defaults to new ones", () => {
+    const policy = validateLlm({
+      providers: {
+        anthropic: { model: "claude-sonnet-4-5", timeoutMs: 5_000 } as LlmProviderSettings,
+        local: { type: "openai", baseUrl: "http://127.0.0.1:11434/v1/", model: "qwen2.5" } as LlmProviderSettings,
+      },
+    });
+    expect(policy.providers.anthropic.type).toBe("anthropic");
+    expect(policy.providers.anthropic.model).toBe("claude-sonnet-4-5");
+    expect(policy.providers.anthropic.timeoutMs).toBe(5_000);
+    expect(policy.providers.local.baseUrl).toBe("http://127.0.0.1:11434/v1");
+    expect(policy.providers.local.models).toEqual([]);
+    expect(policy.providers.local.timeoutMs).toBe(60_000);
+  });
+
+  test("rejects malformed providers and unknown provider names", () => {
+    const openai = (extra: Record<string, unknown>) =>
+      validateLlm({ providers: { local: { type: "openai", model: "m", baseUrl: "http://localhost:8080/v1", ...extra } as LlmProviderSettings } });
+
+    expect(() => openai({ baseUrl: "localhost:8080" })).toThrow("llm.providers.local.baseUrl");
+    expect(() => openai({ model: null })).toThrow("need a model");
+    expect(() => openai({ models: ["a", "b"] })).toThrow('Unknown model "m"');
+    expect(() => openai({ timeoutMs: 0 })).toThrow("llm.providers.local.timeoutMs");
+    expect(() => openai({ apiKeyEnv: "sk-not-a-var-name" })).toThrow("apiKeyEnv");
+    expect(() => openai({ structuredOutput: "yes" })).toThrow("llm.providers.local.structuredOutput");
+    expect(() => validateLlm({ providers: { x: { model: "m" } as LlmProviderSettings } })).toThrow(
+      "llm.providers.x.type"
+    );
+    expect(() => validateLlm({ provider: "ollama" })).toThrow('llm.provider "ollama"');
+    expect(() => validateLlm({ projects: { "my-app": "ollama" } })).toThrow("llm.projects.my-app");
+    expect(() => validateLlm({ providers: { anthropic: { model: "gpt-4o" } as LlmProviderSettings } })).toThrow(
+      'Unknown model "gpt-4o"'
+    );
+  });
+});
+
+describe("validateUsage", () => {
+  test("defaults to unlimited budgets and Anthropic prices", () => {
+    const policy = validateUsage(undefined);
+    expect(policy.budget).toEqual({ dailyUsd: null, monthlyUsd: null });
+    expect(policy.onExceeded).toBe("downgrade");
+    expect(policy.prices["claude-haiku-4-5"]).toEqual({ input: 1, output: 5 });
+  });
+
+  test("merges prices and lets projects inherit the limits they do not set", () => {
+    const policy = validateUsage({
+      prices: { "gpt-4o-mini": { input: 0.15, output: 0.6 } },
+      budget: { dailyUsd: 2, monthlyUsd: 30 },
+      projects: { "client-x": { dailyUsd: 0.5 } as never },
+      onExceeded: "stop",
+    });
+    expect(policy.prices["gpt-4o-mini"]).toEqual({ input: 0.15, output: 0.6 });
+    expect(policy.prices["claude-haiku-4-5"]).toBeDefined();
+    expect(policy.projects["client-x"]).toEqual({ dailyUsd: 0.5, monthlyUsd: 30 });
+    expect(policy.onExceeded).toBe("stop");
+  });
+
+  test("rejects malformed budgets, prices and modes", () => {
+    expect(() => validateUsage({ budget: { dailyUsd: -1, monthlyUsd: null } })).toThrow("usage.budget.dailyUsd");
+    expect(() => validateUsage({ projects: { app: { dailyUsd: null, monthlyUsd: "10" as never } } })).toThrow(
+      "usage.projects.app.monthlyUsd"
+    );
+    expect(() => validateUsage({ prices: { m: { input: 1 } as never } })).toThrow("usage.prices.m");
+    expect(() => validateUsage({ onExceeded: "pause" as never })).toThrow("usage.onExceeded");
+    expect(() =>
+      validateLlm({ providers: { anthropic: { budgetModel: "gpt-4o-mini" } as LlmProviderSettings } })
+    ).toThrow('Unknown model "gpt-4o-mini"');
+  });
+});
+
+// ─── Rule-Based Compressor ────────────────────────────────────────────────────
+
+describe("compressWithRules", () => {
+  const raw = (tool_name: string, tool_input: unknown, tool_response: string) => ({
+    tool_name,
+    tool_input,
+    tool_response,
+    project: "my-app",
+    prompt_number: 3,
+    user_goal: "",
+  });
+
+  test("failed test run: counts, error lines and referenced files", () => {
+    const out = compressWithRules(raw(
+      "Bash",
+      { command: "bun test tests/", exit_code: 1, duration_ms: 4_200 },
+      "tests/auth.test.ts:\n(fail) refresh > retries once\nerror: expect(received).toBe(expected)\n" +
+        "    at tests/auth.test.ts:12:5\n\n 82 pass\n 1 fail\nRan 83 tests across 1 file."
+    ));
+    expect(out.type).toBe("error");
+    expect(out.title).toBe("Tests failed (82 passed, 1 failed): bun test tests/");
+    expect(out.facts).toEqual([
+      "82 passed, 1 failed",
+      "exit code 1",
+      "took 4.2s",
+      "(fail) refresh > retries once",
+      "error: expect(received).toBe(expected)",
+    ]);
+    expect(out.files_read).toEqual(["tests/auth.test.ts"]);
+    expect(out.tags).toEqual(["bash", "test", "failed"]);
+  });
+
+  test("passing run is not a failure just because the output says '0 failed'", () => {
+    const out = compressWithRules(raw("Bash", { command: "pytest -q" }, "....\n4 passed, 0 failed in 0.12s"));
+    expect(out.type).toBe("discovery");
+    expect(out.title).toBe("Tests passed (4 passed, 0 failed): pytest -q");
+    expect(out.narrative).toBe("Ran `pytest -q`: passed.");
+  });
+
+  test("type check and lint failures are classified from compiler / linter summaries", () => {
+    const tsc = compressWithRules(raw(
+      "Bash",
+      { command: "npx tsc --noEmit" },
+      "src/x.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.\nFound 1 error in src/x.ts:3"
+    ));
+    expect(tsc.type).toBe("error");
+    expect(tsc.title).toBe("Type check failed (1 error): npx tsc --noEmit");
+    expect(tsc.facts).toContain("src/x.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.");
+    expect(tsc.files_read).toEqual(["src/x.ts"]);
+
+    const lint = compressWithRules(raw("Bash", { command: "npx eslint src" }, "✖ 5 problems (3 errors, 2 warnings)"));
+    expect(lint.title).toBe("Lint failed (3 errors, 2 warnings): npx eslint src");
+
+    const build = compressWithRules(raw("Bash", { command: "npm run build", exit_code: 0 }, "built in 1.2s"));
+    expect(build.type).toBe("discovery");
+    expect(build.title).toBe("Build passed: npm run build");
+  });
+
+  test("exit code wins over failure-looking output; FAILURE_RE decides when nothing else does", () => {
+    const ok = compressWithRules(raw("Bash", { command: "grep -r error src", exit_code: 0 }, "src/a.ts: // error handling"));
+    expect(ok.type).toBe("other");
+    expect(ok.title).toBe("Ran: grep -r error src");
+
+    const failed = compressWithRules(raw("Bash", { command: "./deploy.sh" }, "Permission denied\nfatal: cannot lock ref"));
+    expect(failed.type).toBe("error");
+    expect(failed.title).toBe("Failed: ./deploy.sh");
+  });
+
+  test("edits, reads and fetches", () => {
+    const edit = compressWithRules(raw("Edit", { path: "src/auth.ts", old_bytes: 10, new_bytes: 40 }, "Updated src/auth.ts via Edit."));
+    expect(edit).toEqual({
+      type: "change",
+      title: "Edited src/auth.ts",
+      narrative: "Edited src/auth.ts via Edit.",
+      tags: ["edit"],
+      facts: ["replaced 10 bytes with 40"],
+      files_read: [],
+      files_modified: ["src/auth.ts"],
+    });
+
+    const patch = compressWithRules(raw(
+      "apply_patch",
+      { input: "*** Begin Patch\n*** Update File: src/a.ts\n@@\n*** Add File: src/b.ts\n*** End Patch" },
+      "Done!"
+    ));
+    expect(patch.title).toBe("Edited 2 files");
+    expect(patch.files_modified).toEqual(["src/a.ts", "src/b.ts"]);
+
+    const read = compressWithRules(raw("Read", { path: "src/missing.ts" }, "Error: ENOENT: no such file or directory"));
+    expect(read.type).toBe("error");
+    expect(read.title).toBe("Read failed: src/missing.ts");
+    expect(read.files_read).toEqual(["src/missing.ts"]);
+
+    expect(compressWithRules(raw("Read", { file_path: "README.md" }, "# open-mem")).type).toBe("discovery");
+
+    const fetched = compressWithRules(raw("web_fetch", { url: "https://bun.sh/docs" }, "Bun docs"));
+    expect(fetched.type).toBe("research");
+    expect(fetched.title).toBe("web_fetch: https://bun.sh/docs");
+  });
+
+  test("never produces the low-signal passthrough title", () => {
+    const out = compressWithRules(raw("CustomTool", "x", ""));
+    expect(out.title).toBe("CustomTool");
+    expect(out.title).not.toContain("passthrough");
+    expect(out.narrative).toBe("CustomTool returned no output.");
+  });
+});
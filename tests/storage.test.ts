@@ -9,16 +9,58 @@
  *   5. Stats
  *   6. SearchService (searchKeyword, getTimeline, getByIds, searchIndex)
  *   7. Migrations (idempotency)
+ *   8. Retention (preview, purge, FTS consistency)
+ *   9. Observation edits, trash and audit trail
+ *  10. Forget (cross-table purge by query, file, session, date range)
+ *  11. Portable NDJSON export / import
+ *  12. Backups (VACUUM INTO snapshots, rotation, restore)
+ *  13. File index (observation_files triggers, history, hot files)
+ *  14. Summary and prompt search (summaries_fts, prompts_fts, scoped search)
+ *  15. Search query language (parser, compiler, filters)
+ *  16. Local vector index (embedding, incremental build, semantic search)
+ *  17. Hybrid ranking (RRF fusion, per-project weights, hybrid search)
+ *  18. Search highlights (snippets, match offsets, compact results)
+ *  19. Search facets (type, tool, project, file, day and week counts)
+ *  20. Paged index and timelines (keyset cursors, session interleaving)
+ *  21. Watches (saved search CRUD, evaluation against new observations)
+ *  22. Code-aware search (identifier splitting, trigram index, suggestions)
+ *  23. Command history (exec parsing, search, failing commands, forget)
+ *  24. Compression cache (normalized keys, TTL, eviction, counters, forget)
+ *  25. LLM usage (cost estimates, day/project/model report, budgets)
+ *  26. Reprocessing (prompt versions, staged re-compressions, confirm / discard)
+ *  27. Summary chunks (content keys, reuse, retain, forget)
+ *  28. Checkpoints (due by count / minutes, replacement, forget)
  *
- * Uses bun:sqlite in-memory databases so no disk state is created or leaked.
+ * Uses bun:sqlite in-memory databases so no disk state is created or leaked;
+ * the backup tests write to a temp directory that is removed afterwards.
  */
 
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
 import { Database } from 'bun:sqlite';
 import { scrubSecrets, scrubJson } from '../src/storage/secrets.ts';
 import { CMemDb, escapeFTS5Query, _resetDbForTesting } from '../src/storage/db.ts';
-import { SearchService } from '../src/storage/search.ts';
+import { SearchService, compactResult, CursorError } from '../src/storage/search.ts';
 import { runMigrations } from '../src/storage/migrations.ts';
+import { RetentionService } from '../src/storage/retention.ts';
+import { ForgetService } from '../src/storage/forget.ts';
+import { exportProject, importProject } from '../src/storage/portable.ts';
+import { BackupService, replaceDatabaseFile } from '../src/storage/backup.ts';
+import { FileIndexService } from '../src/storage/files.ts';
+import { parseQuery, compileQuery, compileTrigramQuery, QuerySyntaxError } from '../src/storage/query-parser.ts';
+import { splitIdentifier, editDistance } from '../src/storage/identifiers.ts';
+import { VectorIndex, embedText, tokenizeForVectors, VECTOR_DIMS } from '../src/storage/vectors.ts';
+import { WatchService } from '../src/storage/watches.ts';
+import { CommandService, parseCommandRun } from '../src/storage/commands.ts';
+import { CompressionCacheService, compressionCacheKey } from '../src/storage/compression-cache.ts';
+import { UsageService, estimateCostUsd } from '../src/storage/usage.ts';
+import { ReprocessService } from '../src/storage/reprocess.ts';
+import { SummaryChunkService, summaryChunkKey } from '../src/storage/summary-chunks.ts';
+import { CheckpointService } from '../src/storage/checkpoints.ts';
+import { DEFAULT_RANKING, rankHybrid, resolveRanking, scoreSignals, textRanks } from '../src/storage/ranking.ts';
+import { mkdtempSync, rmSync, statSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { CompressedObservation, RawObservation, RetentionPolicy } from '../src/types.ts';
 import type { DbInterface } from '../src/storage/db.ts';
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -642,3 +684,2138 @@ describe('Migrations', () => {
     raw.close();
   });
 });
+
+// ─── 8. Retention ─────────────────────────────────────────────────────────────
+
+describe('RetentionService', () => {
+  const DAY = 86_400;
+  let db: DbInterface;
+  let raw: Database;
+  let sessionId: number;
+  let qmdCalls: { project: string; ids: number[] }[];
+  let svc: RetentionService;
+
+  const policy = (overrides: Partial<RetentionPolicy> = {}): RetentionPolicy => ({
+    enabled: true,
+    intervalMs: 60_000,
+    observationMaxAgeDays: {},
+    maxObservationsPerProject: null,
+    summaryMaxAgeDays: null,
+    processedQueueMaxAgeDays: null,
+    failedQueueMaxAgeDays: null,
+    ...overrides,
+  });
+
+  /** Insert an observation and backdate it by `ageDays` */
+  function insertAged(obsType: string, title: string, ageDays: number): number {
+    const id = db.insertObservation({
+      session_id: sessionId,
+      prompt_number: 1,
+      tool_name: 'Bash',
+      raw_input: null,
+      compressed: `${title} compressed`,
+      obs_type: obsType,
+      title,
+      narrative: `${title} narrative`,
+    });
+    raw.run('UPDATE observations SET created_at = unixepoch() - ? WHERE id = ?', [ageDays * DAY, id]);
+    return id;
+  }
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    sessionId = db.createSession('retention-sess', 'retention-proj');
+    qmdCalls = [];
+    svc = new RetentionService(raw, {
+      removeFromQMD: (project: string, ids: number[]) => {
+        qmdCalls.push({ project, ids });
+        return ids.length;
+      },
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('preview reports per-type age matches without deleting', () => {
+    const oldOther = insertAged('other', 'Old passthrough', 40);
+    insertAged('decision', 'Old decision', 40);
+    insertAged('other', 'Fresh passthrough', 1);
+
+    const report = svc.preview(policy({ observationMaxAgeDays: { other: 30 } }));
+    expect(report.dryRun).toBe(true);
+    expect(report.observations.byAge).toBe(1);
+    expect(report.observations.ids).toEqual([oldOther]);
+    expect(db.getObservation(oldOther)).not.toBeNull();
+    expect(qmdCalls).toHaveLength(0);
+  });
+
+  test('"*" covers types without an explicit rule', () => {
+    insertAged('decision', 'Ancient decision', 400);
+    const oldBugfix = insertAged('bugfix', 'Old bugfix', 100);
+
+    const report = svc.preview(
+      policy({ observationMaxAgeDays: { decision: 3650, '*': 90 } }),
+    );
+    expect(report.observations.ids).toEqual([oldBugfix]);
+  });
+
+  test('purge deletes rows, keeps obs_fts in sync and cleans the QMD export', () => {
+    const oldId = insertAged('other', 'Zanzibar cleanup target', 40);
+    insertAged('other', 'Fresh entry', 1);
+
+    expect(db.searchFTS('Zanzibar')).toHaveLength(1);
+    const report = svc.purge(policy({ observationMaxAgeDays: { other: 30 } }));
+
+    expect(report.dryRun).toBe(false);
+    expect(report.observations.total).toBe(1);
+    expect(db.getObservation(oldId)).toBeNull();
+    expect(db.searchFTS('Zanzibar')).toHaveLength(0);
+    expect(qmdCalls).toEqual([{ project: 'retention-proj', ids: [oldId] }]);
+    expect(report.qmdFilesRemoved).toBe(1);
+  });
+
+  test('per-project cap keeps the newest rows', () => {
+    const oldest = insertAged('feature', 'Oldest', 3);
+    const middle = insertAged('feature', 'Middle', 2);
+    const newest = insertAged('feature', 'Newest', 1);
+
+    const report = svc.purge(policy({ maxObservationsPerProject: 2 }));
+    expect(report.observations.byProjectCap).toBe(1);
+    expect(db.getObservation(oldest)).toBeNull();
+    expect(db.getObservation(middle)).not.toBeNull();
+    expect(db.getObservation(newest)).not.toBeNull();
+  });
+
+  test('purges processed and failed queue rows by their own windows', () => {
+    const processed = db.enqueue(sessionId, 'observation', { tool_name: 'Read' });
+    const failed = db.enqueue(sessionId, 'observation', { tool_name: 'Read' });
+    const pending = db.enqueue(sessionId, 'observation', { tool_name: 'Read' });
+    db.markProcessed(processed);
+    db.markFailed(failed, 'boom');
+    raw.run('UPDATE queue SET completed_at = unixepoch() - ?, created_at = unixepoch() - ?', [
+      10 * DAY,
+      10 * DAY,
+    ]);
+
+    const report = svc.purge(policy({ processedQueueMaxAgeDays: 7, failedQueueMaxAgeDays: 30 }));
+    expect(report.queue).toEqual({ processed: 1, failed: 0 });
+
+    const remaining = (raw.query('SELECT id FROM queue ORDER BY id').all() as { id: number }[]).map(
+      (r) => r.id,
+    );
+    expect(remaining).toEqual([failed, pending]);
+  });
+
+  test('summary age limit and project scoping', () => {
+    const other = db.createSession('retention-other', 'other-proj');
+    db.insertSummary({ session_id: sessionId, request: 'a', investigated: null, learned: null, completed: null, next_steps: null });
+    db.insertSummary({ session_id: other, request: 'b', investigated: null, learned: null, completed: null, next_steps: null });
+    raw.run('UPDATE summaries SET created_at = unixepoch() - ?', [100 * DAY]);
+
+    const report = svc.purge(policy({ summaryMaxAgeDays: 30 }), 'retention-proj');
+    expect(report.summaries).toBe(1);
+    const left = raw.query('SELECT session_id FROM summaries').all() as { session_id: number }[];
+    expect(left).toEqual([{ session_id: other }]);
+  });
+});
+
+// ─── 9. Observation Edits / Trash / Audit ─────────────────────────────────────
+
+describe('Observation edits and trash', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let obsId: number;
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    const sessionId = db.createSession('edit-sess', 'edit-proj');
+    obsId = db.insertObservation({
+      session_id: sessionId,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: JSON.stringify({
+        type: 'other',
+        tags: ['Edit'],
+        facts: [],
+        files_read: [],
+        files_modified: ['src/a.ts'],
+        narrative: 'Original quokka narrative',
+      }),
+      obs_type: 'other',
+      title: 'Bad LLM title',
+      narrative: 'Original quokka narrative',
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('updateObservation rewrites fields, re-signs hmac and reindexes FTS', () => {
+    const before = db.getObservation(obsId)!;
+    const updated = db.updateObservation(
+      obsId,
+      { title: 'Fixed wombat title', obs_type: 'bugfix', tags: ['fts'] },
+      'alice',
+    );
+
+    expect(updated!.title).toBe('Fixed wombat title');
+    expect(updated!.obs_type).toBe('bugfix');
+    expect(updated!.hmac).not.toBe(before.hmac);
+    const details = JSON.parse(updated!.compressed) as Record<string, unknown>;
+    expect(details.type).toBe('bugfix');
+    expect(details.tags).toEqual(['fts']);
+    expect(details.files_modified).toEqual(['src/a.ts']);
+
+    expect(db.searchFTS('wombat')).toHaveLength(1);
+    expect(db.searchFTS('Bad LLM title')).toHaveLength(0);
+  });
+
+  test('edits scrub secrets and record an audit entry per changed field', () => {
+    db.updateObservation(obsId, { narrative: 'token ghp_' + 'a'.repeat(36) }, 'bob');
+    const audit = db.getObservationAudit(obsId);
+    expect(audit).toHaveLength(1);
+    expect(audit[0].action).toBe('update');
+    expect(audit[0].actor).toBe('bob');
+    const changes = JSON.parse(audit[0].changes!) as Record<string, { from: unknown; to: unknown }>;
+    expect(Object.keys(changes)).toEqual(['narrative']);
+    expect(String(changes.narrative.to)).toContain('[REDACTED]');
+  });
+
+  test('soft delete hides the row from reads and search; restore brings it back', () => {
+    expect(db.softDeleteObservation(obsId, 'alice')).toBe(true);
+    expect(db.softDeleteObservation(obsId, 'alice')).toBe(false);
+    expect(db.getObservation(obsId)).toBeNull();
+    expect(db.searchFTS('quokka')).toHaveLength(0);
+    expect(new SearchService(raw).getByIds([obsId])).toHaveLength(0);
+    expect(db.getDeletedObservations(undefined, 10, 0).map((o) => o.id)).toEqual([obsId]);
+    expect(db.updateObservation(obsId, { title: 'nope' }, 'alice')).toBeNull();
+
+    expect(db.restoreObservation(obsId, 'carol')).toBe(true);
+    expect(db.getObservation(obsId)).not.toBeNull();
+    expect(db.searchFTS('quokka')).toHaveLength(1);
+    expect(db.getObservationAudit(obsId).map((a) => a.action)).toEqual(['delete', 'restore']);
+  });
+
+  test('purge removes the row and strips field values from earlier audit rows', () => {
+    db.updateObservation(obsId, { narrative: 'leaked internal hostname' }, 'alice');
+    expect(db.purgeObservation(obsId, 'alice')).toBe(true);
+    expect(db.purgeObservation(obsId, 'alice')).toBe(false);
+
+    const count = raw.query('SELECT COUNT(*) AS n FROM observations').get() as { n: number };
+    expect(count.n).toBe(0);
+    expect(db.searchFTS('quokka')).toHaveLength(0);
+
+    const audit = db.getObservationAudit(obsId);
+    expect(audit.map((a) => a.action)).toEqual(['update', 'purge']);
+    expect(audit.every((a) => a.changes === null)).toBe(true);
+  });
+});
+
+// ─── 10. Forget ───────────────────────────────────────────────────────────────
+
+describe('ForgetService', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let sessA: number;
+  let sessB: number;
+  let leakId: number;
+  let cleanId: number;
+  let qmdCalls: { project: string; ids: number[] }[];
+  let svc: ForgetService;
+
+  const count = (table: string) =>
+    (raw.query(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    sessA = db.createSession('forget-a', 'forget-proj', 'Please email AcmeCorp about the invoice');
+    sessB = db.createSession('forget-b', 'forget-proj', 'Unrelated work');
+
+    leakId = db.insertObservation({
+      session_id: sessA,
+      prompt_number: 1,
+      tool_name: 'Read',
+      raw_input: '{"file_path":"/srv/customers/acmecorp.csv"}',
+      compressed: JSON.stringify({ files_read: ['/srv/customers/acmecorp.csv'], narrative: 'Customer list' }),
+      obs_type: 'research',
+      title: 'Read customer list',
+      narrative: 'Contains the AcmeCorp contract terms',
+    });
+    cleanId = db.insertObservation({
+      session_id: sessB,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: 'Refactored the parser',
+      obs_type: 'refactor',
+      title: 'Parser refactor',
+      narrative: 'Split tokenizer from parser',
+    });
+    db.updateObservation(leakId, { title: 'AcmeCorp customer list' }, 'alice');
+    db.insertUserPrompt(sessA, 1, 'Summarise the acmecorp contract');
+    db.insertUserPrompt(sessB, 1, 'Refactor the parser');
+    db.insertSummary({ session_id: sessA, request: 'Review AcmeCorp terms', investigated: null, learned: null, completed: null, next_steps: null });
+    db.enqueue(sessA, 'observation', { toolName: 'Read', toolResult: 'AcmeCorp, net 30' });
+    db.enqueue(sessB, 'observation', { toolName: 'Edit', toolResult: 'parser.ts' });
+
+    qmdCalls = [];
+    svc = new ForgetService(raw, {
+      removeFromQMD: (project: string, ids: number[]) => {
+        qmdCalls.push({ project, ids });
+        return 0;
+      },
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('rejects empty criteria', () => {
+    expect(() => svc.preview({})).toThrow(/at least one/);
+    expect(() => svc.preview({ project: 'forget-proj' })).toThrow(/at least one/);
+  });
+
+  test('preview counts matches across every table without deleting', () => {
+    const report = svc.preview({ query: 'acmecorp' });
+    expect(report.dryRun).toBe(true);
+    expect(report.observations.ids).toEqual([leakId]);
+    expect(report.userPrompts).toBe(1);
+    expect(report.summaries).toBe(1);
+    expect(report.queue).toBe(1);
+    expect(report.sessionPrompts).toBe(1);
+    expect(report.auditRows).toBe(1);
+    expect(count('observations')).toBe(2);
+  });
+
+  test('purge removes text matches everywhere and rebuilds the FTS index', () => {
+    const report = svc.purge({ query: 'AcmeCorp' });
+    expect(report.vacuumed).toBe(true);
+
+    expect(db.getObservation(leakId)).toBeNull();
+    expect(db.getObservation(cleanId)).not.toBeNull();
+    expect(db.searchFTS('AcmeCorp')).toHaveLength(0);
+    expect(db.searchFTS('parser')).toHaveLength(1);
+    expect(count('user_prompts')).toBe(1);
+    expect(count('summaries')).toBe(0);
+    expect(count('queue')).toBe(1);
+    expect(count('observation_audit')).toBe(0);
+
+    const first = raw.query('SELECT first_prompt FROM sessions WHERE id = ?').get(sessA) as {
+      first_prompt: string | null;
+    };
+    expect(first.first_prompt).toBeNull();
+    expect(qmdCalls).toEqual([{ project: 'forget-proj', ids: [leakId] }]);
+  });
+
+  test('purge sets secure_delete back to its previous value', () => {
+    const mode = () => (raw.query('PRAGMA secure_delete').get() as { secure_delete: number }).secure_delete;
+    expect(mode()).toBe(0);
+    svc.purge({ query: 'AcmeCorp' });
+    expect(mode()).toBe(0);
+  });
+
+  test('file criterion matches raw_input and files lists', () => {
+    const report = svc.preview({ file: '/srv/customers/acmecorp.csv' });
+    expect(report.observations.ids).toEqual([leakId]);
+  });
+
+  test('criteria are ANDed: session scope excludes other sessions', () => {
+    const report = svc.purge({ sessionId: 'forget-b', query: 'parser' });
+    expect(report.observations.ids).toEqual([cleanId]);
+    expect(db.getObservation(leakId)).not.toBeNull();
+    expect(count('user_prompts')).toBe(1);
+  });
+
+  test('date range outside the data matches nothing', () => {
+    const report = svc.preview({ from: 0, to: 1_000 });
+    expect(report.observations.count).toBe(0);
+    expect(report.userPrompts + report.summaries + report.queue).toBe(0);
+  });
+});
+
+// ─── 11. Portable Export / Import ─────────────────────────────────────────────
+
+describe('Portable export / import', () => {
+  let src: { db: DbInterface; raw: Database };
+  let dst: { db: DbInterface; raw: Database };
+
+  beforeEach(() => {
+    src = makeDb();
+    dst = makeDb();
+    const sess = src.db.createSession('port-sess', 'port-proj', 'Port the parser');
+    src.db.insertUserPrompt(sess, 1, 'Port the parser');
+    const obsId = src.db.insertObservation({
+      session_id: sess,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: '{"file_path":"src/parser.ts"}',
+      compressed: 'Ported the lexer to the new token API',
+      obs_type: 'refactor',
+      title: 'Lexer port',
+      narrative: 'Moved token kinds into an enum.',
+    });
+    new CommandService(src.raw).record(obsId, {
+      command: 'bun test tests/parser.test.ts',
+      cwd: '/repo',
+      exit_code: 1,
+      signal: null,
+      duration_ms: 840,
+    });
+    src.db.insertSummary({ session_id: sess, request: 'Port parser', investigated: null, learned: 'Enums help', completed: null, next_steps: null });
+    src.db.enqueue(sess, 'observation', { toolName: 'Edit' });
+    // An unrelated project must not leak into the export
+    src.db.createSession('other-sess', 'other-proj');
+  });
+
+  afterEach(() => {
+    src.db.close();
+    dst.db.close();
+  });
+
+  const dump = (includeQueue = false) =>
+    [...exportProject(src.raw, 'port-proj', { includeQueue })].join('\n') + '\n';
+
+  test('export has a header, one line per row and a footer with counts', () => {
+    const lines = dump().trim().split('\n').map((l) => JSON.parse(l) as Record<string, unknown>);
+    expect(lines[0]).toMatchObject({ kind: 'header', format: 'open-mem-export', version: 1 });
+    expect(lines.at(-1)).toMatchObject({
+      kind: 'footer',
+      counts: { session: 1, user_prompt: 1, observation: 1, command: 1, summary: 1, queue: 0 },
+    });
+    expect(lines.some((l) => (l.data as { hmac?: string } | undefined)?.hmac)).toBe(false);
+  });
+
+  test('import remaps session ids and re-signs observations', () => {
+    dst.db.createSession('pre-existing', 'x'); // shift local ids
+    const report = importProject(dst.raw, dump(true));
+    expect(report.sessions).toEqual({ imported: 1, skipped: 0 });
+    expect(report.queue).toBe(1);
+
+    const obs = dst.db.searchFTS('lexer', 'port-proj');
+    expect(obs).toHaveLength(1);
+    expect(obs[0].hmac).toMatch(/^[0-9a-f]{64}$/);
+    const local = dst.db.getSession('port-sess')!;
+    expect(obs[0].session_id).toBe(local.id);
+    expect(dst.db.getRecentSummaries('port-proj', 5)[0].learned).toBe('Enums help');
+  });
+
+  test('import remaps command history to the local session and observation', () => {
+    dst.db.createSession('pre-existing', 'x');
+    dst.db.insertObservation({
+      session_id: dst.db.getSession('pre-existing')!.id,
+      prompt_number: 1,
+      tool_name: 'Bash',
+      raw_input: null,
+      compressed: 'shift local observation ids',
+      obs_type: 'other',
+      title: null,
+      narrative: null,
+    });
+    const report = importProject(dst.raw, dump());
+    expect(report.commands).toBe(1);
+
+    const [run] = new CommandService(dst.raw).search({ project: 'port-proj' });
+    expect(run).toMatchObject({ command: 'bun test tests/parser.test.ts', cwd: '/repo', exit_code: 1, duration_ms: 840 });
+    expect(run.observation_id).toBe(dst.db.searchFTS('lexer', 'port-proj')[0].id);
+    expect(run.session_id).toBe('port-sess');
+
+    expect(importProject(dst.raw, dump()).commands).toBe(0);
+  });
+
+  test('import remaps a checkpoint to the local id of its newest observation', () => {
+    const sess = src.db.getSession('port-sess')!.id;
+    const [srcObs] = src.db.searchFTS('lexer', 'port-proj');
+    new CheckpointService(src.raw).save({
+      session_id: sess, request: 'Porting', investigated: 'None', learned: 'None', completed: 'None',
+      next_steps: 'None', prompt_version: '1', model: 'm', through_observation_id: srcObs.id,
+    });
+    dst.db.createSession('pre-existing', 'x');
+    dst.db.insertObservation({
+      session_id: dst.db.getSession('pre-existing')!.id,
+      prompt_number: 1,
+      tool_name: 'Bash',
+      raw_input: null,
+      compressed: 'shift local observation ids',
+      obs_type: 'other',
+      title: null,
+      narrative: null,
+    });
+    importProject(dst.raw, dump());
+
+    const local = dst.db.getSession('port-sess')!.id;
+    expect(new CheckpointService(dst.raw).latest(local)?.through_observation_id).toBe(
+      dst.db.searchFTS('lexer', 'port-proj')[0].id,
+    );
+  });
+
+  test('re-importing skips sessions that already exist', () => {
+    importProject(dst.raw, dump());
+    const again = importProject(dst.raw, dump());
+    expect(again.sessions).toEqual({ imported: 0, skipped: 1 });
+    expect(again.observations).toBe(0);
+    expect(dst.db.searchFTS('lexer')).toHaveLength(1);
+  });
+
+  test('project option renames the imported sessions', () => {
+    importProject(dst.raw, dump(), { project: 'renamed' });
+    expect(dst.db.getSession('port-sess')!.project).toBe('renamed');
+  });
+
+  test('rejects truncated or foreign input without writing', () => {
+    const lines = dump().trim().split('\n');
+    expect(() => importProject(dst.raw, lines.slice(0, -1).join('\n'))).toThrow(/footer/);
+    expect(() => importProject(dst.raw, [lines[0], lines.at(-1)].join('\n'))).toThrow(/truncated/);
+    expect(() => importProject(dst.raw, '{"kind":"nope"}')).toThrow(/header/);
+    expect(dst.db.getSession('port-sess')).toBeNull();
+  });
+});
+
+// ─── 12. Backups ──────────────────────────────────────────────────────────────
+
+describe('BackupService', () => {
+  let dir: string;
+  let src: ReturnType<typeof makeDb>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'open-mem-backup-'));
+    src = makeDb();
+    const sess = src.db.createSession('bk-sess', 'bk-proj');
+    src.db.insertObservation({
+      session_id: sess,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: '{"title":"Snapshot me"}',
+      obs_type: 'feature',
+      title: 'Snapshot me',
+      narrative: 'Written before the backup',
+    });
+  });
+
+  afterEach(() => {
+    src.raw.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('create writes a consistent 0600 snapshot', () => {
+    const svc = new BackupService(join(dir, 'backups'), 3);
+    const info = svc.create(src.raw, 'manual');
+    expect(info.file).toMatch(/^open-mem-.*-manual\.db$/);
+    expect(statSync(info.path).mode & 0o777).toBe(0o600);
+    expect(existsSync(`${info.path}.tmp`)).toBe(false);
+
+    const snap = new CMemDb(new Database(info.path));
+    expect(snap.searchFTS('snapshot')).toHaveLength(1);
+    snap.close();
+  });
+
+  test('rotation keeps only the newest N', async () => {
+    const svc = new BackupService(join(dir, 'backups'), 2);
+    const first = svc.create(src.raw, 'scheduled');
+    await Bun.sleep(5);
+    svc.create(src.raw, 'scheduled');
+    await Bun.sleep(5);
+    const third = svc.create(src.raw, 'manual');
+
+    const files = svc.list().map((b) => b.file);
+    expect(files).toHaveLength(2);
+    expect(files[0]).toBe(third.file);
+    expect(files).not.toContain(first.file);
+  });
+
+  test('rotate: false keeps older snapshots until rotate() is called', async () => {
+    const svc = new BackupService(join(dir, 'backups'), 1);
+    const old = svc.create(src.raw, 'scheduled');
+    await Bun.sleep(5);
+    svc.create(src.raw, 'pre-restore', { rotate: false });
+    expect(svc.list().map((b) => b.file)).toContain(old.file);
+    expect(svc.rotate()).toBe(1);
+    expect(svc.list()).toHaveLength(1);
+  });
+
+  test('resolve rejects names it did not generate', () => {
+    const svc = new BackupService(join(dir, 'backups'), 3);
+    expect(() => svc.resolve('../open-mem.db')).toThrow(/Invalid backup name/);
+    expect(() => svc.resolve('open-mem-2020-01-01T00-00-00-000Z-manual.db')).toThrow(/not found/);
+  });
+
+  test('replaceDatabaseFile swaps the file and drops stale WAL files', () => {
+    const svc = new BackupService(join(dir, 'backups'), 3);
+    const info = svc.create(src.raw);
+
+    const livePath = join(dir, 'live.db');
+    const live = new CMemDb(new Database(livePath));
+    live.createSession('other-sess', 'other');
+    live.close();
+    writeFileSync(`${livePath}-wal`, 'stale');
+
+    replaceDatabaseFile(info.path, livePath);
+    expect(existsSync(`${livePath}-wal`)).toBe(false);
+    expect(statSync(livePath).mode & 0o777).toBe(0o600);
+
+    const reopened = new CMemDb(new Database(livePath));
+    expect(reopened.getSession('bk-sess')).not.toBeNull();
+    expect(reopened.getSession('other-sess')).toBeNull();
+    reopened.close();
+  });
+
+  test('replaceDatabaseFile refuses a file that is not a database', () => {
+    const bogus = join(dir, 'bogus.db');
+    const livePath = join(dir, 'live.db');
+    writeFileSync(bogus, 'not sqlite at all');
+    writeFileSync(livePath, 'untouched');
+    expect(() => replaceDatabaseFile(bogus, livePath)).toThrow(/unusable/);
+    expect(existsSync(livePath)).toBe(true);
+  });
+});
+
+// ─── 13. File Index ───────────────────────────────────────────────────────────
+
+describe('FileIndexService', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let files: FileIndexService;
+  let sess: number;
+
+  function observe(read: string[], modified: string[], createdAt: number): number {
+    const id = db.insertObservation({
+      session_id: sess,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: JSON.stringify({ type: 'feature', files_read: read, files_modified: modified }),
+      obs_type: 'feature',
+      title: `touch ${modified.join(',')}`,
+      narrative: null,
+    });
+    raw.run('UPDATE observations SET created_at = ? WHERE id = ?', [createdAt, id]);
+    return id;
+  }
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    files = new FileIndexService(raw);
+    sess = db.createSession('files-sess', 'files-proj');
+  });
+
+  test('history matches exact paths and path suffixes, oldest first', () => {
+    const a = observe([], ['/home/me/proj/src/worker/queue.ts'], 100);
+    const b = observe(['src/worker/queue.ts'], [], 200);
+    observe([], ['src/worker/not-queue.ts'], 300);
+
+    const history = files.history('src/worker/queue.ts');
+    expect(history.map((h) => [h.observation_id, h.access])).toEqual([
+      [a, 'modified'],
+      [b, 'read'],
+    ]);
+    expect(history[0].session_id).toBe('files-sess');
+    expect(history[0].project).toBe('files-proj');
+  });
+
+  test('edits reindex and trashed or deleted observations drop out', () => {
+    const id = observe([], ['a.ts'], 100);
+    db.updateObservation(id, { files_modified: ['b.ts'] }, 'test');
+    expect(files.history('a.ts')).toHaveLength(0);
+    expect(files.history('b.ts')).toHaveLength(1);
+
+    db.softDeleteObservation(id, 'test');
+    expect(files.history('b.ts')).toHaveLength(0);
+
+    db.purgeObservation(id, 'test');
+    expect(raw.query('SELECT COUNT(*) AS n FROM observation_files').get()).toEqual({ n: 0 });
+  });
+
+  test('plain-text compressed rows are ignored', () => {
+    db.insertObservation({
+      session_id: sess,
+      prompt_number: 1,
+      tool_name: 'Bash',
+      raw_input: null,
+      compressed: 'Ran the test suite',
+      obs_type: 'other',
+      title: null,
+      narrative: null,
+    });
+    expect(raw.query('SELECT COUNT(*) AS n FROM observation_files').get()).toEqual({ n: 0 });
+  });
+
+  test('hot ranks files by edit count per project', () => {
+    observe(['x.ts'], ['x.ts'], 100);
+    observe([], ['x.ts'], 200);
+    observe(['y.ts'], ['y.ts'], 300);
+    observe(['readonly.ts'], [], 400);
+    const other = db.createSession('files-other', 'other-proj');
+    db.insertObservation({
+      session_id: other,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: JSON.stringify({ files_modified: ['z.ts'] }),
+      obs_type: 'feature',
+      title: null,
+      narrative: null,
+    });
+
+    const hot = files.hot({ project: 'files-proj' });
+    expect(hot.map((f) => [f.path, f.edits, f.reads])).toEqual([
+      ['x.ts', 2, 1],
+      ['y.ts', 1, 1],
+    ]);
+    expect(files.hot({ limit: 1 }).map((f) => [f.project, f.path])).toEqual([
+      ['files-proj', 'x.ts'],
+      ['other-proj', 'z.ts'],
+    ]);
+    expect(files.hot({ project: 'files-proj', since: 250 }).map((f) => f.path)).toEqual(['y.ts']);
+  });
+
+  test('migration backfills rows that predate the index', () => {
+    observe(['old.ts'], ['old.ts'], 100);
+    raw.run('DELETE FROM observation_files');
+    raw.run('DELETE FROM migrations WHERE version = 4');
+    runMigrations(raw);
+    expect(files.history('old.ts')).toHaveLength(2);
+  });
+});
+
+// ─── 14. Summary and Prompt Search ────────────────────────────────────────────
+
+describe('Scoped search', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let search: SearchService;
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    search = new SearchService(raw);
+    const sess = db.createSession('scope-sess', 'scope-proj');
+    db.insertUserPrompt(sess, 1, 'Why does the tokenizer drop unicode quotes?');
+    db.insertObservation({
+      session_id: sess,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: 'Patched the tokenizer quote table',
+      obs_type: 'bugfix',
+      title: 'Tokenizer quotes',
+      narrative: null,
+    });
+    db.insertSummary({
+      session_id: sess,
+      request: 'Fix tokenizer quoting',
+      investigated: null,
+      learned: 'The tokenizer normalises curly quotes first',
+      completed: null,
+      next_steps: 'Add regression tests',
+    });
+    const other = db.createSession('scope-other', 'other-proj');
+    db.insertSummary({ session_id: other, request: 'tokenizer elsewhere', investigated: null, learned: null, completed: null, next_steps: null });
+  });
+
+  test('searchSummaries and searchPrompts hit their own indexes', () => {
+    expect(search.searchSummaries('regression')).toHaveLength(1);
+    expect(search.searchSummaries('tokenizer', 'scope-proj').map((s) => s.project)).toEqual(['scope-proj']);
+    const prompts = search.searchPrompts('unicode');
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0].prompt).toContain('unicode quotes');
+  });
+
+  test('scope=all merges every index, tagged by kind and ordered by score', () => {
+    const hits = search.searchScoped('tokenizer', 'all', 'scope-proj');
+    expect(hits.map((h) => h.kind).sort()).toEqual(['observation', 'prompt', 'summary']);
+    for (let i = 1; i < hits.length; i++) {
+      expect(hits[i].score).toBeGreaterThanOrEqual(hits[i - 1].score);
+    }
+    expect(search.searchScoped('tokenizer', 'observations').every((h) => h.kind === 'observation')).toBe(true);
+  });
+
+  test('indexes follow deletes and migrations backfill existing rows', () => {
+    raw.run('DELETE FROM user_prompts');
+    expect(search.searchPrompts('unicode')).toHaveLength(0);
+
+    raw.run(`INSERT INTO summaries_fts(summaries_fts) VALUES ('delete-all')`);
+    raw.run('DELETE FROM migrations WHERE version = 5');
+    runMigrations(raw);
+    expect(search.searchSummaries('regression')).toHaveLength(1);
+  });
+});
+
+// ─── 15. Search Query Language ────────────────────────────────────────────────
+
+describe('Query language', () => {
+  const compile = (q: string) => compileQuery(parseQuery(q));
+
+  test('compiles text to a quoted FTS5 expression', () => {
+    expect(compile('tokenizer quotes').match).toBe('"tokenizer" AND "quotes"');
+    expect(compile('"curly quotes" token*').match).toBe('"curly quotes" AND "token"*');
+    expect(compile('(lexer OR parser) -test').match).toBe('("lexer" OR "parser") NOT "test"');
+    // FTS5 syntax inside a word is data, not an operator
+    expect(compile('col:NEAR(x)').match).toBe('"col:NEAR" AND "x"');
+  });
+
+  test('field filters are pulled out of the text', () => {
+    const c = compile('type:bugfix,feature -tool:Bash session:abc after:2026-09-01 crash');
+    expect(c.match).toBe('"crash"');
+    expect(c.observationOnly).toBe(true);
+    expect(c.filters).toEqual([
+      { field: 'type', values: ['bugfix', 'feature'], negated: false },
+      { field: 'tool', values: ['Bash'], negated: true },
+      { field: 'session', value: 'abc', negated: false },
+      { field: 'after', epoch: Date.UTC(2026, 8, 1) / 1000, negated: false },
+    ]);
+  });
+
+  test('pure exclusions compile to an exclude expression', () => {
+    expect(compile('-foo -bar')).toMatchObject({ match: null, exclude: '"foo" OR "bar"' });
+  });
+
+  test('malformed queries throw QuerySyntaxError with a position', () => {
+    const cases: [string, RegExp][] = [
+      ['a OR', /Expected a search term/],
+      ['(a', /Unbalanced "\("/],
+      ['a)', /Unbalanced "\)"/],
+      ['"open', /Unterminated/],
+      ['after:yesterday', /Invalid date/],
+      ['a OR type:x', /cannot be combined with OR/],
+      ['a OR -b', /exclusion cannot be one side of OR/],
+      ['a*b', /only allowed at the end/],
+      ['   ', /empty/],
+    ];
+    for (const [q, message] of cases) {
+      let caught: unknown;
+      try {
+        parseQuery(q);
+      } catch (err) {
+        caught = err;
+      }
+      expect(caught).toBeInstanceOf(QuerySyntaxError);
+      expect((caught as Error).message).toMatch(message);
+    }
+    try {
+      parseQuery('a OR type:x');
+    } catch (err) {
+      expect((err as QuerySyntaxError).position).toBe(5);
+    }
+  });
+
+  describe('searchScoped with filters', () => {
+    let db: DbInterface;
+    let raw: Database;
+    let search: SearchService;
+
+    beforeEach(() => {
+      ({ db, raw } = makeDb());
+      search = new SearchService(raw);
+      const sess = db.createSession('ql-sess', 'ql-proj');
+      const add = (tool: string, type: string, title: string, file: string, createdAt: number) => {
+        const id = db.insertObservation({
+          session_id: sess,
+          prompt_number: 1,
+          tool_name: tool,
+          raw_input: null,
+          compressed: JSON.stringify({ files_modified: [file] }),
+          obs_type: type,
+          title,
+          narrative: null,
+        });
+        raw.run('UPDATE observations SET created_at = ? WHERE id = ?', [createdAt, id]);
+      };
+      add('Edit', 'bugfix', 'queue retry crash', '/repo/src/worker/queue.ts', Date.UTC(2026, 8, 5) / 1000);
+      add('Bash', 'bugfix', 'queue test run', '/repo/tests/queue.test.ts', Date.UTC(2026, 7, 5) / 1000);
+      add('Edit', 'feature', 'queue metrics', '/repo/src/worker/metrics.ts', Date.UTC(2026, 8, 9) / 1000);
+      db.insertSummary({ session_id: sess, request: 'queue work', investigated: null, learned: null, completed: null, next_steps: null });
+    });
+
+    const titles = (hits: ReturnType<SearchService['searchScoped']>) =>
+      hits.map((h) => (h.kind === 'observation' ? h.title : h.kind)).sort();
+
+    test('type, tool, file and date filters narrow observations', () => {
+      expect(titles(search.searchScoped('queue type:bugfix', 'observations'))).toEqual([
+        'queue retry crash',
+        'queue test run',
+      ]);
+      expect(titles(search.searchScoped('queue -tool:Bash', 'observations'))).toEqual([
+        'queue metrics',
+        'queue retry crash',
+      ]);
+      expect(titles(search.searchScoped('file:src/worker/*', 'observations'))).toEqual([
+        'queue metrics',
+        'queue retry crash',
+      ]);
+      expect(titles(search.searchScoped('queue after:2026-09-01 before:2026-09-08', 'observations'))).toEqual([
+        'queue retry crash',
+      ]);
+    });
+
+    test('observation-only filters drop summaries; exclusions work alone', () => {
+      expect(titles(search.searchScoped('queue', 'all'))).toContain('summary');
+      expect(titles(search.searchScoped('queue type:bugfix', 'all'))).not.toContain('summary');
+      expect(titles(search.searchScoped('-metrics -crash', 'observations'))).toEqual(['queue test run']);
+    });
+  });
+});
+
+// ─── 16. Local Vector Index ───────────────────────────────────────────────────
+
+describe('VectorIndex', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let vectors: VectorIndex;
+  let sess: number;
+
+  const add = (title: string, narrative: string): number =>
+    db.insertObservation({
+      session_id: sess,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: JSON.stringify({ narrative, facts: [], files_modified: [] }),
+      obs_type: 'feature',
+      title,
+      narrative,
+    });
+  const vectorCount = () =>
+    (raw.query('SELECT COUNT(*) AS n FROM observation_vectors').get() as { n: number }).n;
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    vectors = new VectorIndex(raw);
+    sess = db.createSession('vec-sess', 'vec-proj');
+  });
+
+  test('embeddings are deterministic and unit length', () => {
+    const a = embedText('Retry the queue with exponential backoff');
+    const b = embedText('Retry the queue with exponential backoff');
+    expect(a).toHaveLength(VECTOR_DIMS);
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1, 5);
+    expect(tokenizeForVectors('parseQueryTokens for the_lexer')).toEqual(['parse', 'query', 'token', 'lex']);
+  });
+
+  test('inserts are indexed and related wording ranks first', () => {
+    const retry = add('Queue retry backoff', 'Failed jobs are retried with exponential backoff');
+    add('Dark mode toggle', 'Added a theme switch to the settings page');
+    add('Lexer tokens', 'The tokenizer now emits enum token kinds');
+    expect(vectorCount()).toBe(3);
+
+    const hits = vectors.search('retrying failed jobs');
+    expect(hits[0].id).toBe(retry);
+    expect(hits.every((h) => h.similarity > 0)).toBe(true);
+    expect(vectors.search('tokenization').map((h) => h.id)).not.toContain(retry);
+  });
+
+  test('edits re-embed the vector', () => {
+    const id = add('Queue retry backoff', 'Failed jobs are retried');
+    db.updateObservation(id, { title: 'Websocket reconnect', narrative: 'Socket reconnects after drops' }, 'test');
+    expect(vectorCount()).toBe(1);
+
+    expect(vectors.search('websocket reconnect')[0].id).toBe(id);
+    expect(vectors.search('queue retry')).toHaveLength(0);
+  });
+
+  test('search only reads; sync() embeds observations without a vector', () => {
+    const id = add('Queue retry backoff', 'Failed jobs are retried');
+    raw.run('DELETE FROM observation_vectors');
+
+    expect(vectors.search('queue retry')).toHaveLength(0);
+    expect(vectorCount()).toBe(0);
+    expect(vectors.sync()).toBe(1);
+    expect(vectors.search('queue retry')[0].id).toBe(id);
+  });
+
+  test('search scores the most recent observations plus explicit candidates', () => {
+    const old = add('Queue retry backoff', 'Failed jobs are retried');
+    add('Dark mode toggle', 'Added a theme switch');
+    add('Lexer tokens', 'The tokenizer emits token kinds');
+
+    expect(vectors.search('queue retry', { scanLimit: 2 })).toHaveLength(0);
+    expect(vectors.search('queue retry', { scanLimit: 2, candidates: [old] }).map((h) => h.id)).toEqual([old]);
+  });
+
+  test('trashed and other-project observations are excluded', () => {
+    const trashed = add('Queue retry', 'retry queue');
+    const kept = add('Queue retry policy', 'retry queue policy');
+    const other = db.createSession('vec-other', 'other-proj');
+    db.insertObservation({
+      session_id: other,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: 'retry queue elsewhere',
+      obs_type: 'other',
+      title: null,
+      narrative: null,
+    });
+    db.softDeleteObservation(trashed, 'test');
+
+    expect(vectors.search('queue retry', { project: 'vec-proj' }).map((h) => h.id)).toEqual([kept]);
+  });
+
+  test('searchVectors returns scoped rows with cosine distance scores', () => {
+    const id = add('Queue retry backoff', 'Failed jobs are retried with exponential backoff');
+    const hits = new SearchService(raw).searchVectors('exponential backoff', 'vec-proj');
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ id, kind: 'observation', project: 'vec-proj' });
+    expect(hits[0].score).toBeGreaterThanOrEqual(0);
+    expect(hits[0].score).toBeLessThan(1);
+  });
+
+  test('searchVectors applies the query language filters and exclusions to its hits', () => {
+    const feature = add('Queue retry backoff', 'Failed jobs are retried with exponential backoff');
+    const bugfix = db.insertObservation({
+      session_id: sess,
+      prompt_number: 2,
+      tool_name: 'Bash',
+      raw_input: null,
+      compressed: JSON.stringify({ narrative: 'Queue retry no longer loops forever', facts: [] }),
+      obs_type: 'bugfix',
+      title: 'Queue retry loop',
+      narrative: 'Queue retry no longer loops forever',
+    });
+    const service = new SearchService(raw);
+    const ids = (q: string) => service.searchVectors(q, 'vec-proj').map((h) => h.id);
+
+    expect(ids('queue retry').sort()).toEqual([feature, bugfix].sort());
+    expect(ids('queue retry type:bugfix')).toEqual([bugfix]);
+    expect(ids('queue retry -backoff')).toEqual([bugfix]);
+    expect(ids('queue retry -tool:Bash')).toEqual([feature]);
+    expect(ids('type:bugfix')).toEqual([]);
+    expect(() => service.searchVectors('queue type:', 'vec-proj')).toThrow(QuerySyntaxError);
+  });
+});
+
+// ─── 17. Hybrid Ranking ───────────────────────────────────────────────────────
+
+describe('Hybrid ranking', () => {
+  const settings = resolveRanking(DEFAULT_RANKING);
+  const now = 1_800_000_000;
+
+  test('scoreSignals fuses reciprocal ranks with type and recency priors', () => {
+    const r = scoreSignals({ bm25Rank: 1, semanticRank: 3, type: 'error', createdAt: now }, settings, now);
+    expect(r.bm25.score).toBeCloseTo(1 / 61, 10);
+    expect(r.semantic.score).toBeCloseTo(1 / 63, 10);
+    expect(r.type.score).toBeCloseTo(0.5 / 61, 10);
+    expect(r.recency).toMatchObject({ age_days: 0, decay: 1 });
+    expect(r.total).toBeCloseTo(r.bm25.score + r.semantic.score + r.type.score + r.recency.score, 12);
+
+    const old = scoreSignals({ bm25Rank: null, semanticRank: null, type: 'unknown', createdAt: now - 30 * 86_400 }, settings, now);
+    expect(old.recency.decay).toBeCloseTo(0.5, 10);
+    expect(old.bm25.score).toBe(0);
+    expect(old.type.priority).toBe(0);
+  });
+
+  test('resolveRanking merges per-project overrides', () => {
+    const policy = { ...DEFAULT_RANKING, projects: { fast: { weights: { recency: 4 }, halfLifeDays: 2 } } };
+    expect(resolveRanking(policy, 'fast')).toEqual({
+      weights: { bm25: 1, semantic: 1, type: 0.5, recency: 4 },
+      halfLifeDays: 2,
+      rrfK: 60,
+    });
+    expect(resolveRanking(policy, 'other')).toEqual(settings);
+  });
+
+  test('rankHybrid weighs relevance against recency', () => {
+    const items = [
+      { id: 'old-match', bm25Rank: 1, createdAt: now - 120 * 86_400 },
+      { id: 'new-miss', bm25Rank: null, createdAt: now },
+    ];
+    const signals = (i: (typeof items)[number]) => ({ ...i, semanticRank: null, type: 'other' });
+
+    expect(rankHybrid(items, signals, settings, now)[0].item.id).toBe('old-match');
+    const recent = resolveRanking({ ...DEFAULT_RANKING, projects: { p: { weights: { recency: 3 } } } }, 'p');
+    expect(rankHybrid(items, signals, recent, now)[0].item.id).toBe('new-miss');
+  });
+
+  test('textRanks ranks in-memory documents by BM25 and similarity', () => {
+    const ranks = textRanks('token refresh', [
+      'Dark mode toggle in settings',
+      'Fixed the token refresh race',
+      'Refreshing tokens now retries',
+    ]);
+    expect(ranks.bm25[0]).toBeNull();
+    expect(ranks.bm25[1]).toBe(1);
+    expect(ranks.semantic[0]).toBeNull();
+    expect(ranks.semantic[2]).not.toBeNull();
+  });
+
+  describe('SearchService.searchHybrid', () => {
+    let db: DbInterface;
+    let raw: Database;
+    let svc: SearchService;
+    let sess: number;
+
+    const add = (title: string, narrative: string, obsType = 'feature'): number =>
+      db.insertObservation({
+        session_id: sess,
+        prompt_number: 1,
+        tool_name: 'Edit',
+        raw_input: null,
+        compressed: JSON.stringify({ narrative, facts: [], files_modified: [] }),
+        obs_type: obsType,
+        title,
+        narrative,
+      });
+
+    beforeEach(() => {
+      ({ db, raw } = makeDb());
+      svc = new SearchService(raw);
+      sess = db.createSession('hyb-sess', 'hyb-proj');
+    });
+
+    test('vector hits join plain-text queries and scores are fused totals', () => {
+      const exact = add('Deduplicate imports', 'Imports are deduplicated on save');
+      const related = add('List cleanup', 'Removed duplicates from the list');
+      add('Dark mode toggle', 'Theme switch in settings');
+
+      const results = svc.searchHybrid('deduplicate', 'observations', settings, 'hyb-proj');
+      expect(results.map((r) => r.id)).toEqual([exact, related]);
+      expect(results[0].ranking.bm25.rank).toBe(1);
+      expect(results[1].ranking.bm25.rank).toBeNull();
+      expect(results[1].ranking.semantic.rank).not.toBeNull();
+      for (const r of results) expect(r.score).toBe(r.ranking.total);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    test('filters and exclusions keep vector-only hits out', () => {
+      const exact = add('Deduplicate imports', 'Imports are deduplicated on save', 'bugfix');
+      const related = add('List cleanup', 'Removed duplicates from the list', 'bugfix');
+
+      expect(svc.searchHybrid('deduplicate type:bugfix', 'observations', settings).map((r) => r.id))
+        .toEqual([exact]);
+      expect(svc.searchHybrid('deduplicate -imports', 'observations', settings)).toHaveLength(0);
+      expect(svc.searchHybrid('deduplicate', 'observations', settings).map((r) => r.id)).toContain(related);
+    });
+
+    test('type priority and recency order otherwise equal matches', () => {
+      const older = add('Queue retry', 'retry queue', 'feature');
+      const newer = add('Queue retry', 'retry queue', 'feature');
+      const bug = add('Queue retry', 'retry queue', 'bugfix');
+      raw.query('UPDATE observations SET created_at = created_at - 90 * 86400 WHERE id IN (?, ?)').run(older, bug);
+
+      const noText = { ...settings, weights: { ...settings.weights, bm25: 0, semantic: 0 } };
+      const ids = svc.searchHybrid('queue', 'observations', noText).map((r) => r.id);
+      expect(ids[0]).toBe(newer);
+      expect(ids.indexOf(bug)).toBeLessThan(ids.indexOf(older));
+    });
+  });
+});
+
+// ─── 18. Search Highlights ────────────────────────────────────────────────────
+
+describe('Search highlights', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let search: SearchService;
+  let obsId: number;
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    search = new SearchService(raw);
+    const sess = db.createSession('hl-sess', 'hl-proj');
+    obsId = db.insertObservation({
+      session_id: sess,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: 'Patched the tokenizer quote table',
+      obs_type: 'bugfix',
+      title: 'Tokenizer quotes',
+      narrative: 'Curly quotes made the tokenizer drop characters in long documents',
+    });
+    db.insertSummary({
+      session_id: sess,
+      request: 'Fix quoting',
+      investigated: null,
+      learned: 'The tokenizer normalises quotes first',
+      completed: null,
+      next_steps: null,
+    });
+    db.insertUserPrompt(sess, 1, 'Why does the tokenizer drop unicode quotes?\nSee the lexer logs.');
+  });
+
+  test('hits carry a marked snippet and per-column match offsets', () => {
+    const [hit] = search.searchScoped('tokenizer', 'observations');
+    expect(hit.snippet).toContain('**Tokenizer**');
+    expect(hit.matches.map((m) => m.column)).toEqual(['title', 'narrative', 'compressed']);
+
+    const narrative = hit.matches.find((m) => m.column === 'narrative')!;
+    const text = (hit as { narrative: string }).narrative;
+    expect(narrative.offsets.map(([start, end]) => text.slice(start, end))).toEqual(['tokenizer']);
+  });
+
+  test('markers and snippet length are configurable', () => {
+    const [hit] = search.searchScoped('characters', 'observations', undefined, 20, {
+      start: '<b>',
+      end: '</b>',
+      ellipsis: '...',
+      tokens: 3,
+    });
+    expect(hit.snippet).toBe('...drop <b>characters</b> in...');
+  });
+
+  test('summaries and prompts report their own columns; filter-only queries have no snippet', () => {
+    const summary = search.searchScoped('tokenizer', 'summaries')[0];
+    expect(summary.matches).toEqual([{ column: 'learned', offsets: [[4, 13]] }]);
+
+    const prompt = search.searchScoped('lexer', 'prompts')[0];
+    expect(prompt.matches[0].column).toBe('prompt');
+
+    const [filtered] = search.searchScoped('type:bugfix', 'observations');
+    expect(filtered).toMatchObject({ id: obsId, snippet: null, matches: [] });
+  });
+
+  test('compactResult keeps only id, title, type, snippet and score', () => {
+    const hits = search.searchScoped('tokenizer', 'all').map(compactResult);
+    expect(hits.map((h) => Object.keys(h).sort())).toEqual(
+      hits.map(() => ['id', 'score', 'snippet', 'title', 'type']),
+    );
+    expect(hits.find((h) => h.type === 'prompt')?.title).toBe('Why does the tokenizer drop unicode quotes?');
+    expect(hits.find((h) => h.type === 'summary')?.title).toBe('Fix quoting');
+    expect(hits.find((h) => h.type === 'bugfix')?.id).toBe(obsId);
+  });
+});
+
+// ─── 19. Search Facets ────────────────────────────────────────────────────────
+
+describe('Search facets', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let search: SearchService;
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    search = new SearchService(raw);
+    const app = db.createSession('facet-app', 'app');
+    const lib = db.createSession('facet-lib', 'lib');
+
+    // [session, type, tool, modified files, ISO time]
+    const rows: [number, string, string, string[], string][] = [
+      [app, 'bugfix', 'Edit', ['src/db/migrate.ts'], '2026-09-07T10:00:00Z'], // Monday
+      [app, 'bugfix', 'Bash', [], '2026-09-09T10:00:00Z'],
+      [app, 'decision', 'Edit', ['src/db/migrate.ts', 'README.md'], '2026-09-13T23:00:00Z'], // Sunday
+      [lib, 'bugfix', 'Edit', ['lib/migrate.ts'], '2026-09-14T08:00:00Z'],
+    ];
+    for (const [session, type, tool, files, at] of rows) {
+      const id = db.insertObservation({
+        session_id: session,
+        prompt_number: 1,
+        tool_name: tool,
+        raw_input: null,
+        compressed: JSON.stringify({ narrative: 'schema migration', files_read: ['package.json'], files_modified: files }),
+        obs_type: type,
+        title: 'Migration work',
+        narrative: 'schema migration',
+      });
+      raw.query('UPDATE observations SET created_at = ? WHERE id = ?').run(Date.parse(at) / 1000, id);
+    }
+    db.insertObservation({
+      session_id: app,
+      prompt_number: 1,
+      tool_name: 'Read',
+      raw_input: null,
+      compressed: 'unrelated',
+      obs_type: 'other',
+      title: 'Dark mode',
+      narrative: null,
+    });
+  });
+
+  test('counts every match by type, tool, project and modified file', () => {
+    const f = search.facets('migration');
+    expect(f.total).toBe(4);
+    expect(f.type).toEqual([{ value: 'bugfix', count: 3 }, { value: 'decision', count: 1 }]);
+    expect(f.tool).toEqual([{ value: 'Edit', count: 3 }, { value: 'Bash', count: 1 }]);
+    expect(f.project).toEqual([{ value: 'app', count: 3 }, { value: 'lib', count: 1 }]);
+    expect(f.file).toEqual([
+      { value: 'src/db/migrate.ts', count: 2 },
+      { value: 'README.md', count: 1 },
+      { value: 'lib/migrate.ts', count: 1 },
+    ]);
+  });
+
+  test('date buckets are UTC days and Monday-labelled weeks, newest first', () => {
+    const f = search.facets('migration');
+    expect(f.day.map((d) => d.value)).toEqual(['2026-09-14', '2026-09-13', '2026-09-09', '2026-09-07']);
+    expect(f.week).toEqual([
+      { value: '2026-09-14', count: 1 },
+      { value: '2026-09-07', count: 3 },
+    ]);
+  });
+
+  test('filters, project and limit narrow the facet set for drill-down', () => {
+    const f = search.facets('migration type:bugfix tool:Edit', 'app');
+    expect(f.total).toBe(1);
+    expect(f.file).toEqual([{ value: 'src/db/migrate.ts', count: 1 }]);
+
+    expect(search.facets('', undefined, 1).type).toEqual([{ value: 'bugfix', count: 3 }]);
+    expect(search.facets('').total).toBe(5);
+    expect(() => search.facets('type:')).toThrow(QuerySyntaxError);
+  });
+});
+
+// ─── 20. Paged Index and Timelines ────────────────────────────────────────────
+
+describe('Paged index and timelines', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let search: SearchService;
+  let sessA: number;
+  let sessB: number;
+  const ids: number[] = [];
+
+  const add = (session: number, title: string, at: number): number => {
+    const id = db.insertObservation({
+      session_id: session,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: 'queue work',
+      obs_type: 'change',
+      title,
+      narrative: null,
+    });
+    raw.query('UPDATE observations SET created_at = ? WHERE id = ?').run(at, id);
+    return id;
+  };
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    search = new SearchService(raw);
+    sessA = db.createSession('page-a', 'page-proj');
+    sessB = db.createSession('page-b', 'page-proj');
+    ids.length = 0;
+    // Session A: t = 100..104 (two rows share t = 102); session B: t = 200, 201
+    for (const [i, at] of [100, 101, 102, 102, 104].entries()) ids.push(add(sessA, `a${i}`, at));
+    ids.push(add(sessB, 'b0', 200), add(sessB, 'b1', 201));
+  });
+
+  test('searchIndexPage walks every hit exactly once', () => {
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = search.searchIndexPage('queue', { limit: 3, cursor });
+      seen.push(...page.results.map((r) => r.id));
+      cursor = page.next_cursor ?? undefined;
+      pages++;
+    } while (cursor);
+    expect(pages).toBe(3);
+    expect(seen.sort((a, b) => a - b)).toEqual([...ids].sort((a, b) => a - b));
+
+    const filtered = search.searchIndexPage('tool:Edit', { limit: 2 });
+    expect(filtered.results.map((r) => r.title)).toEqual(['b1', 'b0']);
+    expect(filtered.results[0].score).toBe(0);
+    const next = search.searchIndexPage('tool:Edit', { limit: 2, cursor: filtered.next_cursor! });
+    expect(next.results.map((r) => r.title)).toEqual(['a4', 'a3']);
+  });
+
+  test('malformed cursors are rejected', () => {
+    expect(() => search.searchIndexPage('queue', { cursor: 'nope' })).toThrow(CursorError);
+    const wrongShape = Buffer.from('[1,2,3]').toString('base64url');
+    expect(() => search.searchIndexPage('queue', { cursor: wrongShape })).toThrow(CursorError);
+    expect(() => search.timelinePage(ids[0], { cursor: Buffer.from('[0,1,2]').toString('base64url') }))
+      .toThrow(CursorError);
+  });
+
+  test('timelinePage windows the anchor and pages with cursors', () => {
+    const page = search.timelinePage(ids[2], { window: 1 })!;
+    expect(page.observations.map((o) => o.title)).toEqual(['a1', 'a2', 'a3']);
+
+    const older = search.timelinePage(ids[2], { window: 5, cursor: page.before_cursor! })!;
+    expect(older.observations.map((o) => o.title)).toEqual(['a0']);
+    expect(older.before_cursor).toBeNull();
+
+    const newer = search.timelinePage(ids[2], { window: 5, cursor: page.after_cursor! })!;
+    expect(newer.observations.map((o) => o.title)).toEqual(['a4']);
+    expect(newer.after_cursor).toBeNull();
+
+    const crossing = search.timelinePage(ids[4], { window: 2, crossSessions: true })!;
+    expect(crossing.observations.map((o) => o.title)).toEqual(['a2', 'a3', 'a4', 'b0', 'b1']);
+    expect(search.timelinePage(999_999)).toBeNull();
+  });
+
+  test('sessionTimeline interleaves prompts, observations and summaries', () => {
+    db.insertUserPrompt(sessA, 1, 'start the queue work');
+    db.insertSummary({ session_id: sessA, request: 'queue', investigated: null, learned: null, completed: null, next_steps: null });
+    raw.run('UPDATE user_prompts SET created_at = 100');
+    raw.run('UPDATE summaries SET created_at = 104');
+
+    const kinds: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = search.sessionTimeline(sessA, { limit: 3, cursor });
+      kinds.push(...page.entries.map((e) => (e.kind === 'observation' ? e.title! : e.kind)));
+      cursor = page.next_cursor ?? undefined;
+    } while (cursor);
+    expect(kinds).toEqual(['prompt', 'a0', 'a1', 'a2', 'a3', 'a4', 'summary']);
+  });
+});
+
+// ─── 21. Watches ──────────────────────────────────────────────────────────────
+
+describe('Watches', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let watches: WatchService;
+  let sess: number;
+  let other: number;
+
+  const add = (session: number, obs_type: string, title: string, narrative: string): number =>
+    db.insertObservation({
+      session_id: session,
+      prompt_number: 1,
+      tool_name: 'Bash',
+      raw_input: null,
+      compressed: narrative,
+      obs_type,
+      title,
+      narrative,
+    });
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    watches = new WatchService(raw);
+    sess = db.createSession('watch-a', 'watch-proj');
+    other = db.createSession('watch-b', 'other-proj');
+  });
+
+  test('create, list, update and delete', () => {
+    const w = watches.create({ name: 'migration errors', query: 'type:error migrations' });
+    expect(w).toMatchObject({ name: 'migration errors', project: null, enabled: true, match_count: 0 });
+    expect(w.last_matched_at).toBeNull();
+
+    const scoped = watches.create({ name: 'scoped', query: 'queue', project: 'other-proj' });
+    expect(watches.list().map((x) => x.id)).toEqual([w.id, scoped.id]);
+    expect(watches.list('watch-proj').map((x) => x.id)).toEqual([w.id]);
+
+    const updated = watches.update(w.id, { enabled: false, name: 'renamed' })!;
+    expect(updated).toMatchObject({ name: 'renamed', query: 'type:error migrations', enabled: false });
+    expect(watches.update(999, { name: 'x' })).toBeNull();
+
+    expect(watches.delete(w.id)).toBe(true);
+    expect(watches.delete(w.id)).toBe(false);
+    expect(watches.get(w.id)).toBeNull();
+  });
+
+  test('malformed queries are rejected on create and update', () => {
+    expect(() => watches.create({ name: 'bad', query: 'type:error (' })).toThrow(QuerySyntaxError);
+    const w = watches.create({ name: 'ok', query: 'queue' });
+    expect(() => watches.update(w.id, { query: '"unterminated' })).toThrow(QuerySyntaxError);
+    expect(watches.get(w.id)!.query).toBe('queue');
+  });
+
+  test('evaluate returns highlighted matches and counts them', () => {
+    const errors = watches.create({ name: 'migration errors', query: 'type:error migrations' });
+    const anyError = watches.create({ name: 'all errors', query: 'type:error' });
+    watches.create({ name: 'disabled', query: 'migrations', enabled: false });
+    watches.create({ name: 'elsewhere', query: 'migrations', project: 'other-proj' });
+
+    const id = add(sess, 'error', 'Migration v7 failed', 'The migrations runner crashed on startup');
+    const matches = watches.evaluate(id);
+    expect(matches.map((m) => m.watch.id)).toEqual([errors.id, anyError.id]);
+
+    const [hit, filterOnly] = matches;
+    expect(hit).toMatchObject({ observation_id: id, title: 'Migration v7 failed', obs_type: 'error', project: 'watch-proj' });
+    expect(hit.snippet).toBe('**Migration** v7 failed');
+    expect(hit.matches.map((m) => m.column)).toContain('narrative');
+    expect(filterOnly.snippet).toBeNull();
+
+    expect(watches.get(errors.id)!.match_count).toBe(1);
+    expect(watches.get(errors.id)!.last_matched_at).not.toBeNull();
+
+    expect(watches.evaluate(add(sess, 'change', 'Ran migrations', 'migrations applied'))).toEqual([]);
+    const elsewhere = watches.evaluate(add(other, 'error', 'Queue stalled', 'no match here'));
+    expect(elsewhere.map((m) => m.watch.name)).toEqual(['all errors']);
+    expect(watches.evaluate(999_999)).toEqual([]);
+  });
+});
+
+// ─── 22. Code-Aware Search ────────────────────────────────────────────────────
+
+describe('Code-aware search', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let search: SearchService;
+  let sess: number;
+
+  const add = (title: string, narrative: string, obs_type = 'change'): number =>
+    db.insertObservation({
+      session_id: sess,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: JSON.stringify({ files_modified: ['src/worker/queue.ts'] }),
+      obs_type,
+      title,
+      narrative,
+    });
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    search = new SearchService(raw);
+    sess = db.createSession('code-a', 'code-proj');
+  });
+
+  test('splitIdentifier handles camelCase, acronyms, snake_case and paths', () => {
+    expect(splitIdentifier('parseJsonBody')).toEqual(['parse', 'Json', 'Body']);
+    expect(splitIdentifier('HTTPServer')).toEqual(['HTTP', 'Server']);
+    expect(splitIdentifier('obs_fts')).toEqual(['obs', 'fts']);
+    expect(splitIdentifier('src/worker/queue.ts')).toEqual(['src', 'worker', 'queue', 'ts']);
+    expect(splitIdentifier('v7Migration')).toEqual(['v7', 'Migration']);
+  });
+
+  test('editDistance counts adjacent swaps as one edit', () => {
+    expect(editDistance('migratoins', 'migrations')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('abc', 'abcdef', 2)).toBe(3);
+  });
+
+  test('compileTrigramQuery splits words and drops sub-trigram parts', () => {
+    expect(compileTrigramQuery(parseQuery('parseJsonBody'))).toBe('("parse" AND "Json" AND "Body")');
+    expect(compileTrigramQuery(parseQuery('queue.ts'))).toBe('"queue"');
+    expect(compileTrigramQuery(parseQuery('obs_fts -legacy'))).toBe('("obs" AND "fts") NOT ("legacy")');
+    // An exclusion that would lose a short part is dropped, not narrowed to the rest
+    expect(compileTrigramQuery(parseQuery('queue -json_ab'))).toBe('"queue"');
+    expect(compileTrigramQuery(parseQuery('queue -json_abc'))).toBe('"queue" NOT (("json" AND "abc"))');
+    expect(compileTrigramQuery(parseQuery('ab OR queue'))).toBeNull();
+    expect(compileTrigramQuery(parseQuery('-queue'))).toBeNull();
+  });
+
+  test('searchCode finds identifier fragments the word index misses', () => {
+    const id = add('Cap parseJsonBody size', 'Requests over the limit now return 413');
+    add('Unrelated', 'Nothing to see');
+
+    expect(search.searchScoped('json body', 'observations')).toEqual([]);
+    const hits = search.searchCode('json body');
+    expect(hits.map((h) => h.id)).toEqual([id]);
+    expect(hits[0].kind).toBe('observation');
+    expect(hits[0].snippet).toBe('Cap parse**JsonBody** size');
+    expect(hits[0].matches[0].column).toBe('title');
+
+    expect(search.searchCode('parse_json_body').map((h) => h.id)).toEqual([id]);
+    expect(search.searchCode('json type:bugfix')).toEqual([]);
+
+    raw.query('UPDATE observations SET title = ? WHERE id = ?').run('Cap body size', id);
+    expect(search.searchCode('json body')).toEqual([]);
+  });
+
+  test('hybrid search ranks code matches after word matches', () => {
+    const word = add('Json body limits', 'Documented the json body cap');
+    const code = add('Cap parseJsonBody size', 'Requests over the limit now return 413');
+    const results = search.searchHybrid('json body', 'observations', resolveRanking(DEFAULT_RANKING));
+    expect(results.map((r) => r.id)).toEqual([word, code]);
+  });
+
+  test('suggest corrects words missing from the vocabulary', () => {
+    add('Run migrations on startup', 'The migrations runner applies pending versions', 'config');
+    add('Migration notes', 'migrations are idempotent');
+
+    expect(search.suggest('migrations')).toBeNull();
+    const fix = search.suggest('migratoins -runer "pending versoins" type:config');
+    expect(fix?.query).toBe('migrations -runner "pending versions" type:config');
+    expect(fix?.corrections).toEqual([
+      { term: 'migratoins', suggestion: 'migrations' },
+      { term: 'runer', suggestion: 'runner' },
+      { term: 'versoins', suggestion: 'versions' },
+    ]);
+    expect(search.suggest('zzzzqqq')).toBeNull();
+  });
+});
+
+// ─── 23. Command History ──────────────────────────────────────────────────────
+
+describe('Command history', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let commands: CommandService;
+  let sess: number;
+  let other: number;
+
+  const run = (session: number, command: string, result: string, at: number): number => {
+    const obsId = db.insertObservation({
+      session_id: session,
+      prompt_number: 1,
+      tool_name: 'Bash',
+      raw_input: null,
+      compressed: result,
+      obs_type: 'change',
+      title: command,
+      narrative: result,
+    });
+    raw.query('UPDATE observations SET created_at = ? WHERE id = ?').run(at, obsId);
+    const parsed = parseCommandRun('Bash', JSON.stringify({ command, cwd: '/repo' }), result);
+    commands.record(obsId, parsed!);
+    return obsId;
+  };
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    commands = new CommandService(raw);
+    sess = db.createSession('cmd-a', 'cmd-proj');
+    other = db.createSession('cmd-b', 'other-proj');
+  });
+
+  test('parseCommandRun reads structured fields and output markers', () => {
+    expect(parseCommandRun('Read', '{"file_path":"a.ts"}', '')).toBeNull();
+    expect(parseCommandRun('Bash', '{}', '')).toBeNull();
+
+    expect(parseCommandRun('bash', JSON.stringify({
+      command: 'bun test', cwd: '/repo', exit_code: 1, duration_ms: 2300,
+    }), 'ok')).toEqual({ command: 'bun test', cwd: '/repo', exit_code: 1, signal: null, duration_ms: 2300 });
+
+    expect(parseCommandRun('exec', JSON.stringify({ command: ['make', 'build'] }), 'Error\nExit code: 2\nDuration: 1.5s'))
+      .toEqual({ command: 'make build', cwd: null, exit_code: 2, signal: null, duration_ms: 1500 });
+    expect(parseCommandRun('shell', '"sleep 100"', 'Process killed by signal SIGKILL')?.signal).toBe('SIGKILL');
+    expect(parseCommandRun('Bash', '{"command":"sleep 600"}', 'Command timed out after 2m')?.signal).toBe('timeout');
+    expect(parseCommandRun('Bash', '{"command":"ls"}', 'a.ts b.ts')?.exit_code).toBeNull();
+  });
+
+  test('search filters by words, project and outcome, newest first', () => {
+    run(sess, 'bun run migrate --env dev', 'Exit code: 1', 100);
+    const ok = run(sess, 'bun run migrate --env dev', 'Exit code: 0', 200);
+    run(sess, 'ls src', 'a.ts', 300);
+    run(other, 'bun run migrate', 'Exit code: 0', 400);
+
+    const hits = commands.search({ query: 'MIGRATE bun', project: 'cmd-proj' });
+    expect(hits.map((h) => h.created_at)).toEqual([200, 100]);
+    expect(hits[0]).toMatchObject({
+      observation_id: ok, cwd: '/repo', exit_code: 0, failed: false, session_id: 'cmd-a', project: 'cmd-proj',
+    });
+
+    expect(commands.search({ failed: true }).map((h) => h.created_at)).toEqual([100]);
+    expect(commands.search({ failed: false }).map((h) => h.created_at)).toEqual([400, 200]);
+    expect(commands.search({ limit: 1 })).toHaveLength(1);
+
+    db.softDeleteObservation(ok, 'test');
+    expect(commands.search({ query: 'migrate', project: 'cmd-proj' }).map((h) => h.created_at)).toEqual([100]);
+  });
+
+  test('failing groups repeated failures of the same command line', () => {
+    run(sess, 'bun test', 'Exit code: 1', 100);
+    run(sess, 'bun test', 'Exit code: 0', 200);
+    run(sess, 'bun test', 'Process killed by signal SIGTERM', 300);
+    run(sess, 'tsc --noEmit', 'Exit code: 2', 400);
+
+    expect(commands.failing()).toEqual([{
+      project: 'cmd-proj',
+      command: 'bun test',
+      failures: 2,
+      runs: 3,
+      last_exit_code: null,
+      last_signal: 'SIGTERM',
+      last_failed_at: 300,
+    }]);
+    expect(commands.failing({ since: 250 })).toEqual([]);
+  });
+
+  test('commands go away with their observation and with forget', () => {
+    const obsId = run(sess, 'psql -c "select acmecorp"', 'Exit code: 0', 100);
+    run(sess, 'echo hi', 'hi', 200);
+    const report = new ForgetService(raw).purge({ query: 'acmecorp' });
+    expect(report.commands).toBe(1);
+    expect(commands.search().map((h) => h.command)).toEqual(['echo hi']);
+    expect(raw.query('SELECT COUNT(*) AS n FROM commands WHERE observation_id = ?').get(obsId)).toEqual({ n: 0 });
+  });
+});
+
+// ─── 24. Compression Cache ────────────────────────────────────────────────────
+
+describe('Compression cache', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let cache: CompressionCacheService;
+
+  const exec = (overrides: Partial<RawObservation> = {}): RawObservation => ({
+    tool_name: 'Bash',
+    tool_input: { command: 'bun test', cwd: '/repo', duration_ms: 812 },
+    tool_response: '12 pass\n0 fail\nRan 12 tests in 1.42s',
+    project: 'cache-proj',
+    prompt_number: 1,
+    user_goal: '',
+    ...overrides,
+  });
+  const compressed = (title: string): CompressedObservation => ({
+    type: 'change', title, narrative: 'Tests passed.', tags: ['test'], facts: [], files_read: [], files_modified: [],
+  });
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    cache = new CompressionCacheService(raw, { enabled: true, ttlDays: 7, maxEntries: 3 }, '1');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('keys ignore key order, timing, line endings, secrets and project', () => {
+    const key = compressionCacheKey(exec(), '1');
+    expect(compressionCacheKey(exec({
+      tool_name: 'bash',
+      tool_input: { duration_ms: 3000, cwd: '/repo', command: 'bun test' },
+      tool_response: '12 pass  \r\n0 fail\r\nRan 12 tests in 980ms\n',
+      project: 'elsewhere',
+    }), '1')).toBe(key);
+    expect(compressionCacheKey(exec({ tool_response: 'token sk-ant-REDACTED' }), '1'))
+      .toBe(compressionCacheKey(exec({ tool_response: 'token sk-ant-REDACTED' }), '1'));
+
+    expect(compressionCacheKey(exec({ tool_response: '11 pass\n1 fail' }), '1')).not.toBe(key);
+    expect(compressionCacheKey(exec({ tool_input: { command: 'bun test --watch', cwd: '/repo' } }), '1')).not.toBe(key);
+    expect(compressionCacheKey(exec(), '2')).not.toBe(key);
+  });
+
+  test('get counts hits and misses and serves stored compressions', () => {
+    expect(cache.get(exec())).toBeNull();
+    cache.set(exec(), compressed('Ran bun test'));
+    expect(cache.get(exec({ tool_input: { cwd: '/repo', command: 'bun test' } }))?.title).toBe('Ran bun test');
+
+    expect(cache.stats()).toEqual({ entries: 1, hits: 1, misses: 1, hit_rate: 0.5 });
+    expect(raw.query('SELECT hit_count FROM compression_cache').get()).toEqual({ hit_count: 1 });
+    expect(new CompressionCacheService(raw, { enabled: true, ttlDays: 7, maxEntries: 3 }, '2').get(exec())).toBeNull();
+  });
+
+  test('expired entries miss and the least recently used are evicted', () => {
+    cache.set(exec(), compressed('old'));
+    raw.query('UPDATE compression_cache SET created_at = unixepoch() - 8 * 86400').run();
+    expect(cache.get(exec())).toBeNull();
+
+    for (const n of [1, 2, 3]) {
+      cache.set(exec({ tool_response: `run ${n}` }), compressed(`run ${n}`));
+      raw.query('UPDATE compression_cache SET created_at = ? WHERE compressed LIKE ?')
+        .run(Math.floor(Date.now() / 1000) - 100 + n, `%run ${n}%`);
+    }
+    expect(cache.stats().entries).toBe(3); // expired entry evicted on the first set
+    cache.get(exec({ tool_response: 'run 1' }));
+    cache.set(exec({ tool_response: 'run 4' }), compressed('run 4'));
+
+    expect(cache.get(exec({ tool_response: 'run 2' }))).toBeNull();
+    expect(cache.get(exec({ tool_response: 'run 1' }))?.title).toBe('run 1');
+    expect(cache.stats().entries).toBe(3);
+  });
+
+  test('forget drops the whole cache once anything matches', () => {
+    const sess = db.createSession('cache-a', 'cache-proj');
+    db.insertObservation({
+      session_id: sess, prompt_number: 1, tool_name: 'Bash', raw_input: null,
+      compressed: 'acmecorp', obs_type: 'change', title: 'acmecorp', narrative: 'acmecorp',
+    });
+    cache.set(exec(), compressed('Ran bun test'));
+
+    const forget = new ForgetService(raw);
+    expect(forget.preview({ query: 'nothing-matches' }).compressionCache).toBe(0);
+    expect(forget.purge({ query: 'acmecorp' }).compressionCache).toBe(1);
+    expect(cache.stats().entries).toBe(0);
+  });
+});
+
+// ─── 25. LLM Usage ────────────────────────────────────────────────────────────
+
+describe('LLM usage', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let usage: UsageService;
+
+  // 2026-03-15T12:00:00Z
+  const NOW = Date.UTC(2026, 2, 15, 12);
+  const at = (iso: string) => Date.parse(iso) / 1000;
+
+  const call = (project: string, model: string, cost: number, when: number, ok = true): number => {
+    const id = usage.record({
+      project, provider: 'anthropic', model, purpose: 'compress',
+      input_tokens: ok ? 1_000 : 0, output_tokens: ok ? 200 : 0, latency_ms: 400, cost_usd: cost, ok,
+    });
+    raw.query('UPDATE llm_usage SET created_at = ? WHERE id = ?').run(when, id);
+    return id;
+  };
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    usage = new UsageService(raw);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('estimateCostUsd prices per million tokens; unpriced models are free', () => {
+    const prices = { 'claude-haiku-4-5': { input: 1, output: 5 } };
+    expect(estimateCostUsd('claude-haiku-4-5', 2_000_000, 100_000, prices)).toBeCloseTo(2.5);
+    expect(estimateCostUsd('llama3.1:8b', 2_000_000, 100_000, prices)).toBe(0);
+    expect(estimateCostUsd(null, 10, 10, prices)).toBe(0);
+  });
+
+  test('report groups calls by UTC day, project and model', () => {
+    call('app', 'claude-haiku-4-5', 0.01, at('2026-03-15T01:00:00Z'));
+    call('app', 'claude-haiku-4-5', 0.02, at('2026-03-15T11:00:00Z'));
+    call('app', 'claude-haiku-4-5', 0, at('2026-03-15T11:30:00Z'), false);
+    call('app', 'claude-3-haiku-20240307', 0.001, at('2026-03-15T11:45:00Z'));
+    call('lib', 'claude-haiku-4-5', 0.05, at('2026-03-14T23:59:00Z'));
+
+    const rows = usage.report({ since: at('2026-03-01T00:00:00Z') });
+    expect(rows.map((r) => [r.day, r.project, r.model, r.calls])).toEqual([
+      ['2026-03-15', 'app', 'claude-3-haiku-20240307', 1],
+      ['2026-03-15', 'app', 'claude-haiku-4-5', 3],
+      ['2026-03-14', 'lib', 'claude-haiku-4-5', 1],
+    ]);
+    expect(rows[1]).toMatchObject({ failed_calls: 1, input_tokens: 2_000, output_tokens: 400, avg_latency_ms: 400 });
+    expect(rows[1].cost_usd).toBeCloseTo(0.03);
+
+    expect(usage.report({ project: 'lib', since: at('2026-03-01T00:00:00Z') })).toHaveLength(1);
+    expect(usage.report({ since: at('2026-03-15T00:00:00Z') }).map((r) => r.project)).toEqual(['app', 'app']);
+  });
+
+  test('budgetStatus compares this UTC day and month against the limits', () => {
+    call('app', 'claude-haiku-4-5', 0.4, at('2026-03-15T08:00:00Z'));
+    call('app', 'claude-haiku-4-5', 3, at('2026-03-02T08:00:00Z'));
+    call('app', 'claude-haiku-4-5', 50, at('2026-02-27T08:00:00Z')); // last month
+    call('lib', 'claude-haiku-4-5', 9, at('2026-03-15T08:00:00Z'));
+
+    const status = usage.budgetStatus('app', { dailyUsd: 0.5, monthlyUsd: null }, NOW);
+    expect(status.daily_usd).toBeCloseTo(0.4);
+    expect(status.monthly_usd).toBeCloseTo(3.4);
+    expect(status.exceeded).toBe(false);
+
+    expect(usage.budgetStatus('app', { dailyUsd: 0.4, monthlyUsd: null }, NOW).exceeded).toBe(true);
+    expect(usage.budgetStatus('app', { dailyUsd: null, monthlyUsd: 3 }, NOW).exceeded).toBe(true);
+    expect(usage.budgetStatus('app', { dailyUsd: null, monthlyUsd: null }, NOW).exceeded).toBe(false);
+    expect(usage.budgetStatus('new', { dailyUsd: 1, monthlyUsd: 10 }, NOW)).toMatchObject({
+      daily_usd: 0, monthly_usd: 0, exceeded: false,
+    });
+  });
+});
+
+// ─── 26. Reprocessing ─────────────────────────────────────────────────────────
+
+describe('Reprocessing', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let reprocess: ReprocessService;
+  let sessA: number;
+  let sessB: number;
+
+  const observe = (
+    session: number,
+    title: string,
+    promptVersion: string | null,
+    rawInput: string | null = JSON.stringify({ tool_input: { command: 'bun test' }, tool_response: `${title} output` }),
+  ): number =>
+    db.insertObservation({
+      session_id: session,
+      prompt_number: 1,
+      tool_name: 'Bash',
+      raw_input: rawInput,
+      compressed: JSON.stringify({ type: 'change', narrative: `${title} narrative` }),
+      obs_type: 'change',
+      title,
+      narrative: `${title} narrative`,
+      prompt_version: promptVersion,
+      model: promptVersion ? 'claude-haiku-4-5' : 'rules',
+    });
+
+  const better = (title: string): CompressedObservation => ({
+    type: 'bugfix',
+    title,
+    narrative: `${title}, rewritten`,
+    tags: ['tests'],
+    facts: [],
+    files_read: [],
+    files_modified: ['src/queue.ts'],
+  });
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    reprocess = new ReprocessService(raw);
+    sessA = db.createSession('sess-a', 'app');
+    sessB = db.createSession('sess-b', 'lib');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('stores prompt version, model and JSON raw_input that stays parseable when scrubbed', () => {
+    const id = observe(sessA, 'Ran tests', '2', JSON.stringify({ tool_input: { token: 'x' }, tool_response: 'api_key: abc123def456ghi789jkl' }));
+    const row = db.getObservation(id);
+    expect(row?.prompt_version).toBe('2');
+    expect(row?.model).toBe('claude-haiku-4-5');
+    expect(JSON.parse(row?.raw_input ?? '')).toEqual({ tool_input: { token: 'x' }, tool_response: '[REDACTED]' });
+
+    const summaryId = db.insertSummary({
+      session_id: sessA, request: 'r', investigated: null, learned: null, completed: null, next_steps: null,
+      prompt_version: '1', model: 'rules',
+    });
+    expect(raw.query('SELECT prompt_version, model FROM summaries WHERE id = ?').get(summaryId)).toEqual({
+      prompt_version: '1', model: 'rules',
+    });
+  });
+
+  test('start selects older and rule-based observations, skipping those without raw_input', () => {
+    const old = observe(sessA, 'Old prompt', '1');
+    const rules = observe(sessA, 'By rule', null);
+    observe(sessA, 'Current prompt', '2');
+    observe(sessA, 'Legacy', null, null);
+    const otherProject = observe(sessB, 'Other project', '1');
+
+    const { run, observationIds } = reprocess.start('app', '2', '2');
+    expect(observationIds).toEqual([old, rules]);
+    expect(run).toMatchObject({ project: 'app', before_version: '2', status: 'running', total: 2, skipped: 1 });
+    expect(reprocess.active()?.id).toBe(run.id);
+
+    expect(reprocess.start(undefined, '2', '2').observationIds).toEqual([old, rules, otherProject]);
+    expect(reprocess.candidate(old)?.raw).toMatchObject({
+      tool_name: 'Bash', tool_input: { command: 'bun test' }, tool_response: 'Old prompt output', project: 'app',
+    });
+  });
+
+  test('staged compressions leave observations unchanged until confirmed', () => {
+    const id = observe(sessA, 'Old title', '1');
+    const { run } = reprocess.start('app', '2', '2');
+    reprocess.stage(run.id, id, better('New title'), 'claude-haiku-4-5');
+
+    expect(db.getObservation(id)?.title).toBe('Old title');
+    expect(reprocess.finish(run.id)?.status).toBe('ready');
+    expect(reprocess.preview(run.id)).toEqual([{
+      observation_id: id, old_title: 'Old title', new_title: 'New title',
+      old_type: 'change', new_type: 'bugfix', old_model: 'claude-haiku-4-5', new_model: 'claude-haiku-4-5',
+    }]);
+
+    expect(reprocess.confirm(run.id)).toEqual({ applied: 1, conflicts: 0 });
+    const updated = db.getObservation(id);
+    expect(updated).toMatchObject({ title: 'New title', obs_type: 'bugfix', prompt_version: '2', narrative: 'New title, rewritten' });
+    expect(JSON.parse(updated?.compressed ?? '{}').files_modified).toEqual(['src/queue.ts']);
+
+    const audit = db.getObservationAudit(id);
+    expect(audit[audit.length - 1]).toMatchObject({ action: 'update', actor: 'reprocess' });
+    expect(JSON.parse(audit[audit.length - 1].changes ?? '{}').title).toEqual({ from: 'Old title', to: 'New title' });
+    expect(reprocess.get(run.id)?.status).toBe('confirmed');
+    expect(reprocess.confirm(run.id)).toBeNull();
+  });
+
+  test('observations edited or trashed after staging are conflicts, not overwritten', () => {
+    const edited = observe(sessA, 'Edited', '1');
+    const trashed = observe(sessA, 'Trashed', '1');
+    const { run } = reprocess.start('app', '2', '2');
+    reprocess.stage(run.id, edited, better('Rewritten'), 'm');
+    reprocess.stage(run.id, trashed, better('Rewritten'), 'm');
+    reprocess.finish(run.id);
+
+    db.updateObservation(edited, { title: 'Fixed by hand' }, 'user');
+    db.softDeleteObservation(trashed, 'user');
+
+    expect(reprocess.confirm(run.id)).toEqual({ applied: 0, conflicts: 2 });
+    expect(db.getObservation(edited)?.title).toBe('Fixed by hand');
+  });
+
+  test('discard drops staged results and stops a running run', () => {
+    const a = observe(sessA, 'A', '1');
+    const b = observe(sessA, 'B', '1');
+    const { run } = reprocess.start('app', '2', '2');
+    reprocess.stage(run.id, a, better('A2'), 'm');
+
+    expect(reprocess.discard(run.id)).toBe(1);
+    reprocess.stage(run.id, b, better('B2'), 'm');
+    expect(reprocess.get(run.id)).toMatchObject({ status: 'discarded', processed: 1 });
+    expect(reprocess.finish(run.id)?.status).toBe('discarded');
+    expect(reprocess.confirm(run.id)).toBeNull();
+    expect(reprocess.discard(run.id)).toBeNull();
+    expect(db.getObservation(a)?.title).toBe('A');
+  });
+
+  test('runs interrupted by a restart fail but can still apply what they staged', () => {
+    const id = observe(sessA, 'Old', '1');
+    const { run } = reprocess.start('app', '2', '2');
+    reprocess.stage(run.id, id, better('New'), 'm');
+    reprocess.recordFailure(run.id);
+
+    expect(reprocess.failInterrupted()).toBe(1);
+    expect(reprocess.get(run.id)).toMatchObject({ status: 'failed', processed: 1, failed: 1 });
+    expect(reprocess.active()).toBeNull();
+    expect(reprocess.confirm(run.id)).toEqual({ applied: 1, conflicts: 0 });
+  });
+});
+
+// ─── 27. Summary Chunks ───────────────────────────────────────────────────────
+
+describe('Summary chunks', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let chunks: SummaryChunkService;
+  let sess: number;
+
+  const obs = (id: number, title: string, prompt = 1) => ({
+    id, type: 'change', title, narrative: `${title} narrative`, prompt_number: prompt,
+  });
+
+  const fields = (request: string) => ({
+    request, investigated: 'queue.ts', learned: 'None', completed: 'Retry loop', next_steps: 'None',
+  });
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    chunks = new SummaryChunkService(raw, '1');
+    sess = db.createSession('sess-chunks', 'app');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('keys chunks by observation content and prompt version', () => {
+    const chunk = [obs(1, 'Read queue'), obs(2, 'Fixed retry', 2)];
+    const key = summaryChunkKey(chunk, '1');
+    expect(summaryChunkKey([obs(1, 'Read queue'), obs(2, 'Fixed retry', 2)], '1')).toBe(key);
+    expect(summaryChunkKey([obs(1, 'Read queue'), obs(2, 'Fixed retries', 2)], '1')).not.toBe(key);
+    expect(summaryChunkKey(chunk, '2')).not.toBe(key);
+    expect(summaryChunkKey([chunk[1], chunk[0]], '1')).not.toBe(key);
+  });
+
+  test('stored summaries are returned for the same chunk only', () => {
+    const chunk = [obs(1, 'Read queue'), obs(2, 'Fixed retry', 3)];
+    expect(chunks.get(sess, chunk)).toBeNull();
+
+    chunks.set(sess, chunk, fields('Fix the queue'), 'llama3.1:8b');
+    expect(chunks.get(sess, chunk)).toEqual(fields('Fix the queue'));
+    expect(chunks.get(sess, [obs(1, 'Read queue'), obs(2, 'Fixed retry (edited)', 3)])).toBeNull();
+    expect(new SummaryChunkService(raw, '2').get(sess, chunk)).toBeNull();
+
+    expect(chunks.list(sess)).toEqual([expect.objectContaining({
+      first_observation_id: 1, last_observation_id: 2, observation_count: 2,
+      first_prompt: 1, last_prompt: 3, prompt_version: '1', model: 'llama3.1:8b',
+    })]);
+  });
+
+  test('retain drops chunks that are no longer part of the session', () => {
+    const first = [obs(1, 'A')];
+    const stale = [obs(2, 'B')];
+    chunks.set(sess, first, fields('first'), 'm');
+    chunks.set(sess, stale, fields('stale'), 'm');
+
+    chunks.retain(sess, [first, [obs(2, 'B edited')]]);
+    expect(chunks.list(sess).map((c) => c.request)).toEqual(['first']);
+
+    chunks.retain(sess, []);
+    expect(chunks.list(sess)).toEqual([]);
+  });
+
+  test('forget removes matching chunks and every chunk of a session with matched observations', () => {
+    const other = db.createSession('sess-other', 'app');
+    const id = db.insertObservation({
+      session_id: sess, prompt_number: 1, tool_name: 'Bash', raw_input: null,
+      compressed: JSON.stringify({ type: 'change' }), obs_type: 'change',
+      title: 'Rotated hunter2 secret', narrative: 'Rotated it',
+    });
+    chunks.set(sess, [obs(id, 'Rotated hunter2 secret')], fields('Rotate credentials'), 'm');
+    chunks.set(other, [obs(99, 'Other')], fields('Mentions hunter2'), 'm');
+    chunks.set(other, [obs(100, 'Unrelated')], fields('Unrelated'), 'm');
+
+    const forget = new ForgetService(raw);
+    expect(forget.preview({ query: 'hunter2' }).summaryChunks).toBe(2);
+    expect(forget.purge({ query: 'hunter2' }).summaryChunks).toBe(2);
+    expect(chunks.list(sess)).toEqual([]);
+    expect(chunks.list(other).map((c) => c.request)).toEqual(['Unrelated']);
+  });
+});
+
+// ─── 28. Checkpoints ──────────────────────────────────────────────────────────
+
+describe('Checkpoints', () => {
+  let db: DbInterface;
+  let raw: Database;
+  let checkpoints: CheckpointService;
+  let sess: number;
+
+  const policy = { checkpointEvery: 4, checkpointMinutes: 10 };
+  const observe = (session: number, title: string): number =>
+    db.insertObservation({
+      session_id: session,
+      prompt_number: 1,
+      tool_name: 'Edit',
+      raw_input: null,
+      compressed: JSON.stringify({ type: 'change' }),
+      obs_type: 'change',
+      title,
+      narrative: `${title} narrative`,
+    });
+  const save = (session: number, through: number, request = 'Refactor queue') =>
+    checkpoints.save({
+      session_id: session, request, investigated: 'queue.ts', learned: 'None', completed: 'None',
+      next_steps: 'None', prompt_version: '1', model: 'm', through_observation_id: through,
+    });
+
+  beforeEach(() => {
+    ({ db, raw } = makeDb());
+    checkpoints = new CheckpointService(raw);
+    sess = db.createSession('sess-cp', 'app');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('due after checkpointEvery new observations, counted from the last checkpoint', () => {
+    for (let i = 1; i <= 3; i++) observe(sess, `Step ${i}`);
+    expect(checkpoints.due(policy)).toEqual([]);
+
+    const fourth = observe(sess, 'Step 4');
+    expect(checkpoints.due(policy)).toEqual([
+      { session_id: sess, claude_session_id: 'sess-cp', project: 'app', pending: 4, reason: 'observations' },
+    ]);
+
+    save(sess, fourth);
+    observe(sess, 'Step 5');
+    expect(checkpoints.due(policy)).toEqual([]);
+    expect(checkpoints.due({ checkpointEvery: 1, checkpointMinutes: null }, { sessionId: sess })[0].pending).toBe(1);
+    expect(checkpoints.due({ checkpointEvery: null, checkpointMinutes: null })).toEqual([]);
+  });
+
+  test('due after checkpointMinutes for new observations; never for ended sessions', () => {
+    const other = db.createSession('sess-ended', 'app');
+    observe(sess, 'A');
+    observe(sess, 'B');
+    for (const t of ['C', 'D', 'E', 'F']) observe(other, t);
+    db.updateSessionStatus(other, 'completed');
+
+    const later = Date.now() + 11 * 60_000;
+    // The first checkpoint waits for minObservations
+    expect(checkpoints.due(policy, { now: later })).toEqual([]);
+    expect(checkpoints.due(policy, { now: later, minObservations: 2 })).toEqual([
+      expect.objectContaining({ session_id: sess, pending: 2, reason: 'minutes' }),
+    ]);
+    expect(checkpoints.due(policy, { minObservations: 2 })).toEqual([]);
+
+    save(sess, observe(sess, 'G'));
+    expect(checkpoints.due(policy, { now: later * 2 })).toEqual([]);
+  });
+
+  test('save replaces the previous checkpoint and leaves final summaries alone', () => {
+    const id = observe(sess, 'A');
+    db.insertSummary({
+      session_id: sess, request: 'final', investigated: null, learned: null, completed: null, next_steps: null,
+    });
+    const first = save(sess, id, 'first');
+    const second = save(sess, id, 'second');
+
+    expect(checkpoints.latest(sess)).toMatchObject({ id: second, request: 'second', checkpoint: 1, through_observation_id: id });
+    expect(raw.query('SELECT id FROM summaries WHERE id = ?').get(first)).toBeNull();
+    expect(raw.query('SELECT request, checkpoint FROM summaries ORDER BY id').all()).toEqual([
+      { request: 'final', checkpoint: 0 },
+      { request: 'second', checkpoint: 1 },
+    ]);
+  });
+
+  test('forget removes the checkpoint of a session with matched observations', () => {
+    const id = observe(sess, 'Rotated hunter2 secret');
+    save(sess, id, 'Rotate credentials');
+    db.insertSummary({
+      session_id: sess, request: 'Unrelated final', investigated: null, learned: null, completed: null, next_steps: null,
+    });
+
+    const report = new ForgetService(raw).purge({ query: 'hunter2' });
+    expect(report.summaries).toBe(1);
+    expect(checkpoints.latest(sess)).toBeNull();
+    expect(raw.query('SELECT COUNT(*) AS n FROM summaries').get()).toEqual({ n: 1 });
+  });
+});
@@ -7,6 +7,7 @@
  *   - POST /api/sessions/init creates a session
  *   - POST /api/observations queues observation
  *   - Queue: observation queued → processed → status changes
+ *   - Queue: saved watches evaluated per processed observation
  *   - Queue: stuck detection fires after 5min (mock timers)
  *   - SSE: isLocalhost checks
  *   - Context builder: produces correct structure
@@ -348,6 +349,145 @@ describe("ObservationQueue", () => {
     expect(drained.timedOut).toBe(true);
     expect(drained.processing).toBeGreaterThanOrEqual(1);
   });
+
+  it("emits watch-matched for each watch a processed observation matches", async () => {
+    const evaluated: number[] = [];
+    const matched: unknown[] = [];
+    q.on("watch-matched", (data) => matched.push(data));
+    q.setWatchEvaluator((observationId) => {
+      evaluated.push(observationId);
+      return [{
+        watchId: 7,
+        name: "migration errors",
+        query: "type:error migrations",
+        observationId,
+        project: "test-project",
+        title: "Migration failed",
+        type: "error",
+        snippet: "**migrations** failed",
+        matches: [{ column: "title", offsets: [[0, 10]] }],
+      }];
+    });
+    q.start(async () => 42);
+
+    const queueId = q.enqueue("sess-1", "Bash", { command: "bun migrate" }, "error");
+    await sleep(1_000);
+
+    expect(evaluated).toEqual([42]);
+    expect(matched).toHaveLength(1);
+    expect((matched[0] as Record<string, unknown>).watchId).toBe(7);
+    expect(store.getQueueItem(queueId)?.status).toBe("processed");
+  });
+
+  it("a failing watch evaluator does not fail the item", async () => {
+    q.setWatchEvaluator(() => {
+      throw new Error("bad watch");
+    });
+    q.start(async () => 43);
+
+    const queueId = q.enqueue("sess-1", "Read", {}, "output");
+    await sleep(1_000);
+
+    expect(store.getQueueItem(queueId)?.status).toBe("processed");
+  });
+
+  it("batches a session's items and runs what the batch did not store singly", async () => {
+    const batches: number[][] = [];
+    const singles: number[] = [];
+    q.setBatchProcessor(async (msgs) => {
+      batches.push(msgs.map((m) => m.queueId));
+      // Reply covered only the first two items
+      return new Map(msgs.slice(0, 2).map((m) => [m.queueId, m.queueId * 10]));
+    }, { maxItems: 3, windowMs: 200 });
+    const processedIds: number[] = [];
+    q.on("observation-processed", (data) => processedIds.push(data.observationId));
+
+    const ids = [1, 2, 3, 4].map((n) => q.enqueue("sess-1", "Read", {}, `output ${n}`));
+    q.start(async (queueId) => {
+      singles.push(queueId);
+      return queueId * 100;
+    });
+    await sleep(1_200);
+
+    // A full batch goes out at once; the lone 4th item waits out its window
+    expect(batches).toEqual([ids.slice(0, 3)]);
+    expect(singles).toEqual([ids[2], ids[3]]);
+    expect(processedIds).toEqual([ids[0] * 10, ids[1] * 10, ids[2] * 100, ids[3] * 100]);
+    for (const id of ids) expect(store.getQueueItem(id)?.status).toBe("processed");
+  });
+
+  it("falls back to single-item processing when the batch processor throws", async () => {
+    q.setBatchProcessor(async () => {
+      throw new Error("unparseable batch reply");
+    }, { maxItems: 5, windowMs: 50 });
+    const singles: number[] = [];
+    q.start(async (queueId) => {
+      singles.push(queueId);
+      return queueId;
+    });
+
+    const ids = [q.enqueue("sess-1", "Read", {}, "a"), q.enqueue("sess-1", "Edit", {}, "b")];
+    await sleep(1_000);
+
+    expect(singles).toEqual(ids);
+    for (const id of ids) expect(store.getQueueItem(id)?.status).toBe("processed");
+  });
+
+  it("waitForSessionDrain sends a waiting batch without waiting out the window", async () => {
+    const batches: number[][] = [];
+    q.setBatchProcessor(async (msgs) => {
+      batches.push(msgs.map((m) => m.queueId));
+      return new Map(msgs.map((m) => [m.queueId, m.queueId]));
+    }, { maxItems: 10, windowMs: 60_000 });
+    q.start(async () => {
+      throw new Error("single-item path not expected");
+    });
+
+    const ids = [q.enqueue("sess-1", "Read", {}, "a"), q.enqueue("sess-1", "Read", {}, "b")];
+    await sleep(100);
+    expect(batches).toEqual([]);
+
+    const drained = await q.waitForSessionDrain("sess-1", { timeoutMs: 1_000, pollIntervalMs: 25 });
+    expect(drained.timedOut).toBe(false);
+    expect(batches).toEqual([ids]);
+  });
+
+  it("tags items with the budget guard's mode and skips batching when stopped", async () => {
+    let mode: "normal" | "downgrade" | "stop" = "downgrade";
+    const checked: string[] = [];
+    q.setBudgetGuard((project) => {
+      checked.push(project);
+      return mode;
+    });
+    const transitions: string[] = [];
+    q.on("budget-mode", (e) => transitions.push(`${e.project}:${e.previous}→${e.mode}`));
+    const batches: number[][] = [];
+    q.setBatchProcessor(async (msgs) => {
+      batches.push(msgs.map((m) => m.queueId));
+      return new Map();
+    }, { maxItems: 2, windowMs: 100 });
+    const seen: Array<[number, string | undefined]> = [];
+    q.start(async (queueId, msg) => {
+      seen.push([queueId, msg.budgetMode]);
+      return queueId;
+    });
+
+    const first = [q.enqueue("sess-1", "Read", {}, "a"), q.enqueue("sess-1", "Read", {}, "b")];
+    await sleep(800);
+    mode = "stop";
+    const second = [q.enqueue("sess-1", "Read", {}, "c"), q.enqueue("sess-1", "Read", {}, "d")];
+    await sleep(1_000);
+
+    expect(checked.every((p) => p === "test-project")).toBe(true);
+    expect(batches).toEqual([first]);
+    expect(seen).toEqual([
+      [first[0], "downgrade"],
+      [first[1], "downgrade"],
+      [second[0], "stop"],
+      [second[1], "stop"],
+    ]);
+    expect(transitions).toEqual(["test-project:normal→downgrade", "test-project:downgrade→stop"]);
+  });
 });
 
 // ───────────────────────────────────────────────────────
@@ -614,6 +754,43 @@ describe("ContextBuilder", () => {
     expect(result.markdown).not.toContain("exec — passthrough");
     expect(result.observationCount).toBeLessThanOrEqual(4);
   });
+
+  it("shows one summary per session, the checkpoint for sessions that never ended", () => {
+    const store = new MockSessionStore();
+    const now = Date.now();
+    const summary = (sessionId: string, request: string, ageMs: number, checkpoint = false) =>
+      store.createSummary({
+        session_id: sessionId,
+        project: "proj",
+        prompt_number: 1,
+        request,
+        work_done: "",
+        discoveries: "",
+        remaining: "",
+        notes: "",
+        created_at: new Date(now - ageMs).toISOString(),
+        created_at_epoch: now - ageMs,
+        checkpoint,
+      });
+
+    store.createSession("sess-crashed", "proj", "Refactor the queue");
+    summary("sess-crashed", "Stop summary from an early pause", 60_000);
+    summary("sess-crashed", "Queue refactor checkpoint", 30_000, true);
+
+    store.createSession("sess-ended", "proj", "Fix auth");
+    store.updateSessionStatus("sess-ended", "completed");
+    summary("sess-ended", "Ended session checkpoint", 5_000, true);
+    summary("sess-ended", "Fix auth final summary", 10_000);
+
+    const result = new ContextBuilder(store, { maxSessions: 2 }).build("proj");
+
+    expect(result.summaryCount).toBe(2);
+    expect(result.markdown).toContain("Queue refactor checkpoint");
+    expect(result.markdown).toContain("_(checkpoint, no final summary)_");
+    expect(result.markdown).not.toContain("Stop summary from an early pause");
+    expect(result.markdown).toContain("Fix auth final summary");
+    expect(result.markdown).not.toContain("Ended session checkpoint");
+  });
 });
 
 // ───────────────────────────────────────────────────────